@@ -4,6 +4,13 @@ import { MigrationService } from './services/migration'
 import { PartnerService } from './services/partner'
 import { CreatorService } from './services/creator'
 import { StateService } from './services/state'
+import { LookupTableService } from './services/lookupTable'
+import { EventService } from './services/event'
+import { SubscriptionService } from './services/subscription'
+import { HistoryService } from './services/history'
+import { DammV2PositionService } from './services/dammV2Position'
+import { TokenSwapService } from './services/tokenSwap'
+import { AdminService } from './services/admin'
 
 export class DynamicBondingCurveClient {
     public pool: PoolService
@@ -11,6 +18,13 @@ export class DynamicBondingCurveClient {
     public creator: CreatorService
     public migration: MigrationService
     public state: StateService
+    public lookupTable: LookupTableService
+    public event: EventService
+    public subscription: SubscriptionService
+    public history: HistoryService
+    public dammV2Position: DammV2PositionService
+    public tokenSwap: TokenSwapService
+    public admin: AdminService
     public commitment: Commitment
     public connection: Connection
 
@@ -20,6 +34,13 @@ export class DynamicBondingCurveClient {
         this.creator = new CreatorService(connection, commitment)
         this.migration = new MigrationService(connection, commitment)
         this.state = new StateService(connection, commitment)
+        this.lookupTable = new LookupTableService(connection, commitment)
+        this.event = new EventService(connection, commitment)
+        this.subscription = new SubscriptionService(connection, commitment)
+        this.history = new HistoryService(connection, commitment)
+        this.dammV2Position = new DammV2PositionService(connection, commitment)
+        this.tokenSwap = new TokenSwapService(connection, commitment)
+        this.admin = new AdminService(connection, commitment)
         this.commitment = commitment
         this.connection = connection
     }
@@ -14,6 +14,7 @@ export const MAX_FEE_BPS = 9900 // 99%
 export const MIN_FEE_BPS = 1 // 0.0001%
 export const MIN_FEE_NUMERATOR = 100_000 // 0.0001%
 export const MAX_FEE_NUMERATOR = 990_000_000 // 99%
+export const DAMM_V2_MAX_FEE_NUMERATOR = 500_000_000 // 50%
 export const BASIS_POINT_MAX = 10000
 export const MAX_CURVE_POINT = 16
 export const PARTNER_SURPLUS_SHARE = 80 // 80%
@@ -21,10 +22,21 @@ export const SWAP_BUFFER_PERCENTAGE = 25 // 25%
 export const MAX_SWALLOW_PERCENTAGE = 20 // 20%
 export const MAX_MIGRATION_FEE_PERCENTAGE = 50 // 50%
 export const MAX_CREATOR_MIGRATION_FEE_PERCENTAGE = 100 // 100%
+export const LOCKED_PROFIT_DEGRADATION_DENOMINATOR = new BN(1_000_000_000_000) // dynamic vault
 
 export const MAX_RATE_LIMITER_DURATION_IN_SECONDS = 43200 // 12 hours
 export const MAX_RATE_LIMITER_DURATION_IN_SLOTS = 108000 // 12 hours
 
+export const MAX_MULTIPLE_ACCOUNTS = 100 // getMultipleAccountsInfo limit
+export const MAX_LOOKUP_TABLE_ADDRESSES = 256
+export const MAX_LOOKUP_TABLE_EXTEND_ADDRESSES = 20 // per transaction
+
+export const MAX_COMPUTE_UNIT_LIMIT = 1_400_000
+export const COMPUTE_UNIT_LIMIT_MARGIN_BPS_DEFAULT = 1000 // 10%
+export const MAX_PRIORITIZATION_FEE_ACCOUNTS = 128 // getRecentPrioritizationFees limit
+
+export const EVENT_IX_TAG = Buffer.from('e445a52e51cb9a1d', 'hex') // prefix of anchor self-CPI event instructions
+
 export const SLOT_DURATION = 400
 export const TIMESTAMP_DURATION = 1000
 
@@ -50,6 +62,9 @@ export const LOCKER_PROGRAM_ID = new PublicKey(
 export const BASE_ADDRESS = new PublicKey(
     'HWzXGcGHy4tcpYfaRDCyLNzXqBTv3E6BttpCH2vJxArv'
 )
+export const TREASURY_ADDRESS = new PublicKey(
+    '4EWqcx3aNZmMetCnxwLYwyNjan6XLGp3Ca2W316vrSjv'
+)
 
 // Dynamic Fee
 export const DYNAMIC_FEE_FILTER_PERIOD_DEFAULT = 10
@@ -228,6 +228,19 @@ export function derivePartnerMetadata(feeClaimer: PublicKey): PublicKey {
     return partnerMetadata
 }
 
+/**
+ * Derive claim fee operator address
+ * @param operator - The operator
+ * @returns The claim fee operator address
+ */
+export function deriveClaimFeeOperatorAddress(operator: PublicKey): PublicKey {
+    const [claimFeeOperator] = PublicKey.findProgramAddressSync(
+        [Buffer.from(SEED.CLAIM_FEE_OPERATOR), operator.toBuffer()],
+        DYNAMIC_BONDING_CURVE_PROGRAM_ID
+    )
+    return claimFeeOperator
+}
+
 /**
  * Derive DBC pool metadata
  * @param pool - The pool
@@ -6,9 +6,12 @@ import {
     BuildCurveWithMarketCapParam,
     BuildCurveWithLiquidityWeightsParam,
     BuildCurveWithTwoSegmentsParam,
+    BuildCurveWithRaiseAndMultipleParam,
+    BuildCurveWithCheckpointsParam,
     BaseFeeMode,
+    Rounding,
 } from '../types'
-import { MAX_SQRT_PRICE } from '../constants'
+import { MAX_CURVE_POINT, MAX_SQRT_PRICE } from '../constants'
 import {
     getSqrtPriceFromPrice,
     getMigrationBaseToken,
@@ -27,8 +30,12 @@ import {
     getMigrationQuoteThresholdFromMigrationQuoteAmount,
     getBaseFeeParams,
 } from './common'
-import { getInitialLiquidityFromDeltaBase } from '../math/curve'
+import {
+    getDeltaAmountQuoteUnsigned,
+    getInitialLiquidityFromDeltaBase,
+} from '../math/curve'
 import { convertDecimalToBN, convertToLamports, fromDecimalToBN } from './utils'
+import { validateCurveParameters } from './validation'
 
 /**
  * Build a custom constant product curve
@@ -681,3 +688,388 @@ export function buildCurveWithLiquidityWeights(
     }
     return instructionParams
 }
+
+/**
+ * Build a custom constant product curve by the raise amount and the price multiple
+ * @param buildCurveWithRaiseAndMultipleParam - The parameters for the custom constant product curve by raise amount and price multiple
+ * @returns The build custom constant product curve by raise amount and price multiple
+ */
+export function buildCurveWithRaiseAndMultiple(
+    buildCurveWithRaiseAndMultipleParam: BuildCurveWithRaiseAndMultipleParam
+): ConfigParameters {
+    const {
+        totalTokenSupply,
+        migrationQuoteThreshold,
+        priceMultiple,
+        percentageSupplyOnMigration,
+        migrationOption,
+        tokenBaseDecimal,
+        tokenQuoteDecimal,
+        leftover,
+        migrationFee,
+    } = buildCurveWithRaiseAndMultipleParam
+
+    if (!(priceMultiple > 1)) {
+        throw new Error('Price multiple must be greater than 1')
+    }
+
+    const {
+        totalLockedVestingAmount,
+        numberOfVestingPeriod,
+        cliffUnlockAmount,
+        totalVestingDuration,
+        cliffDurationFromMigrationTime,
+    } = buildCurveWithRaiseAndMultipleParam.lockedVestingParam
+
+    const lockedVesting = getLockedVestingParams(
+        totalLockedVestingAmount,
+        numberOfVestingPeriod,
+        cliffUnlockAmount,
+        totalVestingDuration,
+        cliffDurationFromMigrationTime,
+        tokenBaseDecimal
+    )
+
+    const totalSupply = convertToLamports(totalTokenSupply, tokenBaseDecimal)
+    const totalLeftover = convertToLamports(leftover, tokenBaseDecimal)
+    const totalVestingAmount = getTotalVestingAmount(lockedVesting)
+    const sqrtPriceMultiple = new Decimal(priceMultiple).sqrt()
+
+    let configParameters: ConfigParameters
+    if (percentageSupplyOnMigration === undefined) {
+        // with one segment the multiple fixes the migration supply (see getFirstCurve)
+        // Pmax / Pmin = Swap_amount * f / Migration_amount, f = 1 - migrationFeePercent / 100
+        // => Migration_amount = (Total - Vesting - Leftover) * f / (Pmax / Pmin + f)
+        const feeFactor = new Decimal(100)
+            .sub(new Decimal(migrationFee.feePercentage))
+            .div(new Decimal(100))
+        const migrationBaseSupply = new Decimal(
+            totalSupply.sub(totalVestingAmount).sub(totalLeftover).toString()
+        )
+            .mul(feeFactor)
+            .div(sqrtPriceMultiple.add(feeFactor))
+
+        configParameters = buildCurve({
+            ...buildCurveWithRaiseAndMultipleParam,
+            percentageSupplyOnMigration: migrationBaseSupply
+                .mul(new Decimal(100))
+                .div(new Decimal(totalSupply.toString()))
+                .toNumber(),
+            migrationQuoteThreshold,
+        })
+    } else {
+        // with two segments the migration supply is given and the start price follows the multiple
+        const migrationQuoteAmount =
+            getMigrationQuoteAmountFromMigrationQuoteThreshold(
+                new Decimal(migrationQuoteThreshold),
+                migrationFee.feePercentage
+            )
+        const migrationBaseSupply = new Decimal(totalTokenSupply)
+            .mul(new Decimal(percentageSupplyOnMigration))
+            .div(new Decimal(100))
+        const migrationPrice = migrationQuoteAmount.div(migrationBaseSupply)
+
+        const migrateSqrtPrice = getSqrtPriceFromPrice(
+            migrationPrice.toString(),
+            tokenBaseDecimal,
+            tokenQuoteDecimal
+        )
+
+        const migrationBaseAmount = getMigrationBaseToken(
+            fromDecimalToBN(
+                migrationQuoteAmount.mul(new Decimal(10 ** tokenQuoteDecimal))
+            ),
+            migrateSqrtPrice,
+            migrationOption
+        )
+
+        const swapAmount = totalSupply
+            .sub(migrationBaseAmount)
+            .sub(totalVestingAmount)
+            .sub(totalLeftover)
+
+        const initialSqrtPrice = new BN(
+            new Decimal(migrateSqrtPrice.toString())
+                .div(sqrtPriceMultiple)
+                .floor()
+                .toFixed()
+        )
+
+        // the same mid prices as buildCurveWithTwoSegments:
+        // (p1 * p2)^(1/2), (p1 * p2^3)^(1/4) and (p1^3 * p2)^(1/4)
+        const p1 = new Decimal(initialSqrtPrice.toString())
+        const p2 = new Decimal(migrateSqrtPrice.toString())
+        const midPrices = [
+            p1.mul(p2).sqrt(),
+            Decimal.pow(p1.mul(Decimal.pow(p2, 3)), 0.25),
+            Decimal.pow(Decimal.pow(p1, 3).mul(p2), 0.25),
+        ].map((midSqrtPrice) => new BN(midSqrtPrice.floor().toFixed()))
+
+        const migrationQuoteThresholdInLamport = convertToLamports(
+            migrationQuoteThreshold,
+            tokenQuoteDecimal
+        )
+
+        let sqrtStartPrice = new BN(0)
+        let curve: { sqrtPrice: BN; liquidity: BN }[] = []
+        for (const midSqrtPrice of midPrices) {
+            const result = getTwoCurve(
+                migrateSqrtPrice,
+                midSqrtPrice,
+                initialSqrtPrice,
+                swapAmount,
+                migrationQuoteThresholdInLamport
+            )
+            if (result.isOk) {
+                curve = result.curve
+                sqrtStartPrice = result.sqrtStartPrice
+                break
+            }
+        }
+        if (curve.length === 0) {
+            throw new Error(
+                'Price multiple cannot be reached with two segments for this percentage supply on migration'
+            )
+        }
+
+        const totalDynamicSupply = getTotalSupplyFromCurve(
+            migrationQuoteThresholdInLamport,
+            sqrtStartPrice,
+            curve,
+            lockedVesting,
+            migrationOption,
+            totalLeftover,
+            migrationFee.feePercentage
+        )
+
+        if (totalDynamicSupply.gt(totalSupply)) {
+            // precision loss is used for leftover
+            const leftOverDelta = totalDynamicSupply.sub(totalSupply)
+            if (!leftOverDelta.lt(totalLeftover)) {
+                throw new Error('leftOverDelta must be less than totalLeftover')
+            }
+        }
+
+        // the fees, vesting and supply are the same as a one segment curve
+        configParameters = {
+            ...buildCurve({
+                ...buildCurveWithRaiseAndMultipleParam,
+                percentageSupplyOnMigration,
+                migrationQuoteThreshold,
+            }),
+            sqrtStartPrice,
+            curve,
+        }
+    }
+
+    validateCurveParameters(configParameters)
+
+    return configParameters
+}
+
+/**
+ * Build a custom constant product curve from market cap and supply sold checkpoints, one segment per checkpoint
+ * @param buildCurveWithCheckpointsParam - The parameters for the custom constant product curve with checkpoints
+ * @returns The build custom constant product curve with checkpoints
+ */
+export function buildCurveWithCheckpoints(
+    buildCurveWithCheckpointsParam: BuildCurveWithCheckpointsParam
+): ConfigParameters {
+    const {
+        totalTokenSupply,
+        initialMarketCap,
+        checkpoints,
+        migrationOption,
+        tokenBaseDecimal,
+        tokenQuoteDecimal,
+        dynamicFeeEnabled,
+        activationType,
+        collectFeeMode,
+        migrationFeeOption,
+        tokenType,
+        partnerLpPercentage,
+        creatorLpPercentage,
+        partnerLockedLpPercentage,
+        creatorLockedLpPercentage,
+        creatorTradingFeePercentage,
+        leftover,
+        migrationFee,
+        tokenUpdateAuthority,
+        baseFeeParams,
+    } = buildCurveWithCheckpointsParam
+
+    if (checkpoints.length === 0 || checkpoints.length > MAX_CURVE_POINT) {
+        throw new Error(
+            `Number of checkpoints must be between 1 and ${MAX_CURVE_POINT}`
+        )
+    }
+
+    // checkpoints must go up in both market cap and supply sold
+    const orderErrors: string[] = []
+    checkpoints.forEach((checkpoint, i) => {
+        const previousMarketCap =
+            i === 0 ? initialMarketCap : checkpoints[i - 1].marketCap
+        const previousPercentage =
+            i === 0 ? 0 : checkpoints[i - 1].percentageSupplySold
+        if (!(checkpoint.marketCap > previousMarketCap)) {
+            orderErrors.push(
+                `checkpoints[${i}]: market cap must be above ${previousMarketCap}`
+            )
+        }
+        if (
+            !(checkpoint.percentageSupplySold > previousPercentage) ||
+            checkpoint.percentageSupplySold > 100
+        ) {
+            orderErrors.push(
+                `checkpoints[${i}]: percentage of supply sold must be above ${previousPercentage} and at most 100`
+            )
+        }
+    })
+    if (orderErrors.length > 0) {
+        throw new Error(`Infeasible checkpoints: ${orderErrors.join('; ')}`)
+    }
+
+    const baseFee = getBaseFeeParams(
+        baseFeeParams,
+        tokenQuoteDecimal,
+        activationType
+    )
+
+    const {
+        totalLockedVestingAmount,
+        numberOfVestingPeriod,
+        cliffUnlockAmount,
+        totalVestingDuration,
+        cliffDurationFromMigrationTime,
+    } = buildCurveWithCheckpointsParam.lockedVestingParam
+
+    const lockedVesting = getLockedVestingParams(
+        totalLockedVestingAmount,
+        numberOfVestingPeriod,
+        cliffUnlockAmount,
+        totalVestingDuration,
+        cliffDurationFromMigrationTime,
+        tokenBaseDecimal
+    )
+
+    const totalSupply = convertToLamports(totalTokenSupply, tokenBaseDecimal)
+    const totalLeftover = convertToLamports(leftover, tokenBaseDecimal)
+    const totalVestingAmount = getTotalVestingAmount(lockedVesting)
+
+    const sqrtStartPrice = getSqrtPriceFromMarketCap(
+        initialMarketCap,
+        totalTokenSupply,
+        tokenBaseDecimal,
+        tokenQuoteDecimal
+    )
+
+    // each segment sells the supply between two checkpoints:
+    // Base_amount = L * (1/Pmin - 1/Pmax) => L = Base_amount * Pmin * Pmax / (Pmax - Pmin)
+    const soldAmounts = checkpoints.map((checkpoint) =>
+        convertDecimalToBN(
+            new Decimal(totalSupply.toString())
+                .mul(new Decimal(checkpoint.percentageSupplySold))
+                .div(new Decimal(100))
+        )
+    )
+    const curve: { sqrtPrice: BN; liquidity: BN }[] = []
+    let lowerSqrtPrice = sqrtStartPrice
+    let migrationQuoteThreshold = new BN(0)
+    for (let i = 0; i < checkpoints.length; i++) {
+        const upperSqrtPrice = getSqrtPriceFromMarketCap(
+            checkpoints[i].marketCap,
+            totalTokenSupply,
+            tokenBaseDecimal,
+            tokenQuoteDecimal
+        )
+        const baseAmount =
+            i === 0 ? soldAmounts[0] : soldAmounts[i].sub(soldAmounts[i - 1])
+        const liquidity = getInitialLiquidityFromDeltaBase(
+            baseAmount,
+            upperSqrtPrice,
+            lowerSqrtPrice
+        )
+        curve.push({ sqrtPrice: upperSqrtPrice, liquidity })
+
+        // rounded down so the migration price does not pass the last checkpoint
+        migrationQuoteThreshold = migrationQuoteThreshold.add(
+            getDeltaAmountQuoteUnsigned(
+                lowerSqrtPrice,
+                upperSqrtPrice,
+                liquidity,
+                Rounding.Down
+            )
+        )
+        lowerSqrtPrice = upperSqrtPrice
+    }
+
+    const migrationQuoteAmount =
+        getMigrationQuoteAmountFromMigrationQuoteThreshold(
+            new Decimal(migrationQuoteThreshold.toString()),
+            migrationFee.feePercentage
+        )
+    const migrationBaseAmount = getMigrationBaseToken(
+        fromDecimalToBN(migrationQuoteAmount),
+        lowerSqrtPrice,
+        migrationOption
+    )
+
+    // the supply sold by every checkpoint must leave the migration, vesting and leftover amounts
+    const maxSoldAmount = totalSupply
+        .sub(migrationBaseAmount)
+        .sub(totalVestingAmount)
+        .sub(totalLeftover)
+    const supplyErrors: string[] = []
+    soldAmounts.forEach((soldAmount, i) => {
+        if (soldAmount.gt(maxSoldAmount)) {
+            supplyErrors.push(
+                `checkpoints[${i}]: ${checkpoints[i].percentageSupplySold}% sold leaves less than the migration, vesting and leftover amounts`
+            )
+        }
+    })
+    if (supplyErrors.length > 0) {
+        throw new Error(`Infeasible checkpoints: ${supplyErrors.join('; ')}`)
+    }
+
+    const instructionParams: ConfigParameters = {
+        poolFees: {
+            baseFee: {
+                ...baseFee,
+            },
+            dynamicFee: dynamicFeeEnabled
+                ? getDynamicFeeParams(
+                      baseFeeParams.baseFeeMode === BaseFeeMode.RateLimiter
+                          ? baseFeeParams.rateLimiterParam.baseFeeBps
+                          : baseFeeParams.feeSchedulerParam.endingFeeBps
+                  )
+                : null,
+        },
+        activationType,
+        collectFeeMode,
+        migrationOption,
+        tokenType,
+        tokenDecimal: tokenBaseDecimal,
+        migrationQuoteThreshold,
+        partnerLpPercentage,
+        creatorLpPercentage,
+        partnerLockedLpPercentage,
+        creatorLockedLpPercentage,
+        sqrtStartPrice,
+        lockedVesting,
+        migrationFeeOption,
+        tokenSupply: {
+            preMigrationTokenSupply: totalSupply,
+            postMigrationTokenSupply: totalSupply,
+        },
+        creatorTradingFeePercentage,
+        padding0: [],
+        padding1: [],
+        curve,
+        migrationFee,
+        tokenUpdateAuthority,
+    }
+
+    validateCurveParameters(instructionParams)
+
+    return instructionParams
+}
@@ -2,17 +2,21 @@ import {
     BaseFee,
     DynamicFeeParameters,
     BaseFeeMode,
+    MigrationFeeOption,
     MigrationOption,
     Rounding,
     TokenDecimal,
     type LiquidityDistributionParameters,
     type LockedVestingParameters,
     ActivationType,
+    type PoolConfig,
 } from '../types'
 import {
     BASIS_POINT_MAX,
     BIN_STEP_BPS_DEFAULT,
     BIN_STEP_BPS_U128_DEFAULT,
+    DAMM_V1_MIGRATION_FEE_ADDRESS,
+    DAMM_V2_MIGRATION_FEE_ADDRESS,
     DYNAMIC_FEE_DECAY_PERIOD_DEFAULT,
     DYNAMIC_FEE_FILTER_PERIOD_DEFAULT,
     DYNAMIC_FEE_REDUCTION_FACTOR_DEFAULT,
@@ -20,6 +24,7 @@ import {
     MAX_FEE_BPS,
     MAX_FEE_NUMERATOR,
     MAX_MIGRATION_FEE_PERCENTAGE,
+    MAX_MULTIPLE_ACCOUNTS,
     MAX_PRICE_CHANGE_BPS_DEFAULT,
     MAX_RATE_LIMITER_DURATION_IN_SECONDS,
     MAX_RATE_LIMITER_DURATION_IN_SLOTS,
@@ -36,9 +41,9 @@ import {
     getInitialLiquidityFromDeltaQuote,
     getNextSqrtPriceFromInput,
 } from '../math/curve'
-import { Connection, PublicKey } from '@solana/web3.js'
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js'
 import type { DynamicBondingCurve } from '../idl/dynamic-bonding-curve/idl'
-import { Program } from '@coral-xyz/anchor'
+import { Program, type Idl } from '@coral-xyz/anchor'
 import { bpsToFeeNumerator, convertToLamports, fromDecimalToBN } from './utils'
 
 /**
@@ -92,6 +97,113 @@ export async function getAccountData<T>(
     return (await program.account[accountType].fetchNullable(address)) as T
 }
 
+/**
+ * Get multiple account data, fetched in chunks with getMultipleAccountsInfo
+ * @param accountAddresses - The addresses of the accounts
+ * @param accountType - The type of the accounts
+ * @param program - The program instance
+ * @returns The account data in the same order as the addresses, or null if not found
+ */
+export async function getMultipleAccountData<
+    T,
+    I extends Idl = DynamicBondingCurve,
+>(
+    accountAddresses: Array<PublicKey | string>,
+    accountType: keyof Program<I>['account'] & string,
+    program: Program<I>
+): Promise<Array<T | null>> {
+    const addresses = accountAddresses.map((address) =>
+        address instanceof PublicKey ? address : new PublicKey(address)
+    )
+
+    const accountInfos = []
+    for (let i = 0; i < addresses.length; i += MAX_MULTIPLE_ACCOUNTS) {
+        const chunk = addresses.slice(i, i + MAX_MULTIPLE_ACCOUNTS)
+        accountInfos.push(
+            ...(await program.provider.connection.getMultipleAccountsInfo(
+                chunk
+            ))
+        )
+    }
+
+    return decodeAccountInfos<T, I>(accountInfos, accountType, program)
+}
+
+/**
+ * Get multiple account data with the slot it was read at. The later chunks are
+ * read at or after the slot of the first chunk.
+ * @param accountAddresses - The addresses of the accounts
+ * @param accountType - The type of the accounts
+ * @param program - The program instance
+ * @param minContextSlot - The minimum slot to read the accounts at
+ * @returns The slot of the first chunk, and the account data in the same order as the addresses, or null if not found
+ */
+export async function getMultipleAccountDataAndContext<
+    T,
+    I extends Idl = DynamicBondingCurve,
+>(
+    accountAddresses: Array<PublicKey | string>,
+    accountType: keyof Program<I>['account'] & string,
+    program: Program<I>,
+    minContextSlot?: number
+): Promise<{ slot: number; accounts: Array<T | null> }> {
+    const { connection } = program.provider
+    const addresses = accountAddresses.map((address) =>
+        address instanceof PublicKey ? address : new PublicKey(address)
+    )
+
+    if (addresses.length === 0) {
+        return {
+            slot: minContextSlot ?? (await connection.getSlot()),
+            accounts: [],
+        }
+    }
+
+    let slot: number | undefined
+    const accountInfos = []
+    for (let i = 0; i < addresses.length; i += MAX_MULTIPLE_ACCOUNTS) {
+        const chunk = addresses.slice(i, i + MAX_MULTIPLE_ACCOUNTS)
+        const { context, value } =
+            await connection.getMultipleAccountsInfoAndContext(chunk, {
+                minContextSlot: slot ?? minContextSlot,
+            })
+        slot ??= context.slot
+        accountInfos.push(...value)
+    }
+
+    return {
+        slot,
+        accounts: decodeAccountInfos<T, I>(accountInfos, accountType, program),
+    }
+}
+
+/**
+ * Decode the accounts owned by the program, null for missing or other accounts
+ * @param accountInfos - The account infos
+ * @param accountType - The type of the accounts
+ * @param program - The program instance
+ * @returns The account data in the same order as the account infos
+ */
+function decodeAccountInfos<T, I extends Idl>(
+    accountInfos: Array<AccountInfo<Buffer> | null>,
+    accountType: keyof Program<I>['account'] & string,
+    program: Program<I>
+): Array<T | null> {
+    return accountInfos.map((accountInfo) => {
+        if (!accountInfo || !accountInfo.owner.equals(program.programId)) {
+            return null
+        }
+        try {
+            return program.coder.accounts.decode<T>(
+                accountType,
+                accountInfo.data
+            )
+        } catch {
+            return null
+        }
+    })
+}
+
 /**
  * Get creation timestamp for an account
  * @param accountAddress - The address of the account
@@ -370,6 +482,33 @@ export const getMigrationMarketCap = (
     return migrationMarketCap
 }
 
+/**
+ * Get the DAMM config address a pool migrates with
+ * @param migrationOption - The migration option of the pool config
+ * @param migrationFeeOption - The migration fee option of the pool config
+ * @returns The DAMM V1 or DAMM V2 config address
+ */
+export function getDammConfigAddress(
+    migrationOption: MigrationOption,
+    migrationFeeOption: MigrationFeeOption
+): PublicKey {
+    const dammConfigAddresses =
+        migrationOption === MigrationOption.MET_DAMM
+            ? DAMM_V1_MIGRATION_FEE_ADDRESS
+            : migrationOption === MigrationOption.MET_DAMM_V2
+              ? DAMM_V2_MIGRATION_FEE_ADDRESS
+              : null
+    if (!dammConfigAddresses) {
+        throw new Error(`Invalid migration option: ${migrationOption}`)
+    }
+
+    const dammConfig = dammConfigAddresses[migrationFeeOption]
+    if (!dammConfig) {
+        throw new Error(`Invalid migration fee option: ${migrationFeeOption}`)
+    }
+    return dammConfig
+}
+
 /**
  * Get the base token for migration
  * @param migrationQuoteAmount - The migration quote amount to deposit to pool
@@ -423,6 +562,20 @@ export const getTotalVestingAmount = (
     return totalVestingAmount
 }
 
+/**
+ * Get the total token supply of a pool config
+ * @param config - The pool config state
+ * @returns The post migration supply if fixed, otherwise the sum of the allocations
+ */
+export const getConfigTotalSupply = (config: PoolConfig): BN => {
+    if (config.fixedTokenSupplyFlag === 1) {
+        return config.postMigrationTokenSupply
+    }
+    return config.swapBaseAmount
+        .add(config.migrationBaseThreshold)
+        .add(getTotalVestingAmount(config.lockedVestingConfig))
+}
+
 /**
  * Get the liquidity
  * @param baseAmount - The base amount
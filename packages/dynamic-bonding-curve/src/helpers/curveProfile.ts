@@ -0,0 +1,261 @@
+import BN from 'bn.js'
+import Decimal from 'decimal.js'
+import {
+    getDeltaAmountBaseUnsigned,
+    getDeltaAmountQuoteUnsigned,
+} from '../math/curve'
+import {
+    getConfigTotalSupply,
+    getDeltaAmountBase,
+    getMigrationThresholdPrice,
+    getPriceFromSqrtPrice,
+    getTotalVestingAmount,
+} from './common'
+import {
+    Rounding,
+    type ConfigParameters,
+    type CurveProfile,
+    type CurveSamplePoint,
+    type CurveSamples,
+    type CurveSegmentProfile,
+    type LiquidityDistributionParameters,
+    type PoolConfig,
+    type TokenDecimal,
+    type VirtualPool,
+} from '../types'
+
+/**
+ * Describe the curve of a pool config: the price range, base tokens sold,
+ * quote tokens raised and market caps of every curve segment, with totals
+ * that reconcile with the supply allocations of the config
+ * @param config - The pool config state
+ * @param tokenQuoteDecimal - The quote token decimal, not stored in the config
+ * @returns The curve profile
+ */
+export function describeCurve(
+    config: PoolConfig,
+    tokenQuoteDecimal: TokenDecimal
+): CurveProfile {
+    const {
+        sqrtStartPrice,
+        migrationSqrtPrice,
+        swapBaseAmount,
+        migrationBaseThreshold,
+        migrationQuoteThreshold,
+    } = config
+    const tokenBaseDecimal = config.tokenDecimal as TokenDecimal
+
+    const lockedVestingAmount = getTotalVestingAmount(
+        config.lockedVestingConfig
+    )
+    const totalSupply = getConfigTotalSupply(config)
+
+    const getPrice = (sqrtPrice: BN) =>
+        getPriceFromSqrtPrice(sqrtPrice, tokenBaseDecimal, tokenQuoteDecimal)
+    const getMarketCap = (price: Decimal) =>
+        price
+            .mul(totalSupply.toString())
+            .div(new Decimal(10).pow(tokenBaseDecimal))
+
+    const segments: CurveSegmentProfile[] = []
+    let totalBaseSold = new BN(0)
+    let totalQuoteRaised = new BN(0)
+
+    // the config curve is zero padded after the last segment
+    for (let i = 0; i < config.curve.length; i++) {
+        const { sqrtPrice: upperSqrtPrice, liquidity } = config.curve[i]
+        if (upperSqrtPrice.isZero()) {
+            break
+        }
+        const lowerSqrtPrice =
+            i === 0 ? sqrtStartPrice : config.curve[i - 1].sqrtPrice
+
+        // swaps stop at the migration price, the rest of the curve is never traded
+        let baseAmount = new BN(0)
+        let quoteAmount = new BN(0)
+        if (lowerSqrtPrice.lt(migrationSqrtPrice)) {
+            const tradedUpperSqrtPrice = BN.min(
+                upperSqrtPrice,
+                migrationSqrtPrice
+            )
+            // rounded up, the same way the program computes swapBaseAmount
+            baseAmount = getDeltaAmountBase(
+                lowerSqrtPrice,
+                tradedUpperSqrtPrice,
+                liquidity
+            )
+            quoteAmount = getDeltaAmountQuoteUnsigned(
+                lowerSqrtPrice,
+                tradedUpperSqrtPrice,
+                liquidity,
+                Rounding.Up
+            )
+        }
+
+        const startPrice = getPrice(lowerSqrtPrice)
+        const endPrice = getPrice(upperSqrtPrice)
+        segments.push({
+            index: i,
+            lowerSqrtPrice,
+            upperSqrtPrice,
+            liquidity,
+            startPrice,
+            endPrice,
+            startMarketCap: getMarketCap(startPrice),
+            endMarketCap: getMarketCap(endPrice),
+            baseAmount,
+            quoteAmount,
+        })
+        totalBaseSold = totalBaseSold.add(baseAmount)
+        totalQuoteRaised = totalQuoteRaised.add(quoteAmount)
+    }
+
+    const startPrice = getPrice(sqrtStartPrice)
+    const migrationPrice = getPrice(migrationSqrtPrice)
+
+    return {
+        segments,
+        startPrice,
+        migrationPrice,
+        startMarketCap: getMarketCap(startPrice),
+        migrationMarketCap: getMarketCap(migrationPrice),
+        totalSupply,
+        totalBaseSold,
+        totalQuoteRaised,
+        swapBaseAmount,
+        migrationBaseThreshold,
+        migrationQuoteThreshold,
+        lockedVestingAmount,
+        leftover: totalSupply
+            .sub(swapBaseAmount)
+            .sub(migrationBaseThreshold)
+            .sub(lockedVestingAmount),
+    }
+}
+
+/**
+ * Sample the curve of a pool config or of config parameters for charting:
+ * the price, base tokens sold and quote tokens raised at evenly spaced sqrt
+ * prices from the start of the curve to the migration price
+ * @param config - The pool config state or the config parameters
+ * @param tokenQuoteDecimal - The quote token decimal, not stored in the config
+ * @param virtualPool - The pool state, to mark its current position (optional)
+ * @param sampleCount - The number of sample points, at least 2 (default 100)
+ * @returns The sample points with the current and migration points
+ */
+export function sampleCurve(
+    config: ConfigParameters | PoolConfig,
+    tokenQuoteDecimal: TokenDecimal,
+    virtualPool?: VirtualPool | null,
+    sampleCount: number = 100
+): CurveSamples {
+    if (!Number.isInteger(sampleCount) || sampleCount < 2) {
+        throw new Error('Sample count must be an integer of at least 2')
+    }
+
+    const { sqrtStartPrice } = config
+    const tokenBaseDecimal = config.tokenDecimal as TokenDecimal
+    // the config curve is zero padded after the last segment
+    const curve: LiquidityDistributionParameters[] = []
+    for (const point of config.curve) {
+        if (point.sqrtPrice.isZero()) {
+            break
+        }
+        curve.push(point)
+    }
+    const migrationSqrtPrice =
+        'migrationSqrtPrice' in config
+            ? config.migrationSqrtPrice
+            : getMigrationThresholdPrice(
+                  config.migrationQuoteThreshold,
+                  sqrtStartPrice,
+                  curve
+              )
+
+    const toNumber = (amount: BN, decimal: number) =>
+        new Decimal(amount.toString())
+            .div(new Decimal(10).pow(decimal))
+            .toNumber()
+
+    const getPoint = (sqrtPrice: BN): CurveSamplePoint => {
+        let baseSold = new BN(0)
+        let quoteRaised = new BN(0)
+        for (let i = 0; i < curve.length; i++) {
+            const lowerSqrtPrice =
+                i === 0 ? sqrtStartPrice : curve[i - 1].sqrtPrice
+            if (lowerSqrtPrice.gte(sqrtPrice)) {
+                break
+            }
+            const upperSqrtPrice = BN.min(curve[i].sqrtPrice, sqrtPrice)
+            baseSold = baseSold.add(
+                getDeltaAmountBaseUnsigned(
+                    lowerSqrtPrice,
+                    upperSqrtPrice,
+                    curve[i].liquidity,
+                    Rounding.Up
+                )
+            )
+            quoteRaised = quoteRaised.add(
+                getDeltaAmountQuoteUnsigned(
+                    lowerSqrtPrice,
+                    upperSqrtPrice,
+                    curve[i].liquidity,
+                    Rounding.Up
+                )
+            )
+        }
+
+        return {
+            sqrtPrice: sqrtPrice.toString(),
+            price: getPriceFromSqrtPrice(
+                sqrtPrice,
+                tokenBaseDecimal,
+                tokenQuoteDecimal
+            ).toNumber(),
+            baseSold: toNumber(baseSold, tokenBaseDecimal),
+            quoteRaised: toNumber(quoteRaised, tokenQuoteDecimal),
+        }
+    }
+
+    const sqrtPriceRange = migrationSqrtPrice.sub(sqrtStartPrice)
+    const points = Array.from({ length: sampleCount }, (_, i) =>
+        getPoint(
+            sqrtStartPrice.add(sqrtPriceRange.muln(i).divn(sampleCount - 1))
+        )
+    )
+
+    return {
+        points,
+        current: virtualPool ? getPoint(virtualPool.sqrtPrice) : null,
+        migration: points[points.length - 1],
+    }
+}
+
+/**
+ * Format curve samples as CSV, with the current and migration points marked
+ * in a marker column and sorted with the sample points
+ * @param curveSamples - The curve samples
+ * @returns The CSV text with a header row
+ */
+export function curveSamplesToCsv(curveSamples: CurveSamples): string {
+    const { points, current, migration } = curveSamples
+
+    const rows = points.map((point) => ({
+        point,
+        marker: point === migration ? 'migration' : '',
+    }))
+    if (current) {
+        rows.push({ point: current, marker: 'current' })
+    }
+    rows.sort((a, b) =>
+        new BN(a.point.sqrtPrice).cmp(new BN(b.point.sqrtPrice))
+    )
+
+    return [
+        'sqrtPrice,price,baseSold,quoteRaised,marker',
+        ...rows.map(
+            ({ point, marker }) =>
+                `${point.sqrtPrice},${point.price},${point.baseSold},${point.quoteRaised},${marker}`
+        ),
+    ].join('\n')
+}
@@ -0,0 +1,274 @@
+import {
+    PublicKey,
+    SendTransactionError,
+    type Connection,
+} from '@solana/web3.js'
+import DynamicBondingCurveIDL from '../idl/dynamic-bonding-curve/idl.json'
+import DammV1IDL from '../idl/damm-v1/idl.json'
+import DammV2IDL from '../idl/damm-v2/idl.json'
+import DynamicVaultIDL from '../idl/dynamic-vault/idl.json'
+import {
+    DAMM_V1_PROGRAM_ID,
+    DAMM_V2_PROGRAM_ID,
+    DYNAMIC_BONDING_CURVE_PROGRAM_ID,
+    VAULT_PROGRAM_ID,
+} from '../constants'
+import type { DammV2ErrorName, DbcErrorName } from '../types'
+
+// e.g. "Program dbcij3LWUppWqq96dh6gJWwBifmcGfLSB5D4DuSMaqN failed: custom program error: 0x1770"
+const CUSTOM_PROGRAM_ERROR_LOG =
+    /^Program (\w+) failed: custom program error: 0x([0-9a-fA-F]+)$/
+
+/**
+ * Error thrown by one of the programs used by the SDK, decoded from its IDL
+ */
+export class MeteoraProgramError<
+    TErrorName extends string = string,
+> extends Error {
+    /** The program that threw the error */
+    readonly programId: PublicKey
+    /** The custom error code */
+    readonly code: number
+    /** The error name in the IDL, in camelCase */
+    readonly errorName: TErrorName
+    /** The transaction logs the error was parsed from */
+    readonly logs: string[]
+
+    constructor(
+        programId: PublicKey,
+        code: number,
+        errorName: TErrorName,
+        message: string,
+        logs: string[] = []
+    ) {
+        super(message)
+        this.name = 'MeteoraProgramError'
+        this.programId = programId
+        this.code = code
+        this.errorName = errorName
+        this.logs = logs
+    }
+}
+
+/**
+ * Error thrown by the Dynamic Bonding Curve program
+ */
+export class DbcError extends MeteoraProgramError<DbcErrorName> {
+    constructor(
+        code: number,
+        errorName: DbcErrorName,
+        message: string,
+        logs: string[] = []
+    ) {
+        super(DYNAMIC_BONDING_CURVE_PROGRAM_ID, code, errorName, message, logs)
+        this.name = 'DbcError'
+    }
+}
+
+/**
+ * Error thrown by the DAMM V1 program
+ */
+export class DammV1Error extends MeteoraProgramError {
+    constructor(
+        code: number,
+        errorName: string,
+        message: string,
+        logs: string[] = []
+    ) {
+        super(DAMM_V1_PROGRAM_ID, code, errorName, message, logs)
+        this.name = 'DammV1Error'
+    }
+}
+
+/**
+ * Error thrown by the DAMM V2 program
+ */
+export class DammV2Error extends MeteoraProgramError<DammV2ErrorName> {
+    constructor(
+        code: number,
+        errorName: DammV2ErrorName,
+        message: string,
+        logs: string[] = []
+    ) {
+        super(DAMM_V2_PROGRAM_ID, code, errorName, message, logs)
+        this.name = 'DammV2Error'
+    }
+}
+
+/**
+ * Error thrown by the dynamic vault program
+ */
+export class VaultError extends MeteoraProgramError {
+    constructor(
+        code: number,
+        errorName: string,
+        message: string,
+        logs: string[] = []
+    ) {
+        super(VAULT_PROGRAM_ID, code, errorName, message, logs)
+        this.name = 'VaultError'
+    }
+}
+
+type IdlError = { code: number; name: string; msg?: string }
+
+// program address => IDL errors and the error class to decode them into
+const PROGRAM_ERRORS = new Map<
+    string,
+    {
+        errors: IdlError[]
+        createError: (
+            code: number,
+            errorName: string,
+            message: string,
+            logs: string[]
+        ) => MeteoraProgramError
+    }
+>([
+    [
+        DYNAMIC_BONDING_CURVE_PROGRAM_ID.toBase58(),
+        {
+            errors: DynamicBondingCurveIDL.errors,
+            createError: (code, errorName, message, logs) =>
+                new DbcError(code, errorName as DbcErrorName, message, logs),
+        },
+    ],
+    [
+        DAMM_V1_PROGRAM_ID.toBase58(),
+        {
+            errors: DammV1IDL.errors,
+            createError: (code, errorName, message, logs) =>
+                new DammV1Error(code, errorName, message, logs),
+        },
+    ],
+    [
+        DAMM_V2_PROGRAM_ID.toBase58(),
+        {
+            errors: DammV2IDL.errors,
+            createError: (code, errorName, message, logs) =>
+                new DammV2Error(
+                    code,
+                    errorName as DammV2ErrorName,
+                    message,
+                    logs
+                ),
+        },
+    ],
+    [
+        VAULT_PROGRAM_ID.toBase58(),
+        {
+            errors: DynamicVaultIDL.errors,
+            createError: (code, errorName, message, logs) =>
+                new VaultError(code, errorName, message, logs),
+        },
+    ],
+])
+
+/**
+ * Decode a custom error code of a program into a typed error
+ * @param programId - The program that returned the error
+ * @param code - The custom error code
+ * @param logs - The transaction logs, if any
+ * @returns The decoded error or null if the program or code is unknown
+ */
+export function decodeProgramError(
+    programId: PublicKey,
+    code: number,
+    logs: string[] = []
+): MeteoraProgramError | null {
+    const programErrors = PROGRAM_ERRORS.get(programId.toBase58())
+    if (!programErrors) {
+        return null
+    }
+
+    const idlError = programErrors.errors.find((error) => error.code === code)
+    if (!idlError) {
+        return null
+    }
+
+    // the IDL json names are PascalCase, the typed IDL names are camelCase
+    const errorName =
+        idlError.name.charAt(0).toLowerCase() + idlError.name.slice(1)
+
+    return programErrors.createError(
+        code,
+        errorName,
+        idlError.msg ?? errorName,
+        logs
+    )
+}
+
+/**
+ * Parse the first custom program error of a known program out of transaction logs.
+ * When a CPI fails, the program that threw the error is logged first.
+ * @param logs - The transaction logs
+ * @returns The decoded error or null if the logs contain no known program error
+ */
+export function parseProgramErrorFromLogs(
+    logs: string[]
+): MeteoraProgramError | null {
+    for (const log of logs) {
+        const match = log.match(CUSTOM_PROGRAM_ERROR_LOG)
+        if (!match) {
+            continue
+        }
+
+        let programId: PublicKey
+        try {
+            programId = new PublicKey(match[1])
+        } catch {
+            continue
+        }
+
+        const programError = decodeProgramError(
+            programId,
+            parseInt(match[2], 16),
+            logs
+        )
+        if (programError) {
+            return programError
+        }
+    }
+    return null
+}
+
+/**
+ * Parse a typed program error out of an error thrown while simulating or sending a transaction
+ * @param error - The thrown error, e.g. a `SendTransactionError`
+ * @returns The decoded error or null if it is not a known program error
+ */
+export function parseProgramError(error: unknown): MeteoraProgramError | null {
+    if (error instanceof MeteoraProgramError) {
+        return error
+    }
+
+    // SendTransactionError, AnchorError and simulation results expose the logs
+    const logs =
+        error instanceof SendTransactionError
+            ? error.logs
+            : (error as { logs?: unknown } | null)?.logs
+
+    if (!Array.isArray(logs)) {
+        return null
+    }
+
+    return parseProgramErrorFromLogs(
+        logs.filter((log): log is string => typeof log === 'string')
+    )
+}
+
+/**
+ * Parse a typed program error out of a `SendTransactionError`, fetching the
+ * transaction logs when the error does not include them
+ * @param connection - The Solana connection instance
+ * @param error - The send transaction error
+ * @returns The decoded error or null if it is not a known program error
+ */
+export async function parseSendTransactionError(
+    connection: Connection,
+    error: SendTransactionError
+): Promise<MeteoraProgramError | null> {
+    const logs = error.logs ?? (await error.getLogs(connection))
+
+    return parseProgramErrorFromLogs(logs ?? [])
+}
@@ -0,0 +1,141 @@
+import { PublicKey } from '@solana/web3.js'
+import BN from 'bn.js'
+import Decimal from 'decimal.js'
+import {
+    TradeDirection,
+    type Candle,
+    type Trade,
+    type TradeHistoryStorage,
+    type TradeHistorySyncState,
+} from '../types'
+
+const compareTrades = (a: Trade, b: Trade) =>
+    a.slot - b.slot || a.eventIndex - b.eventIndex
+
+// base and quote amounts of a trade, the input of a buy is quote and the input of a sell is base
+const getTradeVolumes = (trade: Trade) =>
+    trade.tradeDirection === TradeDirection.QuoteToBase
+        ? { baseVolume: trade.amountOut, quoteVolume: trade.amountIn }
+        : { baseVolume: trade.amountIn, quoteVolume: trade.amountOut }
+
+/**
+ * Trade history storage kept in memory, lost when the process exits
+ */
+export class InMemoryTradeHistoryStorage implements TradeHistoryStorage {
+    // pool address => sync state
+    private syncStates = new Map<string, TradeHistorySyncState>()
+    // pool address => trades ordered by slot and event index
+    private trades = new Map<string, Trade[]>()
+    // pool address => signature and event index of the saved trades
+    private tradeIds = new Map<string, Set<string>>()
+
+    async getSyncState(pool: PublicKey): Promise<TradeHistorySyncState | null> {
+        return this.syncStates.get(pool.toBase58()) ?? null
+    }
+
+    async setSyncState(
+        pool: PublicKey,
+        state: TradeHistorySyncState
+    ): Promise<void> {
+        this.syncStates.set(pool.toBase58(), { ...state })
+    }
+
+    async saveTrades(pool: PublicKey, trades: Trade[]): Promise<void> {
+        const key = pool.toBase58()
+        const saved = this.trades.get(key) ?? []
+        const ids = this.tradeIds.get(key) ?? new Set<string>()
+
+        for (const trade of trades) {
+            const id = `${trade.signature}:${trade.eventIndex}`
+            if (!ids.has(id)) {
+                ids.add(id)
+                saved.push(trade)
+            }
+        }
+
+        this.trades.set(key, saved.sort(compareTrades))
+        this.tradeIds.set(key, ids)
+    }
+
+    async getTrades(
+        pool: PublicKey,
+        fromTime: number = 0,
+        toTime: number = Number.MAX_SAFE_INTEGER
+    ): Promise<Trade[]> {
+        return (this.trades.get(pool.toBase58()) ?? []).filter(
+            (trade) => trade.blockTime >= fromTime && trade.blockTime <= toTime
+        )
+    }
+}
+
+/**
+ * Aggregate trades into OHLCV candles
+ * @param trades - The trades of a pool
+ * @param intervalSeconds - The candle interval in seconds, e.g. 60 for 1 minute candles
+ * @param fillGaps - Whether to add flat candles without volume for intervals without trades
+ * @returns The candles ordered by open time
+ */
+export function buildCandles(
+    trades: Trade[],
+    intervalSeconds: number,
+    fillGaps: boolean = false
+): Candle[] {
+    if (!Number.isInteger(intervalSeconds) || intervalSeconds <= 0) {
+        throw new Error('Candle interval must be a positive integer')
+    }
+
+    const candles: Candle[] = []
+    const sortedTrades = [...trades].sort(
+        (a, b) => a.blockTime - b.blockTime || compareTrades(a, b)
+    )
+
+    for (const trade of sortedTrades) {
+        const openTime =
+            Math.floor(trade.blockTime / intervalSeconds) * intervalSeconds
+        let candle = candles[candles.length - 1]
+
+        if (fillGaps && candle) {
+            for (
+                let gapTime = candle.openTime + intervalSeconds;
+                gapTime < openTime;
+                gapTime += intervalSeconds
+            ) {
+                candle = {
+                    openTime: gapTime,
+                    open: candle.close,
+                    high: candle.close,
+                    low: candle.close,
+                    close: candle.close,
+                    baseVolume: new BN(0),
+                    quoteVolume: new BN(0),
+                    tradeCount: 0,
+                }
+                candles.push(candle)
+            }
+        }
+
+        const { baseVolume, quoteVolume } = getTradeVolumes(trade)
+        if (!candle || candle.openTime !== openTime) {
+            candles.push({
+                openTime,
+                open: trade.price,
+                high: trade.price,
+                low: trade.price,
+                close: trade.price,
+                baseVolume: baseVolume.clone(),
+                quoteVolume: quoteVolume.clone(),
+                tradeCount: 1,
+            })
+            continue
+        }
+
+        candle.high = Decimal.max(candle.high, trade.price)
+        candle.low = Decimal.min(candle.low, trade.price)
+        candle.close = trade.price
+        candle.baseVolume = candle.baseVolume.add(baseVolume)
+        candle.quoteVolume = candle.quoteVolume.add(quoteVolume)
+        candle.tradeCount++
+    }
+
+    return candles
+}
@@ -6,3 +6,7 @@ export * from './buildCurve'
 export * from './createProgram'
 export * from './token'
 export * from './instructions'
+export * from './transaction'
+export * from './errors'
+export * from './history'
+export * from './curveProfile'
@@ -18,8 +18,20 @@ import {
     TOKEN_PROGRAM_ID,
     TokenAccountNotFoundError,
     TokenInvalidAccountOwnerError,
+    unpackAccount,
+    unpackMint,
 } from '@solana/spl-token'
-import { TokenType } from '../types'
+import BN from 'bn.js'
+import {
+    getDynamicVaultAmountByShare,
+    getDynamicVaultUnlockedAmount,
+} from '../math/dammV1'
+import {
+    TokenType,
+    type DammV1Pool,
+    type DammV1PoolReserves,
+    type DynamicVaultState,
+} from '../types'
 
 /**
  * Get or create an ATA instruction
@@ -282,3 +294,67 @@ export async function cleanUpTokenAccountTx(
 
     return null
 }
+
+/**
+ * Get the token amounts and the LP supply of a DAMM V1 pool, from the share of
+ * the dynamic vaults held by the pool
+ * @param connection - The connection
+ * @param dammPool - The DAMM V1 pool address
+ * @param dammPoolState - The DAMM V1 pool state
+ * @param aVaultState - The vault state of token A
+ * @param bVaultState - The vault state of token B
+ * @param currentTime - The current unix timestamp
+ * @returns The token A and token B amounts of the pool and its LP supply
+ */
+export async function getDammV1PoolReserves(
+    connection: Connection,
+    dammPool: PublicKey,
+    dammPoolState: DammV1Pool,
+    aVaultState: DynamicVaultState,
+    bVaultState: DynamicVaultState,
+    currentTime: BN
+): Promise<DammV1PoolReserves> {
+    const [aVaultLp, bVaultLp, aVaultLpMint, bVaultLpMint, lpMint] =
+        await connection.getMultipleAccountsInfo([
+            dammPoolState.aVaultLp,
+            dammPoolState.bVaultLp,
+            aVaultState.lpMint,
+            bVaultState.lpMint,
+            dammPoolState.lpMint,
+        ])
+    if (!aVaultLp || !bVaultLp || !aVaultLpMint || !bVaultLpMint || !lpMint) {
+        throw new Error(
+            `DAMM V1 pool accounts not found: ${dammPool.toString()}`
+        )
+    }
+
+    return {
+        tokenAAmount: getDynamicVaultAmountByShare(
+            new BN(
+                unpackAccount(
+                    dammPoolState.aVaultLp,
+                    aVaultLp
+                ).amount.toString()
+            ),
+            getDynamicVaultUnlockedAmount(aVaultState, currentTime),
+            new BN(
+                unpackMint(aVaultState.lpMint, aVaultLpMint).supply.toString()
+            )
+        ),
+        tokenBAmount: getDynamicVaultAmountByShare(
+            new BN(
+                unpackAccount(
+                    dammPoolState.bVaultLp,
+                    bVaultLp
+                ).amount.toString()
+            ),
+            getDynamicVaultUnlockedAmount(bVaultState, currentTime),
+            new BN(
+                unpackMint(bVaultState.lpMint, bVaultLpMint).supply.toString()
+            )
+        ),
+        lpSupply: new BN(
+            unpackMint(dammPoolState.lpMint, lpMint).supply.toString()
+        ),
+    }
+}
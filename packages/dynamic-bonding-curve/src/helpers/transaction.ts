@@ -0,0 +1,397 @@
+import {
+    AddressLookupTableAccount,
+    Commitment,
+    ComputeBudgetInstruction,
+    ComputeBudgetProgram,
+    Connection,
+    PublicKey,
+    SystemProgram,
+    SYSVAR_INSTRUCTIONS_PUBKEY,
+    SYSVAR_RENT_PUBKEY,
+    Transaction,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedTransaction,
+} from '@solana/web3.js'
+import {
+    ASSOCIATED_TOKEN_PROGRAM_ID,
+    NATIVE_MINT,
+    TOKEN_2022_PROGRAM_ID,
+    TOKEN_PROGRAM_ID,
+} from '@solana/spl-token'
+import {
+    BASE_ADDRESS,
+    DAMM_V1_MIGRATION_FEE_ADDRESS,
+    DAMM_V1_PROGRAM_ID,
+    DAMM_V2_MIGRATION_FEE_ADDRESS,
+    DAMM_V2_PROGRAM_ID,
+    DYNAMIC_BONDING_CURVE_PROGRAM_ID,
+    LOCKER_PROGRAM_ID,
+    MAX_COMPUTE_UNIT_LIMIT,
+    MAX_PRIORITIZATION_FEE_ACCOUNTS,
+    METAPLEX_PROGRAM_ID,
+    VAULT_PROGRAM_ID,
+} from '../constants'
+import {
+    deriveDammV1EventAuthority,
+    deriveDammV1PoolAuthority,
+    deriveDammV2EventAuthority,
+    deriveDammV2PoolAuthority,
+    deriveDbcEventAuthority,
+    deriveDbcPoolAuthority,
+    deriveLockerEventAuthority,
+    deriveVaultPdas,
+} from './accounts'
+import { parseProgramErrorFromLogs } from './errors'
+import type { PoolConfig, VirtualPool } from '../types'
+
+// rpc endpoint => config address => lookup table address, so lookup tables
+// of one cluster are never used for transactions of another
+const lookupTableRegistry = new Map<string, Map<string, PublicKey>>()
+
+function getLookupTableRegistry(
+    connection: Connection
+): Map<string, PublicKey> {
+    let registry = lookupTableRegistry.get(connection.rpcEndpoint)
+    if (!registry) {
+        registry = new Map()
+        lookupTableRegistry.set(connection.rpcEndpoint, registry)
+    }
+    return registry
+}
+
+/**
+ * Get the static addresses used across DBC, DAMM V1, DAMM V2, vault and locker instructions.
+ * These do not depend on any config or pool, so a single lookup table can cover them.
+ * @returns The deduplicated static addresses
+ */
+export function getStaticLookupTableAddresses(): PublicKey[] {
+    const { vaultPda, tokenVaultPda, lpMintPda } = deriveVaultPdas(NATIVE_MINT)
+
+    const addresses = [
+        // programs
+        DYNAMIC_BONDING_CURVE_PROGRAM_ID,
+        DAMM_V1_PROGRAM_ID,
+        DAMM_V2_PROGRAM_ID,
+        VAULT_PROGRAM_ID,
+        LOCKER_PROGRAM_ID,
+        METAPLEX_PROGRAM_ID,
+        SystemProgram.programId,
+        ComputeBudgetProgram.programId,
+        TOKEN_PROGRAM_ID,
+        TOKEN_2022_PROGRAM_ID,
+        ASSOCIATED_TOKEN_PROGRAM_ID,
+        // sysvars and well known accounts
+        SYSVAR_RENT_PUBKEY,
+        SYSVAR_INSTRUCTIONS_PUBKEY,
+        NATIVE_MINT,
+        BASE_ADDRESS,
+        // authorities
+        deriveDbcPoolAuthority(),
+        deriveDbcEventAuthority(),
+        deriveDammV1PoolAuthority(),
+        deriveDammV1EventAuthority(),
+        deriveDammV2PoolAuthority(),
+        deriveDammV2EventAuthority(),
+        deriveLockerEventAuthority(),
+        // SOL dynamic vault used by DAMM V1 migrations
+        vaultPda,
+        tokenVaultPda,
+        lpMintPda,
+        // migration fee configs
+        ...DAMM_V1_MIGRATION_FEE_ADDRESS,
+        ...DAMM_V2_MIGRATION_FEE_ADDRESS,
+    ]
+
+    const seen = new Set<string>()
+    return addresses.filter((address) => {
+        const key = address.toBase58()
+        if (seen.has(key)) {
+            return false
+        }
+        seen.add(key)
+        return true
+    })
+}
+
+/**
+ * Get the addresses of a config and its pools to store in an address lookup table
+ * @param config - The config address
+ * @param poolConfigState - The config state
+ * @param poolStates - The states of the pools created from the config
+ * @returns The deduplicated config and pool addresses
+ */
+export function getConfigLookupTableAddresses(
+    config: PublicKey,
+    poolConfigState: PoolConfig,
+    poolStates: VirtualPool[] = []
+): PublicKey[] {
+    const { vaultPda, tokenVaultPda, lpMintPda } = deriveVaultPdas(
+        poolConfigState.quoteMint
+    )
+
+    const addresses = [
+        config,
+        poolConfigState.quoteMint,
+        deriveDbcPoolAuthority(),
+        deriveDbcEventAuthority(),
+        deriveDammV2EventAuthority(),
+        vaultPda,
+        tokenVaultPda,
+        lpMintPda,
+        ...poolStates.flatMap((poolState) => [
+            poolState.baseVault,
+            poolState.quoteVault,
+        ]),
+    ]
+
+    const seen = new Set<string>()
+    return addresses.filter((address) => {
+        const key = address.toBase58()
+        if (seen.has(key)) {
+            return false
+        }
+        seen.add(key)
+        return true
+    })
+}
+
+/**
+ * Register the address lookup table of a config so versioned transactions
+ * that touch the config use it without passing it explicitly. The registry is
+ * kept per RPC endpoint of the connection.
+ * @param connection - The Solana connection instance
+ * @param config - The config address
+ * @param lookupTable - The lookup table address
+ */
+export function registerLookupTable(
+    connection: Connection,
+    config: PublicKey,
+    lookupTable: PublicKey
+): void {
+    getLookupTableRegistry(connection).set(config.toBase58(), lookupTable)
+}
+
+/**
+ * Remove the registered address lookup table of a config
+ * @param connection - The Solana connection instance
+ * @param config - The config address
+ */
+export function unregisterLookupTable(
+    connection: Connection,
+    config: PublicKey
+): void {
+    getLookupTableRegistry(connection).delete(config.toBase58())
+}
+
+/**
+ * Get the registered address lookup table of a config
+ * @param connection - The Solana connection instance
+ * @param config - The config address
+ * @returns The lookup table address or null if none is registered
+ */
+export function getRegisteredLookupTable(
+    connection: Connection,
+    config: PublicKey
+): PublicKey | null {
+    return getLookupTableRegistry(connection).get(config.toBase58()) ?? null
+}
+
+/**
+ * Get the registered address lookup tables of the configs a transaction touches
+ * @param connection - The Solana connection instance
+ * @param transaction - The legacy transaction
+ * @returns The deduplicated lookup table addresses
+ */
+export function getRegisteredLookupTables(
+    connection: Connection,
+    transaction: Transaction
+): PublicKey[] {
+    const registry = getLookupTableRegistry(connection)
+    const lookupTables = new Map<string, PublicKey>()
+    for (const instruction of transaction.instructions) {
+        for (const { pubkey } of instruction.keys) {
+            const lookupTable = registry.get(pubkey.toBase58())
+            if (lookupTable) {
+                lookupTables.set(lookupTable.toBase58(), lookupTable)
+            }
+        }
+    }
+    return Array.from(lookupTables.values())
+}
+
+/**
+ * Resolve address lookup table accounts
+ * @param connection - The Solana connection instance
+ * @param addressLookupTables - The lookup table addresses or already fetched lookup table accounts
+ * @returns The lookup table accounts
+ */
+export async function getAddressLookupTableAccounts(
+    connection: Connection,
+    addressLookupTables: Array<PublicKey | AddressLookupTableAccount>
+): Promise<AddressLookupTableAccount[]> {
+    return Promise.all(
+        addressLookupTables.map(async (addressLookupTable) => {
+            if (addressLookupTable instanceof AddressLookupTableAccount) {
+                return addressLookupTable
+            }
+
+            const { value } =
+                await connection.getAddressLookupTable(addressLookupTable)
+            if (!value) {
+                throw new Error(
+                    `Address lookup table not found: ${addressLookupTable.toBase58()}`
+                )
+            }
+            return value
+        })
+    )
+}
+
+/**
+ * Compile a legacy transaction into a versioned (v0) transaction
+ * @param connection - The Solana connection instance
+ * @param transaction - The legacy transaction
+ * @param payer - The fee payer
+ * @param addressLookupTableAccounts - The lookup tables to compile against
+ * @param commitment - The commitment used to fetch the recent blockhash
+ * @returns The versioned transaction
+ */
+export async function buildVersionedTransaction(
+    connection: Connection,
+    transaction: Transaction,
+    payer: PublicKey,
+    addressLookupTableAccounts: AddressLookupTableAccount[] = [],
+    commitment?: Commitment
+): Promise<VersionedTransaction> {
+    const recentBlockhash =
+        transaction.recentBlockhash ??
+        (await connection.getLatestBlockhash(commitment)).blockhash
+
+    const message = new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash,
+        instructions: transaction.instructions,
+    }).compileToV0Message(addressLookupTableAccounts)
+
+    return new VersionedTransaction(message)
+}
+
+/**
+ * Remove the compute budget instructions of the given types from a list of instructions
+ * @param instructions - The instructions
+ * @param types - The compute budget instruction types to remove
+ * @returns The remaining instructions
+ */
+export function removeComputeBudgetInstructions(
+    instructions: TransactionInstruction[],
+    types: Array<'SetComputeUnitLimit' | 'SetComputeUnitPrice'>
+): TransactionInstruction[] {
+    return instructions.filter(
+        (instruction) =>
+            !instruction.programId.equals(ComputeBudgetProgram.programId) ||
+            !types.includes(
+                ComputeBudgetInstruction.decodeInstructionType(
+                    instruction
+                ) as (typeof types)[number]
+            )
+    )
+}
+
+/**
+ * Get the accounts a transaction writes to
+ * @param transaction - The legacy transaction
+ * @returns The deduplicated writable accounts
+ */
+export function getWritableAccounts(transaction: Transaction): PublicKey[] {
+    const writableAccounts = new Map<string, PublicKey>()
+    for (const instruction of transaction.instructions) {
+        for (const { pubkey, isWritable } of instruction.keys) {
+            if (isWritable) {
+                writableAccounts.set(pubkey.toBase58(), pubkey)
+            }
+        }
+    }
+    return Array.from(writableAccounts.values())
+}
+
+/**
+ * Simulate instructions to get the compute units they consume
+ * @param connection - The Solana connection instance
+ * @param instructions - The instructions, without a compute unit limit instruction
+ * @param payer - The fee payer
+ * @param addressLookupTableAccounts - The lookup tables to compile against
+ * @param commitment - The commitment of the simulation
+ * @returns The compute units consumed
+ * @throws The decoded program error if the simulation fails with a known program error
+ */
+export async function getSimulatedComputeUnits(
+    connection: Connection,
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    addressLookupTableAccounts: AddressLookupTableAccount[] = [],
+    commitment?: Commitment
+): Promise<number> {
+    // simulate with the maximum limit so the simulation is not capped,
+    // the blockhash is replaced by the RPC node
+    const message = new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: PublicKey.default.toBase58(),
+        instructions: [
+            ComputeBudgetProgram.setComputeUnitLimit({
+                units: MAX_COMPUTE_UNIT_LIMIT,
+            }),
+            ...instructions,
+        ],
+    }).compileToV0Message(addressLookupTableAccounts)
+
+    const { value } = await connection.simulateTransaction(
+        new VersionedTransaction(message),
+        {
+            sigVerify: false,
+            replaceRecentBlockhash: true,
+            commitment,
+        }
+    )
+
+    if (value.err) {
+        const programError = parseProgramErrorFromLogs(value.logs ?? [])
+        if (programError) {
+            throw programError
+        }
+        throw new Error(
+            `Transaction simulation failed: ${JSON.stringify(value.err)}\n${(value.logs ?? []).join('\n')}`
+        )
+    }
+
+    return value.unitsConsumed ?? MAX_COMPUTE_UNIT_LIMIT
+}
+
+/**
+ * Get the median recent prioritization fee paid to write the given accounts
+ * @param connection - The Solana connection instance
+ * @param writableAccounts - The accounts the transaction writes to
+ * @returns The compute unit price in micro-lamports
+ */
+export async function getRecentComputeUnitPrice(
+    connection: Connection,
+    writableAccounts: PublicKey[]
+): Promise<number> {
+    const recentPrioritizationFees =
+        await connection.getRecentPrioritizationFees({
+            lockedWritableAccounts: writableAccounts.slice(
+                0,
+                MAX_PRIORITIZATION_FEE_ACCOUNTS
+            ),
+        })
+
+    if (recentPrioritizationFees.length === 0) {
+        return 0
+    }
+
+    const fees = recentPrioritizationFees
+        .map(({ prioritizationFee }) => prioritizationFee)
+        .sort((a, b) => a - b)
+
+    return fees[Math.floor(fees.length / 2)]
+}
@@ -1,5 +1,6 @@
 import BN from 'bn.js'
 import {
+    BASIS_POINT_MAX,
     MAX_CREATOR_MIGRATION_FEE_PERCENTAGE,
     MAX_CURVE_POINT,
     MAX_MIGRATION_FEE_PERCENTAGE,
@@ -18,6 +19,7 @@ import {
     TokenDecimal,
     TokenType,
     TokenUpdateAuthorityOption,
+    type ConfigParameters,
     type CreateConfigParam,
     type PoolConfig,
 } from '../types'
@@ -386,21 +388,38 @@ export function validateCurve(
 }
 
 /**
- * Validate token supply
- * @param tokenSupply - The token supply
+ * Validate the leftover receiver
  * @param leftoverReceiver - The leftover receiver
+ * @returns true if the leftover receiver is valid, false otherwise
+ */
+export function validateLeftoverReceiver(leftoverReceiver: PublicKey): boolean {
+    if (!leftoverReceiver) {
+        return false
+    }
+
+    // Check if it's a PublicKey instance
+    if (!(leftoverReceiver instanceof PublicKey)) {
+        return false
+    }
+
+    // Check if it's not the default public key (all zeros)
+    return !leftoverReceiver.equals(PublicKey.default)
+}
+
+/**
+ * Validate that the token supply covers the swap, migration and vesting amounts
+ * @param tokenSupply - The token supply
  * @param swapBaseAmount - The swap base amount
  * @param migrationBaseAmount - The migration base amount
  * @param lockedVesting - The locked vesting parameters
  * @param swapBaseAmountBuffer - The swap base amount buffer
- * @returns true if the token supply is valid, false otherwise
+ * @returns true if the token supply amounts are valid, false otherwise
  */
-export function validateTokenSupply(
+export function validateTokenSupplyAmounts(
     tokenSupply: {
         preMigrationTokenSupply: BN
         postMigrationTokenSupply: BN
     },
-    leftoverReceiver: PublicKey,
     swapBaseAmount: BN,
     migrationBaseAmount: BN,
     lockedVesting: LockedVestingParameters,
@@ -408,20 +427,6 @@ export function validateTokenSupply(
 ): boolean {
     if (!tokenSupply) return true
 
-    if (!leftoverReceiver) {
-        return false
-    }
-
-    // Check if it's a PublicKey instance
-    if (!(leftoverReceiver instanceof PublicKey)) {
-        return false
-    }
-
-    // Check if it's not the default public key (all zeros)
-    if (leftoverReceiver.equals(PublicKey.default)) {
-        return false
-    }
-
     const minimumBaseSupplyWithBuffer = getTotalTokenSupply(
         swapBaseAmountBuffer,
         migrationBaseAmount,
@@ -447,6 +452,41 @@ export function validateTokenSupply(
     )
 }
 
+/**
+ * Validate token supply
+ * @param tokenSupply - The token supply
+ * @param leftoverReceiver - The leftover receiver
+ * @param swapBaseAmount - The swap base amount
+ * @param migrationBaseAmount - The migration base amount
+ * @param lockedVesting - The locked vesting parameters
+ * @param swapBaseAmountBuffer - The swap base amount buffer
+ * @returns true if the token supply is valid, false otherwise
+ */
+export function validateTokenSupply(
+    tokenSupply: {
+        preMigrationTokenSupply: BN
+        postMigrationTokenSupply: BN
+    },
+    leftoverReceiver: PublicKey,
+    swapBaseAmount: BN,
+    migrationBaseAmount: BN,
+    lockedVesting: LockedVestingParameters,
+    swapBaseAmountBuffer: BN
+): boolean {
+    if (!tokenSupply) return true
+
+    return (
+        validateLeftoverReceiver(leftoverReceiver) &&
+        validateTokenSupplyAmounts(
+            tokenSupply,
+            swapBaseAmount,
+            migrationBaseAmount,
+            lockedVesting,
+            swapBaseAmountBuffer
+        )
+    )
+}
+
 /**
  * Validate the update authority option
  * @param option  - The update authority option
@@ -471,6 +511,23 @@ export function validateConfigParameters(
         'config' | 'feeClaimer' | 'quoteMint' | 'payer'
     >
 ) {
+    validateCurveParameters(configParam)
+
+    // Leftover receiver validation, the leftover of a fixed token supply is withdrawn to it
+    if (
+        configParam.tokenSupply &&
+        !validateLeftoverReceiver(new PublicKey(configParam.leftoverReceiver))
+    ) {
+        throw new Error('Invalid leftover receiver')
+    }
+}
+
+/**
+ * Validate the config parameters that do not depend on the accounts of the
+ * config, e.g. the output of the build curve functions
+ * @param configParam - The config parameters
+ */
+export function validateCurveParameters(configParam: ConfigParameters) {
     // Pool fees validation
     if (!configParam.poolFees) {
         throw new Error('Pool fees are required')
@@ -622,9 +679,8 @@ export function validateConfigParameters(
         )
 
         if (
-            !validateTokenSupply(
+            !validateTokenSupplyAmounts(
                 configParam.tokenSupply,
-                new PublicKey(configParam.leftoverReceiver),
                 swapBaseAmount,
                 migrationBaseAmount,
                 configParam.lockedVesting,
@@ -708,3 +764,21 @@ export function validateSwapAmount(amountIn: BN): boolean {
     }
     return true
 }
+
+/**
+ * Validate that the slippage is valid
+ * @param slippageBps - The slippage tolerance in basis points
+ * @returns true if the slippage is valid, throws error if invalid
+ */
+export function validateSlippageBps(slippageBps: number): boolean {
+    if (
+        !Number.isInteger(slippageBps) ||
+        slippageBps < 0 ||
+        slippageBps > BASIS_POINT_MAX
+    ) {
+        throw new Error(
+            `Slippage must be an integer between 0 and ${BASIS_POINT_MAX} bps`
+        )
+    }
+    return true
+}
@@ -0,0 +1,324 @@
+import BN from 'bn.js'
+import Decimal from 'decimal.js'
+import { PublicKey } from '@solana/web3.js'
+import { getDeltaAmountQuoteUnsigned } from './curve'
+import { getIncludedFeeAmount } from './feeMath'
+import {
+    calculateQuoteExactInAmount,
+    getFeeMode,
+    getSwapResult,
+} from './swapQuote'
+import {
+    Rounding,
+    TradeDirection,
+    type BuyPlan,
+    type FeeMode,
+    type PoolConfig,
+    type TokenDecimal,
+    type VirtualPool,
+} from '../types'
+import {
+    getConfigTotalSupply,
+    getPriceFromSqrtPrice,
+    getSqrtPriceFromMarketCap,
+    getSqrtPriceFromPrice,
+} from '../helpers/common'
+
+/**
+ * Get the state of a pool of the config right at launch
+ * @param config Pool config state
+ * @param currentPoint Current point, used as the activation point
+ * @returns Pool state with empty reserves, fees and metrics
+ */
+function getLaunchPoolState(config: PoolConfig, currentPoint: BN): VirtualPool {
+    return {
+        volatilityTracker: {
+            lastUpdateTimestamp: new BN(0),
+            padding: new Array(8).fill(0),
+            sqrtPriceReference: new BN(0),
+            volatilityAccumulator: new BN(0),
+            volatilityReference: new BN(0),
+        },
+        config: PublicKey.default,
+        creator: PublicKey.default,
+        baseMint: PublicKey.default,
+        baseVault: PublicKey.default,
+        quoteVault: PublicKey.default,
+        baseReserve: config.swapBaseAmount.add(config.migrationBaseThreshold),
+        quoteReserve: new BN(0),
+        protocolBaseFee: new BN(0),
+        protocolQuoteFee: new BN(0),
+        partnerBaseFee: new BN(0),
+        partnerQuoteFee: new BN(0),
+        sqrtPrice: config.sqrtStartPrice,
+        activationPoint: currentPoint,
+        poolType: config.tokenType,
+        isMigrated: 0,
+        isPartnerWithdrawSurplus: 0,
+        isProtocolWithdrawSurplus: 0,
+        migrationProgress: 0,
+        isWithdrawLeftover: 0,
+        isCreatorWithdrawSurplus: 0,
+        migrationFeeWithdrawStatus: 0,
+        metrics: {
+            totalProtocolBaseFee: new BN(0),
+            totalProtocolQuoteFee: new BN(0),
+            totalTradingBaseFee: new BN(0),
+            totalTradingQuoteFee: new BN(0),
+        },
+        finishCurveTimestamp: new BN(0),
+        creatorBaseFee: new BN(0),
+        creatorQuoteFee: new BN(0),
+        padding1: new Array(7).fill(new BN(0)),
+    }
+}
+
+/**
+ * Replay a buy with the swap math and price the pool after it
+ * @param virtualPool Virtual pool state
+ * @param config Pool config state
+ * @param amountIn Quote input amount
+ * @param feeMode Fee mode
+ * @param tokenQuoteDecimal Quote token decimal
+ * @param currentPoint Current point
+ * @returns Buy plan
+ */
+function getBuyPlan(
+    virtualPool: VirtualPool,
+    config: PoolConfig,
+    amountIn: BN,
+    feeMode: FeeMode,
+    tokenQuoteDecimal: TokenDecimal,
+    currentPoint: BN
+): BuyPlan {
+    const tokenBaseDecimal = config.tokenDecimal as TokenDecimal
+
+    const result = getSwapResult(
+        virtualPool,
+        config,
+        amountIn,
+        feeMode,
+        TradeDirection.QuoteToBase,
+        currentPoint
+    )
+
+    const price = getPriceFromSqrtPrice(
+        result.nextSqrtPrice,
+        tokenBaseDecimal,
+        tokenQuoteDecimal
+    )
+    const marketCap = price
+        .mul(getConfigTotalSupply(config).toString())
+        .div(new Decimal(10).pow(tokenBaseDecimal))
+
+    return {
+        amountIn,
+        amountOut: result.amountOut,
+        fee: result.fee,
+        nextSqrtPrice: result.nextSqrtPrice,
+        price,
+        marketCap,
+    }
+}
+
+/**
+ * Plan the buy that moves a pool to a target sqrt price
+ * @param virtualPool Virtual pool state, or null to plan from launch
+ * @param config Pool config state
+ * @param targetSqrtPrice Target sqrt price
+ * @param tokenQuoteDecimal Quote token decimal
+ * @param hasReferral Whether referral is used
+ * @param currentPoint Current point
+ * @returns Buy plan with the quote amount in, including fees
+ */
+export function getBuyToSqrtPrice(
+    virtualPool: VirtualPool | null,
+    config: PoolConfig,
+    targetSqrtPrice: BN,
+    tokenQuoteDecimal: TokenDecimal,
+    hasReferral: boolean,
+    currentPoint: BN
+): BuyPlan {
+    const poolState = virtualPool ?? getLaunchPoolState(config, currentPoint)
+
+    if (poolState.quoteReserve.gte(config.migrationQuoteThreshold)) {
+        throw new Error('Virtual pool is completed')
+    }
+    if (targetSqrtPrice.lte(poolState.sqrtPrice)) {
+        throw new Error('Target price must be above the current price')
+    }
+    if (targetSqrtPrice.gt(config.migrationSqrtPrice)) {
+        throw new Error('Target price is above the migration price')
+    }
+
+    // quote amount to walk the curve segments up to the target price
+    let amountInAfterFee = new BN(0)
+    let sqrtPrice = poolState.sqrtPrice
+    for (const point of config.curve) {
+        if (point.sqrtPrice.isZero() || sqrtPrice.gte(targetSqrtPrice)) {
+            break
+        }
+        if (point.sqrtPrice.gt(sqrtPrice)) {
+            const nextSqrtPrice = BN.min(point.sqrtPrice, targetSqrtPrice)
+            amountInAfterFee = amountInAfterFee.add(
+                getDeltaAmountQuoteUnsigned(
+                    sqrtPrice,
+                    nextSqrtPrice,
+                    point.liquidity,
+                    Rounding.Up
+                )
+            )
+            sqrtPrice = nextSqrtPrice
+        }
+    }
+
+    const feeMode = getFeeMode(
+        config.collectFeeMode,
+        TradeDirection.QuoteToBase,
+        hasReferral
+    )
+
+    // fees charged on the quote input are added on top of the curve amount
+    const amountIn = feeMode.feesOnInput
+        ? getIncludedFeeAmount(
+              amountInAfterFee,
+              config.poolFees,
+              hasReferral,
+              currentPoint,
+              poolState.activationPoint,
+              poolState.volatilityTracker,
+              TradeDirection.QuoteToBase
+          ).includedFeeAmount
+        : amountInAfterFee
+
+    return getBuyPlan(
+        poolState,
+        config,
+        amountIn,
+        feeMode,
+        tokenQuoteDecimal,
+        currentPoint
+    )
+}
+
+/**
+ * Plan the buy that moves a pool to a target price
+ * @param virtualPool Virtual pool state, or null to plan from launch
+ * @param config Pool config state
+ * @param targetPrice Target price of a base token in quote tokens
+ * @param tokenQuoteDecimal Quote token decimal
+ * @param hasReferral Whether referral is used
+ * @param currentPoint Current point
+ * @returns Buy plan with the quote amount in, including fees
+ */
+export function getBuyToPrice(
+    virtualPool: VirtualPool | null,
+    config: PoolConfig,
+    targetPrice: number | string,
+    tokenQuoteDecimal: TokenDecimal,
+    hasReferral: boolean,
+    currentPoint: BN
+): BuyPlan {
+    const targetSqrtPrice = getSqrtPriceFromPrice(
+        targetPrice.toString(),
+        config.tokenDecimal,
+        tokenQuoteDecimal
+    )
+
+    return getBuyToSqrtPrice(
+        virtualPool,
+        config,
+        targetSqrtPrice,
+        tokenQuoteDecimal,
+        hasReferral,
+        currentPoint
+    )
+}
+
+/**
+ * Plan the buy that moves a pool to a target market cap
+ * @param virtualPool Virtual pool state, or null to plan from launch
+ * @param config Pool config state
+ * @param targetMarketCap Target market cap in quote tokens
+ * @param tokenQuoteDecimal Quote token decimal
+ * @param hasReferral Whether referral is used
+ * @param currentPoint Current point
+ * @returns Buy plan with the quote amount in, including fees
+ */
+export function getBuyToMarketCap(
+    virtualPool: VirtualPool | null,
+    config: PoolConfig,
+    targetMarketCap: number,
+    tokenQuoteDecimal: TokenDecimal,
+    hasReferral: boolean,
+    currentPoint: BN
+): BuyPlan {
+    const totalSupply = new Decimal(getConfigTotalSupply(config).toString())
+        .div(new Decimal(10).pow(config.tokenDecimal))
+        .toNumber()
+    const targetSqrtPrice = getSqrtPriceFromMarketCap(
+        targetMarketCap,
+        totalSupply,
+        config.tokenDecimal,
+        tokenQuoteDecimal
+    )
+
+    return getBuyToSqrtPrice(
+        virtualPool,
+        config,
+        targetSqrtPrice,
+        tokenQuoteDecimal,
+        hasReferral,
+        currentPoint
+    )
+}
+
+/**
+ * Get the tokens received and the market cap after buying with a quote amount
+ * @param virtualPool Virtual pool state, or null to plan from launch
+ * @param config Pool config state
+ * @param amountIn Quote input amount, including fees charged on the input
+ * @param tokenQuoteDecimal Quote token decimal
+ * @param hasReferral Whether referral is used
+ * @param currentPoint Current point
+ * @returns Buy plan with the base amount out and the market cap after the buy
+ */
+export function getMarketCapAfterBuy(
+    virtualPool: VirtualPool | null,
+    config: PoolConfig,
+    amountIn: BN,
+    tokenQuoteDecimal: TokenDecimal,
+    hasReferral: boolean,
+    currentPoint: BN
+): BuyPlan {
+    const poolState = virtualPool ?? getLaunchPoolState(config, currentPoint)
+
+    if (poolState.quoteReserve.gte(config.migrationQuoteThreshold)) {
+        throw new Error('Virtual pool is completed')
+    }
+    if (amountIn.isZero()) {
+        throw new Error('Amount is zero')
+    }
+    if (
+        amountIn.gt(
+            calculateQuoteExactInAmount(config, poolState, currentPoint)
+        )
+    ) {
+        throw new Error('Amount in exceeds the amount to complete the curve')
+    }
+
+    const feeMode = getFeeMode(
+        config.collectFeeMode,
+        TradeDirection.QuoteToBase,
+        hasReferral
+    )
+
+    return getBuyPlan(
+        poolState,
+        config,
+        amountIn,
+        feeMode,
+        tokenQuoteDecimal,
+        currentPoint
+    )
+}
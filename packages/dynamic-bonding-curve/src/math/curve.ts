@@ -231,3 +231,100 @@ export function getInitializeAmounts(
 
     return [amountBase, amountQuote]
 }
+
+/**
+ * Gets the next sqrt price given an output amount of token_a or token_b
+ * @param sqrtPrice Current sqrt price
+ * @param liquidity Liquidity
+ * @param amountOut Output amount
+ * @param baseForQuote Whether the swap is base token for quote token (output is quote)
+ * @returns Next sqrt price
+ */
+export function getNextSqrtPriceFromOutput(
+    sqrtPrice: BN,
+    liquidity: BN,
+    amountOut: BN,
+    baseForQuote: boolean
+): BN {
+    if (sqrtPrice.isZero() || liquidity.isZero()) {
+        throw new Error('Price or liquidity cannot be zero')
+    }
+
+    if (baseForQuote) {
+        return getNextSqrtPriceFromAmountQuoteOutRoundingDown(
+            sqrtPrice,
+            liquidity,
+            amountOut
+        )
+    } else {
+        return getNextSqrtPriceFromAmountBaseOutRoundingUp(
+            sqrtPrice,
+            liquidity,
+            amountOut
+        )
+    }
+}
+
+/**
+ * Gets the next sqrt price after removing a delta of token_base
+ * Formula: √P' = √P * L / (L - Δx * √P)
+ * @param sqrtPrice Current sqrt price
+ * @param liquidity Liquidity
+ * @param amount Output amount
+ * @returns Next sqrt price
+ */
+export function getNextSqrtPriceFromAmountBaseOutRoundingUp(
+    sqrtPrice: BN,
+    liquidity: BN,
+    amount: BN
+): BN {
+    if (amount.isZero()) {
+        return sqrtPrice
+    }
+
+    // Δx * √P
+    const product = SafeMath.mul(amount, sqrtPrice)
+
+    if (product.gte(liquidity)) {
+        throw new Error('Not enough liquidity to process the entire amount')
+    }
+
+    // L - Δx * √P
+    const denominator = SafeMath.sub(liquidity, product)
+
+    // √P * L / (L - Δx * √P) with rounding up
+    return mulDiv(liquidity, sqrtPrice, denominator, Rounding.Up)
+}
+
+/**
+ * Gets the next sqrt price after removing a delta of token_quote
+ * Formula: √P' = √P - Δy / L
+ * @param sqrtPrice Current sqrt price
+ * @param liquidity Liquidity
+ * @param amount Output amount
+ * @returns Next sqrt price
+ */
+export function getNextSqrtPriceFromAmountQuoteOutRoundingDown(
+    sqrtPrice: BN,
+    liquidity: BN,
+    amount: BN
+): BN {
+    if (amount.isZero()) {
+        return sqrtPrice
+    }
+
+    // quotient: Δy << (RESOLUTION * 2) / L with rounding up, so √P' rounds down
+    const quotient = mulDiv(
+        amount,
+        new BN(1).shln(RESOLUTION * 2),
+        liquidity,
+        Rounding.Up
+    )
+
+    if (quotient.gte(sqrtPrice)) {
+        throw new Error('Not enough liquidity to process the entire amount')
+    }
+
+    // √P - quotient
+    return SafeMath.sub(sqrtPrice, quotient)
+}
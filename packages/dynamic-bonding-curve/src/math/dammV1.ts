@@ -0,0 +1,191 @@
+import BN from 'bn.js'
+import { SafeMath } from './safeMath'
+import { LOCKED_PROFIT_DEGRADATION_DENOMINATOR, RESOLUTION } from '../constants'
+import type {
+    DammSwapResult,
+    DammV1Pool,
+    DynamicVaultState,
+    LockEscrow,
+} from '../types'
+
+/**
+ * Integer square root, rounded down
+ * @param value - The value
+ * @returns The square root of the value
+ */
+function sqrt(value: BN): BN {
+    if (value.ltn(2)) {
+        return value
+    }
+
+    // newton iteration from an initial guess above the root
+    let x = new BN(1).shln(Math.ceil(value.bitLength() / 2))
+    let y = x.add(value.div(x)).shrn(1)
+    while (y.lt(x)) {
+        x = y
+        y = x.add(value.div(x)).shrn(1)
+    }
+    return x
+}
+
+/**
+ * Get the amount of a dynamic vault that can be withdrawn, which excludes the
+ * profit that is still locked
+ * @param vault - The vault state
+ * @param currentTime - The current unix timestamp
+ * @returns The unlocked amount of the vault
+ */
+export function getDynamicVaultUnlockedAmount(
+    vault: DynamicVaultState,
+    currentTime: BN
+): BN {
+    const { lastReport, lockedProfitDegradation, lastUpdatedLockedProfit } =
+        vault.lockedProfitTracker
+
+    const duration = currentTime.gt(lastReport)
+        ? currentTime.sub(lastReport)
+        : new BN(0)
+    const lockedFundRatio = duration.mul(lockedProfitDegradation)
+    if (lockedFundRatio.gt(LOCKED_PROFIT_DEGRADATION_DENOMINATOR)) {
+        return vault.totalAmount
+    }
+
+    const lockedProfit = lastUpdatedLockedProfit
+        .mul(LOCKED_PROFIT_DEGRADATION_DENOMINATOR.sub(lockedFundRatio))
+        .div(LOCKED_PROFIT_DEGRADATION_DENOMINATOR)
+    return SafeMath.sub(vault.totalAmount, lockedProfit)
+}
+
+/**
+ * Get the token amount of a share of a dynamic vault
+ * @param share - The vault LP token amount
+ * @param unlockedAmount - The unlocked amount of the vault
+ * @param lpSupply - The vault LP token supply
+ * @returns The token amount of the share, rounded down
+ */
+export function getDynamicVaultAmountByShare(
+    share: BN,
+    unlockedAmount: BN,
+    lpSupply: BN
+): BN {
+    if (lpSupply.isZero()) {
+        return new BN(0)
+    }
+
+    return SafeMath.div(SafeMath.mul(share, unlockedAmount), lpSupply)
+}
+
+/**
+ * Get the virtual price of a DAMM V1 constant product pool LP token
+ * Formula: sqrt(tokenAAmount * tokenBAmount) << 64 / lpSupply
+ * @param tokenAAmount - The token A amount of the pool
+ * @param tokenBAmount - The token B amount of the pool
+ * @param lpSupply - The LP token supply of the pool
+ * @returns The virtual price in Q64.64 format, 0 when the pool has no LP token
+ */
+export function getDammV1VirtualPrice(
+    tokenAAmount: BN,
+    tokenBAmount: BN,
+    lpSupply: BN
+): BN {
+    if (lpSupply.isZero()) {
+        return new BN(0)
+    }
+
+    return SafeMath.div(
+        sqrt(SafeMath.mul(tokenAAmount, tokenBAmount)).shln(RESOLUTION),
+        lpSupply
+    )
+}
+
+/**
+ * Get the LP fee of a DAMM V1 lock escrow that is not claimed yet
+ * Formula: pending + totalLockedAmount * (virtualPrice - lpPerToken) / virtualPrice
+ * @param lockEscrow - The lock escrow state
+ * @param virtualPrice - The current virtual price of the LP token
+ * @returns The unclaimed fee in LP tokens
+ */
+export function getDammV1LockEscrowUnclaimedFee(
+    lockEscrow: LockEscrow,
+    virtualPrice: BN
+): BN {
+    // the virtual price only grows with the fees
+    if (virtualPrice.lte(lockEscrow.lpPerToken)) {
+        return lockEscrow.unclaimedFeePending
+    }
+
+    const newFee = SafeMath.div(
+        SafeMath.mul(
+            lockEscrow.totalLockedAmount,
+            SafeMath.sub(virtualPrice, lockEscrow.lpPerToken)
+        ),
+        virtualPrice
+    )
+    return lockEscrow.unclaimedFeePending.add(newFee)
+}
+
+/**
+ * Get the DAMM V1 trading or protocol fee, at least 1 when the fee is not zero
+ * @param amount - The amount the fee is charged on
+ * @param numerator - The fee numerator
+ * @param denominator - The fee denominator
+ * @returns The fee
+ */
+function getDammV1Fee(amount: BN, numerator: BN, denominator: BN): BN {
+    if (numerator.isZero() || amount.isZero()) {
+        return new BN(0)
+    }
+
+    const fee = SafeMath.div(SafeMath.mul(amount, numerator), denominator)
+    return fee.isZero() ? new BN(1) : fee
+}
+
+/**
+ * Calculate the amount out of a swap on a DAMM V1 constant product pool
+ * Formula: out = outReserve * inAfterFee / (inReserve + inAfterFee)
+ * @param pool - The DAMM V1 pool state
+ * @param tokenAAmount - The token A amount of the pool
+ * @param tokenBAmount - The token B amount of the pool
+ * @param aToB - Whether token A is swapped for token B
+ * @param amountIn - The input amount
+ * @returns The amount out and the fees, charged on the input token
+ */
+export function getDammV1SwapQuote(
+    pool: DammV1Pool,
+    tokenAAmount: BN,
+    tokenBAmount: BN,
+    aToB: boolean,
+    amountIn: BN
+): DammSwapResult {
+    if (!('constantProduct' in pool.curveType)) {
+        throw new Error('Only constant product DAMM V1 pools are supported')
+    }
+
+    const { fees } = pool
+    const tradingFee = getDammV1Fee(
+        amountIn,
+        fees.tradeFeeNumerator,
+        fees.tradeFeeDenominator
+    )
+    const protocolFee = getDammV1Fee(
+        tradingFee,
+        fees.protocolTradeFeeNumerator,
+        fees.protocolTradeFeeDenominator
+    )
+
+    const amountInAfterFee = SafeMath.sub(amountIn, tradingFee)
+    const [inReserve, outReserve] = aToB
+        ? [tokenAAmount, tokenBAmount]
+        : [tokenBAmount, tokenAAmount]
+
+    return {
+        amountOut: SafeMath.div(
+            SafeMath.mul(outReserve, amountInAfterFee),
+            SafeMath.add(inReserve, amountInAfterFee)
+        ),
+        fee: {
+            trading: SafeMath.sub(tradingFee, protocolFee),
+            protocol: protocolFee,
+        },
+    }
+}
@@ -0,0 +1,220 @@
+import BN from 'bn.js'
+import {
+    getDeltaAmountBaseUnsigned,
+    getDeltaAmountQuoteUnsigned,
+    getNextSqrtPriceFromInput,
+} from './curve'
+import { getBaseFeeNumerator, getVariableFee } from './feeMath'
+import { SafeMath } from './safeMath'
+import { mulDiv } from './utilsMath'
+import {
+    DAMM_V2_MAX_FEE_NUMERATOR,
+    FEE_DENOMINATOR,
+    RESOLUTION,
+} from '../constants'
+import {
+    Rounding,
+    TradeDirection,
+    type DammSwapResult,
+    type DammV2Pool,
+    type DammV2Position,
+    type DammV2PositionFee,
+    type DammV2WithdrawQuote,
+} from '../types'
+
+/**
+ * Get the total liquidity of a DAMM V2 position
+ * @param position - The position state
+ * @returns The unlocked, vested and permanently locked liquidity
+ */
+export function getDammV2PositionLiquidity(position: DammV2Position): BN {
+    return position.unlockedLiquidity
+        .add(position.vestedLiquidity)
+        .add(position.permanentLockedLiquidity)
+}
+
+/**
+ * Get the fees of a DAMM V2 position that are not claimed yet
+ * Formula: pending + L * (feePerLiquidity - checkpoint) >> 128
+ * @param pool - The DAMM V2 pool state
+ * @param position - The position state
+ * @returns The unclaimed fees in token A and token B
+ */
+export function getDammV2UnclaimedFee(
+    pool: DammV2Pool,
+    position: DammV2Position
+): DammV2PositionFee {
+    const liquidity = getDammV2PositionLiquidity(position)
+
+    // fee per liquidity and checkpoints are little endian u256
+    const getNewFee = (feePerLiquidity: number[], checkpoint: number[]) =>
+        SafeMath.shr(
+            SafeMath.mul(
+                liquidity,
+                SafeMath.sub(
+                    new BN(feePerLiquidity, 'le'),
+                    new BN(checkpoint, 'le')
+                )
+            ),
+            RESOLUTION * 2
+        )
+
+    return {
+        feeTokenA: position.feeAPending.add(
+            getNewFee(pool.feeAPerLiquidity, position.feeAPerTokenCheckpoint)
+        ),
+        feeTokenB: position.feeBPending.add(
+            getNewFee(pool.feeBPerLiquidity, position.feeBPerTokenCheckpoint)
+        ),
+    }
+}
+
+/**
+ * Get the token amounts withdrawn when removing liquidity from a DAMM V2 pool
+ * @param pool - The DAMM V2 pool state
+ * @param liquidityDelta - The liquidity to remove
+ * @returns The token A and token B amounts, rounded down
+ */
+export function getDammV2WithdrawQuote(
+    pool: DammV2Pool,
+    liquidityDelta: BN
+): DammV2WithdrawQuote {
+    return {
+        tokenAAmount: getDeltaAmountBaseUnsigned(
+            pool.sqrtPrice,
+            pool.sqrtMaxPrice,
+            liquidityDelta,
+            Rounding.Down
+        ),
+        tokenBAmount: getDeltaAmountQuoteUnsigned(
+            pool.sqrtMinPrice,
+            pool.sqrtPrice,
+            liquidityDelta,
+            Rounding.Down
+        ),
+    }
+}
+
+/**
+ * Get the current fee numerator of a DAMM V2 pool (base fee + variable fee),
+ * capped at DAMM_V2_MAX_FEE_NUMERATOR
+ * @param pool - The DAMM V2 pool state
+ * @param currentPoint - The current slot or timestamp of the pool activation type
+ * @returns The total fee numerator
+ */
+export function getDammV2FeeNumerator(pool: DammV2Pool, currentPoint: BN): BN {
+    const { baseFee, dynamicFee } = pool.poolFees
+
+    // the DAMM V2 fee scheduler modes match the DBC linear and exponential modes
+    const baseFeeNumerator = getBaseFeeNumerator(
+        {
+            cliffFeeNumerator: baseFee.cliffFeeNumerator,
+            firstFactor: baseFee.numberOfPeriod,
+            secondFactor: baseFee.periodFrequency,
+            thirdFactor: baseFee.reductionFactor,
+            baseFeeMode: baseFee.feeSchedulerMode,
+        },
+        TradeDirection.BaseToQuote,
+        currentPoint,
+        pool.activationPoint
+    )
+
+    const totalFeeNumerator = SafeMath.add(
+        baseFeeNumerator,
+        getVariableFee(dynamicFee, dynamicFee)
+    )
+
+    return BN.min(totalFeeNumerator, new BN(DAMM_V2_MAX_FEE_NUMERATOR))
+}
+
+/**
+ * Calculate the amount out of a swap on a DAMM V2 pool
+ * @param pool - The DAMM V2 pool state
+ * @param aToB - Whether token A is swapped for token B
+ * @param amountIn - The input amount
+ * @param hasReferral - Whether a referral token account is used
+ * @param currentPoint - The current slot or timestamp of the pool activation type
+ * @returns The amount out and the fees
+ */
+export function getDammV2SwapQuote(
+    pool: DammV2Pool,
+    aToB: boolean,
+    amountIn: BN,
+    hasReferral: boolean,
+    currentPoint: BN
+): DammSwapResult {
+    const feeNumerator = getDammV2FeeNumerator(pool, currentPoint)
+    const { protocolFeePercent, referralFeePercent } = pool.poolFees
+
+    const getFeeOnAmount = (amount: BN) => {
+        const tradingFee = mulDiv(
+            amount,
+            feeNumerator,
+            new BN(FEE_DENOMINATOR),
+            Rounding.Up
+        )
+        const protocolFee = mulDiv(
+            tradingFee,
+            new BN(protocolFeePercent),
+            new BN(100),
+            Rounding.Down
+        )
+        const referralFee = hasReferral
+            ? mulDiv(
+                  protocolFee,
+                  new BN(referralFeePercent),
+                  new BN(100),
+                  Rounding.Down
+              )
+            : new BN(0)
+
+        // the partner fee is part of the protocol fee
+        return {
+            amount: SafeMath.sub(amount, tradingFee),
+            fee: {
+                trading: SafeMath.sub(tradingFee, protocolFee),
+                protocol: SafeMath.sub(protocolFee, referralFee),
+                referral: referralFee,
+            },
+        }
+    }
+
+    const getAmountOut = (amount: BN) => {
+        const nextSqrtPrice = getNextSqrtPriceFromInput(
+            pool.sqrtPrice,
+            pool.liquidity,
+            amount,
+            aToB
+        )
+        if (
+            aToB
+                ? nextSqrtPrice.lt(pool.sqrtMinPrice)
+                : nextSqrtPrice.gt(pool.sqrtMaxPrice)
+        ) {
+            throw new Error('Swap amount exceeds the price range of the pool')
+        }
+
+        return aToB
+            ? getDeltaAmountQuoteUnsigned(
+                  nextSqrtPrice,
+                  pool.sqrtPrice,
+                  pool.liquidity,
+                  Rounding.Down
+              )
+            : getDeltaAmountBaseUnsigned(
+                  pool.sqrtPrice,
+                  nextSqrtPrice,
+                  pool.liquidity,
+                  Rounding.Down
+              )
+    }
+
+    // collect fee mode 1 (only token B) charges the fee on token B
+    if (pool.collectFeeMode === 1 && !aToB) {
+        const { amount, fee } = getFeeOnAmount(amountIn)
+        return { amountOut: getAmountOut(amount), fee }
+    }
+
+    const { amount, fee } = getFeeOnAmount(getAmountOut(amountIn))
+    return { amountOut: amount, fee }
+}
@@ -129,8 +129,11 @@ export function getBaseFeeNumerator(
  * @returns Variable fee
  */
 export function getVariableFee(
-    dynamicFee: DynamicFeeConfig,
-    volatilityTracker: VolatilityTracker
+    dynamicFee: Pick<
+        DynamicFeeConfig,
+        'initialized' | 'binStep' | 'variableFeeControl'
+    >,
+    volatilityTracker: Pick<VolatilityTracker, 'volatilityAccumulator'>
 ): BN {
     if (dynamicFee.initialized === 0) {
         return new BN(0)
@@ -158,32 +161,30 @@ export function getVariableFee(
 }
 
 /**
- * Get fee on amount for rate limiter
- * @param amount Amount
+ * Get total fee numerator (base fee + variable fee), capped at MAX_FEE_NUMERATOR
  * @param poolFees Pool fees
- * @param isReferral Whether referral is used
+ * @param tradeDirection Trade direction
  * @param currentPoint Current point
  * @param activationPoint Activation point
  * @param volatilityTracker Volatility tracker
- * @returns Fee on amount result
+ * @param inputAmount Input amount (optional, used for rate limiter)
+ * @returns Total fee numerator
  */
-export function getFeeOnAmount(
-    amount: BN,
+export function getTotalFeeNumerator(
     poolFees: PoolFeesConfig,
-    isReferral: boolean,
+    tradeDirection: TradeDirection,
     currentPoint: BN,
     activationPoint: BN,
     volatilityTracker: VolatilityTracker,
-    tradeDirection: TradeDirection
-): FeeOnAmountResult {
-    // get total trading fee
+    inputAmount?: BN
+): BN {
     const baseFeeNumerator = getBaseFeeNumerator(
         poolFees.baseFee,
         tradeDirection,
         currentPoint,
         activationPoint,
         poolFees.baseFee.baseFeeMode === BaseFeeMode.RateLimiter
-            ? amount
+            ? inputAmount
             : undefined
     )
 
@@ -202,6 +203,38 @@ export function getFeeOnAmount(
         totalFeeNumerator = new BN(MAX_FEE_NUMERATOR)
     }
 
+    return totalFeeNumerator
+}
+
+/**
+ * Get fee on amount for rate limiter
+ * @param amount Amount
+ * @param poolFees Pool fees
+ * @param isReferral Whether referral is used
+ * @param currentPoint Current point
+ * @param activationPoint Activation point
+ * @param volatilityTracker Volatility tracker
+ * @returns Fee on amount result
+ */
+export function getFeeOnAmount(
+    amount: BN,
+    poolFees: PoolFeesConfig,
+    isReferral: boolean,
+    currentPoint: BN,
+    activationPoint: BN,
+    volatilityTracker: VolatilityTracker,
+    tradeDirection: TradeDirection
+): FeeOnAmountResult {
+    // get total trading fee
+    const totalFeeNumerator = getTotalFeeNumerator(
+        poolFees,
+        tradeDirection,
+        currentPoint,
+        activationPoint,
+        volatilityTracker,
+        amount
+    )
+
     const tradingFee = mulDiv(
         amount,
         totalFeeNumerator,
@@ -241,3 +274,83 @@ export function getFeeOnAmount(
         referralFee,
     }
 }
+
+/**
+ * Get the fee-inclusive amount that leaves at least the given amount after fees
+ * @param amountAfterFee Amount required after fees are deducted
+ * @param poolFees Pool fees
+ * @param isReferral Whether referral is used
+ * @param currentPoint Current point
+ * @param activationPoint Activation point
+ * @param volatilityTracker Volatility tracker
+ * @param tradeDirection Trade direction
+ * @returns The fee-inclusive amount and the fee breakdown charged on it
+ */
+export function getIncludedFeeAmount(
+    amountAfterFee: BN,
+    poolFees: PoolFeesConfig,
+    isReferral: boolean,
+    currentPoint: BN,
+    activationPoint: BN,
+    volatilityTracker: VolatilityTracker,
+    tradeDirection: TradeDirection
+): { includedFeeAmount: BN; feeResult: FeeOnAmountResult } {
+    const denominator = new BN(FEE_DENOMINATOR)
+
+    const getFeeResult = (amount: BN) =>
+        getFeeOnAmount(
+            amount,
+            poolFees,
+            isReferral,
+            currentPoint,
+            activationPoint,
+            volatilityTracker,
+            tradeDirection
+        )
+
+    // first guess: amount * FEE_DENOMINATOR / (FEE_DENOMINATOR - feeNumerator)
+    const feeNumerator = getTotalFeeNumerator(
+        poolFees,
+        tradeDirection,
+        currentPoint,
+        activationPoint,
+        volatilityTracker
+    )
+    let lowerBound = mulDiv(
+        amountAfterFee,
+        denominator,
+        denominator.sub(feeNumerator),
+        Rounding.Up
+    )
+    const firstFeeResult = getFeeResult(lowerBound)
+    if (firstFeeResult.amount.gte(amountAfterFee)) {
+        return { includedFeeAmount: lowerBound, feeResult: firstFeeResult }
+    }
+
+    // the fee is rounded up on the forward path and the rate limiter fee grows
+    // with the amount, so search up to the amount that is enough at MAX_FEE_NUMERATOR
+    let upperBound = mulDiv(
+        amountAfterFee,
+        denominator,
+        denominator.sub(new BN(MAX_FEE_NUMERATOR)),
+        Rounding.Up
+    )
+    let feeResult = getFeeResult(upperBound)
+    if (feeResult.amount.lt(amountAfterFee)) {
+        throw new Error('Cannot compute the included fee amount')
+    }
+
+    // smallest amount that leaves enough behind after fees
+    while (upperBound.sub(lowerBound).gtn(1)) {
+        const middle = lowerBound.add(upperBound).shrn(1)
+        const middleFeeResult = getFeeResult(middle)
+        if (middleFeeResult.amount.gte(amountAfterFee)) {
+            upperBound = middle
+            feeResult = middleFeeResult
+        } else {
+            lowerBound = middle
+        }
+    }
+
+    return { includedFeeAmount: upperBound, feeResult }
+}
@@ -3,3 +3,6 @@ export * from './feeMath'
 export * from './swapQuote'
 export * from './feeScheduler'
 export * from './rateLimiter'
+export * from './dammV1'
+export * from './dammV2'
+export * from './buyPlanner'
@@ -1,12 +1,14 @@
 import BN from 'bn.js'
+import Decimal from 'decimal.js'
 import { SafeMath } from './safeMath'
 import { mulDiv } from './utilsMath'
 import {
     getDeltaAmountBaseUnsigned,
     getDeltaAmountQuoteUnsigned,
     getNextSqrtPriceFromInput,
+    getNextSqrtPriceFromOutput,
 } from './curve'
-import { getBaseFeeNumerator, getFeeOnAmount, getVariableFee } from './feeMath'
+import { getFeeOnAmount, getIncludedFeeAmount } from './feeMath'
 import {
     CollectFeeMode,
     GetFeeMode,
@@ -15,11 +17,15 @@ import {
     type FeeMode,
     type FeeOnAmountResult,
     type PoolConfig,
+    type QuoteExactOutResult,
+    type QuotePartialFillResult,
+    type QuotePriceInfo,
     type QuoteResult,
     type SwapAmount,
+    type SwapAmountExactOut,
     type VirtualPool,
 } from '../types'
-import { FEE_DENOMINATOR, MAX_FEE_NUMERATOR } from '../constants'
+import { getPriceFromSqrtPrice } from '../helpers/common'
 
 /**
  * Get swap result
@@ -340,6 +346,218 @@ export function getSwapAmountFromQuoteToBase(
     }
 }
 
+/**
+ * Get the base input required for an exact quote output (base to quote)
+ * @param configState Config state
+ * @param currentSqrtPrice Current sqrt price
+ * @param amountOut Exact quote output amount (before output fees)
+ * @returns Required base input and next sqrt price
+ * @throws Error if not enough liquidity
+ */
+export function getSwapAmountFromBaseToQuoteExactOut(
+    configState: {
+        curve: Array<{
+            sqrtPrice: BN
+            liquidity: BN
+        }>
+    },
+    currentSqrtPrice: BN,
+    amountOut: BN
+): SwapAmountExactOut {
+    if (amountOut.isZero()) {
+        return {
+            inputAmount: new BN(0),
+            nextSqrtPrice: currentSqrtPrice,
+        }
+    }
+
+    let totalInputAmount = new BN(0)
+    let sqrtPrice = currentSqrtPrice
+    let amountLeft = amountOut
+
+    // walk the curve points in reverse order, same as the exact in path
+    for (let i = configState.curve.length - 1; i >= 0; i--) {
+        if (
+            configState.curve[i].sqrtPrice.isZero() ||
+            configState.curve[i].liquidity.isZero()
+        ) {
+            continue
+        }
+
+        if (configState.curve[i].sqrtPrice.lt(sqrtPrice)) {
+            // get the current liquidity
+            const currentLiquidity =
+                i + 1 < configState.curve.length
+                    ? configState.curve[i + 1].liquidity
+                    : configState.curve[i].liquidity
+
+            // skip if liquidity is zero
+            if (currentLiquidity.isZero()) continue
+
+            const maxAmountOut = getDeltaAmountQuoteUnsigned(
+                configState.curve[i].sqrtPrice,
+                sqrtPrice,
+                currentLiquidity,
+                Rounding.Down
+            )
+
+            if (amountLeft.lt(maxAmountOut)) {
+                const nextSqrtPrice = getNextSqrtPriceFromOutput(
+                    sqrtPrice,
+                    currentLiquidity,
+                    amountLeft,
+                    true
+                )
+
+                const inputAmount = getDeltaAmountBaseUnsigned(
+                    nextSqrtPrice,
+                    sqrtPrice,
+                    currentLiquidity,
+                    Rounding.Up
+                )
+
+                totalInputAmount = SafeMath.add(totalInputAmount, inputAmount)
+                sqrtPrice = nextSqrtPrice
+                amountLeft = new BN(0)
+                break
+            } else {
+                const nextSqrtPrice = configState.curve[i].sqrtPrice
+                const inputAmount = getDeltaAmountBaseUnsigned(
+                    nextSqrtPrice,
+                    sqrtPrice,
+                    currentLiquidity,
+                    Rounding.Up
+                )
+
+                totalInputAmount = SafeMath.add(totalInputAmount, inputAmount)
+                sqrtPrice = nextSqrtPrice
+                amountLeft = SafeMath.sub(amountLeft, maxAmountOut)
+            }
+        }
+    }
+
+    if (!amountLeft.isZero() && !configState.curve[0].liquidity.isZero()) {
+        const nextSqrtPrice = getNextSqrtPriceFromOutput(
+            sqrtPrice,
+            configState.curve[0].liquidity,
+            amountLeft,
+            true
+        )
+
+        const inputAmount = getDeltaAmountBaseUnsigned(
+            nextSqrtPrice,
+            sqrtPrice,
+            configState.curve[0].liquidity,
+            Rounding.Up
+        )
+
+        totalInputAmount = SafeMath.add(totalInputAmount, inputAmount)
+        sqrtPrice = nextSqrtPrice
+        amountLeft = new BN(0)
+    }
+
+    if (!amountLeft.isZero()) {
+        throw new Error('Not enough liquidity to process the entire amount')
+    }
+
+    return {
+        inputAmount: totalInputAmount,
+        nextSqrtPrice: sqrtPrice,
+    }
+}
+
+/**
+ * Get the quote input required for an exact base output (quote to base)
+ * @param configState Config state
+ * @param currentSqrtPrice Current sqrt price
+ * @param amountOut Exact base output amount (before output fees)
+ * @returns Required quote input and next sqrt price
+ * @throws Error if not enough liquidity
+ */
+export function getSwapAmountFromQuoteToBaseExactOut(
+    configState: {
+        curve: Array<{
+            sqrtPrice: BN
+            liquidity: BN
+        }>
+    },
+    currentSqrtPrice: BN,
+    amountOut: BN
+): SwapAmountExactOut {
+    if (amountOut.isZero()) {
+        return {
+            inputAmount: new BN(0),
+            nextSqrtPrice: currentSqrtPrice,
+        }
+    }
+
+    let totalInputAmount = new BN(0)
+    let sqrtPrice = currentSqrtPrice
+    let amountLeft = amountOut
+
+    // iterate through the curve points
+    for (let i = 0; i < configState.curve.length; i++) {
+        if (
+            configState.curve[i].sqrtPrice.isZero() ||
+            configState.curve[i].liquidity.isZero()
+        ) {
+            break
+        }
+
+        if (configState.curve[i].sqrtPrice.gt(sqrtPrice)) {
+            const maxAmountOut = getDeltaAmountBaseUnsigned(
+                sqrtPrice,
+                configState.curve[i].sqrtPrice,
+                configState.curve[i].liquidity,
+                Rounding.Down
+            )
+
+            if (amountLeft.lt(maxAmountOut)) {
+                const nextSqrtPrice = getNextSqrtPriceFromOutput(
+                    sqrtPrice,
+                    configState.curve[i].liquidity,
+                    amountLeft,
+                    false
+                )
+
+                const inputAmount = getDeltaAmountQuoteUnsigned(
+                    sqrtPrice,
+                    nextSqrtPrice,
+                    configState.curve[i].liquidity,
+                    Rounding.Up
+                )
+
+                totalInputAmount = SafeMath.add(totalInputAmount, inputAmount)
+                sqrtPrice = nextSqrtPrice
+                amountLeft = new BN(0)
+                break
+            } else {
+                const nextSqrtPrice = configState.curve[i].sqrtPrice
+                const inputAmount = getDeltaAmountQuoteUnsigned(
+                    sqrtPrice,
+                    nextSqrtPrice,
+                    configState.curve[i].liquidity,
+                    Rounding.Up
+                )
+
+                totalInputAmount = SafeMath.add(totalInputAmount, inputAmount)
+                sqrtPrice = nextSqrtPrice
+                amountLeft = SafeMath.sub(amountLeft, maxAmountOut)
+            }
+        }
+    }
+
+    // check if all amount was processed
+    if (!amountLeft.isZero()) {
+        throw new Error('Not enough liquidity to process the entire amount')
+    }
+
+    return {
+        inputAmount: totalInputAmount,
+        nextSqrtPrice: sqrtPrice,
+    }
+}
+
 /**
  * Get fee mode
  * @param collectFeeMode Collect fee mode
@@ -431,6 +649,348 @@ export async function swapQuote(
     return result
 }
 
+/**
+ * Get the decimal adjusted price information of a swap quote
+ * @param quote Swap quote result
+ * @param amountIn Input amount of the swap
+ * @param swapBaseForQuote Whether to swap base for quote
+ * @param feesOnInput Whether fees are charged on the input token
+ * @param tokenBaseDecimal Base token decimal
+ * @param tokenQuoteDecimal Quote token decimal
+ * @returns Price information of the swap
+ */
+export function getQuotePriceInfo(
+    quote: QuoteResult,
+    amountIn: BN,
+    swapBaseForQuote: boolean,
+    feesOnInput: boolean,
+    tokenBaseDecimal: number,
+    tokenQuoteDecimal: number
+): QuotePriceInfo {
+    const totalFee = quote.fee.trading
+        .add(quote.fee.protocol)
+        .add(quote.fee.referral ?? new BN(0))
+
+    // amounts that actually went through the curve
+    const curveAmountIn = feesOnInput ? amountIn.sub(totalFee) : amountIn
+    const curveAmountOut = feesOnInput
+        ? quote.amountOut
+        : quote.amountOut.add(totalFee)
+
+    const toUiAmount = (amount: BN, decimal: number) =>
+        new Decimal(amount.toString()).div(new Decimal(10).pow(decimal))
+
+    // prices are always expressed as quote per base
+    const getPrice = (input: BN, output: BN) =>
+        swapBaseForQuote
+            ? toUiAmount(output, tokenQuoteDecimal).div(
+                  toUiAmount(input, tokenBaseDecimal)
+              )
+            : toUiAmount(input, tokenQuoteDecimal).div(
+                  toUiAmount(output, tokenBaseDecimal)
+              )
+
+    const spotPriceBefore = getPriceFromSqrtPrice(
+        quote.price.beforeSwap,
+        tokenBaseDecimal,
+        tokenQuoteDecimal
+    )
+    const spotPriceAfter = getPriceFromSqrtPrice(
+        quote.price.afterSwap,
+        tokenBaseDecimal,
+        tokenQuoteDecimal
+    )
+
+    const executionPrice = getPrice(amountIn, quote.amountOut)
+
+    // price impact excludes fees, so it only reflects the curve movement
+    const curvePrice = getPrice(curveAmountIn, curveAmountOut)
+    const priceImpactBps = curvePrice
+        .sub(spotPriceBefore)
+        .abs()
+        .div(spotPriceBefore)
+        .mul(10000)
+
+    const feeBaseAmount = feesOnInput ? amountIn : curveAmountOut
+    const effectiveFeeBps = feeBaseAmount.isZero()
+        ? new Decimal(0)
+        : new Decimal(totalFee.toString())
+              .div(new Decimal(feeBaseAmount.toString()))
+              .mul(10000)
+
+    return {
+        spotPriceBefore,
+        spotPriceAfter,
+        executionPrice,
+        priceImpactBps,
+        effectiveFeeBps,
+    }
+}
+
+/**
+ * Calculate quote for a swap with exact input amount, including decimal adjusted price information
+ * @param virtualPool Virtual pool state
+ * @param config Pool config state
+ * @param swapBaseForQuote Whether to swap base for quote
+ * @param amountIn Input amount
+ * @param slippageBps Slippage tolerance in basis points (100 = 1%)
+ * @param hasReferral Whether referral is used
+ * @param currentPoint Current point
+ * @param tokenQuoteDecimal Quote token decimal
+ * @returns Swap quote result with price information
+ */
+export async function swapQuoteWithPriceImpact(
+    virtualPool: VirtualPool,
+    config: PoolConfig,
+    swapBaseForQuote: boolean,
+    amountIn: BN,
+    slippageBps: number = 0,
+    hasReferral: boolean,
+    currentPoint: BN,
+    tokenQuoteDecimal: number
+): Promise<QuoteResult> {
+    const result = await swapQuote(
+        virtualPool,
+        config,
+        swapBaseForQuote,
+        amountIn,
+        slippageBps,
+        hasReferral,
+        currentPoint
+    )
+
+    const tradeDirection = swapBaseForQuote
+        ? TradeDirection.BaseToQuote
+        : TradeDirection.QuoteToBase
+    const feeMode = getFeeMode(
+        config.collectFeeMode,
+        tradeDirection,
+        hasReferral
+    )
+
+    return {
+        ...result,
+        priceInfo: getQuotePriceInfo(
+            result,
+            amountIn,
+            swapBaseForQuote,
+            feeMode.feesOnInput,
+            config.tokenDecimal,
+            tokenQuoteDecimal
+        ),
+    }
+}
+
+/**
+ * Calculate quote for a swap with exact output amount
+ * @param virtualPool Virtual pool state
+ * @param config Pool config state
+ * @param swapBaseForQuote Whether to swap base for quote
+ * @param amountOut Exact output amount
+ * @param slippageBps Slippage tolerance in basis points (100 = 1%)
+ * @param hasReferral Whether referral is used
+ * @param currentPoint Current point
+ * @returns Swap quote exact out result
+ */
+export function swapQuoteExactOut(
+    virtualPool: VirtualPool,
+    config: PoolConfig,
+    swapBaseForQuote: boolean,
+    amountOut: BN,
+    slippageBps: number = 0,
+    hasReferral: boolean,
+    currentPoint: BN
+): QuoteExactOutResult {
+    if (virtualPool.quoteReserve.gte(config.migrationQuoteThreshold)) {
+        throw new Error('Virtual pool is completed')
+    }
+
+    if (amountOut.isZero()) {
+        throw new Error('Amount is zero')
+    }
+
+    const tradeDirection = swapBaseForQuote
+        ? TradeDirection.BaseToQuote
+        : TradeDirection.QuoteToBase
+
+    const feeMode = getFeeMode(
+        config.collectFeeMode,
+        tradeDirection,
+        hasReferral
+    )
+
+    // add back fees charged on output if needed
+    let swapAmountOut = amountOut
+    if (!feeMode.feesOnInput) {
+        swapAmountOut = getIncludedFeeAmount(
+            amountOut,
+            config.poolFees,
+            feeMode.hasReferral,
+            currentPoint,
+            virtualPool.activationPoint,
+            virtualPool.volatilityTracker,
+            tradeDirection
+        ).includedFeeAmount
+    }
+
+    if (
+        tradeDirection === TradeDirection.BaseToQuote &&
+        swapAmountOut.gt(virtualPool.quoteReserve)
+    ) {
+        throw new Error('Not enough liquidity to process the entire amount')
+    }
+
+    // calculate swap amount
+    const swapAmount: SwapAmountExactOut =
+        tradeDirection === TradeDirection.BaseToQuote
+            ? getSwapAmountFromBaseToQuoteExactOut(
+                  config,
+                  virtualPool.sqrtPrice,
+                  swapAmountOut
+              )
+            : getSwapAmountFromQuoteToBaseExactOut(
+                  config,
+                  virtualPool.sqrtPrice,
+                  swapAmountOut
+              )
+
+    // add back fees charged on input if needed
+    let amountIn = swapAmount.inputAmount
+    if (feeMode.feesOnInput) {
+        amountIn = getIncludedFeeAmount(
+            swapAmount.inputAmount,
+            config.poolFees,
+            feeMode.hasReferral,
+            currentPoint,
+            virtualPool.activationPoint,
+            virtualPool.volatilityTracker,
+            tradeDirection
+        ).includedFeeAmount
+    }
+
+    // replay the exact in path so amounts and fee split follow on-chain rounding
+    const result = getSwapResult(
+        virtualPool,
+        config,
+        amountIn,
+        feeMode,
+        tradeDirection,
+        currentPoint
+    )
+
+    // maximum amount in: amountIn * (10000 + slippageBps) / 10000
+    const maximumAmountIn =
+        slippageBps > 0
+            ? amountIn.mul(new BN(10000 + slippageBps)).div(new BN(10000))
+            : amountIn
+
+    return {
+        amountIn,
+        maximumAmountIn,
+        amountOut: result.amountOut,
+        nextSqrtPrice: result.nextSqrtPrice,
+        fee: result.fee,
+        price: result.price,
+    }
+}
+
+/**
+ * Calculate quote for a swap that stops at the migration threshold instead of throwing
+ * @param virtualPool Virtual pool state
+ * @param config Pool config state
+ * @param swapBaseForQuote Whether to swap base for quote
+ * @param amountIn Input amount
+ * @param slippageBps Slippage tolerance in basis points (100 = 1%)
+ * @param hasReferral Whether referral is used
+ * @param currentPoint Current point
+ * @returns Swap quote partial fill result
+ */
+export function swapQuotePartialFill(
+    virtualPool: VirtualPool,
+    config: PoolConfig,
+    swapBaseForQuote: boolean,
+    amountIn: BN,
+    slippageBps: number = 0,
+    hasReferral: boolean,
+    currentPoint: BN
+): QuotePartialFillResult {
+    if (amountIn.isZero()) {
+        throw new Error('Amount is zero')
+    }
+
+    // nothing can be swapped once the curve is complete
+    if (virtualPool.quoteReserve.gte(config.migrationQuoteThreshold)) {
+        return {
+            amountOut: new BN(0),
+            minimumAmountOut: new BN(0),
+            nextSqrtPrice: virtualPool.sqrtPrice,
+            fee: {
+                trading: new BN(0),
+                protocol: new BN(0),
+                referral: new BN(0),
+            },
+            price: {
+                beforeSwap: virtualPool.sqrtPrice,
+                afterSwap: virtualPool.sqrtPrice,
+            },
+            consumedInputAmount: new BN(0),
+            unusedInputAmount: amountIn,
+            isCurveComplete: true,
+        }
+    }
+
+    const tradeDirection = swapBaseForQuote
+        ? TradeDirection.BaseToQuote
+        : TradeDirection.QuoteToBase
+
+    const feeMode = getFeeMode(
+        config.collectFeeMode,
+        tradeDirection,
+        hasReferral
+    )
+
+    // only buys move the pool towards the migration threshold, so cap the
+    // input at the amount that brings the quote reserve to the threshold
+    let consumedInputAmount = amountIn
+    let isCurveComplete = false
+    if (!swapBaseForQuote) {
+        const maxAmountIn = calculateQuoteExactInAmount(
+            config,
+            virtualPool,
+            currentPoint
+        )
+        if (amountIn.gte(maxAmountIn)) {
+            consumedInputAmount = maxAmountIn
+            isCurveComplete = true
+        }
+    }
+
+    const result = getSwapResult(
+        virtualPool,
+        config,
+        consumedInputAmount,
+        feeMode,
+        tradeDirection,
+        currentPoint
+    )
+
+    // minimum amount out: amountOut * (10000 - slippageBps) / 10000
+    const minimumAmountOut =
+        slippageBps > 0
+            ? result.amountOut
+                  .mul(new BN(10000 - slippageBps))
+                  .div(new BN(10000))
+            : result.amountOut
+
+    return {
+        ...result,
+        minimumAmountOut,
+        consumedInputAmount,
+        unusedInputAmount: amountIn.sub(consumedInputAmount),
+        isCurveComplete,
+    }
+}
+
 /**
  * Calculate the required quote amount for exact input
  * @param migrationQuoteThreshold Migration quote threshold
@@ -454,33 +1014,17 @@ export function calculateQuoteExactInAmount(
     )
 
     if (config.collectFeeMode === CollectFeeMode.OnlyQuote) {
-        const baseFeeNumerator = getBaseFeeNumerator(
-            config.poolFees.baseFee,
-            TradeDirection.QuoteToBase,
-            currentPoint,
-            virtualPool.activationPoint
-        )
-
-        let totalFeeNumerator = baseFeeNumerator
-        if (config.poolFees.dynamicFee.initialized !== 0) {
-            const variableFee = getVariableFee(
-                config.poolFees.dynamicFee,
-                virtualPool.volatilityTracker
-            )
-            totalFeeNumerator = SafeMath.add(totalFeeNumerator, variableFee)
-        }
-
-        // cap at MAX_FEE_NUMERATOR
-        totalFeeNumerator = BN.min(totalFeeNumerator, new BN(MAX_FEE_NUMERATOR))
-
-        // amountIn = amountInAfterFee * FEE_DENOMINATOR / (FEE_DENOMINATOR - effectiveFeeNumerator)
-        const denominator = new BN(FEE_DENOMINATOR).sub(totalFeeNumerator)
-        return mulDiv(
+        // fees are charged on the quote input, so gross up the remaining amount
+        const { includedFeeAmount } = getIncludedFeeAmount(
             amountInAfterFee,
-            new BN(FEE_DENOMINATOR),
-            denominator,
-            Rounding.Up
+            config.poolFees,
+            false,
+            currentPoint,
+            virtualPool.activationPoint,
+            virtualPool.volatilityTracker,
+            TradeDirection.QuoteToBase
         )
+        return includedFeeAmount
     } else {
         return amountInAfterFee
     }
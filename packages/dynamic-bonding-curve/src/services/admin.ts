@@ -0,0 +1,368 @@
+import {
+    Commitment,
+    PublicKey,
+    TransactionInstruction,
+    type Connection,
+} from '@solana/web3.js'
+import type { ProgramAccount } from '@coral-xyz/anchor'
+import { DynamicBondingCurveProgram } from './program'
+import { StateService } from './state'
+import {
+    deriveClaimFeeOperatorAddress,
+    getOrCreateATAInstruction,
+    getTokenProgram,
+} from '../helpers'
+import { TREASURY_ADDRESS } from '../constants'
+import {
+    BuiltInstructions,
+    BuiltTransaction,
+    ClaimFeeOperator,
+    ClaimProtocolFeeParam,
+    CloseClaimFeeOperatorParam,
+    CreateClaimFeeOperatorParam,
+    LegacyTransactionOptions,
+    PoolProtocolFee,
+    ProtocolWithdrawSurplusParam,
+    TransactionOptions,
+} from '../types'
+
+export class AdminService extends DynamicBondingCurveProgram {
+    private state: StateService
+
+    constructor(connection: Connection, commitment: Commitment) {
+        super(connection, commitment)
+        this.state = new StateService(connection, commitment)
+    }
+
+    /**
+     * Get the claim fee operator account of an operator
+     * @param operator - The operator
+     * @returns The claim fee operator account, or null if not found
+     */
+    async getClaimFeeOperator(
+        operator: PublicKey
+    ): Promise<ClaimFeeOperator | null> {
+        return this.program.account.claimFeeOperator.fetchNullable(
+            deriveClaimFeeOperatorAddress(operator)
+        )
+    }
+
+    /**
+     * Get all claim fee operator accounts
+     * @returns An array of claim fee operator accounts with their addresses
+     */
+    async getClaimFeeOperators(): Promise<ProgramAccount<ClaimFeeOperator>[]> {
+        return this.program.account.claimFeeOperator.all()
+    }
+
+    /**
+     * Get the unclaimed protocol fees of a pool
+     * @param poolAddress - The address of the pool
+     * @returns The unclaimed protocol base and quote fees
+     */
+    async getPoolProtocolFee(
+        poolAddress: PublicKey | string
+    ): Promise<PoolProtocolFee> {
+        const pool = await this.state.getPool(poolAddress)
+        if (!pool) {
+            throw new Error(`Pool not found: ${poolAddress.toString()}`)
+        }
+
+        return {
+            poolAddress: new PublicKey(poolAddress),
+            protocolBaseFee: pool.protocolBaseFee,
+            protocolQuoteFee: pool.protocolQuoteFee,
+        }
+    }
+
+    /**
+     * Get the unclaimed protocol fees of all pools, or of the pools of a config
+     * @param configAddress - The address of the pool config (optional)
+     * @returns Array of pools with their unclaimed protocol fees
+     */
+    async getPoolsProtocolFees(
+        configAddress?: PublicKey | string
+    ): Promise<PoolProtocolFee[]> {
+        const pools = configAddress
+            ? await this.state.getPoolsByConfig(configAddress)
+            : await this.state.getPools()
+
+        return pools.map((pool) => ({
+            poolAddress: pool.publicKey,
+            protocolBaseFee: pool.account.protocolBaseFee,
+            protocolQuoteFee: pool.account.protocolQuoteFee,
+        }))
+    }
+
+    /**
+     * Build the instructions to create a claim fee operator
+     * @param createClaimFeeOperatorParam - The parameters for the claim fee operator
+     * @returns The instructions and signers of a create claim fee operator transaction
+     */
+    async createClaimFeeOperatorInstructions(
+        createClaimFeeOperatorParam: CreateClaimFeeOperatorParam
+    ): Promise<BuiltInstructions> {
+        const { admin, operator } = createClaimFeeOperatorParam
+
+        const instruction = await this.program.methods
+            .createClaimFeeOperator()
+            .accountsPartial({
+                claimFeeOperator: deriveClaimFeeOperatorAddress(operator),
+                operator,
+                admin,
+            })
+            .instruction()
+
+        return {
+            setupInstructions: [],
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [],
+        }
+    }
+
+    /**
+     * Create a claim fee operator
+     * @param createClaimFeeOperatorParam - The parameters for the claim fee operator
+     * @returns A create claim fee operator transaction
+     */
+    async createClaimFeeOperator<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        createClaimFeeOperatorParam: CreateClaimFeeOperatorParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.createClaimFeeOperatorInstructions(
+            createClaimFeeOperatorParam
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            createClaimFeeOperatorParam.admin,
+            options
+        )
+    }
+
+    /**
+     * Build the instructions to close a claim fee operator
+     * @param closeClaimFeeOperatorParam - The parameters for the claim fee operator
+     * @returns The instructions and signers of a close claim fee operator transaction
+     */
+    async closeClaimFeeOperatorInstructions(
+        closeClaimFeeOperatorParam: CloseClaimFeeOperatorParam
+    ): Promise<BuiltInstructions> {
+        const { admin, operator, rentReceiver } = closeClaimFeeOperatorParam
+
+        const instruction = await this.program.methods
+            .closeClaimFeeOperator()
+            .accountsPartial({
+                claimFeeOperator: deriveClaimFeeOperatorAddress(operator),
+                rentReceiver: rentReceiver ?? admin,
+                admin,
+            })
+            .instruction()
+
+        return {
+            setupInstructions: [],
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [],
+        }
+    }
+
+    /**
+     * Close a claim fee operator
+     * @param closeClaimFeeOperatorParam - The parameters for the claim fee operator
+     * @returns A close claim fee operator transaction
+     */
+    async closeClaimFeeOperator<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        closeClaimFeeOperatorParam: CloseClaimFeeOperatorParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.closeClaimFeeOperatorInstructions(
+            closeClaimFeeOperatorParam
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            closeClaimFeeOperatorParam.admin,
+            options
+        )
+    }
+
+    /**
+     * Build the instructions to claim the protocol fees of a pool to the treasury
+     * @param claimProtocolFeeParam - The parameters for the claim protocol fee
+     * @returns The instructions and signers of a claim protocol fee transaction
+     */
+    async claimProtocolFeeInstructions(
+        claimProtocolFeeParam: ClaimProtocolFeeParam
+    ): Promise<BuiltInstructions> {
+        const { operator, virtualPool } = claimProtocolFeeParam
+        const payer = claimProtocolFeeParam.payer ?? operator
+
+        const poolState = await this.state.getPool(virtualPool)
+        if (!poolState) {
+            throw new Error(`Pool not found: ${virtualPool.toString()}`)
+        }
+
+        const poolConfigState = await this.state.getPoolConfig(poolState.config)
+
+        const tokenBaseProgram = getTokenProgram(poolConfigState.tokenType)
+        const tokenQuoteProgram = getTokenProgram(
+            poolConfigState.quoteTokenFlag
+        )
+
+        const preInstructions: TransactionInstruction[] = []
+        const { ataPubkey: tokenBaseAccount, ix: createBaseTokenAccountIx } =
+            await getOrCreateATAInstruction(
+                this.connection,
+                poolState.baseMint,
+                TREASURY_ADDRESS,
+                payer,
+                true,
+                tokenBaseProgram
+            )
+        createBaseTokenAccountIx &&
+            preInstructions.push(createBaseTokenAccountIx)
+
+        const { ataPubkey: tokenQuoteAccount, ix: createQuoteTokenAccountIx } =
+            await getOrCreateATAInstruction(
+                this.connection,
+                poolConfigState.quoteMint,
+                TREASURY_ADDRESS,
+                payer,
+                true,
+                tokenQuoteProgram
+            )
+        createQuoteTokenAccountIx &&
+            preInstructions.push(createQuoteTokenAccountIx)
+
+        const instruction = await this.program.methods
+            .claimProtocolFee()
+            .accountsPartial({
+                poolAuthority: this.poolAuthority,
+                config: poolState.config,
+                pool: virtualPool,
+                baseVault: poolState.baseVault,
+                quoteVault: poolState.quoteVault,
+                baseMint: poolState.baseMint,
+                quoteMint: poolConfigState.quoteMint,
+                tokenBaseAccount,
+                tokenQuoteAccount,
+                claimFeeOperator: deriveClaimFeeOperatorAddress(operator),
+                operator,
+                tokenBaseProgram,
+                tokenQuoteProgram,
+            })
+            .instruction()
+
+        return {
+            setupInstructions: preInstructions,
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [],
+        }
+    }
+
+    /**
+     * Claim the protocol fees of a pool to the treasury
+     * @param claimProtocolFeeParam - The parameters for the claim protocol fee
+     * @returns A claim protocol fee transaction
+     */
+    async claimProtocolFee<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        claimProtocolFeeParam: ClaimProtocolFeeParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.claimProtocolFeeInstructions(
+            claimProtocolFeeParam
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            claimProtocolFeeParam.payer ?? claimProtocolFeeParam.operator,
+            options
+        )
+    }
+
+    /**
+     * Build the instructions to withdraw the protocol surplus of a pool to the treasury
+     * @param protocolWithdrawSurplusParam - The parameters for the protocol withdraw surplus
+     * @returns The instructions and signers of a protocol withdraw surplus transaction
+     */
+    async protocolWithdrawSurplusInstructions(
+        protocolWithdrawSurplusParam: ProtocolWithdrawSurplusParam
+    ): Promise<BuiltInstructions> {
+        const { payer, virtualPool } = protocolWithdrawSurplusParam
+
+        const poolState = await this.state.getPool(virtualPool)
+        if (!poolState) {
+            throw new Error(`Pool not found: ${virtualPool.toString()}`)
+        }
+
+        const poolConfigState = await this.state.getPoolConfig(poolState.config)
+
+        const tokenQuoteProgram = getTokenProgram(
+            poolConfigState.quoteTokenFlag
+        )
+
+        const preInstructions: TransactionInstruction[] = []
+        const { ataPubkey: tokenQuoteAccount, ix: createQuoteTokenAccountIx } =
+            await getOrCreateATAInstruction(
+                this.connection,
+                poolConfigState.quoteMint,
+                TREASURY_ADDRESS,
+                payer,
+                true,
+                tokenQuoteProgram
+            )
+        createQuoteTokenAccountIx &&
+            preInstructions.push(createQuoteTokenAccountIx)
+
+        const instruction = await this.program.methods
+            .protocolWithdrawSurplus()
+            .accountsPartial({
+                poolAuthority: this.poolAuthority,
+                config: poolState.config,
+                virtualPool,
+                tokenQuoteAccount,
+                quoteVault: poolState.quoteVault,
+                quoteMint: poolConfigState.quoteMint,
+                tokenQuoteProgram,
+            })
+            .instruction()
+
+        return {
+            setupInstructions: preInstructions,
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [],
+        }
+    }
+
+    /**
+     * Withdraw the protocol surplus of a pool to the treasury
+     * @param protocolWithdrawSurplusParam - The parameters for the protocol withdraw surplus
+     * @returns A protocol withdraw surplus transaction
+     */
+    async protocolWithdrawSurplus<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        protocolWithdrawSurplusParam: ProtocolWithdrawSurplusParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.protocolWithdrawSurplusInstructions(
+            protocolWithdrawSurplusParam
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            protocolWithdrawSurplusParam.payer,
+            options
+        )
+    }
+}
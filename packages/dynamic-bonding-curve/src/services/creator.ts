@@ -2,17 +2,20 @@ import {
     Commitment,
     PublicKey,
     SystemProgram,
-    Transaction,
     TransactionInstruction,
     type Connection,
 } from '@solana/web3.js'
 import {
+    BuiltInstructions,
+    BuiltTransaction,
     ClaimCreatorTradingFee2Param,
     ClaimCreatorTradingFeeParam,
     ClaimCreatorTradingFeeWithQuoteMintNotSolParam,
     ClaimCreatorTradingFeeWithQuoteMintSolParam,
     CreateVirtualPoolMetadataParam,
     CreatorWithdrawSurplusParam,
+    LegacyTransactionOptions,
+    TransactionOptions,
     TransferPoolCreatorParam,
     WithdrawMigrationFeeParam,
 } from '../types'
@@ -42,17 +45,17 @@ export class CreatorService extends DynamicBondingCurveProgram {
     }
 
     /**
-     * Create virtual pool metadata
+     * Build the instructions to create virtual pool metadata
      * @param createVirtualPoolMetadataParam - The parameters for the virtual pool metadata
-     * @returns A create virtual pool metadata transaction
+     * @returns The instructions and signers of a create virtual pool metadata transaction
      */
-    async createPoolMetadata(
+    async createPoolMetadataInstructions(
         createVirtualPoolMetadataParam: CreateVirtualPoolMetadataParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const virtualPoolMetadata = deriveDbcPoolMetadata(
             createVirtualPoolMetadataParam.virtualPool
         )
-        return this.program.methods
+        const instruction = await this.program.methods
             .createVirtualPoolMetadata({
                 padding: new Array(96).fill(0),
                 name: createVirtualPoolMetadataParam.name,
@@ -66,7 +69,36 @@ export class CreatorService extends DynamicBondingCurveProgram {
                 payer: createVirtualPoolMetadataParam.payer,
                 systemProgram: SystemProgram.programId,
             })
-            .transaction()
+            .instruction()
+
+        return {
+            setupInstructions: [],
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [],
+        }
+    }
+
+    /**
+     * Create virtual pool metadata
+     * @param createVirtualPoolMetadataParam - The parameters for the virtual pool metadata
+     * @returns A create virtual pool metadata transaction
+     */
+    async createPoolMetadata<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        createVirtualPoolMetadataParam: CreateVirtualPoolMetadataParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.createPoolMetadataInstructions(
+            createVirtualPoolMetadataParam
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            createVirtualPoolMetadataParam.payer,
+            options
+        )
     }
 
     /**
@@ -227,13 +259,13 @@ export class CreatorService extends DynamicBondingCurveProgram {
     }
 
     /**
-     * Claim creator trading fee
+     * Build the instructions to claim creator trading fee
      * @param claimCreatorTradingFeeParam - The parameters for the claim creator trading fee
-     * @returns A claim creator trading fee transaction
+     * @returns The instructions and signers of a claim creator trading fee transaction
      */
-    async claimCreatorTradingFee(
+    async claimCreatorTradingFeeInstructions(
         claimCreatorTradingFeeParam: ClaimCreatorTradingFeeParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const {
             creator,
             pool,
@@ -282,12 +314,17 @@ export class CreatorService extends DynamicBondingCurveProgram {
                 tokenQuoteProgram,
             })
 
-            return this.program.methods
+            const instruction = await this.program.methods
                 .claimCreatorTradingFee(maxBaseAmount, maxQuoteAmount)
                 .accountsPartial(result.accounts)
-                .preInstructions(result.preInstructions)
-                .postInstructions(result.postInstructions)
-                .transaction()
+                .instruction()
+
+            return {
+                setupInstructions: result.preInstructions,
+                instructions: [instruction],
+                cleanupInstructions: result.postInstructions,
+                signers: [],
+            }
         } else {
             // check if receiver is provided, use receiver, otherwise use creator
             const feeReceiver = receiver ? receiver : creator
@@ -302,12 +339,17 @@ export class CreatorService extends DynamicBondingCurveProgram {
                 tokenBaseProgram,
                 tokenQuoteProgram,
             })
-            return this.program.methods
+            const instruction = await this.program.methods
                 .claimCreatorTradingFee(maxBaseAmount, maxQuoteAmount)
                 .accountsPartial(result.accounts)
-                .preInstructions(result.preInstructions)
-                .postInstructions([])
-                .transaction()
+                .instruction()
+
+            return {
+                setupInstructions: result.preInstructions,
+                instructions: [instruction],
+                cleanupInstructions: [],
+                signers: [],
+            }
         }
     }
 
@@ -316,9 +358,31 @@ export class CreatorService extends DynamicBondingCurveProgram {
      * @param claimCreatorTradingFeeParam - The parameters for the claim creator trading fee
      * @returns A claim creator trading fee transaction
      */
-    async claimCreatorTradingFee2(
+    async claimCreatorTradingFee<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        claimCreatorTradingFeeParam: ClaimCreatorTradingFeeParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.claimCreatorTradingFeeInstructions(
+            claimCreatorTradingFeeParam
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            claimCreatorTradingFeeParam.payer,
+            options
+        )
+    }
+
+    /**
+     * Build the instructions to claim creator trading fee
+     * @param claimCreatorTradingFeeParam - The parameters for the claim creator trading fee
+     * @returns The instructions and signers of a claim creator trading fee transaction
+     */
+    async claimCreatorTradingFee2Instructions(
         claimCreatorTradingFee2Param: ClaimCreatorTradingFee2Param
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const {
             creator,
             pool,
@@ -402,12 +466,17 @@ export class CreatorService extends DynamicBondingCurveProgram {
                 tokenQuoteProgram,
             }
 
-            return this.program.methods
+            const instruction = await this.program.methods
                 .claimCreatorTradingFee(maxBaseAmount, maxQuoteAmount)
                 .accountsPartial(accounts)
-                .preInstructions(preInstructions)
-                .postInstructions(postInstructions)
-                .transaction()
+                .instruction()
+
+            return {
+                setupInstructions: preInstructions,
+                instructions: [instruction],
+                cleanupInstructions: postInstructions,
+                signers: [],
+            }
         } else {
             const result = await this.claimWithQuoteMintNotSol({
                 creator,
@@ -419,23 +488,50 @@ export class CreatorService extends DynamicBondingCurveProgram {
                 tokenBaseProgram,
                 tokenQuoteProgram,
             })
-            return this.program.methods
+            const instruction = await this.program.methods
                 .claimCreatorTradingFee(maxBaseAmount, maxQuoteAmount)
                 .accountsPartial(result.accounts)
-                .preInstructions(result.preInstructions)
-                .postInstructions([])
-                .transaction()
+                .instruction()
+
+            return {
+                setupInstructions: result.preInstructions,
+                instructions: [instruction],
+                cleanupInstructions: [],
+                signers: [],
+            }
         }
     }
 
     /**
-     * Withdraw creator surplus
+     * Claim creator trading fee
+     * @param claimCreatorTradingFeeParam - The parameters for the claim creator trading fee
+     * @returns A claim creator trading fee transaction
+     */
+    async claimCreatorTradingFee2<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        claimCreatorTradingFee2Param: ClaimCreatorTradingFee2Param,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.claimCreatorTradingFee2Instructions(
+            claimCreatorTradingFee2Param
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            claimCreatorTradingFee2Param.payer,
+            options
+        )
+    }
+
+    /**
+     * Build the instructions to withdraw creator surplus
      * @param creatorWithdrawSurplusParam - The parameters for the creator withdraw surplus
-     * @returns A creator withdraw surplus transaction
+     * @returns The instructions and signers of a creator withdraw surplus transaction
      */
-    async creatorWithdrawSurplus(
+    async creatorWithdrawSurplusInstructions(
         creatorWithdrawSurplusParam: CreatorWithdrawSurplusParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const { creator, virtualPool } = creatorWithdrawSurplusParam
 
         const poolState = await this.state.getPool(virtualPool)
@@ -492,22 +588,49 @@ export class CreatorService extends DynamicBondingCurveProgram {
             tokenQuoteProgram: TOKEN_PROGRAM_ID,
         }
 
-        return this.program.methods
+        const instruction = await this.program.methods
             .creatorWithdrawSurplus()
             .accountsPartial(accounts)
-            .preInstructions(preInstructions)
-            .postInstructions(postInstructions)
-            .transaction()
+            .instruction()
+
+        return {
+            setupInstructions: preInstructions,
+            instructions: [instruction],
+            cleanupInstructions: postInstructions,
+            signers: [],
+        }
+    }
+
+    /**
+     * Withdraw creator surplus
+     * @param creatorWithdrawSurplusParam - The parameters for the creator withdraw surplus
+     * @returns A creator withdraw surplus transaction
+     */
+    async creatorWithdrawSurplus<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        creatorWithdrawSurplusParam: CreatorWithdrawSurplusParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.creatorWithdrawSurplusInstructions(
+            creatorWithdrawSurplusParam
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            creatorWithdrawSurplusParam.creator,
+            options
+        )
     }
 
-    async transferPoolCreator(
+    async transferPoolCreatorInstructions(
         transferPoolCreatorParams: TransferPoolCreatorParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const { virtualPool, creator, newCreator } = transferPoolCreatorParams
         const virtualPoolState = await this.state.getPool(virtualPool)
         const migrationMetadata =
             deriveDammV1MigrationMetadataAddress(virtualPool)
-        const transaction = await this.program.methods
+        const instruction = await this.program.methods
             .transferPoolCreator()
             .accountsPartial({
                 virtualPool,
@@ -522,14 +645,36 @@ export class CreatorService extends DynamicBondingCurveProgram {
                     pubkey: migrationMetadata,
                 },
             ])
-            .transaction()
+            .instruction()
 
-        return transaction
+        return {
+            setupInstructions: [],
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [],
+        }
     }
 
-    async creatorWithdrawMigrationFee(
+    async transferPoolCreator<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        transferPoolCreatorParams: TransferPoolCreatorParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.transferPoolCreatorInstructions(
+            transferPoolCreatorParams
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            transferPoolCreatorParams.creator,
+            options
+        )
+    }
+
+    async creatorWithdrawMigrationFeeInstructions(
         withdrawMigrationFeeParams: WithdrawMigrationFeeParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const { virtualPool, sender, feePayer } = withdrawMigrationFeeParams
         const virtualPoolState = await this.state.getPool(virtualPool)
         const configState = await this.state.getPoolConfig(
@@ -550,7 +695,7 @@ export class CreatorService extends DynamicBondingCurveProgram {
             unwarpSOLIx && postInstruction.push(unwarpSOLIx)
         }
 
-        const transaction = await this.program.methods
+        const instruction = await this.program.methods
             .withdrawMigrationFee(1) // 0 as partner and 1 as creator
             .accountsPartial({
                 poolAuthority: this.poolAuthority,
@@ -562,10 +707,31 @@ export class CreatorService extends DynamicBondingCurveProgram {
                 sender,
                 tokenQuoteProgram: getTokenProgram(configState.quoteTokenFlag),
             })
-            .preInstructions([preInstruction])
-            .postInstructions(postInstruction)
-            .transaction()
+            .instruction()
+
+        return {
+            setupInstructions: preInstruction ? [preInstruction] : [],
+            instructions: [instruction],
+            cleanupInstructions: postInstruction,
+            signers: [],
+        }
+    }
+
+    async creatorWithdrawMigrationFee<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        withdrawMigrationFeeParams: WithdrawMigrationFeeParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.creatorWithdrawMigrationFeeInstructions(
+            withdrawMigrationFeeParams
+        )
 
-        return transaction
+        return this.finalizeInstructions(
+            instructions,
+            withdrawMigrationFeeParams.feePayer ??
+                withdrawMigrationFeeParams.sender,
+            options
+        )
     }
 }
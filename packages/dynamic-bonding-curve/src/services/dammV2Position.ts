@@ -0,0 +1,572 @@
+import {
+    Commitment,
+    Keypair,
+    PublicKey,
+    SystemProgram,
+    TransactionInstruction,
+    type Connection,
+} from '@solana/web3.js'
+import {
+    createAssociatedTokenAccountIdempotentInstruction,
+    getAssociatedTokenAddressSync,
+    TOKEN_2022_PROGRAM_ID,
+    unpackAccount,
+} from '@solana/spl-token'
+import type { Program } from '@coral-xyz/anchor'
+import BN from 'bn.js'
+import { DynamicBondingCurveProgram } from './program'
+import { StateService } from './state'
+import {
+    createDammV2Program,
+    deriveDammV2EventAuthority,
+    deriveDammV2PoolAddress,
+    deriveDammV2PoolAuthority,
+    derivePositionAddress,
+    derivePositionNftAccount,
+    getDammConfigAddress,
+    getMultipleAccountData,
+    getTokenProgram,
+    isNativeSol,
+    unwrapSOLInstruction,
+    validateSlippageBps,
+} from '../helpers'
+import { getDammV2UnclaimedFee, getDammV2WithdrawQuote } from '../math'
+import type { DammV2 } from '../idl/damm-v2/idl'
+import {
+    MigrationOption,
+    type BuiltInstructions,
+    type BuiltTransaction,
+    type ClaimDammV2PositionFeeParam,
+    type DammV2Pool,
+    type DammV2Position,
+    type DammV2PositionFee,
+    type DammV2PositionInfo,
+    type DammV2PositionParam,
+    type LegacyTransactionOptions,
+    type LockDammV2PositionParam,
+    type LockDammV2PositionResponse,
+    type PermanentLockDammV2PositionParam,
+    type RemoveDammV2LiquidityParam,
+    type TransactionOptions,
+} from '../types'
+
+type PositionContext = {
+    positionState: DammV2Position
+    poolState: DammV2Pool
+    positionNftAccount: PublicKey
+}
+
+export class DammV2PositionService extends DynamicBondingCurveProgram {
+    private state: StateService
+    private dammV2Program: Program<DammV2>
+
+    constructor(connection: Connection, commitment: Commitment) {
+        super(connection, commitment)
+        this.state = new StateService(connection, commitment)
+        this.dammV2Program = createDammV2Program(connection, commitment)
+    }
+
+    /**
+     * Private method to get the position, its pool and the position NFT account
+     * @param position - The address of the position
+     * @param positionNftAccount - The position NFT account, derived from the NFT mint when omitted
+     * @returns The position state, the pool state and the position NFT account
+     */
+    private async getPositionContext(
+        position: PublicKey,
+        positionNftAccount?: PublicKey
+    ): Promise<PositionContext> {
+        const positionState =
+            await this.dammV2Program.account.position.fetchNullable(position)
+        if (!positionState) {
+            throw new Error(`Position not found: ${position.toString()}`)
+        }
+
+        const poolState = await this.dammV2Program.account.pool.fetchNullable(
+            positionState.pool
+        )
+        if (!poolState) {
+            throw new Error(
+                `DAMM V2 pool not found: ${positionState.pool.toString()}`
+            )
+        }
+
+        return {
+            positionState,
+            poolState,
+            positionNftAccount:
+                positionNftAccount ??
+                derivePositionNftAccount(positionState.nftMint),
+        }
+    }
+
+    /**
+     * Private method to build the token accounts of the owner that receive
+     * the claimed fees or the removed liquidity
+     * @param dammV2PositionParam - The position and its owner
+     * @param poolState - The DAMM V2 pool state
+     * @returns The accounts and the instructions to create and unwrap them
+     */
+    private getOwnerTokenAccounts(
+        dammV2PositionParam: DammV2PositionParam,
+        poolState: DammV2Pool
+    ) {
+        const { owner, payer } = dammV2PositionParam
+
+        const tokenAProgram = getTokenProgram(poolState.tokenAFlag)
+        const tokenBProgram = getTokenProgram(poolState.tokenBFlag)
+
+        const tokenAAccount = getAssociatedTokenAddressSync(
+            poolState.tokenAMint,
+            owner,
+            true,
+            tokenAProgram
+        )
+        const tokenBAccount = getAssociatedTokenAddressSync(
+            poolState.tokenBMint,
+            owner,
+            true,
+            tokenBProgram
+        )
+
+        const preInstructions: TransactionInstruction[] = [
+            createAssociatedTokenAccountIdempotentInstruction(
+                payer,
+                tokenAAccount,
+                owner,
+                poolState.tokenAMint,
+                tokenAProgram
+            ),
+            createAssociatedTokenAccountIdempotentInstruction(
+                payer,
+                tokenBAccount,
+                owner,
+                poolState.tokenBMint,
+                tokenBProgram
+            ),
+        ]
+
+        const postInstructions: TransactionInstruction[] = []
+        if (
+            isNativeSol(poolState.tokenAMint) ||
+            isNativeSol(poolState.tokenBMint)
+        ) {
+            const unwrapIx = unwrapSOLInstruction(owner, owner)
+            unwrapIx && postInstructions.push(unwrapIx)
+        }
+
+        return {
+            accounts: {
+                tokenAAccount,
+                tokenBAccount,
+                tokenAVault: poolState.tokenAVault,
+                tokenBVault: poolState.tokenBVault,
+                tokenAMint: poolState.tokenAMint,
+                tokenBMint: poolState.tokenBMint,
+                tokenAProgram,
+                tokenBProgram,
+            },
+            preInstructions,
+            postInstructions,
+        }
+    }
+
+    /**
+     * Get the DAMM V2 pool a DBC pool migrated to
+     * @param virtualPool - The address of the DBC pool
+     * @returns The address of the DAMM V2 pool
+     */
+    async getDammV2PoolAddress(
+        virtualPool: PublicKey | string
+    ): Promise<PublicKey> {
+        const virtualPoolState = await this.state.getPool(virtualPool)
+        if (!virtualPoolState) {
+            throw new Error(`Pool not found: ${virtualPool.toString()}`)
+        }
+
+        const poolConfigState = await this.state.getPoolConfig(
+            virtualPoolState.config
+        )
+        if (poolConfigState.migrationOption !== MigrationOption.MET_DAMM_V2) {
+            throw new Error('Pool does not migrate to DAMM V2')
+        }
+        if (virtualPoolState.isMigrated !== 1) {
+            throw new Error(`Pool is not migrated: ${virtualPool.toString()}`)
+        }
+
+        return deriveDammV2PoolAddress(
+            getDammConfigAddress(
+                poolConfigState.migrationOption,
+                poolConfigState.migrationFeeOption
+            ),
+            virtualPoolState.baseMint,
+            poolConfigState.quoteMint
+        )
+    }
+
+    /**
+     * Get the DAMM V2 positions of a wallet in the pool a DBC pool migrated to,
+     * found from the position NFTs held by the wallet
+     * @param virtualPool - The address of the DBC pool
+     * @param owner - The wallet holding the position NFTs
+     * @returns The positions with their unclaimed fees
+     */
+    async getPositionsByOwner(
+        virtualPool: PublicKey | string,
+        owner: PublicKey
+    ): Promise<DammV2PositionInfo[]> {
+        const dammPool = await this.getDammV2PoolAddress(virtualPool)
+        const poolState =
+            await this.dammV2Program.account.pool.fetchNullable(dammPool)
+        if (!poolState) {
+            throw new Error(`DAMM V2 pool not found: ${dammPool.toString()}`)
+        }
+
+        // position NFTs are Token 2022 mints with a supply of 1
+        const { value: tokenAccounts } =
+            await this.connection.getTokenAccountsByOwner(owner, {
+                programId: TOKEN_2022_PROGRAM_ID,
+            })
+        const positionNftAccounts = tokenAccounts
+            .map(({ pubkey, account }) =>
+                unpackAccount(pubkey, account, TOKEN_2022_PROGRAM_ID)
+            )
+            .filter((tokenAccount) => tokenAccount.amount === BigInt(1))
+
+        const positions = positionNftAccounts.map((tokenAccount) =>
+            derivePositionAddress(tokenAccount.mint)
+        )
+        const positionStates = await getMultipleAccountData<
+            DammV2Position,
+            DammV2
+        >(positions, 'position', this.dammV2Program)
+
+        const positionInfos: DammV2PositionInfo[] = []
+        positionStates.forEach((positionState, i) => {
+            if (!positionState || !positionState.pool.equals(dammPool)) {
+                return
+            }
+            positionInfos.push({
+                position: positions[i],
+                positionNftMint: positionNftAccounts[i].mint,
+                positionNftAccount: positionNftAccounts[i].address,
+                positionState,
+                unclaimedFee: getDammV2UnclaimedFee(poolState, positionState),
+            })
+        })
+
+        return positionInfos
+    }
+
+    /**
+     * Get the fees of a DAMM V2 position that are not claimed yet
+     * @param position - The address of the position
+     * @returns The unclaimed fees in token A (base) and token B (quote)
+     */
+    async getUnclaimedFee(position: PublicKey): Promise<DammV2PositionFee> {
+        const { positionState, poolState } =
+            await this.getPositionContext(position)
+
+        return getDammV2UnclaimedFee(poolState, positionState)
+    }
+
+    /**
+     * Build the instructions to claim the fees of a DAMM V2 position
+     * @param claimDammV2PositionFeeParam - The parameters for the claim
+     * @returns The instructions and signers of a claim transaction
+     */
+    async claimPositionFeeInstructions(
+        claimDammV2PositionFeeParam: ClaimDammV2PositionFeeParam
+    ): Promise<BuiltInstructions> {
+        const { owner, position } = claimDammV2PositionFeeParam
+        const { positionState, poolState, positionNftAccount } =
+            await this.getPositionContext(
+                claimDammV2PositionFeeParam.position,
+                claimDammV2PositionFeeParam.positionNftAccount
+            )
+
+        const { accounts, preInstructions, postInstructions } =
+            this.getOwnerTokenAccounts(claimDammV2PositionFeeParam, poolState)
+
+        const instruction = await this.dammV2Program.methods
+            .claimPositionFee()
+            .accountsPartial({
+                poolAuthority: deriveDammV2PoolAuthority(),
+                pool: positionState.pool,
+                position,
+                positionNftAccount,
+                owner,
+                eventAuthority: deriveDammV2EventAuthority(),
+                ...accounts,
+            })
+            .instruction()
+
+        return {
+            setupInstructions: preInstructions,
+            instructions: [instruction],
+            cleanupInstructions: postInstructions,
+            signers: [],
+        }
+    }
+
+    /**
+     * Claim the fees of a DAMM V2 position
+     * @param claimDammV2PositionFeeParam - The parameters for the claim
+     * @returns A claim transaction
+     */
+    async claimPositionFee<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        claimDammV2PositionFeeParam: ClaimDammV2PositionFeeParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.claimPositionFeeInstructions(
+            claimDammV2PositionFeeParam
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            claimDammV2PositionFeeParam.payer,
+            options
+        )
+    }
+
+    /**
+     * Build the instructions to remove liquidity from a DAMM V2 position, with
+     * the minimum token amounts derived from the quote and the slippage
+     * @param removeDammV2LiquidityParam - The parameters for the removal
+     * @returns The instructions and signers of a remove liquidity transaction
+     */
+    async removeLiquidityInstructions(
+        removeDammV2LiquidityParam: RemoveDammV2LiquidityParam
+    ): Promise<BuiltInstructions> {
+        const {
+            owner,
+            position,
+            liquidityDelta,
+            slippageBps = 0,
+        } = removeDammV2LiquidityParam
+
+        validateSlippageBps(slippageBps)
+
+        const { positionState, poolState, positionNftAccount } =
+            await this.getPositionContext(
+                removeDammV2LiquidityParam.position,
+                removeDammV2LiquidityParam.positionNftAccount
+            )
+
+        if (
+            liquidityDelta &&
+            liquidityDelta.gt(positionState.unlockedLiquidity)
+        ) {
+            throw new Error(
+                `Liquidity delta exceeds the unlocked liquidity of the position: ${positionState.unlockedLiquidity.toString()}`
+            )
+        }
+
+        const quote = getDammV2WithdrawQuote(
+            poolState,
+            liquidityDelta ?? positionState.unlockedLiquidity
+        )
+        // minimum amount: amount * (10000 - slippageBps) / 10000
+        const tokenAAmountThreshold = quote.tokenAAmount
+            .mul(new BN(10000 - slippageBps))
+            .div(new BN(10000))
+        const tokenBAmountThreshold = quote.tokenBAmount
+            .mul(new BN(10000 - slippageBps))
+            .div(new BN(10000))
+
+        const { accounts, preInstructions, postInstructions } =
+            this.getOwnerTokenAccounts(removeDammV2LiquidityParam, poolState)
+
+        const instructionAccounts = {
+            poolAuthority: deriveDammV2PoolAuthority(),
+            pool: positionState.pool,
+            position,
+            positionNftAccount,
+            owner,
+            eventAuthority: deriveDammV2EventAuthority(),
+            ...accounts,
+        }
+
+        const instruction = liquidityDelta
+            ? await this.dammV2Program.methods
+                  .removeLiquidity({
+                      liquidityDelta,
+                      tokenAAmountThreshold,
+                      tokenBAmountThreshold,
+                  })
+                  .accountsPartial(instructionAccounts)
+                  .instruction()
+            : await this.dammV2Program.methods
+                  .removeAllLiquidity(
+                      tokenAAmountThreshold,
+                      tokenBAmountThreshold
+                  )
+                  .accountsPartial(instructionAccounts)
+                  .instruction()
+
+        return {
+            setupInstructions: preInstructions,
+            instructions: [instruction],
+            cleanupInstructions: postInstructions,
+            signers: [],
+        }
+    }
+
+    /**
+     * Remove liquidity from a DAMM V2 position
+     * @param removeDammV2LiquidityParam - The parameters for the removal
+     * @returns A remove liquidity transaction
+     */
+    async removeLiquidity<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        removeDammV2LiquidityParam: RemoveDammV2LiquidityParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.removeLiquidityInstructions(
+            removeDammV2LiquidityParam
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            removeDammV2LiquidityParam.payer,
+            options
+        )
+    }
+
+    /**
+     * Build the instructions to lock the liquidity of a DAMM V2 position in a vesting
+     * @param lockDammV2PositionParam - The parameters for the lock
+     * @returns The instructions and signers of a lock transaction
+     */
+    async lockPositionInstructions(
+        lockDammV2PositionParam: LockDammV2PositionParam
+    ): Promise<BuiltInstructions> {
+        const {
+            owner,
+            payer,
+            position,
+            cliffPoint,
+            periodFrequency,
+            cliffUnlockLiquidity,
+            liquidityPerPeriod,
+            numberOfPeriod,
+        } = lockDammV2PositionParam
+        const { positionState, positionNftAccount } =
+            await this.getPositionContext(
+                lockDammV2PositionParam.position,
+                lockDammV2PositionParam.positionNftAccount
+            )
+
+        const vestingKP = Keypair.generate()
+
+        const instruction = await this.dammV2Program.methods
+            .lockPosition({
+                cliffPoint,
+                periodFrequency,
+                cliffUnlockLiquidity,
+                liquidityPerPeriod,
+                numberOfPeriod,
+            })
+            .accountsPartial({
+                pool: positionState.pool,
+                position,
+                vesting: vestingKP.publicKey,
+                positionNftAccount,
+                owner,
+                payer,
+                systemProgram: SystemProgram.programId,
+                eventAuthority: deriveDammV2EventAuthority(),
+            })
+            .instruction()
+
+        return {
+            setupInstructions: [],
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [vestingKP],
+        }
+    }
+
+    /**
+     * Lock the liquidity of a DAMM V2 position in a vesting
+     * @param lockDammV2PositionParam - The parameters for the lock
+     * @returns A lock transaction and the vesting keypair that must sign it
+     */
+    async lockPosition<T extends TransactionOptions = LegacyTransactionOptions>(
+        lockDammV2PositionParam: LockDammV2PositionParam,
+        options?: T
+    ): Promise<LockDammV2PositionResponse<T>> {
+        const instructions = await this.lockPositionInstructions(
+            lockDammV2PositionParam
+        )
+        const [vestingKeypair] = instructions.signers
+
+        return {
+            transaction: await this.finalizeInstructions(
+                instructions,
+                lockDammV2PositionParam.payer,
+                options
+            ),
+            vestingKeypair,
+        }
+    }
+
+    /**
+     * Build the instructions to permanently lock the liquidity of a DAMM V2 position
+     * @param permanentLockDammV2PositionParam - The parameters for the lock
+     * @returns The instructions and signers of a permanent lock transaction
+     */
+    async permanentLockPositionInstructions(
+        permanentLockDammV2PositionParam: PermanentLockDammV2PositionParam
+    ): Promise<BuiltInstructions> {
+        const { owner, position, liquidity } = permanentLockDammV2PositionParam
+        const { positionState, positionNftAccount } =
+            await this.getPositionContext(
+                permanentLockDammV2PositionParam.position,
+                permanentLockDammV2PositionParam.positionNftAccount
+            )
+
+        const instruction = await this.dammV2Program.methods
+            .permanentLockPosition(liquidity ?? positionState.unlockedLiquidity)
+            .accountsPartial({
+                pool: positionState.pool,
+                position,
+                positionNftAccount,
+                owner,
+                eventAuthority: deriveDammV2EventAuthority(),
+            })
+            .instruction()
+
+        return {
+            setupInstructions: [],
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [],
+        }
+    }
+
+    /**
+     * Permanently lock the liquidity of a DAMM V2 position
+     * @param permanentLockDammV2PositionParam - The parameters for the lock
+     * @returns A permanent lock transaction
+     */
+    async permanentLockPosition<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        permanentLockDammV2PositionParam: PermanentLockDammV2PositionParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.permanentLockPositionInstructions(
+            permanentLockDammV2PositionParam
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            permanentLockDammV2PositionParam.payer,
+            options
+        )
+    }
+}
@@ -0,0 +1,187 @@
+import {
+    Commitment,
+    PublicKey,
+    type Connection,
+    type TransactionResponse,
+    type VersionedTransactionResponse,
+} from '@solana/web3.js'
+import { utils } from '@coral-xyz/anchor'
+import { DynamicBondingCurveProgram } from './program'
+import { deriveDbcEventAuthority } from '../helpers'
+import { DYNAMIC_BONDING_CURVE_PROGRAM_ID, EVENT_IX_TAG } from '../constants'
+import type { DbcEvent, DbcEventName } from '../types'
+
+const PROGRAM_INVOKE_LOG = /^Program (\w+) invoke \[(\d+)\]$/
+const PROGRAM_EXIT_LOG = /^Program (\w+) (success|failed)/
+const PROGRAM_DATA_LOG = 'Program data: '
+
+export class EventService extends DynamicBondingCurveProgram {
+    private eventAuthority: PublicKey
+
+    constructor(connection: Connection, commitment: Commitment) {
+        super(connection, commitment)
+        this.eventAuthority = deriveDbcEventAuthority()
+    }
+
+    /**
+     * Private method to decode a base64 encoded event
+     * @param data - The base64 encoded event discriminator and data
+     * @returns The event name and data or null if it is not a DBC event
+     */
+    private decodeEvent(data: string): Pick<DbcEvent, 'name' | 'data'> | null {
+        const event = this.program.coder.events.decode(data)
+        if (!event) {
+            return null
+        }
+        return {
+            name: event.name as DbcEventName,
+            data: event.data,
+        } as Pick<DbcEvent, 'name' | 'data'>
+    }
+
+    /**
+     * Parse the events emitted with `Program data:` logs by the DBC program
+     * @param logs - The transaction logs
+     * @param signature - The transaction signature, if known
+     * @returns The events in the order they were emitted
+     */
+    parseLogs(logs: string[], signature: string | null = null): DbcEvent[] {
+        const events: DbcEvent[] = []
+        const programStack: string[] = []
+        let instructionIndex = -1
+
+        for (const log of logs) {
+            const invoke = log.match(PROGRAM_INVOKE_LOG)
+            if (invoke) {
+                if (invoke[2] === '1') {
+                    instructionIndex++
+                }
+                programStack.push(invoke[1])
+                continue
+            }
+
+            if (PROGRAM_EXIT_LOG.test(log)) {
+                programStack.pop()
+                continue
+            }
+
+            // only data logged by the DBC program itself, not by a CPI
+            if (
+                log.startsWith(PROGRAM_DATA_LOG) &&
+                programStack[programStack.length - 1] ===
+                    DYNAMIC_BONDING_CURVE_PROGRAM_ID.toBase58()
+            ) {
+                const event = this.decodeEvent(
+                    log.slice(PROGRAM_DATA_LOG.length)
+                )
+                if (event) {
+                    events.push({
+                        ...event,
+                        signature,
+                        instructionIndex,
+                        innerInstructionIndex: null,
+                    } as DbcEvent)
+                }
+            }
+        }
+
+        return events
+    }
+
+    /**
+     * Parse the events emitted by the DBC program in a fetched transaction, both
+     * through the self-CPI to the event authority and through `Program data:` logs
+     * @param transaction - The transaction fetched with `getTransaction`
+     * @returns The events ordered by instruction, empty if the transaction failed
+     */
+    parseTransaction(
+        transaction: TransactionResponse | VersionedTransactionResponse
+    ): DbcEvent[] {
+        const { meta } = transaction
+        if (!meta || meta.err) {
+            return []
+        }
+
+        const signature = transaction.transaction.signatures[0] ?? null
+        const { message } = transaction.transaction
+        const accountKeys =
+            message.version === 0
+                ? message.getAccountKeys({
+                      accountKeysFromLookups: meta.loadedAddresses,
+                  })
+                : message.getAccountKeys()
+
+        const events: DbcEvent[] = []
+        for (const { index, instructions } of meta.innerInstructions ?? []) {
+            instructions.forEach((instruction, innerInstructionIndex) => {
+                const programId = accountKeys.get(instruction.programIdIndex)
+                const authority = accountKeys.get(instruction.accounts[0])
+                if (
+                    !programId?.equals(DYNAMIC_BONDING_CURVE_PROGRAM_ID) ||
+                    !authority?.equals(this.eventAuthority)
+                ) {
+                    return
+                }
+
+                const data = Buffer.from(
+                    utils.bytes.bs58.decode(instruction.data)
+                )
+                if (!data.subarray(0, 8).equals(EVENT_IX_TAG)) {
+                    return
+                }
+
+                const event = this.decodeEvent(
+                    data.subarray(8).toString('base64')
+                )
+                if (event) {
+                    events.push({
+                        ...event,
+                        signature,
+                        instructionIndex: index,
+                        innerInstructionIndex,
+                    } as DbcEvent)
+                }
+            })
+        }
+
+        events.push(...this.parseLogs(meta.logMessages ?? [], signature))
+
+        // stable sort keeps the emission order within an instruction
+        return events.sort((a, b) => a.instructionIndex - b.instructionIndex)
+    }
+
+    /**
+     * Fetch a transaction and parse the events emitted by the DBC program
+     * @param signature - The transaction signature
+     * @returns The events ordered by instruction, empty if the transaction failed
+     */
+    async getTransactionEvents(signature: string): Promise<DbcEvent[]> {
+        const transaction = await this.connection.getTransaction(signature, {
+            commitment:
+                this.commitment === 'finalized' ? 'finalized' : 'confirmed',
+            maxSupportedTransactionVersion: 0,
+        })
+
+        if (!transaction) {
+            throw new Error(`Transaction not found: ${signature}`)
+        }
+
+        return this.parseTransaction(transaction)
+    }
+
+    /**
+     * Filter parsed events by name
+     * @param events - The parsed events
+     * @param name - The event name, e.g. `evtSwap`
+     * @returns The events with the given name, typed by it
+     */
+    filterEvents<K extends DbcEventName>(
+        events: DbcEvent[],
+        name: K
+    ): Extract<DbcEvent, { name: K }>[] {
+        return events.filter(
+            (event): event is Extract<DbcEvent, { name: K }> =>
+                event.name === name
+        )
+    }
+}
@@ -0,0 +1,365 @@
+import {
+    Commitment,
+    PublicKey,
+    type ConfirmedSignatureInfo,
+    type Connection,
+    type Finality,
+    type VersionedTransactionResponse,
+} from '@solana/web3.js'
+import { DynamicBondingCurveProgram } from './program'
+import { EventService } from './event'
+import {
+    buildCandles,
+    getAccountData,
+    getPriceFromSqrtPrice,
+    getTokenDecimals,
+    InMemoryTradeHistoryStorage,
+} from '../helpers'
+import { getFeeMode } from '../math'
+import { DYNAMIC_BONDING_CURVE_PROGRAM_ID } from '../constants'
+import {
+    TradeDirection,
+    type Candle,
+    type DbcEvent,
+    type PoolConfig,
+    type SyncTradesOptions,
+    type SyncTradesResult,
+    type Trade,
+    type TradeHistoryStorage,
+    type TradeHistorySyncState,
+    type VirtualPool,
+} from '../types'
+
+const DEFAULT_PAGE_SIZE = 100
+const MAX_PAGE_SIZE = 1000
+// index of the payer in the accounts of the swap instruction
+const SWAP_PAYER_ACCOUNT_INDEX = 9
+
+type PoolTradeInfo = {
+    collectFeeMode: number
+    tokenBaseDecimal: number
+    tokenQuoteDecimal: number
+}
+
+export class HistoryService extends DynamicBondingCurveProgram {
+    private eventService: EventService
+    private storage: TradeHistoryStorage
+    // pool address => fee mode and decimals, which never change for a pool
+    private poolTradeInfos = new Map<string, PoolTradeInfo>()
+
+    constructor(
+        connection: Connection,
+        commitment: Commitment,
+        storage: TradeHistoryStorage = new InMemoryTradeHistoryStorage()
+    ) {
+        super(connection, commitment)
+        this.eventService = new EventService(connection, commitment)
+        this.storage = storage
+    }
+
+    /**
+     * Private method to get the fee mode and token decimals of a pool
+     * @param pool - The address of the pool
+     * @returns The collect fee mode and token decimals
+     */
+    private async getPoolTradeInfo(pool: PublicKey): Promise<PoolTradeInfo> {
+        const cached = this.poolTradeInfos.get(pool.toBase58())
+        if (cached) {
+            return cached
+        }
+
+        const virtualPool = await getAccountData<VirtualPool>(
+            pool,
+            'virtualPool',
+            this.program
+        )
+        if (!virtualPool) {
+            throw new Error(`Pool not found: ${pool.toString()}`)
+        }
+        const config = await getAccountData<PoolConfig>(
+            virtualPool.config,
+            'poolConfig',
+            this.program
+        )
+
+        const poolTradeInfo = {
+            collectFeeMode: config.collectFeeMode,
+            tokenBaseDecimal: config.tokenDecimal,
+            tokenQuoteDecimal: await getTokenDecimals(
+                this.connection,
+                config.quoteMint
+            ),
+        }
+        this.poolTradeInfos.set(pool.toBase58(), poolTradeInfo)
+        return poolTradeInfo
+    }
+
+    /**
+     * Private method to get the trader of a swap, the payer of the swap
+     * instruction or the fee payer when the swap was a CPI
+     * @param transaction - The fetched transaction
+     * @param instructionIndex - The index of the top-level instruction of the swap
+     * @returns The trader
+     */
+    private getTrader(
+        transaction: VersionedTransactionResponse,
+        instructionIndex: number
+    ): PublicKey {
+        const { message } = transaction.transaction
+        const accountKeys =
+            message.version === 0
+                ? message.getAccountKeys({
+                      accountKeysFromLookups: transaction.meta?.loadedAddresses,
+                  })
+                : message.getAccountKeys()
+        const instruction = message.compiledInstructions[instructionIndex]
+
+        const payer =
+            instruction &&
+            accountKeys
+                .get(instruction.programIdIndex)
+                ?.equals(DYNAMIC_BONDING_CURVE_PROGRAM_ID)
+                ? accountKeys.get(
+                      instruction.accountKeyIndexes[SWAP_PAYER_ACCOUNT_INDEX]
+                  )
+                : undefined
+
+        return payer ?? accountKeys.get(0)!
+    }
+
+    /**
+     * Private method to build the trades of a pool from the swap events of a transaction
+     * @param pool - The address of the pool
+     * @param transaction - The fetched transaction
+     * @param poolTradeInfo - The fee mode and token decimals of the pool
+     * @returns The trades in the order they were executed
+     */
+    private getTransactionTrades(
+        pool: PublicKey,
+        transaction: VersionedTransactionResponse,
+        poolTradeInfo: PoolTradeInfo
+    ): Trade[] {
+        const { collectFeeMode, tokenBaseDecimal, tokenQuoteDecimal } =
+            poolTradeInfo
+
+        const trades: Trade[] = []
+        this.eventService
+            .parseTransaction(transaction)
+            .forEach((event: DbcEvent, eventIndex) => {
+                if (event.name !== 'evtSwap' || !event.data.pool.equals(pool)) {
+                    return
+                }
+
+                const { tradeDirection, hasReferral, swapResult, amountIn } =
+                    event.data
+
+                trades.push({
+                    signature: transaction.transaction.signatures[0],
+                    slot: transaction.slot,
+                    eventIndex,
+                    blockTime: event.data.currentTimestamp.toNumber(),
+                    pool,
+                    trader: this.getTrader(transaction, event.instructionIndex),
+                    tradeDirection,
+                    // amountIn is what the trader paid, actualInputAmount has the fees on input taken out
+                    amountIn,
+                    amountOut: swapResult.outputAmount,
+                    tradingFee: swapResult.tradingFee,
+                    protocolFee: swapResult.protocolFee,
+                    referralFee: swapResult.referralFee,
+                    feesOnBaseToken: getFeeMode(
+                        collectFeeMode,
+                        tradeDirection,
+                        hasReferral
+                    ).feesOnBaseToken,
+                    price: getPriceFromSqrtPrice(
+                        swapResult.nextSqrtPrice,
+                        tokenBaseDecimal,
+                        tokenQuoteDecimal
+                    ),
+                    nextSqrtPrice: swapResult.nextSqrtPrice,
+                })
+            })
+
+        return trades
+    }
+
+    /**
+     * Private method to fetch the transactions of signatures and save their trades
+     * @param pool - The address of the pool
+     * @param signatures - The signatures of the transactions
+     * @param poolTradeInfo - The fee mode and token decimals of the pool
+     * @returns The number of trades saved
+     */
+    private async saveSignatureTrades(
+        pool: PublicKey,
+        signatures: ConfirmedSignatureInfo[],
+        poolTradeInfo: PoolTradeInfo
+    ): Promise<number> {
+        const successful = signatures
+            .filter(({ err }) => !err)
+            .map(({ signature }) => signature)
+        if (successful.length === 0) {
+            return 0
+        }
+
+        const transactions = await this.connection.getTransactions(successful, {
+            commitment: this.getFinality(),
+            maxSupportedTransactionVersion: 0,
+        })
+
+        const trades = transactions.flatMap((transaction) =>
+            transaction
+                ? this.getTransactionTrades(pool, transaction, poolTradeInfo)
+                : []
+        )
+        await this.storage.saveTrades(pool, trades)
+        return trades.length
+    }
+
+    /**
+     * Private method to get the finality of the service commitment
+     * @returns The finality used to fetch signatures and transactions
+     */
+    private getFinality(): Finality {
+        return this.commitment === 'finalized' ? 'finalized' : 'confirmed'
+    }
+
+    /**
+     * Sync the trades of a pool into the storage. The first calls backfill the
+     * history from the newest transaction back to the creation of the pool, the
+     * next calls catch up with the transactions after the newest synced one.
+     * The sync state is saved after every page, so an interrupted sync resumes.
+     * @param poolAddress - The address of the pool
+     * @param options - The page size and maximum number of backfill pages
+     * @returns The number of trades saved and whether the backfill is complete
+     */
+    async syncTrades(
+        poolAddress: PublicKey | string,
+        options: SyncTradesOptions = {}
+    ): Promise<SyncTradesResult> {
+        const pool = new PublicKey(poolAddress)
+        const pageSize = Math.min(
+            options.pageSize ?? DEFAULT_PAGE_SIZE,
+            MAX_PAGE_SIZE
+        )
+        const maxPages = options.maxPages ?? Infinity
+        const finality = this.getFinality()
+        const poolTradeInfo = await this.getPoolTradeInfo(pool)
+
+        let state: TradeHistorySyncState = (await this.storage.getSyncState(
+            pool
+        )) ?? {
+            newestSignature: null,
+            oldestSignature: null,
+            backfilled: false,
+        }
+        let tradeCount = 0
+
+        // catch up from the tip to the newest synced signature, then save the
+        // pages from the oldest so the newest signature only moves forward
+        if (state.newestSignature || state.backfilled) {
+            const signatures: ConfirmedSignatureInfo[] = []
+            let before: string | undefined
+            while (true) {
+                const page = await this.connection.getSignaturesForAddress(
+                    pool,
+                    {
+                        before,
+                        until: state.newestSignature ?? undefined,
+                        limit: pageSize,
+                    },
+                    finality
+                )
+                signatures.push(...page)
+                if (page.length < pageSize) {
+                    break
+                }
+                before = page[page.length - 1].signature
+            }
+
+            signatures.reverse()
+            for (let i = 0; i < signatures.length; i += pageSize) {
+                const chunk = signatures.slice(i, i + pageSize)
+                tradeCount += await this.saveSignatureTrades(
+                    pool,
+                    chunk,
+                    poolTradeInfo
+                )
+                state = {
+                    ...state,
+                    newestSignature: chunk[chunk.length - 1].signature,
+                    oldestSignature:
+                        state.oldestSignature ?? chunk[0].signature,
+                }
+                await this.storage.setSyncState(pool, state)
+            }
+        }
+
+        // backfill from the oldest synced signature to the creation of the pool
+        for (let pages = 0; !state.backfilled && pages < maxPages; pages++) {
+            const page = await this.connection.getSignaturesForAddress(
+                pool,
+                {
+                    before: state.oldestSignature ?? undefined,
+                    limit: pageSize,
+                },
+                finality
+            )
+            tradeCount += await this.saveSignatureTrades(
+                pool,
+                page,
+                poolTradeInfo
+            )
+            state = {
+                newestSignature:
+                    state.newestSignature ?? page[0]?.signature ?? null,
+                oldestSignature:
+                    page[page.length - 1]?.signature ?? state.oldestSignature,
+                backfilled: page.length < pageSize,
+            }
+            await this.storage.setSyncState(pool, state)
+        }
+
+        return { tradeCount, backfilled: state.backfilled }
+    }
+
+    /**
+     * Get the synced trades of a pool
+     * @param poolAddress - The address of the pool
+     * @param fromTime - The inclusive start unix timestamp
+     * @param toTime - The inclusive end unix timestamp
+     * @returns The trades ordered by slot
+     */
+    async getTrades(
+        poolAddress: PublicKey | string,
+        fromTime?: number,
+        toTime?: number
+    ): Promise<Trade[]> {
+        return this.storage.getTrades(
+            new PublicKey(poolAddress),
+            fromTime,
+            toTime
+        )
+    }
+
+    /**
+     * Get OHLCV candles of a pool from its synced trades
+     * @param poolAddress - The address of the pool
+     * @param intervalSeconds - The candle interval in seconds, e.g. 60 for 1 minute candles
+     * @param fromTime - The inclusive start unix timestamp
+     * @param toTime - The inclusive end unix timestamp
+     * @param fillGaps - Whether to add flat candles without volume for intervals without trades
+     * @returns The candles ordered by open time
+     */
+    async getCandles(
+        poolAddress: PublicKey | string,
+        intervalSeconds: number,
+        fromTime?: number,
+        toTime?: number,
+        fillGaps: boolean = false
+    ): Promise<Candle[]> {
+        const trades = await this.getTrades(poolAddress, fromTime, toTime)
+        return buildCandles(trades, intervalSeconds, fillGaps)
+    }
+}
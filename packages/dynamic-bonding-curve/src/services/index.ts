@@ -3,3 +3,10 @@ export * from './partner'
 export * from './pool'
 export * from './creator'
 export * from './program'
+export * from './lookupTable'
+export * from './event'
+export * from './subscription'
+export * from './history'
+export * from './dammV2Position'
+export * from './tokenSwap'
+export * from './admin'
@@ -0,0 +1,318 @@
+import {
+    AddressLookupTableProgram,
+    Commitment,
+    PublicKey,
+    type Connection,
+} from '@solana/web3.js'
+import { DynamicBondingCurveProgram } from './program'
+import { StateService } from './state'
+import { getConfigLookupTableAddresses, registerLookupTable } from '../helpers'
+import {
+    MAX_LOOKUP_TABLE_ADDRESSES,
+    MAX_LOOKUP_TABLE_EXTEND_ADDRESSES,
+} from '../constants'
+import type {
+    BuiltInstructions,
+    BuiltTransaction,
+    CreateConfigLookupTableParam,
+    CreateConfigLookupTableResult,
+    ExtendConfigLookupTableParam,
+    LegacyTransactionOptions,
+    TransactionOptions,
+    VirtualPool,
+} from '../types'
+
+export class LookupTableService extends DynamicBondingCurveProgram {
+    private state: StateService
+
+    constructor(connection: Connection, commitment: Commitment) {
+        super(connection, commitment)
+        this.state = new StateService(connection, commitment)
+    }
+
+    /**
+     * Private method to get the pool states to add to a config lookup table
+     * @param config - The config address
+     * @param pools - The pool addresses, defaults to all pools of the config
+     * @returns The pool states
+     */
+    private async getPoolStates(
+        config: PublicKey,
+        pools?: PublicKey[]
+    ): Promise<VirtualPool[]> {
+        if (!pools) {
+            const poolAccounts = await this.state.getPoolsByConfig(config)
+            return poolAccounts.map((poolAccount) => poolAccount.account)
+        }
+
+        const poolStates = await this.state.getMultiplePools(pools)
+        return poolStates.map((poolState, i) => {
+            if (!poolState) {
+                throw new Error(`Pool not found: ${pools[i].toString()}`)
+            }
+            if (!poolState.config.equals(config)) {
+                throw new Error(
+                    `Pool ${pools[i].toString()} does not belong to config ${config.toString()}`
+                )
+            }
+            return poolState
+        })
+    }
+
+    /**
+     * Private method to split addresses into lookup table extend instructions, one per transaction
+     * @param lookupTable - The lookup table address
+     * @param authority - The lookup table authority
+     * @param payer - The payer of the extension
+     * @param addresses - The addresses to add
+     * @returns The extend instructions of each transaction
+     */
+    private buildExtendInstructions(
+        lookupTable: PublicKey,
+        authority: PublicKey,
+        payer: PublicKey,
+        addresses: PublicKey[]
+    ): BuiltInstructions[] {
+        const builtInstructions: BuiltInstructions[] = []
+        for (
+            let i = 0;
+            i < addresses.length;
+            i += MAX_LOOKUP_TABLE_EXTEND_ADDRESSES
+        ) {
+            builtInstructions.push({
+                setupInstructions: [],
+                instructions: [
+                    AddressLookupTableProgram.extendLookupTable({
+                        lookupTable,
+                        authority,
+                        payer,
+                        addresses: addresses.slice(
+                            i,
+                            i + MAX_LOOKUP_TABLE_EXTEND_ADDRESSES
+                        ),
+                    }),
+                ],
+                cleanupInstructions: [],
+                signers: [],
+            })
+        }
+        return builtInstructions
+    }
+
+    /**
+     * Get the addresses of a config and its pools to store in a lookup table
+     * @param config - The config address
+     * @param pools - The pool addresses, defaults to all pools of the config
+     * @returns The config and pool addresses
+     */
+    async getConfigLookupTableAddresses(
+        config: PublicKey,
+        pools?: PublicKey[]
+    ): Promise<PublicKey[]> {
+        const poolConfigState = await this.state.getPoolConfig(config)
+
+        if (!poolConfigState) {
+            throw new Error(`Pool config not found: ${config.toString()}`)
+        }
+
+        const poolStates = await this.getPoolStates(config, pools)
+
+        return getConfigLookupTableAddresses(
+            config,
+            poolConfigState,
+            poolStates
+        )
+    }
+
+    /**
+     * Build the instructions to create an address lookup table for a config and its pools, and register it for the config
+     * @param createConfigLookupTableParam - The parameters for the lookup table
+     * @returns The lookup table address and the instructions and signers of each transaction that creates and extends it, to be sent in order
+     */
+    async createConfigLookupTableInstructions(
+        createConfigLookupTableParam: CreateConfigLookupTableParam
+    ): Promise<{
+        lookupTable: PublicKey
+        instructions: BuiltInstructions[]
+    }> {
+        const { config, authority, payer, pools } = createConfigLookupTableParam
+
+        const addresses = await this.getConfigLookupTableAddresses(
+            config,
+            pools
+        )
+
+        if (addresses.length > MAX_LOOKUP_TABLE_ADDRESSES) {
+            throw new Error(
+                `Lookup table cannot hold more than ${MAX_LOOKUP_TABLE_ADDRESSES} addresses`
+            )
+        }
+
+        // the recent slot must be in the slot hashes sysvar
+        const recentSlot = await this.connection.getSlot('finalized')
+        const [createLookupTableIx, lookupTable] =
+            AddressLookupTableProgram.createLookupTable({
+                authority,
+                payer,
+                recentSlot,
+            })
+
+        const instructions = this.buildExtendInstructions(
+            lookupTable,
+            authority,
+            payer,
+            addresses
+        )
+        instructions[0].instructions.unshift(createLookupTableIx)
+
+        registerLookupTable(this.connection, config, lookupTable)
+
+        return { lookupTable, instructions }
+    }
+
+    /**
+     * Create an address lookup table for a config and its pools, and register it for the config
+     * @param createConfigLookupTableParam - The parameters for the lookup table
+     * @returns The lookup table address and the transactions that create and extend it, to be sent in order
+     */
+    async createConfigLookupTable<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        createConfigLookupTableParam: CreateConfigLookupTableParam,
+        options?: T
+    ): Promise<CreateConfigLookupTableResult<T>> {
+        const { lookupTable, instructions } =
+            await this.createConfigLookupTableInstructions(
+                createConfigLookupTableParam
+            )
+
+        return {
+            lookupTable,
+            transactions: await this.finalizeLookupTableInstructions(
+                instructions,
+                createConfigLookupTableParam.payer,
+                options
+            ),
+        }
+    }
+
+    /**
+     * Build the instructions to extend the address lookup table of a config with the addresses it does not contain yet, and register it for the config
+     * @param extendConfigLookupTableParam - The parameters for the lookup table
+     * @returns The instructions and signers of each transaction that extends the lookup table, empty if it is up to date
+     */
+    async extendConfigLookupTableInstructions(
+        extendConfigLookupTableParam: ExtendConfigLookupTableParam
+    ): Promise<BuiltInstructions[]> {
+        const { lookupTable, config, authority, payer, pools } =
+            extendConfigLookupTableParam
+
+        const { value: lookupTableAccount } =
+            await this.connection.getAddressLookupTable(lookupTable)
+
+        if (!lookupTableAccount) {
+            throw new Error(
+                `Address lookup table not found: ${lookupTable.toBase58()}`
+            )
+        }
+
+        const addresses = await this.getConfigLookupTableAddresses(
+            config,
+            pools
+        )
+
+        const existingAddresses = new Set(
+            lookupTableAccount.state.addresses.map((address) =>
+                address.toBase58()
+            )
+        )
+        const missingAddresses = addresses.filter(
+            (address) => !existingAddresses.has(address.toBase58())
+        )
+
+        if (
+            existingAddresses.size + missingAddresses.length >
+            MAX_LOOKUP_TABLE_ADDRESSES
+        ) {
+            throw new Error(
+                `Lookup table cannot hold more than ${MAX_LOOKUP_TABLE_ADDRESSES} addresses`
+            )
+        }
+
+        registerLookupTable(this.connection, config, lookupTable)
+
+        return this.buildExtendInstructions(
+            lookupTable,
+            authority,
+            payer,
+            missingAddresses
+        )
+    }
+
+    /**
+     * Extend the address lookup table of a config with the addresses it does not contain yet, and register it for the config
+     * @param extendConfigLookupTableParam - The parameters for the lookup table
+     * @returns The transactions that extend the lookup table, empty if it is up to date
+     */
+    async extendConfigLookupTable<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        extendConfigLookupTableParam: ExtendConfigLookupTableParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>[]> {
+        const instructions = await this.extendConfigLookupTableInstructions(
+            extendConfigLookupTableParam
+        )
+
+        return this.finalizeLookupTableInstructions(
+            instructions,
+            extendConfigLookupTableParam.payer,
+            options
+        )
+    }
+
+    /**
+     * Private method to finalize the transactions of a lookup table. The later
+     * transactions extend a lookup table that the earlier ones create or fill,
+     * so an 'auto' compute unit limit is simulated on the first transaction
+     * only and used for all of them
+     * @param instructions - The instructions of each transaction, in order
+     * @param payer - The fee payer
+     * @param options - The transaction options
+     * @returns The transactions, to be sent in order
+     */
+    private async finalizeLookupTableInstructions<T extends TransactionOptions>(
+        instructions: BuiltInstructions[],
+        payer: PublicKey,
+        options?: T
+    ): Promise<BuiltTransaction<T>[]> {
+        let finalizeOptions = options
+        if (options?.computeUnitLimit === 'auto' && instructions.length > 1) {
+            const {
+                setupInstructions,
+                instructions: firstInstructions,
+                cleanupInstructions,
+            } = instructions[0]
+            const computeUnitLimit = await this.getSimulatedComputeUnitLimit(
+                [
+                    ...setupInstructions,
+                    ...firstInstructions,
+                    ...cleanupInstructions,
+                ],
+                payer,
+                options
+            )
+            finalizeOptions = { ...options, computeUnitLimit }
+        }
+
+        return Promise.all(
+            instructions.map((builtInstructions) =>
+                this.finalizeInstructions(
+                    builtInstructions,
+                    payer,
+                    finalizeOptions
+                )
+            )
+        )
+    }
+}
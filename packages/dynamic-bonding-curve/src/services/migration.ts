@@ -3,12 +3,16 @@ import {
     ComputeBudgetProgram,
     Keypair,
     PublicKey,
+    SendTransactionError,
     SystemProgram,
     SYSVAR_RENT_PUBKEY,
     TransactionInstruction,
+    VersionedTransaction,
+    type BlockhashWithExpiryBlockHeight,
     type Connection,
     type Transaction,
 } from '@solana/web3.js'
+import BN from 'bn.js'
 import { DynamicBondingCurveProgram } from './program'
 import type { DynamicVault } from '../idl/dynamic-vault/idl'
 import type { Program } from '@coral-xyz/anchor'
@@ -39,17 +43,38 @@ import {
     deriveDammV1ProtocolFeeAddress,
     deriveDbcPoolAuthority,
     deriveLockerEventAuthority,
+    getDammConfigAddress,
+    getDammV1PoolReserves,
+    isNativeSol,
+    parseSendTransactionError,
+    unwrapSOLInstruction,
 } from '../helpers'
+import { getDammV1LockEscrowUnclaimedFee, getDammV1VirtualPrice } from '../math'
 import type { DammV1 } from '../idl/damm-v1/idl'
-import type {
-    CreateDammV1MigrationMetadataParam,
-    CreateDammV2MigrationMetadataParam,
-    CreateLockerParam,
-    DammLpTokenParam,
-    MigrateToDammV1Param,
-    MigrateToDammV2Param,
-    MigrateToDammV2Response,
-    WithdrawLeftoverParam,
+import {
+    ActivationType,
+    MigrationOption,
+    PoolStatus,
+    type BuiltInstructions,
+    type BuiltTransaction,
+    type ClaimDammV1LockEscrowFeeParam,
+    type CreateDammV1MigrationMetadataParam,
+    type CreateDammV2MigrationMetadataParam,
+    type CreateLockerParam,
+    type DammLpTokenParam,
+    type DammV1LockEscrowFee,
+    type DammV1LockEscrowFeeParam,
+    type ExecuteMigrationParam,
+    type LegacyTransactionOptions,
+    type MigrateToDammV1Param,
+    type MigrateToDammV2Param,
+    type MigrateToDammV2Response,
+    type MigrationStep,
+    type MigrationStepResult,
+    type PlanMigrationParam,
+    type PoolConfig,
+    type TransactionOptions,
+    type WithdrawLeftoverParam,
 } from '../types'
 import {
     ASSOCIATED_TOKEN_PROGRAM_ID,
@@ -63,6 +88,7 @@ import {
     DAMM_V2_PROGRAM_ID,
     LOCKER_PROGRAM_ID,
     METAPLEX_PROGRAM_ID,
+    U64_MAX,
     VAULT_PROGRAM_ID,
 } from '../constants'
 import { StateService } from './state'
@@ -92,13 +118,45 @@ export class MigrationService extends DynamicBondingCurveProgram {
     }
 
     /**
-     * Create Locker (if there is lockedVesting)
+     * Resolve the DAMM config of a pool from its migration fee option, or
+     * validate the DAMM config given by the caller against it
+     * @param poolConfigState - The pool config
+     * @param migrationOption - The migration option of the instruction
+     * @param dammConfig - The DAMM config given by the caller, if any
+     * @returns The DAMM config address
+     */
+    private resolveDammConfig(
+        poolConfigState: PoolConfig,
+        migrationOption: MigrationOption,
+        dammConfig?: PublicKey
+    ): PublicKey {
+        const dammVersion =
+            migrationOption === MigrationOption.MET_DAMM ? 'DAMM V1' : 'DAMM V2'
+        if (poolConfigState.migrationOption !== migrationOption) {
+            throw new Error(`Pool does not migrate to ${dammVersion}`)
+        }
+
+        const expectedDammConfig = getDammConfigAddress(
+            poolConfigState.migrationOption,
+            poolConfigState.migrationFeeOption
+        )
+        if (dammConfig && !dammConfig.equals(expectedDammConfig)) {
+            throw new Error(
+                `Invalid ${dammVersion} config: ${dammConfig.toString()}, expected ${expectedDammConfig.toString()} for migration fee option ${poolConfigState.migrationFeeOption}`
+            )
+        }
+
+        return expectedDammConfig
+    }
+
+    /**
+     * Build the instructions to create Locker (if there is lockedVesting)
      * @param createLockerParam - The parameters for the locker
-     * @returns A create locker transaction
+     * @returns The instructions and signers of a create locker transaction
      */
-    async createLocker(
+    async createLockerInstructions(
         createLockerParam: CreateLockerParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const poolAuthority = deriveDbcPoolAuthority()
         const lockerEventAuthority = deriveLockerEventAuthority()
 
@@ -161,21 +219,46 @@ export class MigrationService extends DynamicBondingCurveProgram {
             systemProgram: SystemProgram.programId,
         }
 
-        return this.program.methods
+        const instruction = await this.program.methods
             .createLocker()
             .accountsPartial(accounts)
-            .preInstructions(preInstructions)
-            .transaction()
+            .instruction()
+
+        return {
+            setupInstructions: preInstructions,
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [],
+        }
     }
 
     /**
-     * Withdraw leftover
+     * Create Locker (if there is lockedVesting)
+     * @param createLockerParam - The parameters for the locker
+     * @returns A create locker transaction
+     */
+    async createLocker<T extends TransactionOptions = LegacyTransactionOptions>(
+        createLockerParam: CreateLockerParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions =
+            await this.createLockerInstructions(createLockerParam)
+
+        return this.finalizeInstructions(
+            instructions,
+            createLockerParam.payer,
+            options
+        )
+    }
+
+    /**
+     * Build the instructions to withdraw leftover
      * @param withdrawLeftoverParam - The parameters for the withdraw leftover
-     * @returns A withdraw leftover transaction
+     * @returns The instructions and signers of a withdraw leftover transaction
      */
-    async withdrawLeftover(
+    async withdrawLeftoverInstructions(
         withdrawLeftoverParam: WithdrawLeftoverParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const poolState = await this.state.getPool(
             withdrawLeftoverParam.virtualPool
         )
@@ -196,7 +279,7 @@ export class MigrationService extends DynamicBondingCurveProgram {
                 this.connection,
                 poolState.baseMint,
                 poolConfigState.leftoverReceiver,
-                poolConfigState.leftoverReceiver,
+                withdrawLeftoverParam.payer,
                 true,
                 tokenBaseProgram
             )
@@ -204,7 +287,7 @@ export class MigrationService extends DynamicBondingCurveProgram {
         createBaseTokenAccountIx &&
             preInstructions.push(createBaseTokenAccountIx)
 
-        return this.program.methods
+        const instruction = await this.program.methods
             .withdrawLeftover()
             .accountsPartial({
                 poolAuthority: this.poolAuthority,
@@ -216,8 +299,36 @@ export class MigrationService extends DynamicBondingCurveProgram {
                 leftoverReceiver: poolConfigState.leftoverReceiver,
                 tokenBaseProgram,
             })
-            .preInstructions(preInstructions)
-            .transaction()
+            .instruction()
+
+        return {
+            setupInstructions: preInstructions,
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [],
+        }
+    }
+
+    /**
+     * Withdraw leftover
+     * @param withdrawLeftoverParam - The parameters for the withdraw leftover
+     * @returns A withdraw leftover transaction
+     */
+    async withdrawLeftover<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        withdrawLeftoverParam: WithdrawLeftoverParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.withdrawLeftoverInstructions(
+            withdrawLeftoverParam
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            withdrawLeftoverParam.payer,
+            options
+        )
     }
 
     ///////////////////////
@@ -225,13 +336,13 @@ export class MigrationService extends DynamicBondingCurveProgram {
     ///////////////////////
 
     /**
-     * Create metadata for the migration of Meteora DAMM V1
+     * Build the instructions to create metadata for the migration of Meteora DAMM V1
      * @param createDammV1MigrationMetadataParam - The parameters for the migration
-     * @returns A migration transaction
+     * @returns The instructions and signers of a migration transaction
      */
-    async createDammV1MigrationMetadata(
+    async createDammV1MigrationMetadataInstructions(
         createDammV1MigrationMetadataParam: CreateDammV1MigrationMetadataParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const migrationMetadata = deriveDammV1MigrationMetadataAddress(
             createDammV1MigrationMetadataParam.virtualPool
         )
@@ -244,20 +355,50 @@ export class MigrationService extends DynamicBondingCurveProgram {
             systemProgram: SystemProgram.programId,
         }
 
-        return this.program.methods
+        const instruction = await this.program.methods
             .migrationMeteoraDammCreateMetadata()
             .accountsPartial(accounts)
-            .transaction()
+            .instruction()
+
+        return {
+            setupInstructions: [],
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [],
+        }
     }
 
     /**
-     * Migrate to DAMM V1
+     * Create metadata for the migration of Meteora DAMM V1
+     * @param createDammV1MigrationMetadataParam - The parameters for the migration
+     * @returns A migration transaction
+     */
+    async createDammV1MigrationMetadata<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        createDammV1MigrationMetadataParam: CreateDammV1MigrationMetadataParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions =
+            await this.createDammV1MigrationMetadataInstructions(
+                createDammV1MigrationMetadataParam
+            )
+
+        return this.finalizeInstructions(
+            instructions,
+            createDammV1MigrationMetadataParam.payer,
+            options
+        )
+    }
+
+    /**
+     * Build the instructions to migrate to DAMM V1
      * @param migrateToDammV1Param - The parameters for the migration
-     * @returns A migrate transaction
+     * @returns The instructions and signers of a migrate transaction
      */
-    async migrateToDammV1(
+    async migrateToDammV1Instructions(
         migrateToDammV1Param: MigrateToDammV1Param
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const poolState = await this.state.getPool(
             migrateToDammV1Param.virtualPool
         )
@@ -269,12 +410,18 @@ export class MigrationService extends DynamicBondingCurveProgram {
 
         const poolConfigState = await this.state.getPoolConfig(poolState.config)
 
+        const dammConfig = this.resolveDammConfig(
+            poolConfigState,
+            MigrationOption.MET_DAMM,
+            migrateToDammV1Param.dammConfig
+        )
+
         const migrationMetadata = deriveDammV1MigrationMetadataAddress(
             migrateToDammV1Param.virtualPool
         )
 
         const dammPool = deriveDammV1PoolAddress(
-            migrateToDammV1Param.dammConfig,
+            dammConfig,
             poolState.baseMint,
             poolConfigState.quoteMint
         )
@@ -355,7 +502,7 @@ export class MigrationService extends DynamicBondingCurveProgram {
             ASSOCIATED_TOKEN_PROGRAM_ID
         )
 
-        const transaction = await this.program.methods
+        const instruction = await this.program.methods
             .migrateMeteoraDamm()
             .accountsPartial({
                 virtualPool: migrateToDammV1Param.virtualPool,
@@ -363,7 +510,7 @@ export class MigrationService extends DynamicBondingCurveProgram {
                 config: poolState.config,
                 poolAuthority: this.poolAuthority,
                 pool: dammPool,
-                dammConfig: migrateToDammV1Param.dammConfig,
+                dammConfig,
                 lpMint,
                 tokenAMint: poolState.baseMint,
                 tokenBMint: poolConfigState.quoteMint,
@@ -389,26 +536,49 @@ export class MigrationService extends DynamicBondingCurveProgram {
                 tokenProgram: TOKEN_PROGRAM_ID,
                 associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
             })
-            .preInstructions(preInstructions)
-            .transaction()
+            .instruction()
 
         const modifyComputeUnits = ComputeBudgetProgram.setComputeUnitLimit({
             units: 500000,
         })
 
-        transaction.add(modifyComputeUnits)
+        return {
+            setupInstructions: [modifyComputeUnits, ...preInstructions],
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [],
+        }
+    }
 
-        return transaction
+    /**
+     * Migrate to DAMM V1
+     * @param migrateToDammV1Param - The parameters for the migration
+     * @returns A migrate transaction
+     */
+    async migrateToDammV1<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        migrateToDammV1Param: MigrateToDammV1Param,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions =
+            await this.migrateToDammV1Instructions(migrateToDammV1Param)
+
+        return this.finalizeInstructions(
+            instructions,
+            migrateToDammV1Param.payer,
+            options
+        )
     }
 
     /**
-     * Lock DAMM V1 LP token for creator or partner
+     * Build the instructions to lock DAMM V1 LP token for creator or partner
      * @param lockDammV1LpTokenParam - The parameters for the lock
-     * @returns A lock transaction
+     * @returns The instructions and signers of a lock transaction
      */
-    async lockDammV1LpToken(
+    async lockDammV1LpTokenInstructions(
         lockDammV1LpTokenParam: DammLpTokenParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const poolState = await this.state.getPool(
             lockDammV1LpTokenParam.virtualPool
         )
@@ -421,8 +591,14 @@ export class MigrationService extends DynamicBondingCurveProgram {
 
         const poolConfigState = await this.state.getPoolConfig(poolState.config)
 
+        const dammConfig = this.resolveDammConfig(
+            poolConfigState,
+            MigrationOption.MET_DAMM,
+            lockDammV1LpTokenParam.dammConfig
+        )
+
         const dammPool = deriveDammV1PoolAddress(
-            lockDammV1LpTokenParam.dammConfig,
+            dammConfig,
             poolState.baseMint,
             poolConfigState.quoteMint
         )
@@ -556,7 +732,7 @@ export class MigrationService extends DynamicBondingCurveProgram {
             true
         )
 
-        return this.program.methods
+        const instruction = await this.program.methods
             .migrateMeteoraDammLockLpToken()
             .accountsPartial({
                 virtualPool: lockDammV1LpTokenParam.virtualPool,
@@ -579,18 +755,46 @@ export class MigrationService extends DynamicBondingCurveProgram {
                 ammProgram: DAMM_V1_PROGRAM_ID,
                 tokenProgram: TOKEN_PROGRAM_ID,
             })
-            .preInstructions(preInstructions)
-            .transaction()
+            .instruction()
+
+        return {
+            setupInstructions: preInstructions,
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [],
+        }
     }
 
     /**
-     * Claim DAMM V1 LP token for creator or partner
+     * Lock DAMM V1 LP token for creator or partner
+     * @param lockDammV1LpTokenParam - The parameters for the lock
+     * @returns A lock transaction
+     */
+    async lockDammV1LpToken<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        lockDammV1LpTokenParam: DammLpTokenParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.lockDammV1LpTokenInstructions(
+            lockDammV1LpTokenParam
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            lockDammV1LpTokenParam.payer,
+            options
+        )
+    }
+
+    /**
+     * Build the instructions to claim DAMM V1 LP token for creator or partner
      * @param claimDammV1LpTokenParam - The parameters for the claim
-     * @returns A claim transaction
+     * @returns The instructions and signers of a claim transaction
      */
-    async claimDammV1LpToken(
+    async claimDammV1LpTokenInstructions(
         claimDammV1LpTokenParam: DammLpTokenParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const poolAuthority = deriveDbcPoolAuthority()
 
         const virtualPoolState = await this.state.getPool(
@@ -607,8 +811,14 @@ export class MigrationService extends DynamicBondingCurveProgram {
             virtualPoolState.config
         )
 
+        const dammConfig = this.resolveDammConfig(
+            poolConfigState,
+            MigrationOption.MET_DAMM,
+            claimDammV1LpTokenParam.dammConfig
+        )
+
         const dammPool = deriveDammV1PoolAddress(
-            claimDammV1LpTokenParam.dammConfig,
+            dammConfig,
             virtualPoolState.baseMint,
             poolConfigState.quoteMint
         )
@@ -669,11 +879,249 @@ export class MigrationService extends DynamicBondingCurveProgram {
             tokenProgram: TOKEN_PROGRAM_ID,
         }
 
-        return this.program.methods
+        const instruction = await this.program.methods
             .migrateMeteoraDammClaimLpToken()
             .accountsPartial(accounts)
-            .preInstructions(preInstructions)
-            .transaction()
+            .instruction()
+
+        return {
+            setupInstructions: preInstructions,
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [],
+        }
+    }
+
+    /**
+     * Claim DAMM V1 LP token for creator or partner
+     * @param claimDammV1LpTokenParam - The parameters for the claim
+     * @returns A claim transaction
+     */
+    async claimDammV1LpToken<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        claimDammV1LpTokenParam: DammLpTokenParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.claimDammV1LpTokenInstructions(
+            claimDammV1LpTokenParam
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            claimDammV1LpTokenParam.payer,
+            options
+        )
+    }
+
+    /**
+     * Private method to get the DAMM V1 lock escrow of the partner or the
+     * creator with the pool and vault states that price its fee
+     * @param dammV1LockEscrowFeeParam - The pool and the owner of the lock escrow
+     * @returns The lock escrow, its owner, the DAMM V1 pool and vault states and the fee
+     */
+    private async getDammV1LockEscrowContext(
+        dammV1LockEscrowFeeParam: DammV1LockEscrowFeeParam
+    ) {
+        const { virtualPool, isPartner } = dammV1LockEscrowFeeParam
+
+        const poolState = await this.state.getPool(virtualPool)
+        if (!poolState) {
+            throw new Error(`Pool not found: ${virtualPool.toString()}`)
+        }
+
+        const poolConfigState = await this.state.getPoolConfig(poolState.config)
+
+        const dammConfig = this.resolveDammConfig(
+            poolConfigState,
+            MigrationOption.MET_DAMM,
+            dammV1LockEscrowFeeParam.dammConfig
+        )
+
+        const dammPool = deriveDammV1PoolAddress(
+            dammConfig,
+            poolState.baseMint,
+            poolConfigState.quoteMint
+        )
+
+        const owner = isPartner ? poolConfigState.feeClaimer : poolState.creator
+        const lockEscrow = deriveDammV1LockEscrowAddress(dammPool, owner)
+
+        const [dammPoolState, lockEscrowState] = await Promise.all([
+            this.getDammV1Program().account.pool.fetchNullable(dammPool),
+            this.state.getDammV1LockEscrow(lockEscrow),
+        ])
+        if (!dammPoolState) {
+            throw new Error(`DAMM V1 pool not found: ${dammPool.toString()}`)
+        }
+        if (!lockEscrowState) {
+            throw new Error(`Lock escrow not found: ${lockEscrow.toString()}`)
+        }
+
+        const vaultProgram = this.getVaultProgram()
+        const [aVaultState, bVaultState] = await Promise.all([
+            vaultProgram.account.vault.fetch(dammPoolState.aVault),
+            vaultProgram.account.vault.fetch(dammPoolState.bVault),
+        ])
+
+        const currentTime = await this.getCurrentPoint(ActivationType.Timestamp)
+        const { tokenAAmount, tokenBAmount, lpSupply } =
+            await getDammV1PoolReserves(
+                this.connection,
+                dammPool,
+                dammPoolState,
+                aVaultState,
+                bVaultState,
+                currentTime
+            )
+
+        const lpFee = getDammV1LockEscrowUnclaimedFee(
+            lockEscrowState,
+            getDammV1VirtualPrice(tokenAAmount, tokenBAmount, lpSupply)
+        )
+
+        // the claim burns the LP fee for its share of the pool tokens
+        const fee: DammV1LockEscrowFee = {
+            lockEscrow,
+            owner,
+            lpFee,
+            tokenAAmount: lpSupply.isZero()
+                ? new BN(0)
+                : lpFee.mul(tokenAAmount).div(lpSupply),
+            tokenBAmount: lpSupply.isZero()
+                ? new BN(0)
+                : lpFee.mul(tokenBAmount).div(lpSupply),
+        }
+
+        return { dammPool, dammPoolState, aVaultState, bVaultState, fee }
+    }
+
+    /**
+     * Get the trading fees of the DAMM V1 lock escrow of the partner or the
+     * creator that are not claimed yet
+     * @param dammV1LockEscrowFeeParam - The pool and the owner of the lock escrow
+     * @returns The unclaimed fee in LP tokens and its token A (base) and token B (quote) amounts
+     */
+    async getDammV1LockEscrowFee(
+        dammV1LockEscrowFeeParam: DammV1LockEscrowFeeParam
+    ): Promise<DammV1LockEscrowFee> {
+        const { fee } = await this.getDammV1LockEscrowContext(
+            dammV1LockEscrowFeeParam
+        )
+        return fee
+    }
+
+    /**
+     * Build the instructions to claim the trading fees of the DAMM V1 lock
+     * escrow of the partner or the creator
+     * @param claimDammV1LockEscrowFeeParam - The parameters for the claim
+     * @returns The instructions and signers of a claim transaction
+     */
+    async claimDammV1LockEscrowFeeInstructions(
+        claimDammV1LockEscrowFeeParam: ClaimDammV1LockEscrowFeeParam
+    ): Promise<BuiltInstructions> {
+        const { dammPool, dammPoolState, aVaultState, bVaultState, fee } =
+            await this.getDammV1LockEscrowContext(claimDammV1LockEscrowFeeParam)
+        const { payer, maxAmount } = claimDammV1LockEscrowFeeParam
+        const { lockEscrow, owner } = fee
+
+        const escrowVault = getAssociatedTokenAddressSync(
+            dammPoolState.lpMint,
+            lockEscrow,
+            true
+        )
+
+        // the LP fee is moved to the LP token account of the owner and burnt
+        const sourceTokens = getAssociatedTokenAddressSync(
+            dammPoolState.lpMint,
+            owner,
+            true
+        )
+
+        const {
+            ataTokenA: userAToken,
+            ataTokenB: userBToken,
+            instructions: preInstructions,
+        } = await this.prepareTokenAccounts(
+            owner,
+            payer,
+            dammPoolState.tokenAMint,
+            dammPoolState.tokenBMint,
+            TOKEN_PROGRAM_ID,
+            TOKEN_PROGRAM_ID
+        )
+
+        preInstructions.push(
+            createAssociatedTokenAccountIdempotentInstruction(
+                payer,
+                sourceTokens,
+                owner,
+                dammPoolState.lpMint,
+                TOKEN_PROGRAM_ID
+            )
+        )
+
+        const postInstructions: TransactionInstruction[] = []
+        if (
+            isNativeSol(dammPoolState.tokenAMint) ||
+            isNativeSol(dammPoolState.tokenBMint)
+        ) {
+            const unwrapIx = unwrapSOLInstruction(owner, owner)
+            unwrapIx && postInstructions.push(unwrapIx)
+        }
+
+        const instruction = await this.getDammV1Program()
+            .methods.claimFee(maxAmount ?? U64_MAX)
+            .accountsPartial({
+                pool: dammPool,
+                lpMint: dammPoolState.lpMint,
+                lockEscrow,
+                owner,
+                sourceTokens,
+                escrowVault,
+                tokenProgram: TOKEN_PROGRAM_ID,
+                aTokenVault: aVaultState.tokenVault,
+                bTokenVault: bVaultState.tokenVault,
+                aVault: dammPoolState.aVault,
+                bVault: dammPoolState.bVault,
+                aVaultLp: dammPoolState.aVaultLp,
+                bVaultLp: dammPoolState.bVaultLp,
+                aVaultLpMint: aVaultState.lpMint,
+                bVaultLpMint: bVaultState.lpMint,
+                userAToken,
+                userBToken,
+                vaultProgram: VAULT_PROGRAM_ID,
+            })
+            .instruction()
+
+        return {
+            setupInstructions: preInstructions,
+            instructions: [instruction],
+            cleanupInstructions: postInstructions,
+            signers: [],
+        }
+    }
+
+    /**
+     * Claim the trading fees of the DAMM V1 lock escrow of the partner or the creator
+     * @param claimDammV1LockEscrowFeeParam - The parameters for the claim
+     * @returns A claim transaction
+     */
+    async claimDammV1LockEscrowFee<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        claimDammV1LockEscrowFeeParam: ClaimDammV1LockEscrowFeeParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.claimDammV1LockEscrowFeeInstructions(
+            claimDammV1LockEscrowFeeParam
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            claimDammV1LockEscrowFeeParam.payer,
+            options
+        )
     }
 
     ///////////////////////
@@ -681,13 +1129,13 @@ export class MigrationService extends DynamicBondingCurveProgram {
     ///////////////////////
 
     /**
-     * Create metadata for the migration of Meteora DAMM V2
+     * Build the instructions to create metadata for the migration of Meteora DAMM V2
      * @param createDammV2MigrationMetadataParam - The parameters for the migration
-     * @returns A migration transaction
+     * @returns The instructions and signers of a migration transaction
      */
-    async createDammV2MigrationMetadata(
+    async createDammV2MigrationMetadataInstructions(
         createDammV2MigrationMetadataParam: CreateDammV2MigrationMetadataParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const migrationMetadata = deriveDammV2MigrationMetadataAddress(
             createDammV2MigrationMetadataParam.virtualPool
         )
@@ -700,20 +1148,50 @@ export class MigrationService extends DynamicBondingCurveProgram {
             systemProgram: SystemProgram.programId,
         }
 
-        return this.program.methods
+        const instruction = await this.program.methods
             .migrationDammV2CreateMetadata()
             .accountsPartial(accounts)
-            .transaction()
+            .instruction()
+
+        return {
+            setupInstructions: [],
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [],
+        }
     }
 
     /**
-     * Migrate to DAMM V2
+     * Create metadata for the migration of Meteora DAMM V2
+     * @param createDammV2MigrationMetadataParam - The parameters for the migration
+     * @returns A migration transaction
+     */
+    async createDammV2MigrationMetadata<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        createDammV2MigrationMetadataParam: CreateDammV2MigrationMetadataParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions =
+            await this.createDammV2MigrationMetadataInstructions(
+                createDammV2MigrationMetadataParam
+            )
+
+        return this.finalizeInstructions(
+            instructions,
+            createDammV2MigrationMetadataParam.payer,
+            options
+        )
+    }
+
+    /**
+     * Build the instructions to migrate to DAMM V2
      * @param migrateToDammV2Param - The parameters for the migration
-     * @returns A migrate transaction
+     * @returns The instructions and signers of a migrate transaction, the signers being the first and second position NFT keypairs
      */
-    async migrateToDammV2(
+    async migrateToDammV2Instructions(
         migrateToDammV2Param: MigrateToDammV2Param
-    ): Promise<MigrateToDammV2Response> {
+    ): Promise<BuiltInstructions> {
         const poolAuthority = deriveDbcPoolAuthority()
         const dammPoolAuthority = deriveDammV2PoolAuthority()
         const dammEventAuthority = deriveDammV2EventAuthority()
@@ -732,12 +1210,18 @@ export class MigrationService extends DynamicBondingCurveProgram {
             virtualPoolState.config
         )
 
+        const dammConfig = this.resolveDammConfig(
+            poolConfigState,
+            MigrationOption.MET_DAMM_V2,
+            migrateToDammV2Param.dammConfig
+        )
+
         const migrationMetadata = deriveDammV2MigrationMetadataAddress(
             migrateToDammV2Param.virtualPool
         )
 
         const dammPool = deriveDammV2PoolAddress(
-            migrateToDammV2Param.dammConfig,
+            dammConfig,
             virtualPoolState.baseMint,
             poolConfigState.quoteMint
         )
@@ -778,7 +1262,7 @@ export class MigrationService extends DynamicBondingCurveProgram {
                 ? TOKEN_PROGRAM_ID
                 : TOKEN_2022_PROGRAM_ID
 
-        const tx = await this.program.methods
+        const instruction = await this.program.methods
             .migrationDammV2()
             .accountsStrict({
                 virtualPool: migrateToDammV2Param.virtualPool,
@@ -811,21 +1295,357 @@ export class MigrationService extends DynamicBondingCurveProgram {
                 {
                     isSigner: false,
                     isWritable: false,
-                    pubkey: migrateToDammV2Param.dammConfig,
+                    pubkey: dammConfig,
                 },
             ])
-            .transaction()
+            .instruction()
 
         const modifyComputeUnits = ComputeBudgetProgram.setComputeUnitLimit({
             units: 500000,
         })
 
-        tx.add(modifyComputeUnits)
+        return {
+            setupInstructions: [modifyComputeUnits],
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [firstPositionNftKP, secondPositionNftKP],
+        }
+    }
+
+    /**
+     * Migrate to DAMM V2
+     * @param migrateToDammV2Param - The parameters for the migration
+     * @returns A migrate transaction
+     */
+    async migrateToDammV2<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        migrateToDammV2Param: MigrateToDammV2Param,
+        options?: T
+    ): Promise<MigrateToDammV2Response<T>> {
+        const instructions =
+            await this.migrateToDammV2Instructions(migrateToDammV2Param)
+        const [firstPositionNftKeypair, secondPositionNftKeypair] =
+            instructions.signers
 
         return {
-            transaction: tx,
-            firstPositionNftKeypair: firstPositionNftKP,
-            secondPositionNftKeypair: secondPositionNftKP,
+            transaction: await this.finalizeInstructions(
+                instructions,
+                migrateToDammV2Param.payer,
+                options
+            ),
+            firstPositionNftKeypair,
+            secondPositionNftKeypair,
+        }
+    }
+
+    ////////////////////
+    // MIGRATION PLAN //
+    ////////////////////
+
+    /**
+     * Plan the remaining migration transactions of a pool whose curve is
+     * complete, skipping the steps that are already done. The steps after the
+     * migration are predicted from the pool config until the pool is migrated.
+     * @param planMigrationParam - The parameters for the migration
+     * @returns The ordered migration steps
+     */
+    async planMigration(
+        planMigrationParam: PlanMigrationParam
+    ): Promise<MigrationStep[]> {
+        const { virtualPool } = planMigrationParam
+
+        const virtualPoolState = await this.state.getPool(virtualPool)
+        if (!virtualPoolState) {
+            throw new Error(`Pool not found: ${virtualPool.toString()}`)
+        }
+
+        const poolConfigState = await this.state.getPoolConfig(
+            virtualPoolState.config
+        )
+        const isDammV1 =
+            poolConfigState.migrationOption === MigrationOption.MET_DAMM
+
+        const { status, nextActions, pendingClaims } =
+            await this.state.getPoolStatus(virtualPool)
+
+        if (
+            status === PoolStatus.NotYetActive ||
+            status === PoolStatus.Trading
+        ) {
+            throw new Error(`Curve is not complete: ${virtualPool.toString()}`)
+        }
+
+        const isMigrated =
+            status === PoolStatus.Migrated ||
+            status === PoolStatus.PostMigrationClaimsPending ||
+            status === PoolStatus.FullySettled
+
+        const steps: MigrationStep[] = []
+
+        if (!isMigrated) {
+            if (status === PoolStatus.AwaitingLocker) {
+                steps.push({ name: 'createLocker' })
+            }
+            if (status !== PoolStatus.AwaitingMigration) {
+                steps.push({
+                    name: isDammV1
+                        ? 'createDammV1MigrationMetadata'
+                        : 'createDammV2MigrationMetadata',
+                })
+            }
+            steps.push({
+                name: isDammV1 ? 'migrateToDammV1' : 'migrateToDammV2',
+            })
+        }
+
+        if (isDammV1) {
+            const lpTokenSteps: Array<[boolean, MigrationStep]> = isMigrated
+                ? [
+                      [
+                          nextActions.includes('lockPartnerDammV1LpToken'),
+                          { name: 'lockDammV1LpToken', isPartner: true },
+                      ],
+                      [
+                          nextActions.includes('lockCreatorDammV1LpToken'),
+                          { name: 'lockDammV1LpToken', isPartner: false },
+                      ],
+                      [
+                          pendingClaims.includes('claimPartnerDammV1LpToken'),
+                          { name: 'claimDammV1LpToken', isPartner: true },
+                      ],
+                      [
+                          pendingClaims.includes('claimCreatorDammV1LpToken'),
+                          { name: 'claimDammV1LpToken', isPartner: false },
+                      ],
+                  ]
+                : [
+                      [
+                          poolConfigState.partnerLockedLpPercentage > 0,
+                          { name: 'lockDammV1LpToken', isPartner: true },
+                      ],
+                      [
+                          poolConfigState.creatorLockedLpPercentage > 0,
+                          { name: 'lockDammV1LpToken', isPartner: false },
+                      ],
+                      [
+                          poolConfigState.partnerLpPercentage > 0,
+                          { name: 'claimDammV1LpToken', isPartner: true },
+                      ],
+                      [
+                          poolConfigState.creatorLpPercentage > 0,
+                          { name: 'claimDammV1LpToken', isPartner: false },
+                      ],
+                  ]
+
+            lpTokenSteps.forEach(([isPending, step]) => {
+                if (isPending) {
+                    steps.push(step)
+                }
+            })
+        }
+
+        if (
+            isMigrated
+                ? nextActions.includes('withdrawLeftover')
+                : poolConfigState.fixedTokenSupplyFlag === 1
+        ) {
+            steps.push({ name: 'withdrawLeftover' })
+        }
+
+        return steps
+    }
+
+    /**
+     * Build the instructions of a migration step
+     * @param planMigrationParam - The parameters for the migration
+     * @param step - The migration step
+     * @returns The instructions and signers of the step transaction
+     */
+    async migrationStepInstructions(
+        planMigrationParam: PlanMigrationParam,
+        step: MigrationStep
+    ): Promise<BuiltInstructions> {
+        const { payer, virtualPool } = planMigrationParam
+
+        switch (step.name) {
+            case 'createLocker':
+                return this.createLockerInstructions({ payer, virtualPool })
+            case 'withdrawLeftover':
+                return this.withdrawLeftoverInstructions({
+                    payer,
+                    virtualPool,
+                })
+            case 'createDammV1MigrationMetadata':
+            case 'createDammV2MigrationMetadata': {
+                const virtualPoolState = await this.state.getPool(virtualPool)
+                if (!virtualPoolState) {
+                    throw new Error(`Pool not found: ${virtualPool.toString()}`)
+                }
+                const createMigrationMetadataParam = {
+                    payer,
+                    virtualPool,
+                    config: virtualPoolState.config,
+                }
+                return step.name === 'createDammV1MigrationMetadata'
+                    ? this.createDammV1MigrationMetadataInstructions(
+                          createMigrationMetadataParam
+                      )
+                    : this.createDammV2MigrationMetadataInstructions(
+                          createMigrationMetadataParam
+                      )
+            }
+            case 'migrateToDammV1':
+                return this.migrateToDammV1Instructions(planMigrationParam)
+            case 'migrateToDammV2':
+                return this.migrateToDammV2Instructions(planMigrationParam)
+            case 'lockDammV1LpToken':
+            case 'claimDammV1LpToken': {
+                if (step.isPartner === undefined) {
+                    throw new Error(
+                        `isPartner is required for the ${step.name} step`
+                    )
+                }
+                const dammLpTokenParam = {
+                    ...planMigrationParam,
+                    isPartner: step.isPartner,
+                }
+                return step.name === 'lockDammV1LpToken'
+                    ? this.lockDammV1LpTokenInstructions(dammLpTokenParam)
+                    : this.claimDammV1LpTokenInstructions(dammLpTokenParam)
+            }
+        }
+    }
+
+    /**
+     * Private method to confirm a migration transaction at the service commitment
+     * @param signature - The transaction signature
+     * @param blockhash - The blockhash of the transaction and its expiry block height
+     */
+    private async confirmMigrationTransaction(
+        signature: string,
+        blockhash: BlockhashWithExpiryBlockHeight
+    ): Promise<void> {
+        const { value } = await this.connection.confirmTransaction(
+            { signature, ...blockhash },
+            this.commitment
+        )
+
+        if (value.err) {
+            throw new Error(
+                `Transaction failed: ${signature} ${JSON.stringify(value.err)}`
+            )
+        }
+    }
+
+    /**
+     * Execute the migration steps of a pool one after the other. Every step is
+     * built right before it is sent, so it sees the state left by the previous
+     * steps. A failed step throws, and the remaining steps can be retried with
+     * a new call since the plan skips the steps already done.
+     * @param executeMigrationParam - The parameters for the migration, the signer and the confirmation strategy
+     * @returns The signatures of the confirmed steps
+     */
+    async executeMigration<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        executeMigrationParam: ExecuteMigrationParam<T>
+    ): Promise<MigrationStepResult[]> {
+        const {
+            payer,
+            transactionOptions,
+            signTransaction,
+            confirmTransaction = (signature, blockhash) =>
+                this.confirmMigrationTransaction(signature, blockhash),
+            onStepConfirmed,
+        } = executeMigrationParam
+        const steps =
+            executeMigrationParam.steps ??
+            (await this.planMigration(executeMigrationParam))
+
+        const results: MigrationStepResult[] = []
+        for (const step of steps) {
+            const instructions = await this.migrationStepInstructions(
+                executeMigrationParam,
+                step
+            )
+            const transaction: Transaction | VersionedTransaction =
+                await this.finalizeInstructions(
+                    instructions,
+                    payer,
+                    transactionOptions
+                )
+
+            const blockhash = await this.connection.getLatestBlockhash(
+                this.commitment
+            )
+            // the SDK keypairs only sign when the instructions require them
+            const isRequiredSigner = (
+                accountKeys: PublicKey[],
+                numRequiredSignatures: number,
+                signer: Keypair
+            ) =>
+                accountKeys
+                    .slice(0, numRequiredSignatures)
+                    .some((key) => key.equals(signer.publicKey))
+
+            if (transaction instanceof VersionedTransaction) {
+                const { message } = transaction
+                message.recentBlockhash = blockhash.blockhash
+                const signers = instructions.signers.filter((signer) =>
+                    isRequiredSigner(
+                        message.staticAccountKeys,
+                        message.header.numRequiredSignatures,
+                        signer
+                    )
+                )
+                if (signers.length > 0) {
+                    transaction.sign(signers)
+                }
+            } else {
+                transaction.feePayer = payer
+                transaction.recentBlockhash = blockhash.blockhash
+                const message = transaction.compileMessage()
+                const signers = instructions.signers.filter((signer) =>
+                    isRequiredSigner(
+                        message.accountKeys,
+                        message.header.numRequiredSignatures,
+                        signer
+                    )
+                )
+                if (signers.length > 0) {
+                    transaction.partialSign(...signers)
+                }
+            }
+
+            const signedTransaction = await signTransaction(
+                transaction as BuiltTransaction<T>
+            )
+
+            let signature: string
+            try {
+                signature = await this.connection.sendRawTransaction(
+                    signedTransaction.serialize(),
+                    { preflightCommitment: this.commitment }
+                )
+            } catch (error) {
+                if (error instanceof SendTransactionError) {
+                    throw (
+                        (await parseSendTransactionError(
+                            this.connection,
+                            error
+                        )) ?? error
+                    )
+                }
+                throw error
+            }
+            await confirmTransaction(signature, blockhash)
+
+            const result = { step, signature }
+            results.push(result)
+            onStepConfirmed?.(result)
         }
+
+        return results
     }
 }
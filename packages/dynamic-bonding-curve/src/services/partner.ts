@@ -4,10 +4,11 @@ import {
     SystemProgram,
     TransactionInstruction,
     type Connection,
-    type Transaction,
 } from '@solana/web3.js'
 import { DynamicBondingCurveProgram } from './program'
 import {
+    type BuiltInstructions,
+    type BuiltTransaction,
     type ClaimTradingFeeParam,
     type CreateConfigParam,
     type CreatePartnerMetadataParam,
@@ -16,6 +17,8 @@ import {
     ClaimPartnerTradingFeeWithQuoteMintNotSolParam,
     ClaimPartnerTradingFeeWithQuoteMintSolParam,
     ClaimTradingFee2Param,
+    LegacyTransactionOptions,
+    TransactionOptions,
     WithdrawMigrationFeeParam,
 } from '../types'
 import {
@@ -42,13 +45,13 @@ export class PartnerService extends DynamicBondingCurveProgram {
     }
 
     /**
-     * Create a new config
+     * Build the instructions to create a new config
      * @param createConfigParam - The parameters for the config
-     * @returns A new config
+     * @returns The instructions and signers of a new config
      */
-    async createConfig(
+    async createConfigInstructions(
         createConfigParam: CreateConfigParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const {
             config,
             feeClaimer,
@@ -61,7 +64,7 @@ export class PartnerService extends DynamicBondingCurveProgram {
         // error checks
         validateConfigParameters({ ...configParam, leftoverReceiver })
 
-        return this.program.methods
+        const instruction = await this.program.methods
             .createConfig(configParam)
             .accountsPartial({
                 config,
@@ -70,17 +73,43 @@ export class PartnerService extends DynamicBondingCurveProgram {
                 quoteMint,
                 payer,
             })
-            .transaction()
+            .instruction()
+
+        return {
+            setupInstructions: [],
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [],
+        }
     }
 
     /**
-     * Create partner metadata
+     * Create a new config
+     * @param createConfigParam - The parameters for the config
+     * @returns A new config
+     */
+    async createConfig<T extends TransactionOptions = LegacyTransactionOptions>(
+        createConfigParam: CreateConfigParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions =
+            await this.createConfigInstructions(createConfigParam)
+
+        return this.finalizeInstructions(
+            instructions,
+            new PublicKey(createConfigParam.payer),
+            options
+        )
+    }
+
+    /**
+     * Build the instructions to create partner metadata
      * @param createPartnerMetadataParam - The parameters for the partner metadata
-     * @returns A create partner metadata transaction
+     * @returns The instructions and signers of a create partner metadata transaction
      */
-    async createPartnerMetadata(
+    async createPartnerMetadataInstructions(
         createPartnerMetadataParam: CreatePartnerMetadataParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const partnerMetadata = derivePartnerMetadata(
             createPartnerMetadataParam.feeClaimer
         )
@@ -92,7 +121,7 @@ export class PartnerService extends DynamicBondingCurveProgram {
             logo: createPartnerMetadataParam.logo,
         }
 
-        return this.program.methods
+        const instruction = await this.program.methods
             .createPartnerMetadata(partnerMetadataParam)
             .accountsPartial({
                 partnerMetadata,
@@ -100,7 +129,36 @@ export class PartnerService extends DynamicBondingCurveProgram {
                 feeClaimer: createPartnerMetadataParam.feeClaimer,
                 systemProgram: SystemProgram.programId,
             })
-            .transaction()
+            .instruction()
+
+        return {
+            setupInstructions: [],
+            instructions: [instruction],
+            cleanupInstructions: [],
+            signers: [],
+        }
+    }
+
+    /**
+     * Create partner metadata
+     * @param createPartnerMetadataParam - The parameters for the partner metadata
+     * @returns A create partner metadata transaction
+     */
+    async createPartnerMetadata<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        createPartnerMetadataParam: CreatePartnerMetadataParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.createPartnerMetadataInstructions(
+            createPartnerMetadataParam
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            createPartnerMetadataParam.payer,
+            options
+        )
     }
 
     /**
@@ -267,13 +325,13 @@ export class PartnerService extends DynamicBondingCurveProgram {
     }
 
     /**
-     * Claim partner trading fee
+     * Build the instructions to claim partner trading fee
      * @param claimTradingFeeParam - The parameters for the claim trading fee
-     * @returns A claim trading fee transaction
+     * @returns The instructions and signers of a claim trading fee transaction
      */
-    async claimPartnerTradingFee(
+    async claimPartnerTradingFeeInstructions(
         claimTradingFeeParam: ClaimTradingFeeParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const {
             feeClaimer,
             payer,
@@ -325,12 +383,17 @@ export class PartnerService extends DynamicBondingCurveProgram {
                 tokenQuoteProgram,
             })
 
-            return this.program.methods
+            const instruction = await this.program.methods
                 .claimTradingFee(maxBaseAmount, maxQuoteAmount)
                 .accountsPartial(result.accounts)
-                .preInstructions(result.preInstructions)
-                .postInstructions(result.postInstructions)
-                .transaction()
+                .instruction()
+
+            return {
+                setupInstructions: result.preInstructions,
+                instructions: [instruction],
+                cleanupInstructions: result.postInstructions,
+                signers: [],
+            }
         } else {
             const feeReceiver = receiver ? receiver : feeClaimer
 
@@ -346,22 +409,49 @@ export class PartnerService extends DynamicBondingCurveProgram {
                 tokenQuoteProgram,
             })
 
-            return this.program.methods
+            const instruction = await this.program.methods
                 .claimTradingFee(maxBaseAmount, maxQuoteAmount)
                 .accountsPartial(result.accounts)
-                .preInstructions(result.preInstructions)
-                .transaction()
+                .instruction()
+
+            return {
+                setupInstructions: result.preInstructions,
+                instructions: [instruction],
+                cleanupInstructions: [],
+                signers: [],
+            }
         }
     }
 
     /**
      * Claim partner trading fee
-     * @param claimTradingFee2Param - The parameters for the claim trading fee
+     * @param claimTradingFeeParam - The parameters for the claim trading fee
      * @returns A claim trading fee transaction
      */
-    async claimPartnerTradingFee2(
+    async claimPartnerTradingFee<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        claimTradingFeeParam: ClaimTradingFeeParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions =
+            await this.claimPartnerTradingFeeInstructions(claimTradingFeeParam)
+
+        return this.finalizeInstructions(
+            instructions,
+            claimTradingFeeParam.payer,
+            options
+        )
+    }
+
+    /**
+     * Build the instructions to claim partner trading fee
+     * @param claimTradingFee2Param - The parameters for the claim trading fee
+     * @returns The instructions and signers of a claim trading fee transaction
+     */
+    async claimPartnerTradingFee2Instructions(
         claimTradingFee2Param: ClaimTradingFee2Param
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const {
             feeClaimer,
             payer,
@@ -445,12 +535,17 @@ export class PartnerService extends DynamicBondingCurveProgram {
                 tokenQuoteProgram,
             }
 
-            return this.program.methods
+            const instruction = await this.program.methods
                 .claimTradingFee(maxBaseAmount, maxQuoteAmount)
                 .accountsPartial(accounts)
-                .preInstructions(preInstructions)
-                .postInstructions(postInstructions)
-                .transaction()
+                .instruction()
+
+            return {
+                setupInstructions: preInstructions,
+                instructions: [instruction],
+                cleanupInstructions: postInstructions,
+                signers: [],
+            }
         } else {
             const result = await this.claimWithQuoteMintNotSol({
                 feeClaimer,
@@ -463,23 +558,50 @@ export class PartnerService extends DynamicBondingCurveProgram {
                 tokenBaseProgram,
                 tokenQuoteProgram,
             })
-            return this.program.methods
+            const instruction = await this.program.methods
                 .claimTradingFee(maxBaseAmount, maxQuoteAmount)
                 .accountsPartial(result.accounts)
-                .preInstructions(result.preInstructions)
-                .postInstructions([])
-                .transaction()
+                .instruction()
+
+            return {
+                setupInstructions: result.preInstructions,
+                instructions: [instruction],
+                cleanupInstructions: [],
+                signers: [],
+            }
         }
     }
 
     /**
-     * Partner withdraw surplus
+     * Claim partner trading fee
+     * @param claimTradingFee2Param - The parameters for the claim trading fee
+     * @returns A claim trading fee transaction
+     */
+    async claimPartnerTradingFee2<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        claimTradingFee2Param: ClaimTradingFee2Param,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.claimPartnerTradingFee2Instructions(
+            claimTradingFee2Param
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            claimTradingFee2Param.payer,
+            options
+        )
+    }
+
+    /**
+     * Build the instructions to withdraw partner surplus
      * @param partnerWithdrawSurplusParam - The parameters for the partner withdraw surplus
-     * @returns A partner withdraw surplus transaction
+     * @returns The instructions and signers of a partner withdraw surplus transaction
      */
-    async partnerWithdrawSurplus(
+    async partnerWithdrawSurplusInstructions(
         partnerWithdrawSurplusParam: PartnerWithdrawSurplusParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const poolState = await this.state.getPool(
             partnerWithdrawSurplusParam.virtualPool
         )
@@ -518,7 +640,7 @@ export class PartnerService extends DynamicBondingCurveProgram {
             )
             unwrapSolIx && postInstructions.push(unwrapSolIx)
         }
-        return this.program.methods
+        const instruction = await this.program.methods
             .partnerWithdrawSurplus()
             .accountsPartial({
                 poolAuthority: this.poolAuthority,
@@ -530,14 +652,41 @@ export class PartnerService extends DynamicBondingCurveProgram {
                 feeClaimer: partnerWithdrawSurplusParam.feeClaimer,
                 tokenQuoteProgram,
             })
-            .preInstructions(preInstructions)
-            .postInstructions(postInstructions)
-            .transaction()
+            .instruction()
+
+        return {
+            setupInstructions: preInstructions,
+            instructions: [instruction],
+            cleanupInstructions: postInstructions,
+            signers: [],
+        }
+    }
+
+    /**
+     * Partner withdraw surplus
+     * @param partnerWithdrawSurplusParam - The parameters for the partner withdraw surplus
+     * @returns A partner withdraw surplus transaction
+     */
+    async partnerWithdrawSurplus<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        partnerWithdrawSurplusParam: PartnerWithdrawSurplusParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.partnerWithdrawSurplusInstructions(
+            partnerWithdrawSurplusParam
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            partnerWithdrawSurplusParam.feeClaimer,
+            options
+        )
     }
 
-    async partnerWithdrawMigrationFee(
+    async partnerWithdrawMigrationFeeInstructions(
         withdrawMigrationFeeParams: WithdrawMigrationFeeParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const { virtualPool, sender, feePayer } = withdrawMigrationFeeParams
         const virtualPoolState = await this.state.getPool(virtualPool)
         const configState = await this.state.getPoolConfig(
@@ -559,7 +708,7 @@ export class PartnerService extends DynamicBondingCurveProgram {
             unwarpSOLIx && postInstruction.push(unwarpSOLIx)
         }
 
-        const transaction = await this.program.methods
+        const instruction = await this.program.methods
             .withdrawMigrationFee(0) // 0 as partner and 1 as creator
             .accountsPartial({
                 poolAuthority: this.poolAuthority,
@@ -571,10 +720,31 @@ export class PartnerService extends DynamicBondingCurveProgram {
                 sender,
                 tokenQuoteProgram: getTokenProgram(configState.quoteTokenFlag),
             })
-            .preInstructions([preInstruction])
-            .postInstructions(postInstruction)
-            .transaction()
+            .instruction()
 
-        return transaction
+        return {
+            setupInstructions: preInstruction ? [preInstruction] : [],
+            instructions: [instruction],
+            cleanupInstructions: postInstruction,
+            signers: [],
+        }
+    }
+
+    async partnerWithdrawMigrationFee<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        withdrawMigrationFeeParams: WithdrawMigrationFeeParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.partnerWithdrawMigrationFeeInstructions(
+            withdrawMigrationFeeParams
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            withdrawMigrationFeeParams.feePayer ??
+                withdrawMigrationFeeParams.sender,
+            options
+        )
     }
 }
@@ -3,20 +3,31 @@ import {
     PublicKey,
     TransactionInstruction,
     type Connection,
-    Transaction,
     SYSVAR_INSTRUCTIONS_PUBKEY,
 } from '@solana/web3.js'
 import { DynamicBondingCurveProgram } from './program'
 import {
     ActivationType,
+    BatchSwapQuoteParam,
+    BatchSwapQuoteResult,
+    BuiltInstructions,
+    BuiltTransaction,
     ConfigParameters,
     CreateConfigAndPoolParam,
     CreateConfigAndPoolWithFirstBuyParam,
     CreatePoolWithFirstBuyParam,
     InitializePoolBaseParam,
+    LegacyTransactionOptions,
     PrepareSwapParams,
     SwapQuoteExactInParam,
+    SwapQuoteExactOutParam,
+    SwapQuoteWithPriceImpactParam,
+    SwapWithSlippageParam,
     TokenType,
+    TransactionOptions,
+    type PoolConfig,
+    type QuoteResult,
+    type VirtualPool,
     type CreatePoolParam,
     type SwapParam,
     type SwapQuoteParam,
@@ -30,14 +41,23 @@ import {
     deriveDbcTokenVaultAddress,
     getTokenType,
     checkRateLimiterApplied,
+    getTokenDecimals,
+    getMultipleAccountDataAndContext,
 } from '../helpers'
 import { NATIVE_MINT, TOKEN_2022_PROGRAM_ID } from '@solana/spl-token'
 import { TOKEN_PROGRAM_ID } from '@solana/spl-token'
 import { METAPLEX_PROGRAM_ID } from '../constants'
-import { swapQuote, calculateQuoteExactInAmount } from '../math/swapQuote'
+import {
+    swapQuote,
+    swapQuoteExactOut,
+    swapQuoteWithPriceImpact,
+    swapQuotePartialFill,
+    calculateQuoteExactInAmount,
+} from '../math/swapQuote'
 import { StateService } from './state'
 import {
     validateConfigParameters,
+    validateSlippageBps,
     validateSwapAmount,
 } from '../helpers/validation'
 import BN from 'bn.js'
@@ -53,11 +73,11 @@ export class PoolService extends DynamicBondingCurveProgram {
     /**
      * Private method to initialize a pool with SPL token
      * @param initializeSplPoolParams - The parameters for the initialize SPL pool
-     * @returns A transaction that initializes the pool with SPL token
+     * @returns An instruction that initializes the pool with SPL token
      */
     private async initializeSplPool(
         initializeSplPoolParams: InitializePoolBaseParam
-    ): Promise<Transaction> {
+    ): Promise<TransactionInstruction> {
         const {
             name,
             symbol,
@@ -93,17 +113,17 @@ export class PoolService extends DynamicBondingCurveProgram {
                 metadataProgram: METAPLEX_PROGRAM_ID,
                 tokenProgram: TOKEN_PROGRAM_ID,
             })
-            .transaction()
+            .instruction()
     }
 
     /**
      * Private method to initialize a pool with Token2022
      * @param initializeToken2022PoolParams - The parameters for the initialize Token2022 pool
-     * @returns A transaction that initializes the pool with Token2022
+     * @returns An instruction that initializes the pool with Token2022
      */
     private async initializeToken2022Pool(
         initializeToken2022PoolParams: InitializePoolBaseParam
-    ): Promise<Transaction> {
+    ): Promise<TransactionInstruction> {
         const {
             name,
             symbol,
@@ -136,7 +156,7 @@ export class PoolService extends DynamicBondingCurveProgram {
                 tokenQuoteProgram: TOKEN_PROGRAM_ID,
                 tokenProgram: TOKEN_2022_PROGRAM_ID,
             })
-            .transaction()
+            .instruction()
     }
 
     /**
@@ -179,23 +199,23 @@ export class PoolService extends DynamicBondingCurveProgram {
     }
 
     /**
-     * Private method to create config transaction
+     * Private method to create config instruction
      * @param configParam - The config parameters
      * @param config - The config address
      * @param feeClaimer - The fee claimer address
      * @param leftoverReceiver - The leftover receiver address
      * @param quoteMint - The quote mint address
      * @param payer - The payer address
-     * @returns A transaction that creates the config
+     * @returns An instruction that creates the config
      */
-    private async createConfigTx(
+    private async createConfigIx(
         configParam: ConfigParameters,
         config: PublicKey,
         feeClaimer: PublicKey,
         leftoverReceiver: PublicKey,
         quoteMint: PublicKey,
         payer: PublicKey
-    ): Promise<Transaction> {
+    ): Promise<TransactionInstruction> {
         return this.program.methods
             .createConfig(configParam)
             .accountsPartial({
@@ -205,22 +225,22 @@ export class PoolService extends DynamicBondingCurveProgram {
                 quoteMint,
                 payer,
             })
-            .transaction()
+            .instruction()
     }
 
     /**
-     * Private method to create pool transaction
+     * Private method to create pool instruction
      * @param createConfigAndPoolWithFirstBuyParam - The parameters for the config and pool and buy
      * @param configKey - The config key
      * @param quoteMintToken - The quote mint token
      * @param payerAddress - The payer address
-     * @returns A transaction that creates the pool
+     * @returns An instruction that creates the pool
      */
-    private async createPoolTx(
+    private async createPoolIx(
         createPoolParam: CreatePoolParam,
         tokenType: TokenType,
         quoteMint: PublicKey
-    ): Promise<Transaction> {
+    ): Promise<TransactionInstruction> {
         const { baseMint, name, symbol, uri, poolCreator, config, payer } =
             createPoolParam
 
@@ -251,18 +271,18 @@ export class PoolService extends DynamicBondingCurveProgram {
     }
 
     /**
-     * Private method to create first buy transaction
+     * Private method to create first buy instructions
      * @param createConfigAndPoolWithFirstBuyParam - The parameters for the config and pool and buy
      * @param configKey - The config key
      * @param quoteMintToken - The quote mint token
      * @param payerAddress - The payer address
      * @returns Instructions for the first buy
      */
-    private async swapBuyTx(
+    private async swapBuyInstructions(
         createConfigAndPoolWithFirstBuyParam: CreateConfigAndPoolWithFirstBuyParam,
         config: PublicKey,
         quoteMint: PublicKey
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const { baseMint, poolCreator } =
             createConfigAndPoolWithFirstBuyParam.createPoolParam
 
@@ -286,8 +306,8 @@ export class PoolService extends DynamicBondingCurveProgram {
         }
 
         // check if rate limiter is applied
-        // this swapBuyTx is only QuoteToBase direction
-        // this swapBuyTx does not check poolState, so there is no check for activation point
+        // this first buy is only QuoteToBase direction
+        // this first buy does not check poolState, so there is no check for activation point
         const isRateLimiterApplied = checkRateLimiterApplied(
             createConfigAndPoolWithFirstBuyParam.poolFees.baseFee.baseFeeMode,
             false,
@@ -361,7 +381,7 @@ export class PoolService extends DynamicBondingCurveProgram {
               ]
             : []
 
-        return this.program.methods
+        const swapIx = await this.program.methods
             .swap({
                 amountIn: buyAmount,
                 minimumAmountOut,
@@ -382,17 +402,24 @@ export class PoolService extends DynamicBondingCurveProgram {
                 tokenQuoteProgram: inputTokenProgram,
             })
             .remainingAccounts(remainingAccounts)
-            .preInstructions(preInstructions)
-            .postInstructions(postInstructions)
-            .transaction()
+            .instruction()
+
+        return {
+            setupInstructions: preInstructions,
+            instructions: [swapIx],
+            cleanupInstructions: postInstructions,
+            signers: [],
+        }
     }
 
     /**
-     * Create a new pool
+     * Build the instructions to create a new pool
      * @param createPoolParam - The parameters for the pool
-     * @returns A new pool
+     * @returns The instructions and signers of a new pool
      */
-    async createPool(createPoolParam: CreatePoolParam): Promise<Transaction> {
+    async createPoolInstructions(
+        createPoolParam: CreatePoolParam
+    ): Promise<BuiltInstructions> {
         const { baseMint, config, name, symbol, uri, payer, poolCreator } =
             createPoolParam
 
@@ -418,22 +445,51 @@ export class PoolService extends DynamicBondingCurveProgram {
             quoteMint,
         }
 
+        let initializePoolIx: TransactionInstruction
         if (tokenType === TokenType.SPL) {
             const mintMetadata = deriveMintMetadata(baseMint)
-            return this.initializeSplPool({ ...baseParams, mintMetadata })
+            initializePoolIx = await this.initializeSplPool({
+                ...baseParams,
+                mintMetadata,
+            })
         } else {
-            return this.initializeToken2022Pool(baseParams)
+            initializePoolIx = await this.initializeToken2022Pool(baseParams)
+        }
+
+        return {
+            setupInstructions: [],
+            instructions: [initializePoolIx],
+            cleanupInstructions: [],
+            signers: [],
         }
     }
 
     /**
-     * Create a new config and pool
+     * Create a new pool
+     * @param createPoolParam - The parameters for the pool
+     * @returns A new pool
+     */
+    async createPool<T extends TransactionOptions = LegacyTransactionOptions>(
+        createPoolParam: CreatePoolParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.createPoolInstructions(createPoolParam)
+
+        return this.finalizeInstructions(
+            instructions,
+            createPoolParam.payer,
+            options
+        )
+    }
+
+    /**
+     * Build the instructions to create a new config and pool
      * @param createConfigAndPoolParam - The parameters for the config and pool
-     * @returns A new config and pool
+     * @returns The instructions and signers of a new config and pool
      */
-    async createConfigAndPool(
+    async createConfigAndPoolInstructions(
         createConfigAndPoolParam: CreateConfigAndPoolParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const {
             config,
             feeClaimer,
@@ -453,10 +509,8 @@ export class PoolService extends DynamicBondingCurveProgram {
         const quoteMintToken = new PublicKey(quoteMint)
         const payerAddress = new PublicKey(payer)
 
-        const tx = new Transaction()
-
-        // create config transaction
-        const configTx = await this.program.methods
+        // create config instruction
+        const createConfigIx = await this.program.methods
             .createConfig(configParam)
             .accountsPartial({
                 config,
@@ -465,8 +519,7 @@ export class PoolService extends DynamicBondingCurveProgram {
                 quoteMint,
                 payer,
             })
-            .transaction()
-        tx.add(configTx)
+            .instruction()
 
         const pool = deriveDbcPoolAddress(quoteMintToken, baseMint, configKey)
         const baseVault = deriveDbcTokenVaultAddress(pool, baseMint)
@@ -486,32 +539,58 @@ export class PoolService extends DynamicBondingCurveProgram {
             quoteMint: quoteMintToken,
         }
 
+        let initializePoolIx: TransactionInstruction
         if (createConfigAndPoolParam.tokenType === TokenType.SPL) {
             const mintMetadata = deriveMintMetadata(baseMint)
-            const poolTx = await this.initializeSplPool({
+            initializePoolIx = await this.initializeSplPool({
                 ...baseParams,
                 mintMetadata,
             })
-            tx.add(poolTx)
         } else {
-            const poolTx = await this.initializeToken2022Pool(baseParams)
-            tx.add(poolTx)
+            initializePoolIx = await this.initializeToken2022Pool(baseParams)
         }
 
-        return tx
+        return {
+            setupInstructions: [],
+            instructions: [createConfigIx, initializePoolIx],
+            cleanupInstructions: [],
+            signers: [],
+        }
     }
 
     /**
-     * Create a new config and pool and buy tokens
+     * Create a new config and pool
+     * @param createConfigAndPoolParam - The parameters for the config and pool
+     * @returns A new config and pool
+     */
+    async createConfigAndPool<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        createConfigAndPoolParam: CreateConfigAndPoolParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.createConfigAndPoolInstructions(
+            createConfigAndPoolParam
+        )
+
+        return this.finalizeInstructions(
+            instructions,
+            new PublicKey(createConfigAndPoolParam.payer),
+            options
+        )
+    }
+
+    /**
+     * Build the instructions to create a new config and pool and buy tokens
      * @param createConfigAndPoolWithFirstBuyParam - The parameters for the config and pool and buy
-     * @returns An object containing the new config transaction, new pool transaction, and first buy transaction
+     * @returns An object containing the instructions of the new config transaction, new pool transaction, and first buy transaction
      */
-    async createConfigAndPoolWithFirstBuy(
+    async createConfigAndPoolWithFirstBuyInstructions(
         createConfigAndPoolWithFirstBuyParam: CreateConfigAndPoolWithFirstBuyParam
     ): Promise<{
-        createConfigTx: Transaction
-        createPoolTx: Transaction
-        swapBuyTx: Transaction
+        createConfigInstructions: BuiltInstructions
+        createPoolInstructions: BuiltInstructions
+        swapBuyInstructions: BuiltInstructions
     }> {
         const {
             config,
@@ -532,7 +611,7 @@ export class PoolService extends DynamicBondingCurveProgram {
         const leftoverReceiverAddress = new PublicKey(leftoverReceiver)
 
         // create config instruction
-        const createConfigTx = await this.createConfigTx(
+        const createConfigIx = await this.createConfigIx(
             configParam,
             configKey,
             feeClaimerAddress,
@@ -542,7 +621,7 @@ export class PoolService extends DynamicBondingCurveProgram {
         )
 
         // create pool instruction
-        const createPoolTx = await this.createPoolTx(
+        const createPoolIx = await this.createPoolIx(
             {
                 ...createConfigAndPoolWithFirstBuyParam.createPoolParam,
                 config: configKey,
@@ -553,27 +632,84 @@ export class PoolService extends DynamicBondingCurveProgram {
         )
 
         // create first buy instructions
-        const swapBuyTx = await this.swapBuyTx(
+        const swapBuyInstructions = await this.swapBuyInstructions(
             createConfigAndPoolWithFirstBuyParam,
             configKey,
             quoteMintToken
         )
 
         return {
-            createConfigTx,
-            createPoolTx,
-            swapBuyTx,
+            createConfigInstructions: {
+                setupInstructions: [],
+                instructions: [createConfigIx],
+                cleanupInstructions: [],
+                signers: [],
+            },
+            createPoolInstructions: {
+                setupInstructions: [],
+                instructions: [createPoolIx],
+                cleanupInstructions: [],
+                signers: [],
+            },
+            swapBuyInstructions,
         }
     }
 
     /**
-     * Create a new pool and buy tokens
+     * Create a new config and pool and buy tokens
+     * @param createConfigAndPoolWithFirstBuyParam - The parameters for the config and pool and buy
+     * @returns An object containing the new config transaction, new pool transaction, and first buy transaction
+     */
+    async createConfigAndPoolWithFirstBuy<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        createConfigAndPoolWithFirstBuyParam: CreateConfigAndPoolWithFirstBuyParam,
+        options?: T
+    ): Promise<{
+        createConfigTx: BuiltTransaction<T>
+        createPoolTx: BuiltTransaction<T>
+        swapBuyTx: BuiltTransaction<T>
+    }> {
+        const {
+            createConfigInstructions,
+            createPoolInstructions,
+            swapBuyInstructions,
+        } = await this.createConfigAndPoolWithFirstBuyInstructions(
+            createConfigAndPoolWithFirstBuyParam
+        )
+
+        const payerAddress = new PublicKey(
+            createConfigAndPoolWithFirstBuyParam.payer
+        )
+
+        return {
+            createConfigTx: await this.finalizeInstructions(
+                createConfigInstructions,
+                payerAddress,
+                options
+            ),
+            createPoolTx: await this.finalizeInstructions(
+                createPoolInstructions,
+                payerAddress,
+                options
+            ),
+            swapBuyTx: await this.finalizeInstructions(
+                swapBuyInstructions,
+                createConfigAndPoolWithFirstBuyParam.createPoolParam
+                    .poolCreator,
+                options
+            ),
+        }
+    }
+
+    /**
+     * Build the instructions to create a new pool and buy tokens
      * @param createPoolWithFirstBuyParam - The parameters for the pool and buy
-     * @returns A transaction that creates the pool and buys tokens
+     * @returns The instructions and signers of a transaction that creates the pool and buys tokens
      */
-    async createPoolWithFirstBuy(
+    async createPoolWithFirstBuyInstructions(
         createPoolWithFirstBuyParam: CreatePoolWithFirstBuyParam
-    ): Promise<Transaction> {
+    ): Promise<BuiltInstructions> {
         const { baseMint, config, name, symbol, uri, payer, poolCreator } =
             createPoolWithFirstBuyParam.createPoolParam
 
@@ -602,13 +738,16 @@ export class PoolService extends DynamicBondingCurveProgram {
             quoteMint,
         }
 
-        // create pool transaction
-        let tx: Transaction
+        // create pool instruction
+        let initializePoolIx: TransactionInstruction
         if (tokenType === TokenType.SPL) {
             const mintMetadata = deriveMintMetadata(baseMint)
-            tx = await this.initializeSplPool({ ...baseParams, mintMetadata })
+            initializePoolIx = await this.initializeSplPool({
+                ...baseParams,
+                mintMetadata,
+            })
         } else {
-            tx = await this.initializeToken2022Pool(baseParams)
+            initializePoolIx = await this.initializeToken2022Pool(baseParams)
         }
 
         // error checks
@@ -688,7 +827,7 @@ export class PoolService extends DynamicBondingCurveProgram {
               ]
             : []
 
-        const firstBuyTx = await this.program.methods
+        const firstBuyIx = await this.program.methods
             .swap({
                 amountIn: buyAmount,
                 minimumAmountOut,
@@ -709,46 +848,57 @@ export class PoolService extends DynamicBondingCurveProgram {
                 tokenQuoteProgram: inputTokenProgram,
             })
             .remainingAccounts(remainingAccounts)
-            .preInstructions(preInstructions)
-            .postInstructions(postInstructions)
-            .transaction()
-
-        tx.add(...firstBuyTx.instructions)
+            .instruction()
 
-        return tx
+        // the token accounts of the first buy need the base mint created by the
+        // pool, so they are part of the main instructions rather than the setup
+        return {
+            setupInstructions: [],
+            instructions: [initializePoolIx, ...preInstructions, firstBuyIx],
+            cleanupInstructions: postInstructions,
+            signers: [],
+        }
     }
 
     /**
-     * Swap between base and quote
-     * @param pool - The pool address
-     * @param swapParam - The parameters for the swap
-     * @returns A swap transaction
+     * Create a new pool and buy tokens
+     * @param createPoolWithFirstBuyParam - The parameters for the pool and buy
+     * @returns A transaction that creates the pool and buys tokens
      */
-    async swap(swapParam: SwapParam): Promise<Transaction> {
-        const poolState = await this.state.getPool(swapParam.pool)
-
-        if (!poolState) {
-            throw new Error(`Pool not found: ${swapParam.pool.toString()}`)
-        }
+    async createPoolWithFirstBuy<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        createPoolWithFirstBuyParam: CreatePoolWithFirstBuyParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.createPoolWithFirstBuyInstructions(
+            createPoolWithFirstBuyParam
+        )
 
-        const poolConfigState = await this.state.getPoolConfig(poolState.config)
+        return this.finalizeInstructions(
+            instructions,
+            createPoolWithFirstBuyParam.createPoolParam.payer,
+            options
+        )
+    }
 
+    /**
+     * Private method to build swap instructions from already fetched state
+     * @param swapParam - The parameters for the swap
+     * @param poolState - The virtual pool state
+     * @param poolConfigState - The pool config state
+     * @param currentPoint - The current point
+     * @returns The instructions and signers of a swap transaction
+     */
+    private async buildSwapInstructions(
+        swapParam: SwapParam,
+        poolState: VirtualPool,
+        poolConfigState: PoolConfig,
+        currentPoint: BN
+    ): Promise<BuiltInstructions> {
         const { amountIn, minimumAmountOut, swapBaseForQuote, owner } =
             swapParam
 
-        // error checks
-        validateSwapAmount(amountIn)
-
-        let currentPoint
-        if (poolConfigState.activationType === ActivationType.Slot) {
-            const currentSlot = await this.connection.getSlot()
-            currentPoint = new BN(currentSlot)
-        } else {
-            const currentSlot = await this.connection.getSlot()
-            const currentTime = await this.connection.getBlockTime(currentSlot)
-            currentPoint = new BN(currentTime)
-        }
-
         // check if rate limiter is applied if:
         // 1. rate limiter mode
         // 2. swap direction is QuoteToBase
@@ -812,7 +962,7 @@ export class PoolService extends DynamicBondingCurveProgram {
               ]
             : []
 
-        return this.program.methods
+        const swapIx = await this.program.methods
             .swap({
                 amountIn,
                 minimumAmountOut,
@@ -837,9 +987,146 @@ export class PoolService extends DynamicBondingCurveProgram {
                     : inputTokenProgram,
             })
             .remainingAccounts(remainingAccounts)
-            .preInstructions(preInstructions)
-            .postInstructions(postInstructions)
-            .transaction()
+            .instruction()
+
+        return {
+            setupInstructions: preInstructions,
+            instructions: [swapIx],
+            cleanupInstructions: postInstructions,
+            signers: [],
+        }
+    }
+
+    /**
+     * Build the instructions to swap between base and quote
+     * @param swapParam - The parameters for the swap
+     * @returns The instructions and signers of a swap transaction
+     */
+    async swapInstructions(swapParam: SwapParam): Promise<BuiltInstructions> {
+        const poolState = await this.state.getPool(swapParam.pool)
+
+        if (!poolState) {
+            throw new Error(`Pool not found: ${swapParam.pool.toString()}`)
+        }
+
+        const poolConfigState = await this.state.getPoolConfig(poolState.config)
+
+        // error checks
+        validateSwapAmount(swapParam.amountIn)
+
+        const currentPoint = await this.getCurrentPoint(
+            poolConfigState.activationType
+        )
+
+        return this.buildSwapInstructions(
+            swapParam,
+            poolState,
+            poolConfigState,
+            currentPoint
+        )
+    }
+
+    /**
+     * Swap between base and quote
+     * @param pool - The pool address
+     * @param swapParam - The parameters for the swap
+     * @returns A swap transaction
+     */
+    async swap<T extends TransactionOptions = LegacyTransactionOptions>(
+        swapParam: SwapParam,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const instructions = await this.swapInstructions(swapParam)
+
+        return this.finalizeInstructions(instructions, swapParam.owner, options)
+    }
+
+    /**
+     * Build the instructions to swap between base and quote with the minimum amount out derived from slippage
+     * @param swapWithSlippageParam - The parameters for the swap
+     * @returns The instructions and signers of the swap transaction and the quote it was built from
+     */
+    async swapWithSlippageInstructions(
+        swapWithSlippageParam: SwapWithSlippageParam
+    ): Promise<BuiltInstructions & { quote: QuoteResult }> {
+        const {
+            owner,
+            pool,
+            amountIn,
+            slippageBps,
+            swapBaseForQuote,
+            referralTokenAccount,
+        } = swapWithSlippageParam
+
+        const poolState = await this.state.getPool(pool)
+
+        if (!poolState) {
+            throw new Error(`Pool not found: ${pool.toString()}`)
+        }
+
+        const poolConfigState = await this.state.getPoolConfig(poolState.config)
+
+        // error checks
+        validateSwapAmount(amountIn)
+        validateSlippageBps(slippageBps)
+
+        const currentPoint = await this.getCurrentPoint(
+            poolConfigState.activationType
+        )
+
+        // quote against the same state the transaction is built from
+        const quote = await swapQuote(
+            poolState,
+            poolConfigState,
+            swapBaseForQuote,
+            amountIn,
+            slippageBps,
+            !!referralTokenAccount,
+            currentPoint
+        )
+
+        const instructions = await this.buildSwapInstructions(
+            {
+                owner,
+                pool,
+                amountIn,
+                minimumAmountOut: quote.minimumAmountOut,
+                swapBaseForQuote,
+                referralTokenAccount,
+            },
+            poolState,
+            poolConfigState,
+            currentPoint
+        )
+
+        return { ...instructions, quote }
+    }
+
+    /**
+     * Swap between base and quote with the minimum amount out derived from slippage
+     * @param swapWithSlippageParam - The parameters for the swap
+     * @returns The swap transaction and the quote it was built from
+     */
+    async swapWithSlippage<
+        T extends TransactionOptions = LegacyTransactionOptions,
+    >(
+        swapWithSlippageParam: SwapWithSlippageParam,
+        options?: T
+    ): Promise<{
+        transaction: BuiltTransaction<T>
+        quote: QuoteResult
+    }> {
+        const { quote, ...instructions } =
+            await this.swapWithSlippageInstructions(swapWithSlippageParam)
+
+        return {
+            transaction: await this.finalizeInstructions(
+                instructions,
+                swapWithSlippageParam.owner,
+                options
+            ),
+            quote,
+        }
     }
 
     /**
@@ -875,6 +1162,240 @@ export class PoolService extends DynamicBondingCurveProgram {
         )
     }
 
+    /**
+     * Calculate the amount out for swaps on multiple pools (quote) against a single state snapshot
+     * @param batchSwapQuoteParams - The pool, direction and amount of each swap
+     * @returns The slot and block time used, and the quote or error of each swap in the order of the params
+     */
+    async batchSwapQuote(
+        batchSwapQuoteParams: BatchSwapQuoteParam[]
+    ): Promise<BatchSwapQuoteResult> {
+        // a pool quoted for several amounts is only fetched once, and the
+        // slot the pools are read at is the clock of every quote
+        const poolKeys = [
+            ...new Set(
+                batchSwapQuoteParams.map((param) => param.pool.toBase58())
+            ),
+        ]
+        const { slot: currentSlot, accounts: uniquePoolStates } =
+            await getMultipleAccountDataAndContext<VirtualPool>(
+                poolKeys,
+                'virtualPool',
+                this.program
+            )
+        const poolStateByKey = new Map(
+            poolKeys.map((key, i) => [key, uniquePoolStates[i]])
+        )
+        const poolStates = batchSwapQuoteParams.map((param) =>
+            poolStateByKey.get(param.pool.toBase58())
+        )
+
+        // many pools share the same config, so only fetch each config once
+        const configKeys = [
+            ...new Set(
+                poolStates
+                    .filter((poolState) => poolState)
+                    .map((poolState) => poolState.config.toBase58())
+            ),
+        ]
+        const { accounts: configStates } =
+            await getMultipleAccountDataAndContext<PoolConfig>(
+                configKeys,
+                'poolConfig',
+                this.program,
+                currentSlot
+            )
+        const configStateByKey = new Map(
+            configKeys.map((key, i) => [key, configStates[i]])
+        )
+
+        // resolve the current point once per activation type
+        const hasTimestampActivation = configStates.some(
+            (configState) =>
+                configState &&
+                configState.activationType === ActivationType.Timestamp
+        )
+        const blockTime = hasTimestampActivation
+            ? await this.connection.getBlockTime(currentSlot)
+            : null
+        const currentTime = blockTime !== null ? new BN(blockTime) : null
+
+        const quotes: BatchSwapQuoteResult['quotes'] = []
+        for (let i = 0; i < batchSwapQuoteParams.length; i++) {
+            const {
+                swapBaseForQuote,
+                amountIn,
+                slippageBps = 0,
+                hasReferral,
+            } = batchSwapQuoteParams[i]
+            const poolState = poolStates[i]
+
+            if (!poolState) {
+                quotes[i] = {
+                    quote: null,
+                    error: `Pool not found: ${batchSwapQuoteParams[i].pool.toBase58()}`,
+                }
+                continue
+            }
+
+            const configState = configStateByKey.get(
+                poolState.config.toBase58()
+            )
+            if (!configState) {
+                quotes[i] = {
+                    quote: null,
+                    error: `Pool config not found: ${poolState.config.toBase58()}`,
+                }
+                continue
+            }
+
+            const currentPoint =
+                configState.activationType === ActivationType.Slot
+                    ? new BN(currentSlot)
+                    : currentTime
+            if (!currentPoint) {
+                quotes[i] = {
+                    quote: null,
+                    error: `Block time not available for slot: ${currentSlot}`,
+                }
+                continue
+            }
+
+            try {
+                const quote = await swapQuote(
+                    poolState,
+                    configState,
+                    swapBaseForQuote,
+                    amountIn,
+                    slippageBps,
+                    hasReferral,
+                    currentPoint
+                )
+                quotes[i] = { quote, error: null }
+            } catch (error) {
+                quotes[i] = {
+                    quote: null,
+                    error:
+                        error instanceof Error ? error.message : String(error),
+                }
+            }
+        }
+
+        return {
+            currentSlot: new BN(currentSlot),
+            currentTime,
+            quotes,
+        }
+    }
+
+    /**
+     * Calculate the amount out for a swap (quote) with decimal adjusted prices, price impact and effective fee rate
+     * @param virtualPool - The virtual pool
+     * @param config - The config
+     * @param swapBaseForQuote - Whether to swap base for quote
+     * @param amountIn - The amount in
+     * @param slippageBps - Slippage tolerance in basis points (100 = 1%)
+     * @param hasReferral - Whether the referral is enabled
+     * @param currentPoint - The current point
+     * @param tokenQuoteDecimal - The quote token decimal (fetched from the quote mint if not provided)
+     * @returns The swap quote result with price information
+     */
+    async swapQuoteWithPriceImpact(
+        swapQuoteWithPriceImpactParam: SwapQuoteWithPriceImpactParam
+    ): Promise<QuoteResult> {
+        const {
+            virtualPool,
+            config,
+            swapBaseForQuote,
+            amountIn,
+            slippageBps = 0,
+            hasReferral,
+            currentPoint,
+            tokenQuoteDecimal,
+        } = swapQuoteWithPriceImpactParam
+
+        const quoteDecimal =
+            tokenQuoteDecimal ??
+            (await getTokenDecimals(this.connection, config.quoteMint))
+
+        return swapQuoteWithPriceImpact(
+            virtualPool,
+            config,
+            swapBaseForQuote,
+            amountIn,
+            slippageBps,
+            hasReferral,
+            currentPoint,
+            quoteDecimal
+        )
+    }
+
+    /**
+     * Calculate the amount out for a swap (quote), capping buys at the migration threshold instead of throwing
+     * @param virtualPool - The virtual pool
+     * @param config - The config
+     * @param swapBaseForQuote - Whether to swap base for quote
+     * @param amountIn - The amount in
+     * @param slippageBps - Slippage tolerance in basis points (100 = 1%)
+     * @param hasReferral - Whether the referral is enabled
+     * @param currentPoint - The current point
+     * @returns The swap quote result with the consumed and unused input amounts
+     */
+    swapQuotePartialFill(swapQuoteParam: SwapQuoteParam) {
+        const {
+            virtualPool,
+            config,
+            swapBaseForQuote,
+            amountIn,
+            slippageBps = 0,
+            hasReferral,
+            currentPoint,
+        } = swapQuoteParam
+
+        return swapQuotePartialFill(
+            virtualPool,
+            config,
+            swapBaseForQuote,
+            amountIn,
+            slippageBps,
+            hasReferral,
+            currentPoint
+        )
+    }
+
+    /**
+     * Calculate the amount in required for an exact amount out (quote)
+     * @param virtualPool - The virtual pool
+     * @param config - The config
+     * @param swapBaseForQuote - Whether to swap base for quote
+     * @param amountOut - The exact amount out
+     * @param slippageBps - Slippage tolerance in basis points (100 = 1%)
+     * @param hasReferral - Whether the referral is enabled
+     * @param currentPoint - The current point
+     * @returns The swap quote exact out result
+     */
+    swapQuoteExactOut(swapQuoteExactOutParam: SwapQuoteExactOutParam) {
+        const {
+            virtualPool,
+            config,
+            swapBaseForQuote,
+            amountOut,
+            slippageBps = 0,
+            hasReferral,
+            currentPoint,
+        } = swapQuoteExactOutParam
+
+        return swapQuoteExactOut(
+            virtualPool,
+            config,
+            swapBaseForQuote,
+            amountOut,
+            slippageBps,
+            hasReferral,
+            currentPoint
+        )
+    }
+
     swapQuoteExactIn(swapQuoteExactInParam: SwapQuoteExactInParam): {
         exactAmountIn: BN
     } {
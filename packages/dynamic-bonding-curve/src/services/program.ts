@@ -1,15 +1,37 @@
 import {
+    AddressLookupTableAccount,
     Commitment,
+    ComputeBudgetProgram,
     Connection,
     PublicKey,
+    Transaction,
     TransactionInstruction,
 } from '@solana/web3.js'
 import {
+    buildVersionedTransaction,
     createDbcProgram,
     deriveDbcPoolAuthority,
+    getAddressLookupTableAccounts,
     getOrCreateATAInstruction,
+    getRecentComputeUnitPrice,
+    getRegisteredLookupTables,
+    getSimulatedComputeUnits,
+    getWritableAccounts,
+    removeComputeBudgetInstructions,
 } from '../helpers'
+import {
+    BASIS_POINT_MAX,
+    COMPUTE_UNIT_LIMIT_MARGIN_BPS_DEFAULT,
+    MAX_COMPUTE_UNIT_LIMIT,
+} from '../constants'
+import {
+    ActivationType,
+    type BuiltInstructions,
+    type BuiltTransaction,
+    type TransactionOptions,
+} from '../types'
 import type { Program } from '@coral-xyz/anchor'
+import BN from 'bn.js'
 import type { DynamicBondingCurve as DynamicBondingCurveIDL } from '../idl/dynamic-bonding-curve/idl'
 
 export class DynamicBondingCurveProgram {
@@ -26,6 +48,22 @@ export class DynamicBondingCurveProgram {
         this.commitment = commitment
     }
 
+    /**
+     * Get the current point based on the activation type
+     * @param activationType - The activation type of the config
+     * @returns The current slot or block timestamp
+     */
+    protected async getCurrentPoint(
+        activationType: ActivationType
+    ): Promise<BN> {
+        const currentSlot = await this.connection.getSlot()
+        if (activationType === ActivationType.Slot) {
+            return new BN(currentSlot)
+        }
+        const currentTime = await this.connection.getBlockTime(currentSlot)
+        return new BN(currentTime)
+    }
+
     protected async prepareTokenAccounts(
         owner: PublicKey,
         payer: PublicKey,
@@ -66,6 +104,216 @@ export class DynamicBondingCurveProgram {
         return { ataTokenA, ataTokenB, instructions }
     }
 
+    /**
+     * Private method to resolve the given lookup tables and the lookup tables
+     * registered for the configs used by the transaction
+     * @param transaction - The legacy transaction
+     * @param addressLookupTables - The lookup table addresses or accounts
+     * @returns The lookup table accounts
+     */
+    private async resolveLookupTables(
+        transaction: Transaction,
+        addressLookupTables: Array<PublicKey | AddressLookupTableAccount> = []
+    ): Promise<AddressLookupTableAccount[]> {
+        const addressLookupTableAccounts = await getAddressLookupTableAccounts(
+            this.connection,
+            addressLookupTables
+        )
+
+        // registered lookup tables are skipped if they are not created yet
+        const registeredLookupTables = getRegisteredLookupTables(
+            this.connection,
+            transaction
+        ).filter(
+            (lookupTable) =>
+                !addressLookupTableAccounts.some((account) =>
+                    account.key.equals(lookupTable)
+                )
+        )
+        const registeredLookupTableAccounts = await Promise.all(
+            registeredLookupTables.map(
+                async (lookupTable) =>
+                    (await this.connection.getAddressLookupTable(lookupTable))
+                        .value
+            )
+        )
+
+        return [
+            ...addressLookupTableAccounts,
+            ...registeredLookupTableAccounts.filter(Boolean),
+        ]
+    }
+
+    /**
+     * Simulate instructions and add the margin of the transaction options to
+     * the compute units they consume
+     * @param instructions - The instructions, without a compute unit limit instruction
+     * @param payer - The fee payer
+     * @param options - The transaction options
+     * @param addressLookupTableAccounts - The lookup tables used to simulate
+     * @returns The compute unit limit
+     */
+    protected async getSimulatedComputeUnitLimit(
+        instructions: TransactionInstruction[],
+        payer: PublicKey,
+        options: TransactionOptions,
+        addressLookupTableAccounts: AddressLookupTableAccount[] = []
+    ): Promise<number> {
+        const unitsConsumed = await getSimulatedComputeUnits(
+            this.connection,
+            instructions,
+            payer,
+            addressLookupTableAccounts,
+            this.commitment
+        )
+        const marginBps =
+            options.computeUnitLimitMarginBps ??
+            COMPUTE_UNIT_LIMIT_MARGIN_BPS_DEFAULT
+
+        return Math.min(
+            Math.ceil(
+                (unitsConsumed * (BASIS_POINT_MAX + marginBps)) /
+                    BASIS_POINT_MAX
+            ),
+            MAX_COMPUTE_UNIT_LIMIT
+        )
+    }
+
+    /**
+     * Private method to prepend the compute unit limit and price instructions
+     * requested by the transaction options, replacing existing ones
+     * @param transaction - The legacy transaction
+     * @param payer - The fee payer
+     * @param options - The transaction options
+     * @param addressLookupTableAccounts - The lookup tables used to simulate
+     */
+    private async applyComputeBudget(
+        transaction: Transaction,
+        payer: PublicKey,
+        options: TransactionOptions,
+        addressLookupTableAccounts: AddressLookupTableAccount[]
+    ): Promise<void> {
+        const { computeUnitLimit, computeUnitPrice } = options
+
+        if (computeUnitLimit === undefined && computeUnitPrice === undefined) {
+            return
+        }
+
+        let instructions = removeComputeBudgetInstructions(
+            transaction.instructions,
+            [
+                ...(computeUnitLimit !== undefined
+                    ? (['SetComputeUnitLimit'] as const)
+                    : []),
+                ...(computeUnitPrice !== undefined
+                    ? (['SetComputeUnitPrice'] as const)
+                    : []),
+            ]
+        )
+
+        if (computeUnitPrice !== undefined) {
+            const microLamports =
+                computeUnitPrice === 'auto'
+                    ? await getRecentComputeUnitPrice(
+                          this.connection,
+                          getWritableAccounts(transaction)
+                      )
+                    : computeUnitPrice
+            instructions = [
+                ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+                ...instructions,
+            ]
+        }
+
+        if (computeUnitLimit !== undefined) {
+            const units =
+                computeUnitLimit === 'auto'
+                    ? await this.getSimulatedComputeUnitLimit(
+                          instructions,
+                          payer,
+                          options,
+                          addressLookupTableAccounts
+                      )
+                    : computeUnitLimit
+            instructions = [
+                ComputeBudgetProgram.setComputeUnitLimit({ units }),
+                ...instructions,
+            ]
+        }
+
+        transaction.instructions = instructions
+    }
+
+    /**
+     * Assemble built instructions into a transaction and finalize it with the
+     * transaction options
+     * @param builtInstructions - The setup, main and cleanup instructions
+     * @param payer - The fee payer
+     * @param options - The transaction options
+     * @returns The legacy or versioned transaction
+     */
+    protected async finalizeInstructions<T extends TransactionOptions>(
+        builtInstructions: BuiltInstructions,
+        payer: PublicKey,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        const { setupInstructions, instructions, cleanupInstructions } =
+            builtInstructions
+
+        const transaction = new Transaction().add(
+            ...setupInstructions,
+            ...instructions,
+            ...cleanupInstructions
+        )
+
+        return this.finalizeTransaction(transaction, payer, options)
+    }
+
+    /**
+     * Apply the compute budget requested by the transaction options, and
+     * compile the transaction into a versioned transaction with the given and
+     * registered lookup tables when requested
+     * @param transaction - The legacy transaction
+     * @param payer - The fee payer
+     * @param options - The transaction options
+     * @returns The legacy or versioned transaction
+     */
+    protected async finalizeTransaction<T extends TransactionOptions>(
+        transaction: Transaction,
+        payer: PublicKey,
+        options?: T
+    ): Promise<BuiltTransaction<T>> {
+        if (!options) {
+            return transaction as BuiltTransaction<T>
+        }
+
+        const addressLookupTableAccounts = options.versioned
+            ? await this.resolveLookupTables(
+                  transaction,
+                  options.addressLookupTables
+              )
+            : []
+
+        await this.applyComputeBudget(
+            transaction,
+            payer,
+            options,
+            addressLookupTableAccounts
+        )
+
+        if (!options.versioned) {
+            return transaction as BuiltTransaction<T>
+        }
+
+        return (await buildVersionedTransaction(
+            this.connection,
+            transaction,
+            payer,
+            addressLookupTableAccounts,
+            this.commitment
+        )) as BuiltTransaction<T>
+    }
+
     /**
      * Get the underlying program instance
      * @returns The program instance
@@ -1,10 +1,22 @@
 import { Commitment, Connection, PublicKey } from '@solana/web3.js'
 import { DynamicBondingCurveProgram } from './program'
-import { createProgramAccountFilter, getAccountData } from '../helpers'
+import {
+    createProgramAccountFilter,
+    deriveDammV1MigrationMetadataAddress,
+    deriveDammV2MigrationMetadataAddress,
+    getAccountData,
+    getMultipleAccountData,
+} from '../helpers'
 import {
     LockEscrow,
+    MigrationOption,
+    MigrationProgress,
     PartnerMetadata,
+    PoolAction,
+    PoolClaim,
     PoolConfig,
+    PoolStatus,
+    PoolStatusResult,
     VirtualPool,
     VirtualPoolMetadata,
 } from '../types'
@@ -31,6 +43,21 @@ export class StateService extends DynamicBondingCurveProgram {
         )
     }
 
+    /**
+     * Get multiple pool configs in as few RPC calls as possible
+     * @param configAddresses - The addresses of the pool config keys
+     * @returns The pool configs in the same order, or null if not found
+     */
+    async getMultiplePoolConfigs(
+        configAddresses: Array<PublicKey | string>
+    ): Promise<Array<PoolConfig | null>> {
+        return getMultipleAccountData<PoolConfig>(
+            configAddresses,
+            'poolConfig',
+            this.program
+        )
+    }
+
     /**
      * Get all config keys
      * @returns An array of config key accounts
@@ -64,6 +91,21 @@ export class StateService extends DynamicBondingCurveProgram {
         )
     }
 
+    /**
+     * Get multiple virtual pools in as few RPC calls as possible
+     * @param poolAddresses - The addresses of the pools
+     * @returns The virtual pools in the same order, or null if not found
+     */
+    async getMultiplePools(
+        poolAddresses: Array<PublicKey | string>
+    ): Promise<Array<VirtualPool | null>> {
+        return getMultipleAccountData<VirtualPool>(
+            poolAddresses,
+            'virtualPool',
+            this.program
+        )
+    }
+
     /**
      * Get all dynamic bonding curve pools
      * @returns Array of pool accounts with their addresses
@@ -151,6 +193,163 @@ export class StateService extends DynamicBondingCurveProgram {
         return Math.min(Math.max(progress, 0), 1)
     }
 
+    /**
+     * Get where a pool is in its lifecycle, from trading to the post-migration claims
+     * @param poolAddress - The address of the pool
+     * @returns The pool status, the permissionless actions available now and the pending partner and creator claims
+     */
+    async getPoolStatus(
+        poolAddress: PublicKey | string
+    ): Promise<PoolStatusResult> {
+        const poolKey =
+            poolAddress instanceof PublicKey
+                ? poolAddress
+                : new PublicKey(poolAddress)
+        const pool = await this.getPool(poolKey)
+        if (!pool) {
+            throw new Error(`Pool not found: ${poolAddress.toString()}`)
+        }
+        const config = await this.getPoolConfig(pool.config)
+        const isDammV1 = config.migrationOption === MigrationOption.MET_DAMM
+
+        if (pool.migrationProgress === MigrationProgress.PreBondingCurve) {
+            const currentPoint = await this.getCurrentPoint(
+                config.activationType
+            )
+            return currentPoint.lt(pool.activationPoint)
+                ? {
+                      status: PoolStatus.NotYetActive,
+                      nextActions: [],
+                      pendingClaims: [],
+                  }
+                : {
+                      status: PoolStatus.Trading,
+                      nextActions: ['swap'],
+                      pendingClaims: [],
+                  }
+        }
+
+        if (pool.migrationProgress === MigrationProgress.PostBondingCurve) {
+            return {
+                status: PoolStatus.AwaitingLocker,
+                nextActions: ['createLocker'],
+                pendingClaims: [],
+            }
+        }
+
+        const dammV1MigrationMetadata = isDammV1
+            ? await this.program.account.meteoraDammMigrationMetadata.fetchNullable(
+                  deriveDammV1MigrationMetadataAddress(poolKey)
+              )
+            : null
+
+        if (pool.migrationProgress === MigrationProgress.LockedVesting) {
+            const hasMigrationMetadata = isDammV1
+                ? dammV1MigrationMetadata !== null
+                : (await this.program.account.meteoraDammV2Metadata.fetchNullable(
+                      deriveDammV2MigrationMetadataAddress(poolKey)
+                  )) !== null
+
+            if (!hasMigrationMetadata) {
+                return {
+                    status: PoolStatus.CurveComplete,
+                    nextActions: [
+                        isDammV1
+                            ? 'createDammV1MigrationMetadata'
+                            : 'createDammV2MigrationMetadata',
+                    ],
+                    pendingClaims: [],
+                }
+            }
+            return {
+                status: PoolStatus.AwaitingMigration,
+                nextActions: [isDammV1 ? 'migrateToDammV1' : 'migrateToDammV2'],
+                pendingClaims: [],
+            }
+        }
+
+        const nextActions: PoolAction[] = []
+        const pendingClaims: PoolClaim[] = []
+
+        if (dammV1MigrationMetadata) {
+            const {
+                partnerLockedLp,
+                partnerLockedStatus,
+                creatorLockedLp,
+                creatorLockedStatus,
+                partnerLp,
+                partnerClaimStatus,
+                creatorLp,
+                creatorClaimStatus,
+            } = dammV1MigrationMetadata
+            if (!partnerLockedLp.isZero() && partnerLockedStatus === 0) {
+                nextActions.push('lockPartnerDammV1LpToken')
+            }
+            if (!creatorLockedLp.isZero() && creatorLockedStatus === 0) {
+                nextActions.push('lockCreatorDammV1LpToken')
+            }
+            if (!partnerLp.isZero() && partnerClaimStatus === 0) {
+                pendingClaims.push('claimPartnerDammV1LpToken')
+            }
+            if (!creatorLp.isZero() && creatorClaimStatus === 0) {
+                pendingClaims.push('claimCreatorDammV1LpToken')
+            }
+        }
+
+        // leftover base tokens are only withdrawable with a fixed token supply
+        if (
+            config.fixedTokenSupplyFlag === 1 &&
+            pool.isWithdrawLeftover === 0
+        ) {
+            nextActions.push('withdrawLeftover')
+        }
+
+        // the surplus is the quote reserve above the migration threshold, shared
+        // between the protocol, the partner and the creator
+        if (pool.quoteReserve.gt(config.migrationQuoteThreshold)) {
+            if (pool.isProtocolWithdrawSurplus === 0) {
+                nextActions.push('protocolWithdrawSurplus')
+            }
+            if (
+                config.creatorTradingFeePercentage < 100 &&
+                pool.isPartnerWithdrawSurplus === 0
+            ) {
+                pendingClaims.push('partnerWithdrawSurplus')
+            }
+            if (
+                config.creatorTradingFeePercentage > 0 &&
+                pool.isCreatorWithdrawSurplus === 0
+            ) {
+                pendingClaims.push('creatorWithdrawSurplus')
+            }
+        }
+
+        // first bit is for the partner, second bit is for the creator
+        if (config.migrationFeePercentage > 0) {
+            if (
+                config.creatorMigrationFeePercentage < 100 &&
+                (pool.migrationFeeWithdrawStatus & 1) === 0
+            ) {
+                pendingClaims.push('partnerWithdrawMigrationFee')
+            }
+            if (
+                config.creatorMigrationFeePercentage > 0 &&
+                (pool.migrationFeeWithdrawStatus & 2) === 0
+            ) {
+                pendingClaims.push('creatorWithdrawMigrationFee')
+            }
+        }
+
+        const status =
+            nextActions.length > 0
+                ? PoolStatus.Migrated
+                : pendingClaims.length > 0
+                  ? PoolStatus.PostMigrationClaimsPending
+                  : PoolStatus.FullySettled
+
+        return { status, nextActions, pendingClaims }
+    }
+
     /**
      * Get pool metadata
      * @param poolAddress - The address of the pool
@@ -0,0 +1,389 @@
+import {
+    Commitment,
+    PublicKey,
+    type Connection,
+    type Context,
+    type GetProgramAccountsFilter,
+    type Logs,
+} from '@solana/web3.js'
+import { DynamicBondingCurveProgram } from './program'
+import { EventService } from './event'
+import { createProgramAccountFilter } from '../helpers'
+import { DYNAMIC_BONDING_CURVE_PROGRAM_ID } from '../constants'
+import type {
+    MigrationProgress,
+    PoolSubscription,
+    PoolSubscriptionCallbacks,
+    PoolSubscriptionOptions,
+    VirtualPool,
+} from '../types'
+
+const DEFAULT_RETRY_DELAY_MS = 1000
+const DEFAULT_MAX_RETRY_DELAY_MS = 30000
+// number of recent log signatures remembered to drop duplicate notifications
+const MAX_SEEN_SIGNATURES = 1000
+
+type PoolSubscriptionScope = {
+    type: 'pool' | 'config' | 'creator'
+    address: PublicKey
+}
+
+export class SubscriptionService extends DynamicBondingCurveProgram {
+    private eventService: EventService
+
+    constructor(connection: Connection, commitment: Commitment) {
+        super(connection, commitment)
+        this.eventService = new EventService(connection, commitment)
+    }
+
+    /**
+     * Subscribe to the state and events of a pool
+     * @param poolAddress - The address of the pool
+     * @param callbacks - The callbacks for pool updates, events and errors
+     * @param options - The subscription options
+     * @returns A subscription to reconnect or unsubscribe
+     */
+    async subscribePool(
+        poolAddress: PublicKey | string,
+        callbacks: PoolSubscriptionCallbacks,
+        options: PoolSubscriptionOptions = {}
+    ): Promise<PoolSubscription> {
+        return this.subscribe(
+            { type: 'pool', address: new PublicKey(poolAddress) },
+            callbacks,
+            options
+        )
+    }
+
+    /**
+     * Subscribe to the state and events of all pools of a config key
+     * @param configAddress - The address of the config key
+     * @param callbacks - The callbacks for pool updates, events and errors
+     * @param options - The subscription options
+     * @returns A subscription to reconnect or unsubscribe
+     */
+    async subscribePoolsByConfig(
+        configAddress: PublicKey | string,
+        callbacks: PoolSubscriptionCallbacks,
+        options: PoolSubscriptionOptions = {}
+    ): Promise<PoolSubscription> {
+        return this.subscribe(
+            { type: 'config', address: new PublicKey(configAddress) },
+            callbacks,
+            options
+        )
+    }
+
+    /**
+     * Subscribe to the state and events of all pools of a creator
+     * @param creatorAddress - The address of the creator
+     * @param callbacks - The callbacks for pool updates, events and errors
+     * @param options - The subscription options
+     * @returns A subscription to reconnect or unsubscribe
+     */
+    async subscribePoolsByCreator(
+        creatorAddress: PublicKey | string,
+        callbacks: PoolSubscriptionCallbacks,
+        options: PoolSubscriptionOptions = {}
+    ): Promise<PoolSubscription> {
+        return this.subscribe(
+            { type: 'creator', address: new PublicKey(creatorAddress) },
+            callbacks,
+            options
+        )
+    }
+
+    /**
+     * Private method to subscribe to the pool accounts and program logs of a scope.
+     * Pool updates are de-duplicated by slot and data, events by signature.
+     * @param scope - The pool, config key or creator to subscribe to
+     * @param callbacks - The callbacks for pool updates, events and errors
+     * @param options - The subscription options
+     * @returns A subscription to reconnect or unsubscribe
+     */
+    private async subscribe(
+        scope: PoolSubscriptionScope,
+        callbacks: PoolSubscriptionCallbacks,
+        options: PoolSubscriptionOptions
+    ): Promise<PoolSubscription> {
+        const commitment = options.commitment ?? this.commitment
+        const resubscribeAfterMs = options.resubscribeAfterMs ?? 0
+        const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS
+        const maxRetryDelayMs =
+            options.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS
+
+        const filters: GetProgramAccountsFilter[] =
+            scope.type === 'pool'
+                ? []
+                : [
+                      {
+                          memcmp: this.program.coder.accounts.memcmp(
+                              'virtualPool'
+                          ),
+                      },
+                      ...createProgramAccountFilter(
+                          scope.address,
+                          scope.type === 'config' ? 72 : 104
+                      ),
+                  ]
+
+        // pool address => last applied state
+        const pools = new Map<
+            string,
+            { slot: number; data: Buffer; pool: VirtualPool }
+        >()
+        const signatures = new Set<string>()
+        let accountListener: number | null = null
+        let logsListener: number | null = null
+        let staleTimer: ReturnType<typeof setTimeout> | null = null
+        let retryTimer: ReturnType<typeof setTimeout> | null = null
+        let retryDelay = retryDelayMs
+        let closed = false
+
+        const reportError = (error: unknown) => {
+            callbacks.onError?.(
+                error instanceof Error ? error : new Error(String(error))
+            )
+        }
+
+        const clearTimers = () => {
+            if (staleTimer) clearTimeout(staleTimer)
+            if (retryTimer) clearTimeout(retryTimer)
+            staleTimer = null
+            retryTimer = null
+        }
+
+        const applyPool = (address: PublicKey, data: Buffer, slot: number) => {
+            if (data.length === 0) {
+                return
+            }
+
+            const key = address.toBase58()
+            const last = pools.get(key)
+            if (last && slot < last.slot) {
+                return
+            }
+            if (last && last.data.equals(data)) {
+                last.slot = slot
+                return
+            }
+
+            let pool: VirtualPool
+            try {
+                pool = this.program.coder.accounts.decode<VirtualPool>(
+                    'virtualPool',
+                    data
+                )
+            } catch (error) {
+                reportError(error)
+                return
+            }
+
+            pools.set(key, { slot, data, pool })
+            callbacks.onPoolUpdate?.({ address, pool, slot })
+
+            if (
+                last &&
+                last.pool.migrationProgress !== pool.migrationProgress
+            ) {
+                callbacks.onMigrationProgress?.({
+                    address,
+                    previous: last.pool.migrationProgress as MigrationProgress,
+                    current: pool.migrationProgress as MigrationProgress,
+                    slot,
+                })
+            }
+        }
+
+        const isTracked = (pool: PublicKey, config: PublicKey) => {
+            switch (scope.type) {
+                case 'pool':
+                    return pool.equals(scope.address)
+                case 'config':
+                    return config.equals(scope.address)
+                case 'creator':
+                    return pools.has(pool.toBase58())
+            }
+        }
+
+        const handleLogs = (logs: Logs, context: Context) => {
+            armStaleTimer()
+            if (logs.err || signatures.has(logs.signature)) {
+                return
+            }
+
+            signatures.add(logs.signature)
+            if (signatures.size > MAX_SEEN_SIGNATURES) {
+                signatures.delete(signatures.values().next().value as string)
+            }
+
+            const events = this.eventService.parseLogs(
+                logs.logs,
+                logs.signature
+            )
+            for (const event of events) {
+                if (
+                    event.name === 'evtSwap' &&
+                    isTracked(event.data.pool, event.data.config)
+                ) {
+                    callbacks.onSwap?.(event, context.slot)
+                } else if (
+                    event.name === 'evtCurveComplete' &&
+                    isTracked(event.data.pool, event.data.config)
+                ) {
+                    callbacks.onCurveComplete?.(event, context.slot)
+                }
+            }
+        }
+
+        const listen = () => {
+            if (scope.type === 'pool') {
+                accountListener = this.connection.onAccountChange(
+                    scope.address,
+                    (accountInfo, context) => {
+                        armStaleTimer()
+                        applyPool(scope.address, accountInfo.data, context.slot)
+                    },
+                    { commitment }
+                )
+            } else {
+                accountListener = this.connection.onProgramAccountChange(
+                    DYNAMIC_BONDING_CURVE_PROGRAM_ID,
+                    (keyedAccountInfo, context) => {
+                        armStaleTimer()
+                        applyPool(
+                            keyedAccountInfo.accountId,
+                            keyedAccountInfo.accountInfo.data,
+                            context.slot
+                        )
+                    },
+                    { commitment, filters }
+                )
+            }
+
+            // swaps mention the pool and the config key, but not the creator
+            logsListener = this.connection.onLogs(
+                scope.type === 'creator'
+                    ? DYNAMIC_BONDING_CURVE_PROGRAM_ID
+                    : scope.address,
+                handleLogs,
+                commitment
+            )
+        }
+
+        const unlisten = async () => {
+            const removals: Promise<void>[] = []
+            if (accountListener !== null) {
+                removals.push(
+                    scope.type === 'pool'
+                        ? this.connection.removeAccountChangeListener(
+                              accountListener
+                          )
+                        : this.connection.removeProgramAccountChangeListener(
+                              accountListener
+                          )
+                )
+            }
+            if (logsListener !== null) {
+                removals.push(
+                    this.connection.removeOnLogsListener(logsListener)
+                )
+            }
+            accountListener = null
+            logsListener = null
+
+            // the listeners may already be gone with a dropped connection
+            await Promise.allSettled(removals)
+        }
+
+        const resync = async () => {
+            if (scope.type === 'pool') {
+                const { context, value } =
+                    await this.connection.getAccountInfoAndContext(
+                        scope.address,
+                        commitment
+                    )
+                if (!value) {
+                    throw new Error(
+                        `Pool not found: ${scope.address.toBase58()}`
+                    )
+                }
+                applyPool(scope.address, value.data, context.slot)
+            } else {
+                const { context, value } =
+                    await this.connection.getProgramAccounts(
+                        DYNAMIC_BONDING_CURVE_PROGRAM_ID,
+                        { commitment, filters, withContext: true }
+                    )
+                for (const { pubkey, account } of value) {
+                    applyPool(pubkey, account.data, context.slot)
+                }
+            }
+        }
+
+        const runReconnect = async () => {
+            clearTimers()
+            if (closed) {
+                return
+            }
+
+            try {
+                await unlisten()
+                // unsubscribe may have been called while awaiting
+                if (closed) {
+                    return
+                }
+                listen()
+                await resync()
+                if (closed) {
+                    await unlisten()
+                    return
+                }
+                retryDelay = retryDelayMs
+                armStaleTimer()
+            } catch (error) {
+                reportError(error)
+                if (!closed) {
+                    retryTimer = setTimeout(reconnect, retryDelay)
+                    retryDelay = Math.min(retryDelay * 2, maxRetryDelayMs)
+                }
+            }
+        }
+
+        // a manual reconnect and a timer can overlap, they share the run in flight
+        let reconnecting: Promise<void> | null = null
+        const reconnect = (): Promise<void> => {
+            reconnecting ??= runReconnect().finally(() => {
+                reconnecting = null
+            })
+            return reconnecting
+        }
+
+        const armStaleTimer = () => {
+            if (staleTimer) clearTimeout(staleTimer)
+            staleTimer =
+                resubscribeAfterMs > 0 && !closed
+                    ? setTimeout(reconnect, resubscribeAfterMs)
+                    : null
+        }
+
+        // listen before fetching so no update between the two is missed
+        listen()
+        try {
+            await resync()
+        } catch (error) {
+            await unlisten()
+            throw error
+        }
+        armStaleTimer()
+
+        return {
+            reconnect,
+            unsubscribe: async () => {
+                closed = true
+                clearTimers()
+                await unlisten()
+            },
+        }
+    }
+}
@@ -0,0 +1,528 @@
+import {
+    Commitment,
+    PublicKey,
+    TransactionInstruction,
+    type Connection,
+} from '@solana/web3.js'
+import { NATIVE_MINT, TOKEN_PROGRAM_ID } from '@solana/spl-token'
+import type { Program } from '@coral-xyz/anchor'
+import BN from 'bn.js'
+import { DynamicBondingCurveProgram } from './program'
+import { PoolService } from './pool'
+import { StateService } from './state'
+import {
+    createDammV1Program,
+    createDammV2Program,
+    createVaultProgram,
+    deriveDammV1PoolAddress,
+    deriveDammV2EventAuthority,
+    deriveDammV2PoolAddress,
+    deriveDammV2PoolAuthority,
+    getDammConfigAddress,
+    getDammV1PoolReserves,
+    getTokenProgram,
+    unwrapSOLInstruction,
+    validateSlippageBps,
+    validateSwapAmount,
+    wrapSOLInstruction,
+} from '../helpers'
+import { getDammV1SwapQuote, getDammV2SwapQuote, swapQuote } from '../math'
+import type { DammV1 } from '../idl/damm-v1/idl'
+import type { DammV2 } from '../idl/damm-v2/idl'
+import type { DynamicVault } from '../idl/dynamic-vault/idl'
+import { DAMM_V2_PROGRAM_ID, VAULT_PROGRAM_ID } from '../constants'
+import {
+    ActivationType,
+    MigrationOption,
+    MigrationProgress,
+    type BuiltInstructions,
+    type BuiltTransaction,
+    type LegacyTransactionOptions,
+    type PoolConfig,
+    type TokenSwapParam,
+    type TokenSwapQuote,
+    type TokenSwapQuoteParam,
+    type TransactionOptions,
+    type VirtualPool,
+} from '../types'
+
+type SwapRoute = {
+    quote: TokenSwapQuote
+    buildInstructions: (owner: PublicKey) => Promise<BuiltInstructions>
+}
+
+export class TokenSwapService extends DynamicBondingCurveProgram {
+    private state: StateService
+    private poolService: PoolService
+    private dammV1Program: Program<DammV1>
+    private dammV2Program: Program<DammV2>
+    private vaultProgram: Program<DynamicVault>
+
+    constructor(connection: Connection, commitment: Commitment) {
+        super(connection, commitment)
+        this.state = new StateService(connection, commitment)
+        this.poolService = new PoolService(connection, commitment)
+        this.dammV1Program = createDammV1Program(connection, commitment)
+        this.dammV2Program = createDammV2Program(connection, commitment)
+        this.vaultProgram = createVaultProgram(connection, commitment)
+    }
+
+    /**
+     * Private method to get the minimum amount out of a quote
+     * @param amountOut - The quoted amount out
+     * @param slippageBps - Slippage tolerance in basis points (100 = 1%)
+     * @returns The minimum amount out
+     */
+    private getMinimumAmountOut(amountOut: BN, slippageBps: number): BN {
+        // minimum amount out: amountOut * (10000 - slippageBps) / 10000
+        return amountOut.mul(new BN(10000 - slippageBps)).div(new BN(10000))
+    }
+
+    /**
+     * Private method to prepare the token accounts of a DAMM swap, wrapping
+     * and unwrapping SOL when needed
+     * @param owner - The owner of the token accounts
+     * @param inputMint - The input token mint
+     * @param outputMint - The output token mint
+     * @param inputTokenProgram - The input token program
+     * @param outputTokenProgram - The output token program
+     * @param amountIn - The input amount
+     * @returns The token accounts and the setup and cleanup instructions
+     */
+    private async prepareSwapTokenAccounts(
+        owner: PublicKey,
+        inputMint: PublicKey,
+        outputMint: PublicKey,
+        inputTokenProgram: PublicKey,
+        outputTokenProgram: PublicKey,
+        amountIn: BN
+    ) {
+        const {
+            ataTokenA: inputTokenAccount,
+            ataTokenB: outputTokenAccount,
+            instructions: preInstructions,
+        } = await this.prepareTokenAccounts(
+            owner,
+            owner,
+            inputMint,
+            outputMint,
+            inputTokenProgram,
+            outputTokenProgram
+        )
+
+        if (inputMint.equals(NATIVE_MINT)) {
+            preInstructions.push(
+                ...wrapSOLInstruction(
+                    owner,
+                    inputTokenAccount,
+                    BigInt(amountIn.toString())
+                )
+            )
+        }
+
+        const postInstructions: TransactionInstruction[] = []
+        if (inputMint.equals(NATIVE_MINT) || outputMint.equals(NATIVE_MINT)) {
+            const unwrapIx = unwrapSOLInstruction(owner, owner)
+            unwrapIx && postInstructions.push(unwrapIx)
+        }
+
+        return {
+            inputTokenAccount,
+            outputTokenAccount,
+            preInstructions,
+            postInstructions,
+        }
+    }
+
+    /**
+     * Private method to route a swap to the DBC pool while it is trading
+     * @param tokenSwapQuoteParam - The parameters for the swap
+     * @param pool - The DBC pool address
+     * @param poolState - The DBC pool state
+     * @param poolConfigState - The DBC pool config state
+     * @returns The quote and the builder of the swap instructions
+     */
+    private async routeDbcSwap(
+        tokenSwapQuoteParam: TokenSwapQuoteParam,
+        pool: PublicKey,
+        poolState: VirtualPool,
+        poolConfigState: PoolConfig
+    ): Promise<SwapRoute> {
+        const {
+            amountIn,
+            slippageBps = 0,
+            swapBaseForQuote,
+            referralTokenAccount = null,
+        } = tokenSwapQuoteParam
+
+        const currentPoint = await this.getCurrentPoint(
+            poolConfigState.activationType
+        )
+        const { amountOut, minimumAmountOut, fee } = await swapQuote(
+            poolState,
+            poolConfigState,
+            swapBaseForQuote,
+            amountIn,
+            slippageBps,
+            !!referralTokenAccount,
+            currentPoint
+        )
+
+        return {
+            quote: {
+                venue: 'dbc',
+                pool,
+                amountIn,
+                amountOut,
+                minimumAmountOut,
+                fee,
+            },
+            buildInstructions: (owner) =>
+                this.poolService.swapInstructions({
+                    owner,
+                    pool,
+                    amountIn,
+                    minimumAmountOut,
+                    swapBaseForQuote,
+                    referralTokenAccount,
+                }),
+        }
+    }
+
+    /**
+     * Private method to route a swap to the DAMM V1 pool a DBC pool migrated to
+     * @param tokenSwapQuoteParam - The parameters for the swap
+     * @param dammPool - The DAMM V1 pool address
+     * @returns The quote and the builder of the swap instructions
+     */
+    private async routeDammV1Swap(
+        tokenSwapQuoteParam: TokenSwapQuoteParam,
+        dammPool: PublicKey
+    ): Promise<SwapRoute> {
+        const {
+            baseMint,
+            amountIn,
+            slippageBps = 0,
+            swapBaseForQuote,
+        } = tokenSwapQuoteParam
+
+        const poolState =
+            await this.dammV1Program.account.pool.fetchNullable(dammPool)
+        if (!poolState) {
+            throw new Error(`DAMM V1 pool not found: ${dammPool.toString()}`)
+        }
+
+        const [aVaultState, bVaultState] = await Promise.all([
+            this.vaultProgram.account.vault.fetch(poolState.aVault),
+            this.vaultProgram.account.vault.fetch(poolState.bVault),
+        ])
+        const currentTime = await this.getCurrentPoint(ActivationType.Timestamp)
+        const { tokenAAmount, tokenBAmount } = await getDammV1PoolReserves(
+            this.connection,
+            dammPool,
+            poolState,
+            aVaultState,
+            bVaultState,
+            currentTime
+        )
+
+        const aToB = swapBaseForQuote === poolState.tokenAMint.equals(baseMint)
+        const { amountOut, fee } = getDammV1SwapQuote(
+            poolState,
+            tokenAAmount,
+            tokenBAmount,
+            aToB,
+            amountIn
+        )
+        const minimumAmountOut = this.getMinimumAmountOut(
+            amountOut,
+            slippageBps
+        )
+
+        const buildInstructions = async (
+            owner: PublicKey
+        ): Promise<BuiltInstructions> => {
+            const {
+                inputTokenAccount,
+                outputTokenAccount,
+                preInstructions,
+                postInstructions,
+            } = await this.prepareSwapTokenAccounts(
+                owner,
+                aToB ? poolState.tokenAMint : poolState.tokenBMint,
+                aToB ? poolState.tokenBMint : poolState.tokenAMint,
+                TOKEN_PROGRAM_ID,
+                TOKEN_PROGRAM_ID,
+                amountIn
+            )
+
+            const instruction = await this.dammV1Program.methods
+                .swap(amountIn, minimumAmountOut)
+                .accountsPartial({
+                    pool: dammPool,
+                    userSourceToken: inputTokenAccount,
+                    userDestinationToken: outputTokenAccount,
+                    aVault: poolState.aVault,
+                    bVault: poolState.bVault,
+                    aTokenVault: aVaultState.tokenVault,
+                    bTokenVault: bVaultState.tokenVault,
+                    aVaultLpMint: aVaultState.lpMint,
+                    bVaultLpMint: bVaultState.lpMint,
+                    aVaultLp: poolState.aVaultLp,
+                    bVaultLp: poolState.bVaultLp,
+                    // the protocol fee is charged on the input token
+                    protocolTokenFee: aToB
+                        ? poolState.protocolTokenAFee
+                        : poolState.protocolTokenBFee,
+                    user: owner,
+                    vaultProgram: VAULT_PROGRAM_ID,
+                    tokenProgram: TOKEN_PROGRAM_ID,
+                })
+                .instruction()
+
+            return {
+                setupInstructions: preInstructions,
+                instructions: [instruction],
+                cleanupInstructions: postInstructions,
+                signers: [],
+            }
+        }
+
+        return {
+            quote: {
+                venue: 'dammV1',
+                pool: dammPool,
+                amountIn,
+                amountOut,
+                minimumAmountOut,
+                fee,
+            },
+            buildInstructions,
+        }
+    }
+
+    /**
+     * Private method to route a swap to the DAMM V2 pool a DBC pool migrated to
+     * @param tokenSwapQuoteParam - The parameters for the swap
+     * @param dammPool - The DAMM V2 pool address
+     * @returns The quote and the builder of the swap instructions
+     */
+    private async routeDammV2Swap(
+        tokenSwapQuoteParam: TokenSwapQuoteParam,
+        dammPool: PublicKey
+    ): Promise<SwapRoute> {
+        const {
+            baseMint,
+            amountIn,
+            slippageBps = 0,
+            swapBaseForQuote,
+            referralTokenAccount = null,
+        } = tokenSwapQuoteParam
+
+        const poolState =
+            await this.dammV2Program.account.pool.fetchNullable(dammPool)
+        if (!poolState) {
+            throw new Error(`DAMM V2 pool not found: ${dammPool.toString()}`)
+        }
+
+        const currentPoint = await this.getCurrentPoint(
+            poolState.activationType
+        )
+        const aToB = swapBaseForQuote === poolState.tokenAMint.equals(baseMint)
+        const { amountOut, fee } = getDammV2SwapQuote(
+            poolState,
+            aToB,
+            amountIn,
+            !!referralTokenAccount,
+            currentPoint
+        )
+        const minimumAmountOut = this.getMinimumAmountOut(
+            amountOut,
+            slippageBps
+        )
+
+        const buildInstructions = async (
+            owner: PublicKey
+        ): Promise<BuiltInstructions> => {
+            const tokenAProgram = getTokenProgram(poolState.tokenAFlag)
+            const tokenBProgram = getTokenProgram(poolState.tokenBFlag)
+
+            const {
+                inputTokenAccount,
+                outputTokenAccount,
+                preInstructions,
+                postInstructions,
+            } = await this.prepareSwapTokenAccounts(
+                owner,
+                aToB ? poolState.tokenAMint : poolState.tokenBMint,
+                aToB ? poolState.tokenBMint : poolState.tokenAMint,
+                aToB ? tokenAProgram : tokenBProgram,
+                aToB ? tokenBProgram : tokenAProgram,
+                amountIn
+            )
+
+            const instruction = await this.dammV2Program.methods
+                .swap({ amountIn, minimumAmountOut })
+                .accountsPartial({
+                    poolAuthority: deriveDammV2PoolAuthority(),
+                    pool: dammPool,
+                    inputTokenAccount,
+                    outputTokenAccount,
+                    tokenAVault: poolState.tokenAVault,
+                    tokenBVault: poolState.tokenBVault,
+                    tokenAMint: poolState.tokenAMint,
+                    tokenBMint: poolState.tokenBMint,
+                    payer: owner,
+                    tokenAProgram,
+                    tokenBProgram,
+                    referralTokenAccount,
+                    eventAuthority: deriveDammV2EventAuthority(),
+                    program: DAMM_V2_PROGRAM_ID,
+                })
+                .instruction()
+
+            return {
+                setupInstructions: preInstructions,
+                instructions: [instruction],
+                cleanupInstructions: postInstructions,
+                signers: [],
+            }
+        }
+
+        return {
+            quote: {
+                venue: 'dammV2',
+                pool: dammPool,
+                amountIn,
+                amountOut,
+                minimumAmountOut,
+                fee,
+            },
+            buildInstructions,
+        }
+    }
+
+    /**
+     * Private method to route a swap of a token launched on a DBC pool to the
+     * DBC pool while it is trading, or to the DAMM pool it migrated to
+     * @param tokenSwapQuoteParam - The parameters for the swap
+     * @returns The quote and the builder of the swap instructions
+     */
+    private async routeSwap(
+        tokenSwapQuoteParam: TokenSwapQuoteParam
+    ): Promise<SwapRoute> {
+        const { baseMint, amountIn, slippageBps = 0 } = tokenSwapQuoteParam
+
+        // error checks
+        validateSwapAmount(amountIn)
+        validateSlippageBps(slippageBps)
+
+        const pool = await this.state.getPoolByBaseMint(baseMint)
+        if (!pool) {
+            throw new Error(
+                `Pool not found for base mint: ${baseMint.toString()}`
+            )
+        }
+
+        const { publicKey: virtualPool, account: poolState } = pool
+        const poolConfigState = await this.state.getPoolConfig(poolState.config)
+
+        if (poolState.isMigrated !== 1) {
+            // swaps stop once the curve is complete until the migration is done
+            if (
+                poolState.migrationProgress !==
+                MigrationProgress.PreBondingCurve
+            ) {
+                throw new Error(
+                    `Pool curve is complete and not migrated yet: ${virtualPool.toString()}`
+                )
+            }
+            return this.routeDbcSwap(
+                tokenSwapQuoteParam,
+                virtualPool,
+                poolState,
+                poolConfigState
+            )
+        }
+
+        const dammConfig = getDammConfigAddress(
+            poolConfigState.migrationOption,
+            poolConfigState.migrationFeeOption
+        )
+
+        if (poolConfigState.migrationOption === MigrationOption.MET_DAMM) {
+            return this.routeDammV1Swap(
+                tokenSwapQuoteParam,
+                deriveDammV1PoolAddress(
+                    dammConfig,
+                    baseMint,
+                    poolConfigState.quoteMint
+                )
+            )
+        }
+
+        return this.routeDammV2Swap(
+            tokenSwapQuoteParam,
+            deriveDammV2PoolAddress(
+                dammConfig,
+                baseMint,
+                poolConfigState.quoteMint
+            )
+        )
+    }
+
+    /**
+     * Calculate the amount out for a swap of a token launched on a DBC pool,
+     * on the DBC pool or on the DAMM pool it migrated to (quote)
+     * @param tokenSwapQuoteParam - The parameters for the swap
+     * @returns The swap quote with the venue and the pool it is routed to
+     */
+    async swapQuote(
+        tokenSwapQuoteParam: TokenSwapQuoteParam
+    ): Promise<TokenSwapQuote> {
+        const { quote } = await this.routeSwap(tokenSwapQuoteParam)
+        return quote
+    }
+
+    /**
+     * Build the instructions to swap a token launched on a DBC pool, on the
+     * DBC pool or on the DAMM pool it migrated to
+     * @param tokenSwapParam - The parameters for the swap
+     * @returns The instructions and signers of the swap transaction and the quote it was built from
+     */
+    async swapInstructions(
+        tokenSwapParam: TokenSwapParam
+    ): Promise<BuiltInstructions & { quote: TokenSwapQuote }> {
+        const { quote, buildInstructions } =
+            await this.routeSwap(tokenSwapParam)
+        const instructions = await buildInstructions(tokenSwapParam.owner)
+
+        return { ...instructions, quote }
+    }
+
+    /**
+     * Swap a token launched on a DBC pool, on the DBC pool or on the DAMM pool
+     * it migrated to
+     * @param tokenSwapParam - The parameters for the swap
+     * @returns The swap transaction and the quote it was built from
+     */
+    async swap<T extends TransactionOptions = LegacyTransactionOptions>(
+        tokenSwapParam: TokenSwapParam,
+        options?: T
+    ): Promise<{
+        transaction: BuiltTransaction<T>
+        quote: TokenSwapQuote
+    }> {
+        const { quote, ...instructions } =
+            await this.swapInstructions(tokenSwapParam)
+
+        return {
+            transaction: await this.finalizeInstructions(
+                instructions,
+                tokenSwapParam.owner,
+                options
+            ),
+            quote,
+        }
+    }
+}
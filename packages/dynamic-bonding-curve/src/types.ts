@@ -1,6 +1,25 @@
-import type { Accounts, BN, IdlAccounts, IdlTypes } from '@coral-xyz/anchor'
+import type {
+    Accounts,
+    BN,
+    IdlAccounts,
+    IdlEvents,
+    IdlTypes,
+} from '@coral-xyz/anchor'
 import type { DynamicBondingCurve } from './idl/dynamic-bonding-curve/idl'
-import type { Keypair, PublicKey, Transaction } from '@solana/web3.js'
+import type { DammV1 } from './idl/damm-v1/idl'
+import type { DammV2 } from './idl/damm-v2/idl'
+import type { DynamicVault } from './idl/dynamic-vault/idl'
+import type {
+    AddressLookupTableAccount,
+    BlockhashWithExpiryBlockHeight,
+    Commitment,
+    Keypair,
+    PublicKey,
+    Transaction,
+    TransactionInstruction,
+    VersionedTransaction,
+} from '@solana/web3.js'
+import type Decimal from 'decimal.js'
 
 /////////////////
 // IX ACCOUNTS //
@@ -141,6 +160,24 @@ export type PartnerMetadata =
     IdlAccounts<DynamicBondingCurve>['partnerMetadata']
 export type VirtualPoolMetadata =
     IdlAccounts<DynamicBondingCurve>['virtualPoolMetadata']
+export type DammV1Pool = IdlAccounts<DammV1>['pool']
+export type DynamicVaultState = IdlAccounts<DynamicVault>['vault']
+export type DammV2Pool = IdlAccounts<DammV2>['pool']
+export type DammV2Position = IdlAccounts<DammV2>['position']
+
+////////////////
+// IDL EVENTS //
+////////////////
+
+export type DbcEvents = IdlEvents<DynamicBondingCurve>
+export type DbcEventName = keyof DbcEvents
+
+////////////////
+// IDL ERRORS //
+////////////////
+
+export type DbcErrorName = DynamicBondingCurve['errors'][number]['name']
+export type DammV2ErrorName = DammV2['errors'][number]['name']
 
 ///////////
 // ENUMS //
@@ -208,10 +245,286 @@ export enum TokenUpdateAuthorityOption {
     Immutable = 1,
 }
 
+export enum MigrationProgress {
+    PreBondingCurve = 0,
+    PostBondingCurve = 1,
+    LockedVesting = 2,
+    CreatedPool = 3,
+}
+
+export enum PoolStatus {
+    NotYetActive = 0, // the activation point is not reached yet
+    Trading = 1,
+    CurveComplete = 2, // the migration metadata is not created yet
+    AwaitingLocker = 3, // the locked vesting locker is not created yet
+    AwaitingMigration = 4,
+    Migrated = 5, // permissionless post-migration actions are pending
+    PostMigrationClaimsPending = 6, // only claims of the partner or creator are pending
+    FullySettled = 7,
+}
+
 ///////////
 // TYPES //
 ///////////
 
+export type TransactionOptions = {
+    versioned?: boolean // compile to a versioned (v0) transaction
+    addressLookupTables?: Array<PublicKey | AddressLookupTableAccount> // lookup tables for the versioned transaction
+    computeUnitLimit?: number | 'auto' // compute unit limit, or 'auto' to simulate the transaction
+    computeUnitLimitMarginBps?: number // margin added to the simulated compute units, defaults to 1000 (10%)
+    computeUnitPrice?: number | 'auto' // compute unit price in micro-lamports, or 'auto' to use the median recent prioritization fee
+}
+
+// default of the builders when no options are given
+export type LegacyTransactionOptions = TransactionOptions & {
+    versioned?: false
+}
+
+// a `versioned` that is not a literal is only known at runtime
+export type BuiltTransaction<T extends TransactionOptions> = T extends {
+    versioned: true
+}
+    ? VersionedTransaction
+    : 'versioned' extends keyof T
+      ? T extends { versioned?: false }
+          ? Transaction
+          : Transaction | VersionedTransaction
+      : Transaction
+
+export type DbcEvent = {
+    [K in DbcEventName]: {
+        name: K
+        data: DbcEvents[K]
+        signature: string | null // null when parsed from logs without a signature
+        instructionIndex: number // index of the top-level instruction that emitted the event
+        innerInstructionIndex: number | null // index of the self-CPI inner instruction, null for a `Program data:` log
+    }
+}[DbcEventName]
+
+export type PoolSubscriptionOptions = {
+    commitment?: Commitment // defaults to the commitment of the service
+    resubscribeAfterMs?: number // resubscribe and resync when nothing was received for this long, 0 (default) to disable
+    retryDelayMs?: number // initial delay before retrying a failed resubscribe, doubled on every failure, defaults to 1000
+    maxRetryDelayMs?: number // maximum delay between resubscribe retries, defaults to 30000
+}
+
+export type PoolUpdate = {
+    address: PublicKey
+    pool: VirtualPool
+    slot: number
+}
+
+export type MigrationProgressChange = {
+    address: PublicKey
+    previous: MigrationProgress
+    current: MigrationProgress
+    slot: number
+}
+
+export type PoolSubscriptionCallbacks = {
+    onPoolUpdate?: (update: PoolUpdate) => void
+    onSwap?: (
+        event: Extract<DbcEvent, { name: 'evtSwap' }>,
+        slot: number
+    ) => void
+    onCurveComplete?: (
+        event: Extract<DbcEvent, { name: 'evtCurveComplete' }>,
+        slot: number
+    ) => void
+    onMigrationProgress?: (change: MigrationProgressChange) => void
+    onError?: (error: Error) => void
+}
+
+export type PoolProtocolFee = {
+    poolAddress: PublicKey
+    protocolBaseFee: BN // unclaimed protocol fee in the base token
+    protocolQuoteFee: BN // unclaimed protocol fee in the quote token
+}
+
+export type DammV1PoolReserves = {
+    tokenAAmount: BN // the pool share of the unlocked vault A amount
+    tokenBAmount: BN // the pool share of the unlocked vault B amount
+    lpSupply: BN
+}
+
+export type DammV1LockEscrowFee = {
+    lockEscrow: PublicKey
+    owner: PublicKey // the partner fee claimer or the creator
+    lpFee: BN // the LP tokens of the fee, burnt by the claim
+    tokenAAmount: BN // the base token of the migrated pool
+    tokenBAmount: BN // the quote token of the migrated pool
+}
+
+// the program a token trades on, the DBC pool until it migrates
+export type SwapVenue = 'dbc' | 'dammV1' | 'dammV2'
+
+export type DammSwapResult = {
+    amountOut: BN
+    fee: {
+        trading: BN
+        protocol: BN
+        referral?: BN
+    }
+}
+
+export type TokenSwapQuote = DammSwapResult & {
+    venue: SwapVenue
+    pool: PublicKey // the DBC, DAMM V1 or DAMM V2 pool the swap is routed to
+    amountIn: BN
+    minimumAmountOut: BN
+}
+
+export type DammV2PositionFee = {
+    feeTokenA: BN // the base token of the migrated pool
+    feeTokenB: BN // the quote token of the migrated pool
+}
+
+export type DammV2WithdrawQuote = {
+    tokenAAmount: BN
+    tokenBAmount: BN
+}
+
+export type DammV2PositionInfo = {
+    position: PublicKey
+    positionNftMint: PublicKey
+    positionNftAccount: PublicKey
+    positionState: DammV2Position
+    unclaimedFee: DammV2PositionFee
+}
+
+// permissionless actions, named after the SDK functions that build them
+export type PoolAction =
+    | 'swap'
+    | 'createLocker'
+    | 'createDammV1MigrationMetadata'
+    | 'migrateToDammV1'
+    | 'createDammV2MigrationMetadata'
+    | 'migrateToDammV2'
+    | 'lockPartnerDammV1LpToken'
+    | 'lockCreatorDammV1LpToken'
+    | 'withdrawLeftover'
+    | 'protocolWithdrawSurplus'
+
+// actions that must be signed by the partner or the creator
+export type PoolClaim =
+    | 'partnerWithdrawSurplus'
+    | 'creatorWithdrawSurplus'
+    | 'partnerWithdrawMigrationFee'
+    | 'creatorWithdrawMigrationFee'
+    | 'claimPartnerDammV1LpToken'
+    | 'claimCreatorDammV1LpToken'
+
+export type Trade = {
+    signature: string
+    slot: number
+    eventIndex: number // index of the swap among the events of the transaction
+    blockTime: number // unix timestamp of the swap, from the event
+    pool: PublicKey
+    trader: PublicKey // payer of the swap instruction, or fee payer when the swap was a CPI
+    tradeDirection: TradeDirection // QuoteToBase is a buy, BaseToQuote is a sell
+    amountIn: BN // amount paid, in quote for a buy and in base for a sell, including fees charged on the input
+    amountOut: BN // amount received, in base for a buy and in quote for a sell
+    tradingFee: BN
+    protocolFee: BN
+    referralFee: BN
+    feesOnBaseToken: boolean // whether the fees were charged in the base token instead of the quote token
+    price: Decimal // decimal adjusted price in quote per base after the swap, from nextSqrtPrice
+    nextSqrtPrice: BN
+}
+
+export type Candle = {
+    openTime: number // unix timestamp of the start of the interval
+    open: Decimal
+    high: Decimal
+    low: Decimal
+    close: Decimal
+    baseVolume: BN
+    quoteVolume: BN
+    tradeCount: number
+}
+
+export type TradeHistorySyncState = {
+    newestSignature: string | null // newest signature synced, the catch up stops there
+    oldestSignature: string | null // oldest signature synced, the backfill resumes from there
+    backfilled: boolean // whether the history was synced back to the first transaction of the pool
+}
+
+export type SyncTradesOptions = {
+    pageSize?: number // signatures per getSignaturesForAddress page, defaults to 100 and at most 1000
+    maxPages?: number // maximum backfill pages in this call, to spread a long history over several calls
+}
+
+export type SyncTradesResult = {
+    tradeCount: number // trades saved in this call
+    backfilled: boolean
+}
+
+export type CurveSegmentProfile = {
+    index: number // index of the segment in the config curve
+    lowerSqrtPrice: BN // the sqrt start price or the upper sqrt price of the previous segment
+    upperSqrtPrice: BN
+    liquidity: BN
+    startPrice: Decimal // decimal adjusted price in quote per base
+    endPrice: Decimal
+    startMarketCap: Decimal // in quote tokens
+    endMarketCap: Decimal
+    baseAmount: BN // base tokens sold in the segment before the migration
+    quoteAmount: BN // quote tokens raised in the segment before the migration
+}
+
+export type CurveProfile = {
+    segments: CurveSegmentProfile[]
+    startPrice: Decimal
+    migrationPrice: Decimal
+    startMarketCap: Decimal
+    migrationMarketCap: Decimal
+    totalSupply: BN // the post migration supply, or the sum of the allocations when the supply is not fixed
+    totalBaseSold: BN // sum of the segments, equals swapBaseAmount
+    totalQuoteRaised: BN // sum of the segments, equals migrationQuoteThreshold up to rounding
+    swapBaseAmount: BN
+    migrationBaseThreshold: BN
+    migrationQuoteThreshold: BN
+    lockedVestingAmount: BN
+    leftover: BN // totalSupply - swapBaseAmount - migrationBaseThreshold - lockedVestingAmount
+}
+
+export type CurveSamplePoint = {
+    sqrtPrice: string // Q64.64 sqrt price, as a string to keep its precision
+    price: number // decimal adjusted price in quote per base
+    baseSold: number // decimal adjusted base tokens sold from the start of the curve
+    quoteRaised: number // decimal adjusted quote tokens raised from the start of the curve
+}
+
+export type CurveSamples = {
+    points: CurveSamplePoint[] // evenly spaced in sqrt price, from the start to the migration price
+    current: CurveSamplePoint | null // the position of the given pool
+    migration: CurveSamplePoint
+}
+
+export type BuyPlan = {
+    amountIn: BN // quote amount of the buy, including fees charged on the input
+    amountOut: BN // base amount received, after fees charged on the output
+    fee: {
+        trading: BN
+        protocol: BN
+        referral?: BN
+    }
+    nextSqrtPrice: BN
+    price: Decimal // price after the buy
+    marketCap: Decimal // market cap after the buy, in quote tokens
+}
+
+export type CreateConfigLookupTableParam = {
+    config: PublicKey
+    authority: PublicKey
+    payer: PublicKey
+    pools?: PublicKey[] // defaults to all pools of the config
+}
+
+export type ExtendConfigLookupTableParam = CreateConfigLookupTableParam & {
+    lookupTable: PublicKey
+}
+
 export type CreateConfigParam = Omit<
     CreateConfigAccounts,
     'program' | 'eventAuthority' | 'systemProgram'
@@ -316,6 +629,22 @@ export type BuildCurveWithLiquidityWeightsParam = BuildCurveBaseParam & {
     liquidityWeights: number[]
 }
 
+export type BuildCurveWithRaiseAndMultipleParam = BuildCurveBaseParam & {
+    migrationQuoteThreshold: number
+    priceMultiple: number // migration price / start price
+    percentageSupplyOnMigration?: number // two segments if set, otherwise one segment
+}
+
+export type CurveCheckpoint = {
+    marketCap: number
+    percentageSupplySold: number // percentage of the total supply sold by this market cap
+}
+
+export type BuildCurveWithCheckpointsParam = BuildCurveBaseParam & {
+    initialMarketCap: number
+    checkpoints: CurveCheckpoint[] // the last checkpoint is the migration point
+}
+
 export type InitializePoolBaseParam = {
     name: string
     symbol: string
@@ -375,6 +704,15 @@ export type SwapParam = {
     referralTokenAccount: PublicKey | null
 }
 
+export type SwapWithSlippageParam = {
+    owner: PublicKey
+    pool: PublicKey
+    amountIn: BN
+    slippageBps: number
+    swapBaseForQuote: boolean
+    referralTokenAccount: PublicKey | null
+}
+
 export type SwapQuoteParam = {
     virtualPool: VirtualPool
     config: PoolConfig
@@ -385,6 +723,28 @@ export type SwapQuoteParam = {
     currentPoint: BN
 }
 
+export type BatchSwapQuoteParam = {
+    pool: PublicKey
+    swapBaseForQuote: boolean
+    amountIn: BN
+    slippageBps?: number
+    hasReferral: boolean
+}
+
+export type SwapQuoteWithPriceImpactParam = SwapQuoteParam & {
+    tokenQuoteDecimal?: TokenDecimal
+}
+
+export type SwapQuoteExactOutParam = {
+    virtualPool: VirtualPool
+    config: PoolConfig
+    swapBaseForQuote: boolean
+    amountOut: BN
+    slippageBps?: number
+    hasReferral: boolean
+    currentPoint: BN
+}
+
 export type SwapQuoteExactInParam = {
     virtualPool: VirtualPool
     config: PoolConfig
@@ -394,13 +754,15 @@ export type SwapQuoteExactInParam = {
 export type MigrateToDammV1Param = {
     payer: PublicKey
     virtualPool: PublicKey
-    dammConfig: PublicKey
+    dammConfig?: PublicKey // resolved from the migration fee option of the pool config when omitted
 }
 
 export type MigrateToDammV2Param = MigrateToDammV1Param
 
-export type MigrateToDammV2Response = {
-    transaction: Transaction
+export type MigrateToDammV2Response<
+    T extends TransactionOptions = LegacyTransactionOptions,
+> = {
+    transaction: BuiltTransaction<T>
     firstPositionNftKeypair: Keypair
     secondPositionNftKeypair: Keypair
 }
@@ -408,10 +770,103 @@ export type MigrateToDammV2Response = {
 export type DammLpTokenParam = {
     payer: PublicKey
     virtualPool: PublicKey
-    dammConfig: PublicKey
+    dammConfig?: PublicKey // resolved from the migration fee option of the pool config when omitted
     isPartner: boolean
 }
 
+export type DammV1LockEscrowFeeParam = Omit<DammLpTokenParam, 'payer'>
+
+export type ClaimDammV1LockEscrowFeeParam = DammLpTokenParam & {
+    maxAmount?: BN // the maximum LP fee to claim, defaults to all the fee
+}
+
+export type TokenSwapQuoteParam = {
+    baseMint: PublicKey
+    amountIn: BN
+    slippageBps?: number
+    swapBaseForQuote: boolean
+    referralTokenAccount?: PublicKey | null // not supported by DAMM V1 pools, where it is ignored
+}
+
+export type TokenSwapParam = TokenSwapQuoteParam & {
+    owner: PublicKey
+}
+
+export type DammV2PositionParam = {
+    owner: PublicKey // the owner of the position NFT
+    payer: PublicKey
+    position: PublicKey
+    positionNftAccount?: PublicKey // defaults to the position NFT account derived from the NFT mint, which holds the NFTs minted by the migration
+}
+
+export type ClaimDammV2PositionFeeParam = DammV2PositionParam
+
+export type RemoveDammV2LiquidityParam = DammV2PositionParam & {
+    liquidityDelta?: BN // defaults to all the unlocked liquidity of the position
+    slippageBps?: number // slippage on the quoted token amounts, defaults to 0
+}
+
+export type LockDammV2PositionParam = DammV2PositionParam & {
+    cliffPoint: BN | null // null to start the vesting at the current point
+    periodFrequency: BN
+    cliffUnlockLiquidity: BN
+    liquidityPerPeriod: BN
+    numberOfPeriod: number
+}
+
+export type LockDammV2PositionResponse<
+    T extends TransactionOptions = LegacyTransactionOptions,
+> = {
+    transaction: BuiltTransaction<T>
+    vestingKeypair: Keypair
+}
+
+export type PermanentLockDammV2PositionParam = DammV2PositionParam & {
+    liquidity?: BN // defaults to all the unlocked liquidity of the position
+}
+
+export type PlanMigrationParam = {
+    payer: PublicKey
+    virtualPool: PublicKey
+    dammConfig?: PublicKey // resolved from the migration fee option of the pool config when omitted
+}
+
+// migration transactions, named after the MigrationService functions that build them
+export type MigrationStepName =
+    | 'createLocker'
+    | 'createDammV1MigrationMetadata'
+    | 'migrateToDammV1'
+    | 'lockDammV1LpToken'
+    | 'claimDammV1LpToken'
+    | 'createDammV2MigrationMetadata'
+    | 'migrateToDammV2'
+    | 'withdrawLeftover'
+
+export type MigrationStep = {
+    name: MigrationStepName
+    isPartner?: boolean // set for the DAMM V1 LP token steps, whether the LP token goes to the partner or the creator
+}
+
+export type ExecuteMigrationParam<
+    T extends TransactionOptions = LegacyTransactionOptions,
+> = PlanMigrationParam & {
+    steps?: MigrationStep[] // defaults to the steps returned by planMigration
+    transactionOptions?: T
+    signTransaction: (
+        transaction: BuiltTransaction<T>
+    ) => Promise<BuiltTransaction<T>> // adds the payer signature, e.g. the signTransaction of a wallet adapter
+    confirmTransaction?: (
+        signature: string,
+        blockhash: BlockhashWithExpiryBlockHeight
+    ) => Promise<void> // must throw when the transaction failed, defaults to confirming with the blockhash expiry at the service commitment
+    onStepConfirmed?: (result: MigrationStepResult) => void
+}
+
+export type MigrationStepResult = {
+    step: MigrationStep
+    signature: string
+}
+
 export type CreateLockerParam = {
     payer: PublicKey
     virtualPool: PublicKey
@@ -532,6 +987,28 @@ export type WithdrawMigrationFeeParam = {
     feePayer?: PublicKey
 }
 
+export type CreateClaimFeeOperatorParam = {
+    admin: PublicKey
+    operator: PublicKey
+}
+
+export type CloseClaimFeeOperatorParam = {
+    admin: PublicKey
+    operator: PublicKey
+    rentReceiver?: PublicKey // defaults to the admin
+}
+
+export type ClaimProtocolFeeParam = {
+    operator: PublicKey
+    virtualPool: PublicKey
+    payer?: PublicKey // pays for the treasury token accounts, defaults to the operator
+}
+
+export type ProtocolWithdrawSurplusParam = {
+    payer: PublicKey
+    virtualPool: PublicKey
+}
+
 ////////////////
 // INTERFACES //
 ////////////////
@@ -562,6 +1039,46 @@ export interface QuoteResult {
         beforeSwap: BN
         afterSwap: BN
     }
+    priceInfo?: QuotePriceInfo
+}
+
+export interface BatchSwapQuoteResult {
+    currentSlot: BN
+    currentTime: BN | null
+    quotes: Array<{
+        quote: QuoteResult | null
+        error: string | null
+    }> // in the order of the params, a pool can be quoted several times
+}
+
+export interface QuotePartialFillResult extends QuoteResult {
+    consumedInputAmount: BN
+    unusedInputAmount: BN
+    isCurveComplete: boolean
+}
+
+export interface QuotePriceInfo {
+    spotPriceBefore: Decimal
+    spotPriceAfter: Decimal
+    executionPrice: Decimal
+    priceImpactBps: Decimal
+    effectiveFeeBps: Decimal
+}
+
+export interface QuoteExactOutResult {
+    amountIn: BN
+    maximumAmountIn: BN
+    amountOut: BN
+    nextSqrtPrice: BN
+    fee: {
+        trading: BN
+        protocol: BN
+        referral?: BN
+    }
+    price: {
+        beforeSwap: BN
+        afterSwap: BN
+    }
 }
 
 export interface FeeOnAmountResult {
@@ -582,3 +1099,44 @@ export interface SwapAmount {
     outputAmount: BN
     nextSqrtPrice: BN
 }
+
+export interface SwapAmountExactOut {
+    inputAmount: BN
+    nextSqrtPrice: BN
+}
+
+export interface CreateConfigLookupTableResult<
+    T extends TransactionOptions = LegacyTransactionOptions,
+> {
+    lookupTable: PublicKey
+    transactions: BuiltTransaction<T>[]
+}
+
+export interface BuiltInstructions {
+    setupInstructions: TransactionInstruction[] // e.g. token account creation and SOL wrapping
+    instructions: TransactionInstruction[]
+    cleanupInstructions: TransactionInstruction[] // e.g. SOL unwrapping
+    signers: Keypair[] // keypairs generated by the SDK that must sign
+}
+
+export interface PoolSubscription {
+    reconnect(): Promise<void> // resubscribe and resync the pool state, e.g. after the network came back
+    unsubscribe(): Promise<void>
+}
+
+export interface TradeHistoryStorage {
+    getSyncState(pool: PublicKey): Promise<TradeHistorySyncState | null>
+    setSyncState(pool: PublicKey, state: TradeHistorySyncState): Promise<void>
+    saveTrades(pool: PublicKey, trades: Trade[]): Promise<void> // trades already saved with the same signature and event index must be ignored
+    getTrades(
+        pool: PublicKey,
+        fromTime?: number,
+        toTime?: number
+    ): Promise<Trade[]> // ordered by slot and event index, times are inclusive unix timestamps
+}
+
+export interface PoolStatusResult {
+    status: PoolStatus
+    nextActions: PoolAction[] // permissionless actions available now
+    pendingClaims: PoolClaim[] // claims waiting for the partner or the creator
+}
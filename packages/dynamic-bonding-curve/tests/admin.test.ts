@@ -0,0 +1,202 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import { Keypair } from '@solana/web3.js'
+import { getAssociatedTokenAddressSync, NATIVE_MINT } from '@solana/spl-token'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithMarketCap,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    deriveClaimFeeOperatorAddress,
+    DynamicBondingCurveClient,
+    MigrationFeeOption,
+    MigrationOption,
+    TokenDecimal,
+    TokenType,
+    TREASURY_ADDRESS,
+} from '../src'
+import {
+    createMockConnection,
+    createPoolConfig,
+    createVirtualPool,
+} from './utils/common'
+
+describe('admin tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const clock = { currentSlot: 1000, currentTime: 1750000000 }
+    const admin = Keypair.generate()
+    const operator = Keypair.generate()
+    const configAddress = Keypair.generate().publicKey
+    const poolAddress = Keypair.generate().publicKey
+    const otherPoolAddress = Keypair.generate().publicKey
+    const baseMint = Keypair.generate().publicKey
+    const config = createPoolConfig(
+        buildCurveWithMarketCap({
+            ...baseParams,
+            initialMarketCap: 20,
+            migrationMarketCap: 600,
+        }),
+        { quoteMint: NATIVE_MINT }
+    )
+    const virtualPool = createVirtualPool(config, {
+        config: configAddress,
+        baseMint,
+        baseVault: Keypair.generate().publicKey,
+        quoteVault: Keypair.generate().publicKey,
+        protocolBaseFee: new BN(1500),
+        protocolQuoteFee: new BN(300),
+    })
+
+    const { connection } = createMockConnection(
+        [
+            { address: configAddress, type: 'poolConfig', data: config },
+            { address: poolAddress, type: 'virtualPool', data: virtualPool },
+            {
+                address: otherPoolAddress,
+                type: 'virtualPool',
+                data: createVirtualPool(config, {
+                    config: Keypair.generate().publicKey,
+                    baseMint: Keypair.generate().publicKey,
+                }),
+            },
+            {
+                address: deriveClaimFeeOperatorAddress(operator.publicKey),
+                type: 'claimFeeOperator',
+                data: {
+                    operator: operator.publicKey,
+                    padding: new Array(128).fill(0),
+                },
+            },
+        ],
+        clock
+    )
+    const { admin: adminService } = DynamicBondingCurveClient.create(connection)
+
+    test('claim fee operators and protocol fees are read from the accounts', async () => {
+        const claimFeeOperator = await adminService.getClaimFeeOperator(
+            operator.publicKey
+        )
+        expect(claimFeeOperator?.operator.equals(operator.publicKey)).toBe(true)
+        expect(
+            await adminService.getClaimFeeOperator(Keypair.generate().publicKey)
+        ).toBeNull()
+
+        const claimFeeOperators = await adminService.getClaimFeeOperators()
+        expect(claimFeeOperators.length).toBe(1)
+
+        const protocolFee = await adminService.getPoolProtocolFee(poolAddress)
+        expect(protocolFee.poolAddress.equals(poolAddress)).toBe(true)
+        expect(protocolFee.protocolBaseFee.toNumber()).toBe(1500)
+        expect(protocolFee.protocolQuoteFee.toNumber()).toBe(300)
+
+        expect((await adminService.getPoolsProtocolFees()).length).toBe(2)
+        const poolsProtocolFees =
+            await adminService.getPoolsProtocolFees(configAddress)
+        expect(poolsProtocolFees.length).toBe(1)
+        expect(poolsProtocolFees[0].poolAddress.equals(poolAddress)).toBe(true)
+    })
+
+    test('admin and operator instructions are built with their signers', async () => {
+        const claimFeeOperator = deriveClaimFeeOperatorAddress(
+            operator.publicKey
+        )
+
+        const create = await adminService.createClaimFeeOperatorInstructions({
+            admin: admin.publicKey,
+            operator: operator.publicKey,
+        })
+        expect(
+            create.instructions[0].keys[0].pubkey.equals(claimFeeOperator)
+        ).toBe(true)
+        expect(
+            create.instructions[0].keys.find((key) =>
+                key.pubkey.equals(admin.publicKey)
+            )?.isSigner
+        ).toBe(true)
+
+        // the rent goes back to the admin by default
+        const close = await adminService.closeClaimFeeOperatorInstructions({
+            admin: admin.publicKey,
+            operator: operator.publicKey,
+        })
+        expect(
+            close.instructions[0].keys[1].pubkey.equals(admin.publicKey)
+        ).toBe(true)
+
+        // the fees are claimed to the treasury token accounts
+        const claim = await adminService.claimProtocolFeeInstructions({
+            operator: operator.publicKey,
+            virtualPool: poolAddress,
+        })
+        expect(claim.setupInstructions.length).toBe(2)
+        const treasuryQuoteAccount = getAssociatedTokenAddressSync(
+            NATIVE_MINT,
+            TREASURY_ADDRESS,
+            true
+        )
+        const claimKeys = claim.instructions[0].keys
+        expect(
+            claimKeys.some((key) => key.pubkey.equals(treasuryQuoteAccount))
+        ).toBe(true)
+        expect(
+            claimKeys.find((key) => key.pubkey.equals(operator.publicKey))
+                ?.isSigner
+        ).toBe(true)
+
+        const surplus = await adminService.protocolWithdrawSurplusInstructions({
+            payer: admin.publicKey,
+            virtualPool: poolAddress,
+        })
+        expect(
+            surplus.instructions[0].keys.some((key) =>
+                key.pubkey.equals(treasuryQuoteAccount)
+            )
+        ).toBe(true)
+
+        await expect(
+            adminService.claimProtocolFeeInstructions({
+                operator: operator.publicKey,
+                virtualPool: Keypair.generate().publicKey,
+            })
+        ).rejects.toThrow('Pool not found')
+    })
+})
@@ -0,0 +1,293 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import { Keypair } from '@solana/web3.js'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithMarketCap,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    MigrationFeeOption,
+    MigrationOption,
+    PoolService,
+    swapQuote,
+    TokenDecimal,
+    TokenType,
+} from '../src'
+import {
+    createMockConnection,
+    createPoolConfig,
+    createVirtualPool,
+} from './utils/common'
+
+describe('batchSwapQuote tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const currentSlot = 1000
+    const currentTime = 1750000000
+    const clock = { currentSlot, currentTime }
+
+    test('quotes many pools with one fetch per account type', async () => {
+        const slotConfig = createPoolConfig(
+            buildCurveWithMarketCap({
+                ...baseParams,
+                initialMarketCap: 20,
+                migrationMarketCap: 600,
+            })
+        )
+        const timestampConfig = createPoolConfig(
+            buildCurveWithMarketCap({
+                ...baseParams,
+                activationType: ActivationType.Timestamp,
+                initialMarketCap: 50,
+                migrationMarketCap: 1000,
+            })
+        )
+        const slotConfigAddress = Keypair.generate().publicKey
+        const timestampConfigAddress = Keypair.generate().publicKey
+
+        const pools = [
+            slotConfigAddress,
+            slotConfigAddress,
+            slotConfigAddress,
+            timestampConfigAddress,
+        ].map((config) => ({
+            address: Keypair.generate().publicKey,
+            state: createVirtualPool(
+                config.equals(slotConfigAddress) ? slotConfig : timestampConfig,
+                { config }
+            ),
+        }))
+        const missingPool = Keypair.generate().publicKey
+
+        const { connection, calls } = createMockConnection(
+            [
+                {
+                    address: slotConfigAddress,
+                    type: 'poolConfig',
+                    data: slotConfig,
+                },
+                {
+                    address: timestampConfigAddress,
+                    type: 'poolConfig',
+                    data: timestampConfig,
+                },
+                ...pools.map((pool) => ({
+                    address: pool.address,
+                    type: 'virtualPool' as const,
+                    data: pool.state,
+                })),
+            ],
+            clock
+        )
+        const poolService = new PoolService(connection, 'confirmed')
+
+        const amountIn = new BN(10 ** TokenDecimal.NINE)
+        const result = await poolService.batchSwapQuote([
+            ...pools.map((pool) => ({
+                pool: pool.address,
+                swapBaseForQuote: false,
+                amountIn,
+                hasReferral: false,
+            })),
+            {
+                pool: missingPool,
+                swapBaseForQuote: false,
+                amountIn,
+                hasReferral: false,
+            },
+        ])
+
+        // one call for the pools, one for the two distinct configs read at
+        // or after the slot of the pools, which is also the clock
+        expect(calls.getMultipleAccountsInfoAndContext).toEqual([
+            { count: 5, minContextSlot: undefined },
+            { count: 2, minContextSlot: currentSlot },
+        ])
+        expect(calls.getSlot).toBe(0)
+        expect(calls.getBlockTime).toBe(1)
+        expect(result.currentSlot.toNumber()).toBe(currentSlot)
+        expect(result.currentTime.toNumber()).toBe(currentTime)
+
+        expect(result.quotes.length).toBe(pools.length + 1)
+        for (const [i, pool] of pools.entries()) {
+            const { quote, error } = result.quotes[i]
+            const config = pool.state.config.equals(slotConfigAddress)
+                ? slotConfig
+                : timestampConfig
+            const expected = await swapQuote(
+                pool.state,
+                config,
+                false,
+                amountIn,
+                0,
+                false,
+                new BN(
+                    config.activationType === ActivationType.Slot
+                        ? currentSlot
+                        : currentTime
+                )
+            )
+            expect(error).toBeNull()
+            expect(quote.amountOut.eq(expected.amountOut)).toBe(true)
+        }
+
+        expect(result.quotes[pools.length].quote).toBeNull()
+        expect(result.quotes[pools.length].error).toBe(
+            `Pool not found: ${missingPool.toBase58()}`
+        )
+    })
+
+    test('later chunks are read at or after the slot of the first', async () => {
+        const { connection, calls } = createMockConnection([], clock)
+        const poolService = new PoolService(connection, 'confirmed')
+
+        const result = await poolService.batchSwapQuote(
+            Array.from({ length: 101 }, () => ({
+                pool: Keypair.generate().publicKey,
+                swapBaseForQuote: false,
+                amountIn: new BN(1),
+                hasReferral: false,
+            }))
+        )
+
+        expect(calls.getMultipleAccountsInfoAndContext).toEqual([
+            { count: 100, minContextSlot: undefined },
+            { count: 1, minContextSlot: currentSlot },
+        ])
+        expect(calls.getSlot).toBe(0)
+        expect(result.currentSlot.toNumber()).toBe(currentSlot)
+    })
+
+    test('slot only batch does not fetch block time', async () => {
+        const config = createPoolConfig(
+            buildCurveWithMarketCap({
+                ...baseParams,
+                initialMarketCap: 20,
+                migrationMarketCap: 600,
+            })
+        )
+        const configAddress = Keypair.generate().publicKey
+        const poolAddress = Keypair.generate().publicKey
+        const { connection, calls } = createMockConnection(
+            [
+                { address: configAddress, type: 'poolConfig', data: config },
+                {
+                    address: poolAddress,
+                    type: 'virtualPool',
+                    data: createVirtualPool(config, { config: configAddress }),
+                },
+            ],
+            clock
+        )
+        const poolService = new PoolService(connection, 'confirmed')
+
+        const result = await poolService.batchSwapQuote([
+            {
+                pool: poolAddress,
+                swapBaseForQuote: false,
+                amountIn: new BN(0),
+                hasReferral: false,
+            },
+        ])
+
+        expect(calls.getBlockTime).toBe(0)
+        expect(result.currentTime).toBeNull()
+        expect(result.quotes[0].error).toBe('Amount is zero')
+    })
+
+    test('a pool can be quoted for several amounts', async () => {
+        const config = createPoolConfig(
+            buildCurveWithMarketCap({
+                ...baseParams,
+                initialMarketCap: 20,
+                migrationMarketCap: 600,
+            })
+        )
+        const configAddress = Keypair.generate().publicKey
+        const poolAddress = Keypair.generate().publicKey
+        const poolState = createVirtualPool(config, { config: configAddress })
+        const { connection, calls } = createMockConnection(
+            [
+                { address: configAddress, type: 'poolConfig', data: config },
+                {
+                    address: poolAddress,
+                    type: 'virtualPool',
+                    data: poolState,
+                },
+            ],
+            clock
+        )
+        const poolService = new PoolService(connection, 'confirmed')
+
+        const amounts = [1, 10, 100].map(
+            (amount) => new BN(amount * 10 ** TokenDecimal.NINE)
+        )
+        const result = await poolService.batchSwapQuote(
+            amounts.map((amountIn) => ({
+                pool: poolAddress,
+                swapBaseForQuote: false,
+                amountIn,
+                hasReferral: false,
+            }))
+        )
+
+        // the pool is fetched once and quoted for every amount in order
+        expect(calls.getMultipleAccountsInfoAndContext).toEqual([
+            { count: 1, minContextSlot: undefined },
+            { count: 1, minContextSlot: currentSlot },
+        ])
+        for (const [i, amountIn] of amounts.entries()) {
+            const expected = await swapQuote(
+                poolState,
+                config,
+                false,
+                amountIn,
+                0,
+                false,
+                new BN(currentSlot)
+            )
+            expect(result.quotes[i].error).toBeNull()
+            expect(
+                result.quotes[i].quote.amountOut.eq(expected.amountOut)
+            ).toBe(true)
+        }
+    })
+})
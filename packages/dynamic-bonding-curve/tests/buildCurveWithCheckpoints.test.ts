@@ -0,0 +1,175 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithCheckpoints,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    getBaseTokenForSwap,
+    getMigrationThresholdPrice,
+    getSqrtPriceFromMarketCap,
+    MigrationFeeOption,
+    MigrationOption,
+    TokenDecimal,
+    TokenType,
+} from '../src'
+import { convertBNToDecimal } from './utils/common'
+
+describe('buildCurveWithCheckpoints tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.SIX,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 10,
+            creatorFeePercentage: 50,
+        },
+    }
+
+    test('build curve with checkpoints', () => {
+        console.log('\n testing build curve with checkpoints...')
+        // sell 20% of the supply by a 50k market cap and 60% by 200k
+        const config = buildCurveWithCheckpoints({
+            ...baseParams,
+            initialMarketCap: 10000,
+            checkpoints: [
+                { marketCap: 50000, percentageSupplySold: 20 },
+                { marketCap: 200000, percentageSupplySold: 60 },
+            ],
+        })
+
+        console.log('sqrtStartPrice', convertBNToDecimal(config.sqrtStartPrice))
+        console.log('curve', convertBNToDecimal(config.curve))
+        expect(config.curve.length).toBe(2)
+        expect(
+            config.curve[1].sqrtPrice.eq(
+                getSqrtPriceFromMarketCap(
+                    200000,
+                    1000000000,
+                    TokenDecimal.SIX,
+                    TokenDecimal.SIX
+                )
+            )
+        ).toBe(true)
+
+        // the base sold by each checkpoint, rounded down
+        const toTokens = (amount: BN) => amount.toNumber() / 1e6
+        expect(
+            toTokens(
+                getBaseTokenForSwap(
+                    config.sqrtStartPrice,
+                    config.curve[0].sqrtPrice,
+                    config.curve
+                )
+            )
+        ).toBeCloseTo(200000000, 0)
+
+        // the migration happens at the last checkpoint
+        const migrationSqrtPrice = getMigrationThresholdPrice(
+            config.migrationQuoteThreshold,
+            config.sqrtStartPrice,
+            config.curve
+        )
+        expect(migrationSqrtPrice.lte(config.curve[1].sqrtPrice)).toBe(true)
+        expect(
+            migrationSqrtPrice
+                .muln(1000000)
+                .div(config.curve[1].sqrtPrice)
+                .toNumber()
+        ).toBeGreaterThanOrEqual(999999)
+        expect(
+            toTokens(
+                getBaseTokenForSwap(
+                    config.sqrtStartPrice,
+                    migrationSqrtPrice,
+                    config.curve
+                )
+            )
+        ).toBeCloseTo(600000000, -1)
+    })
+
+    test('vesting reduces the supply that can be sold', () => {
+        const checkpoints = [
+            { marketCap: 50000, percentageSupplySold: 20 },
+            { marketCap: 100000, percentageSupplySold: 50 },
+            { marketCap: 200000, percentageSupplySold: 70 },
+        ]
+        expect(
+            buildCurveWithCheckpoints({
+                ...baseParams,
+                initialMarketCap: 10000,
+                checkpoints,
+            }).curve.length
+        ).toBe(3)
+
+        // about 24% of the supply is migrated, so with 10% vested 70% cannot be sold
+        expect(() =>
+            buildCurveWithCheckpoints({
+                ...baseParams,
+                initialMarketCap: 10000,
+                checkpoints,
+                lockedVestingParam: {
+                    totalLockedVestingAmount: 100000000,
+                    numberOfVestingPeriod: 1,
+                    cliffUnlockAmount: 0,
+                    totalVestingDuration: 1,
+                    cliffDurationFromMigrationTime: 0,
+                },
+            })
+        ).toThrow(
+            'Infeasible checkpoints: checkpoints[2]: 70% sold leaves less than the migration, vesting and leftover amounts'
+        )
+    })
+
+    test('infeasible checkpoints are reported', () => {
+        expect(() =>
+            buildCurveWithCheckpoints({
+                ...baseParams,
+                initialMarketCap: 10000,
+                checkpoints: [
+                    { marketCap: 50000, percentageSupplySold: 20 },
+                    { marketCap: 40000, percentageSupplySold: 10 },
+                ],
+            })
+        ).toThrow(
+            'Infeasible checkpoints: checkpoints[1]: market cap must be above 50000; checkpoints[1]: percentage of supply sold must be above 20 and at most 100'
+        )
+        expect(() =>
+            buildCurveWithCheckpoints({
+                ...baseParams,
+                initialMarketCap: 10000,
+                checkpoints: [],
+            })
+        ).toThrow('Number of checkpoints must be between 1 and 16')
+    })
+})
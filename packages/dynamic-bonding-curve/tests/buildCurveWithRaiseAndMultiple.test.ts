@@ -0,0 +1,158 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import Decimal from 'decimal.js'
+import { Keypair, PublicKey } from '@solana/web3.js'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithRaiseAndMultiple,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    ConfigParameters,
+    getMigrationThresholdPrice,
+    MigrationFeeOption,
+    MigrationOption,
+    TokenDecimal,
+    TokenType,
+    validateConfigParameters,
+    validateCurveParameters,
+} from '../src'
+import { convertBNToDecimal } from './utils/common'
+
+describe('buildCurveWithRaiseAndMultiple tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 10,
+            creatorFeePercentage: 50,
+        },
+    }
+
+    const getPriceMultiple = (config: ConfigParameters) => {
+        const migrationSqrtPrice = getMigrationThresholdPrice(
+            config.migrationQuoteThreshold,
+            config.sqrtStartPrice,
+            config.curve
+        )
+        return new Decimal(migrationSqrtPrice.toString())
+            .div(new Decimal(config.sqrtStartPrice.toString()))
+            .pow(2)
+            .toNumber()
+    }
+
+    test('build curve with raise and multiple in one segment', () => {
+        console.log('\n testing build curve with raise and multiple...')
+        const config = buildCurveWithRaiseAndMultiple({
+            ...baseParams,
+            migrationQuoteThreshold: 85,
+            priceMultiple: 15,
+        })
+
+        console.log('sqrtStartPrice', convertBNToDecimal(config.sqrtStartPrice))
+        console.log('curve', convertBNToDecimal(config.curve))
+        expect(
+            config.migrationQuoteThreshold.eq(new BN(85).mul(new BN(10 ** 9)))
+        ).toBe(true)
+        expect(getPriceMultiple(config)).toBeCloseTo(15, 3)
+    })
+
+    test('build curve with raise and multiple in two segments', () => {
+        console.log('\n testing build curve with raise and multiple...')
+        const config = buildCurveWithRaiseAndMultiple({
+            ...baseParams,
+            migrationQuoteThreshold: 85,
+            priceMultiple: 15,
+            percentageSupplyOnMigration: 20,
+            lockedVestingParam: {
+                totalLockedVestingAmount: 10000000,
+                numberOfVestingPeriod: 1000,
+                cliffUnlockAmount: 0,
+                totalVestingDuration: 365 * 24 * 60 * 60,
+                cliffDurationFromMigrationTime: 0,
+            },
+        })
+
+        console.log('sqrtStartPrice', convertBNToDecimal(config.sqrtStartPrice))
+        console.log('curve', convertBNToDecimal(config.curve))
+        expect(config.curve.length).toBe(2)
+        expect(
+            config.migrationQuoteThreshold.eq(new BN(85).mul(new BN(10 ** 9)))
+        ).toBe(true)
+        expect(getPriceMultiple(config)).toBeCloseTo(15, 3)
+    })
+
+    test('unreachable multiples are rejected', () => {
+        expect(() =>
+            buildCurveWithRaiseAndMultiple({
+                ...baseParams,
+                migrationQuoteThreshold: 85,
+                priceMultiple: 1,
+            })
+        ).toThrow('Price multiple must be greater than 1')
+        // 20% of the supply on migration and 80% sold cannot stay flat enough
+        expect(() =>
+            buildCurveWithRaiseAndMultiple({
+                ...baseParams,
+                migrationQuoteThreshold: 85,
+                priceMultiple: 1.5,
+                percentageSupplyOnMigration: 20,
+            })
+        ).toThrow(
+            'Price multiple cannot be reached with two segments for this percentage supply on migration'
+        )
+    })
+
+    test('leftover receiver is only validated with the config accounts', () => {
+        const config = buildCurveWithRaiseAndMultiple({
+            ...baseParams,
+            migrationQuoteThreshold: 85,
+            priceMultiple: 15,
+        })
+        expect(config.tokenSupply).not.toBeNull()
+
+        expect(() => validateCurveParameters(config)).not.toThrow()
+        expect(() =>
+            validateConfigParameters({
+                ...config,
+                leftoverReceiver: Keypair.generate().publicKey,
+            })
+        ).not.toThrow()
+        expect(() =>
+            validateConfigParameters({
+                ...config,
+                leftoverReceiver: PublicKey.default,
+            })
+        ).toThrow('Invalid leftover receiver')
+    })
+})
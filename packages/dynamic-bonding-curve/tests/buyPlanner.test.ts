@@ -0,0 +1,184 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithTwoSegments,
+    BuildCurveBaseParam,
+    calculateQuoteExactInAmount,
+    CollectFeeMode,
+    getBuyToMarketCap,
+    getBuyToPrice,
+    getBuyToSqrtPrice,
+    getMarketCapAfterBuy,
+    MigrationFeeOption,
+    MigrationOption,
+    TokenDecimal,
+    TokenType,
+} from '../src'
+import { createPoolConfig, createVirtualPool } from './utils/common'
+
+describe('buy planner tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 5000,
+                endingFeeBps: 100,
+                numberOfPeriod: 10,
+                totalDuration: 100,
+            },
+        },
+        dynamicFeeEnabled: false,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const config = createPoolConfig(
+        buildCurveWithTwoSegments({
+            ...baseParams,
+            initialMarketCap: 20,
+            migrationMarketCap: 600,
+            percentageSupplyOnMigration: 20,
+        })
+    )
+
+    test('buy to a market cap from launch and back', () => {
+        // at launch the fee scheduler charges its starting fee
+        const atLaunch = getBuyToMarketCap(
+            null,
+            config,
+            300,
+            TokenDecimal.NINE,
+            false,
+            new BN(0)
+        )
+        expect(atLaunch.marketCap.toNumber()).toBeCloseTo(300, 6)
+        expect(atLaunch.nextSqrtPrice.gt(config.curve[0].sqrtPrice)).toBe(true)
+
+        // half way through the schedule of a pool activated at 0 the fee is lower
+        const later = getBuyToMarketCap(
+            createVirtualPool(config),
+            config,
+            300,
+            TokenDecimal.NINE,
+            false,
+            new BN(50)
+        )
+        expect(later.amountIn.lt(atLaunch.amountIn)).toBe(true)
+        expect(later.amountOut.eq(atLaunch.amountOut)).toBe(true)
+        expect(later.fee.trading.lt(atLaunch.fee.trading)).toBe(true)
+
+        // buying the planned amount lands on the planned market cap
+        const bought = getMarketCapAfterBuy(
+            null,
+            config,
+            atLaunch.amountIn,
+            TokenDecimal.NINE,
+            false,
+            new BN(0)
+        )
+        expect(bought).toEqual(atLaunch)
+
+        // a price target is the market cap over the total supply
+        const byPrice = getBuyToPrice(
+            null,
+            config,
+            '0.0000003',
+            TokenDecimal.NINE,
+            false,
+            new BN(0)
+        )
+        expect(
+            byPrice.nextSqrtPrice.sub(atLaunch.nextSqrtPrice).abs().lten(1)
+        ).toBe(true)
+    })
+
+    test('fees charged on the base output do not change the quote amount', () => {
+        const bothConfig = { ...config, collectFeeMode: CollectFeeMode.Both }
+        const virtualPool = createVirtualPool(bothConfig)
+
+        const plan = getBuyToSqrtPrice(
+            virtualPool,
+            bothConfig,
+            config.migrationSqrtPrice,
+            TokenDecimal.NINE,
+            false,
+            new BN(100)
+        )
+        // the whole curve is bought, up to the rounding of each segment
+        expect(plan.nextSqrtPrice.eq(config.migrationSqrtPrice)).toBe(true)
+        expect(plan.amountIn.gte(config.migrationQuoteThreshold)).toBe(true)
+        expect(plan.amountIn.sub(config.migrationQuoteThreshold).lten(2)).toBe(
+            true
+        )
+        expect(plan.fee.trading.gtn(0)).toBe(true)
+        expect(plan.amountOut.lt(config.swapBaseAmount)).toBe(true)
+        expect(plan.marketCap.toNumber()).toBeCloseTo(600, 0)
+    })
+
+    test('targets outside the curve are rejected', () => {
+        const virtualPool = createVirtualPool(config, {
+            sqrtPrice: config.curve[0].sqrtPrice,
+        })
+
+        expect(() =>
+            getBuyToSqrtPrice(
+                virtualPool,
+                config,
+                config.sqrtStartPrice,
+                TokenDecimal.NINE,
+                false,
+                new BN(0)
+            )
+        ).toThrow('Target price must be above the current price')
+        expect(() =>
+            getBuyToSqrtPrice(
+                virtualPool,
+                config,
+                config.migrationSqrtPrice.addn(1),
+                TokenDecimal.NINE,
+                false,
+                new BN(0)
+            )
+        ).toThrow('Target price is above the migration price')
+        expect(() =>
+            getMarketCapAfterBuy(
+                null,
+                config,
+                calculateQuoteExactInAmount(
+                    config,
+                    createVirtualPool(config),
+                    new BN(0)
+                ).addn(1),
+                TokenDecimal.NINE,
+                false,
+                new BN(0)
+            )
+        ).toThrow('Amount in exceeds the amount to complete the curve')
+    })
+})
@@ -0,0 +1,238 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import {
+    ComputeBudgetInstruction,
+    ComputeBudgetProgram,
+    Keypair,
+    Transaction,
+    TransactionInstruction,
+} from '@solana/web3.js'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithMarketCap,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    MigrationFeeOption,
+    MigrationOption,
+    PoolService,
+    removeComputeBudgetInstructions,
+    TokenDecimal,
+    TokenType,
+} from '../src'
+import {
+    createMockConnection,
+    createPoolConfig,
+    createVirtualPool,
+} from './utils/common'
+
+describe('compute budget tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const clock = { currentSlot: 1000, currentTime: 1750000000 }
+
+    const configAddress = Keypair.generate().publicKey
+    const poolAddress = Keypair.generate().publicKey
+    const config = createPoolConfig(
+        buildCurveWithMarketCap({
+            ...baseParams,
+            initialMarketCap: 20,
+            migrationMarketCap: 600,
+        }),
+        { quoteMint: Keypair.generate().publicKey }
+    )
+    const virtualPool = createVirtualPool(config, {
+        config: configAddress,
+        baseMint: Keypair.generate().publicKey,
+        baseVault: Keypair.generate().publicKey,
+        quoteVault: Keypair.generate().publicKey,
+    })
+    const accounts = [
+        {
+            address: configAddress,
+            type: 'poolConfig' as const,
+            data: config,
+        },
+        {
+            address: poolAddress,
+            type: 'virtualPool' as const,
+            data: virtualPool,
+        },
+    ]
+
+    const swapParam = {
+        owner: Keypair.generate().publicKey,
+        pool: poolAddress,
+        amountIn: new BN(10 ** TokenDecimal.NINE),
+        minimumAmountOut: new BN(0),
+        swapBaseForQuote: false,
+        referralTokenAccount: null,
+    }
+
+    const getComputeBudget = (instructions: TransactionInstruction[]) => {
+        const computeBudgetIxs = instructions.filter((ix) =>
+            ix.programId.equals(ComputeBudgetProgram.programId)
+        )
+        const limitIxs = computeBudgetIxs.filter(
+            (ix) =>
+                ComputeBudgetInstruction.decodeInstructionType(ix) ===
+                'SetComputeUnitLimit'
+        )
+        const priceIxs = computeBudgetIxs.filter(
+            (ix) =>
+                ComputeBudgetInstruction.decodeInstructionType(ix) ===
+                'SetComputeUnitPrice'
+        )
+        return {
+            count: computeBudgetIxs.length,
+            units: limitIxs.map(
+                (ix) =>
+                    ComputeBudgetInstruction.decodeSetComputeUnitLimit(ix).units
+            ),
+            microLamports: priceIxs.map((ix) =>
+                Number(
+                    ComputeBudgetInstruction.decodeSetComputeUnitPrice(ix)
+                        .microLamports
+                )
+            ),
+        }
+    }
+
+    test('no compute budget instructions by default', async () => {
+        const { connection } = createMockConnection(accounts, clock)
+        const poolService = new PoolService(connection, 'confirmed')
+
+        const transaction = await poolService.swap(swapParam)
+        expect(getComputeBudget(transaction.instructions).count).toBe(0)
+    })
+
+    test('fixed compute unit limit and price', async () => {
+        const { connection, calls } = createMockConnection(accounts, clock)
+        const poolService = new PoolService(connection, 'confirmed')
+
+        const transaction = await poolService.swap(swapParam, {
+            computeUnitLimit: 150000,
+            computeUnitPrice: 25000,
+        })
+
+        const computeBudget = getComputeBudget(transaction.instructions)
+        expect(computeBudget.units).toEqual([150000])
+        expect(computeBudget.microLamports).toEqual([25000])
+        expect(
+            transaction.instructions[0].programId.equals(
+                ComputeBudgetProgram.programId
+            )
+        ).toBe(true)
+        expect(calls.simulateTransaction.length).toBe(0)
+        expect(calls.getRecentPrioritizationFees.length).toBe(0)
+    })
+
+    test('auto compute unit limit and price', async () => {
+        const { connection, calls } = createMockConnection(accounts, clock)
+        const poolService = new PoolService(connection, 'confirmed')
+
+        const transaction = await poolService.swap(swapParam, {
+            computeUnitLimit: 'auto',
+            computeUnitPrice: 'auto',
+            versioned: true,
+        })
+
+        // 10% default margin on the 100000 simulated compute units
+        // median of the recent prioritization fees
+        const computeBudget = getComputeBudget(
+            transaction.message.compiledInstructions.map(
+                (ix) =>
+                    new TransactionInstruction({
+                        programId:
+                            transaction.message.staticAccountKeys[
+                                ix.programIdIndex
+                            ],
+                        keys: [],
+                        data: Buffer.from(ix.data),
+                    })
+            )
+        )
+        expect(computeBudget.units).toEqual([110000])
+        expect(computeBudget.microLamports).toEqual([200])
+
+        // the simulation runs with the maximum limit and the compute unit price
+        expect(calls.simulateTransaction.length).toBe(1)
+        const simulatedIxs =
+            calls.simulateTransaction[0].message.compiledInstructions
+        expect(simulatedIxs.length).toBe(
+            transaction.message.compiledInstructions.length
+        )
+
+        const writableAccounts = calls.getRecentPrioritizationFees[0].map(
+            (account) => account.toBase58()
+        )
+        expect(writableAccounts).toContain(poolAddress.toBase58())
+        expect(writableAccounts).toContain(virtualPool.quoteVault.toBase58())
+        expect(writableAccounts).not.toContain(configAddress.toBase58())
+    })
+
+    test('auto compute unit limit respects the margin', async () => {
+        const { connection } = createMockConnection(accounts, clock)
+        const poolService = new PoolService(connection, 'confirmed')
+
+        const transaction = await poolService.swap(swapParam, {
+            computeUnitLimit: 'auto',
+            computeUnitLimitMarginBps: 5000,
+        })
+
+        const computeBudget = getComputeBudget(transaction.instructions)
+        expect(computeBudget.units).toEqual([150000])
+        expect(computeBudget.microLamports).toEqual([])
+    })
+
+    test('existing compute budget instructions are replaced', () => {
+        const transaction = new Transaction().add(
+            ComputeBudgetProgram.setComputeUnitLimit({ units: 500000 }),
+            ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 })
+        )
+
+        const instructions = removeComputeBudgetInstructions(
+            transaction.instructions,
+            ['SetComputeUnitLimit']
+        )
+        expect(getComputeBudget(instructions).units).toEqual([])
+        expect(getComputeBudget(instructions).microLamports).toEqual([1])
+    })
+})
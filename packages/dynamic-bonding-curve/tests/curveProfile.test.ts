@@ -0,0 +1,209 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithMarketCap,
+    buildCurveWithTwoSegments,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    curveSamplesToCsv,
+    describeCurve,
+    MigrationFeeOption,
+    MigrationOption,
+    sampleCurve,
+    TokenDecimal,
+    TokenType,
+} from '../src'
+import { createPoolConfig, createVirtualPool } from './utils/common'
+
+describe('curve profile tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 100000000,
+            numberOfVestingPeriod: 10,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 3600,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    test('segments and totals reconcile with the config', () => {
+        const config = createPoolConfig(
+            buildCurveWithTwoSegments({
+                ...baseParams,
+                initialMarketCap: 20,
+                migrationMarketCap: 600,
+                percentageSupplyOnMigration: 20,
+            })
+        )
+        const profile = describeCurve(config, TokenDecimal.NINE)
+
+        expect(profile.segments.length).toBe(2)
+        expect(
+            profile.segments[0].lowerSqrtPrice.eq(config.sqrtStartPrice)
+        ).toBe(true)
+        expect(
+            profile.segments[1].lowerSqrtPrice.eq(
+                profile.segments[0].upperSqrtPrice
+            )
+        ).toBe(true)
+        expect(profile.segments[0].startPrice.eq(profile.startPrice)).toBe(true)
+        expect(
+            profile.segments[1].endMarketCap.gte(profile.migrationMarketCap)
+        ).toBe(true)
+
+        // the base sold is computed the same way as swapBaseAmount
+        expect(profile.totalBaseSold.eq(config.swapBaseAmount)).toBe(true)
+        // every segment rounds its quote amount up
+        const quoteDifference = profile.totalQuoteRaised.sub(
+            config.migrationQuoteThreshold
+        )
+        expect(quoteDifference.gten(0)).toBe(true)
+        expect(quoteDifference.lten(profile.segments.length)).toBe(true)
+
+        expect(profile.startMarketCap.toNumber()).toBeCloseTo(20, 6)
+        expect(profile.migrationMarketCap.toNumber()).toBeCloseTo(600, 0)
+
+        // 100,000,000 vested and 10,000 left over of the 1,000,000,000 supply,
+        // up to the rounding of the migration base threshold
+        expect(profile.totalSupply.eq(new BN(1000000000).muln(1000000))).toBe(
+            true
+        )
+        expect(profile.lockedVestingAmount.toString()).toBe('100000000000000')
+        expect(profile.leftover.toNumber() / 1e6).toBeCloseTo(10000, 0)
+        expect(
+            profile.totalBaseSold
+                .add(profile.migrationBaseThreshold)
+                .add(profile.lockedVestingAmount)
+                .add(profile.leftover)
+                .eq(profile.totalSupply)
+        ).toBe(true)
+    })
+
+    test('segments above the migration price are not traded', () => {
+        const config = createPoolConfig(
+            buildCurveWithMarketCap({
+                ...baseParams,
+                initialMarketCap: 20,
+                migrationMarketCap: 600,
+            })
+        )
+        // a segment added above the last one is never reached
+        const lastSegment = config.curve[1]
+        config.curve[2] = {
+            sqrtPrice: config.migrationSqrtPrice.muln(2),
+            liquidity: lastSegment.liquidity,
+        }
+        config.curve[1] = {
+            sqrtPrice: config.migrationSqrtPrice,
+            liquidity: lastSegment.liquidity,
+        }
+
+        const profile = describeCurve(
+            { ...config, fixedTokenSupplyFlag: 0 },
+            TokenDecimal.NINE
+        )
+        const segment = profile.segments.at(-1)!
+        expect(profile.segments.length).toBe(3)
+        expect(segment.baseAmount.isZero()).toBe(true)
+        expect(segment.quoteAmount.isZero()).toBe(true)
+        expect(segment.endPrice.gt(profile.migrationPrice)).toBe(true)
+
+        // without a fixed supply nothing is left over
+        expect(profile.leftover.isZero()).toBe(true)
+        expect(
+            profile.totalSupply.eq(
+                config.swapBaseAmount
+                    .add(config.migrationBaseThreshold)
+                    .add(profile.lockedVestingAmount)
+            )
+        ).toBe(true)
+    })
+
+    test('curve samples go from the start to the migration price', () => {
+        const configParams = buildCurveWithTwoSegments({
+            ...baseParams,
+            initialMarketCap: 20,
+            migrationMarketCap: 600,
+            percentageSupplyOnMigration: 20,
+        })
+        const config = createPoolConfig(configParams)
+        // a pool half way through the curve in sqrt price
+        const virtualPool = createVirtualPool(config, {
+            sqrtPrice: config.sqrtStartPrice
+                .add(config.migrationSqrtPrice)
+                .divn(2),
+        })
+
+        const samples = sampleCurve(config, TokenDecimal.NINE, virtualPool, 11)
+        expect(samples.points.length).toBe(11)
+        expect(samples.points[0].baseSold).toBe(0)
+        expect(samples.points[0].quoteRaised).toBe(0)
+        expect(samples.points[5].sqrtPrice).toBe(samples.current!.sqrtPrice)
+        expect(samples.migration.sqrtPrice).toBe(
+            config.migrationSqrtPrice.toString()
+        )
+        expect(samples.migration.baseSold).toBe(
+            config.swapBaseAmount.toNumber() / 1e6
+        )
+        expect(samples.migration.quoteRaised).toBeCloseTo(
+            config.migrationQuoteThreshold.toNumber() / 1e9,
+            6
+        )
+        for (let i = 1; i < samples.points.length; i++) {
+            expect(samples.points[i].price).toBeGreaterThan(
+                samples.points[i - 1].price
+            )
+            expect(samples.points[i].baseSold).toBeGreaterThan(
+                samples.points[i - 1].baseSold
+            )
+        }
+
+        // the config parameters are sampled the same way as the config
+        expect(
+            sampleCurve(configParams, TokenDecimal.NINE, null, 11).points
+        ).toEqual(samples.points)
+        // the samples are plain numbers and strings
+        expect(JSON.parse(JSON.stringify(samples))).toEqual(samples)
+
+        const rows = curveSamplesToCsv(samples).split('\n')
+        expect(rows.length).toBe(13)
+        expect(rows[0]).toBe('sqrtPrice,price,baseSold,quoteRaised,marker')
+        expect(rows[7].endsWith(',current')).toBe(true)
+        expect(rows[12].endsWith(',migration')).toBe(true)
+
+        expect(() => sampleCurve(config, TokenDecimal.NINE, null, 1)).toThrow(
+            'Sample count must be an integer of at least 2'
+        )
+    })
+})
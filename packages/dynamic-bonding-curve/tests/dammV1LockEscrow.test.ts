@@ -0,0 +1,403 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import { AccountInfo, Connection, Keypair, PublicKey } from '@solana/web3.js'
+import { BorshAccountsCoder } from '@coral-xyz/anchor'
+import {
+    ACCOUNT_SIZE,
+    AccountLayout,
+    MINT_SIZE,
+    MintLayout,
+    NATIVE_MINT,
+    TOKEN_PROGRAM_ID,
+} from '@solana/spl-token'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithMarketCap,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    createDammV1Program,
+    createVaultProgram,
+    DAMM_V1_MIGRATION_FEE_ADDRESS,
+    DAMM_V1_PROGRAM_ID,
+    deriveDammV1LockEscrowAddress,
+    deriveDammV1PoolAddress,
+    DynamicBondingCurveClient,
+    getDammV1LockEscrowUnclaimedFee,
+    getDammV1VirtualPrice,
+    getDynamicVaultUnlockedAmount,
+    LockEscrow,
+    MigrationFeeOption,
+    MigrationOption,
+    MigrationProgress,
+    TokenDecimal,
+    TokenType,
+    U64_MAX,
+    VAULT_PROGRAM_ID,
+} from '../src'
+import {
+    createMockConnection,
+    createPoolConfig,
+    createVirtualPool,
+    encodeAccountData,
+} from './utils/common'
+
+describe('DAMM V1 lock escrow fee tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 50,
+        creatorLockedLpPercentage: 50,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const clock = { currentSlot: 1000, currentTime: 1750000000 }
+    const dummyConnection = new Connection('http://localhost:8899')
+    const dammV1Coder = createDammV1Program(dummyConnection).coder
+        .accounts as BorshAccountsCoder
+    const vaultCoder = createVaultProgram(dummyConnection).coder
+        .accounts as BorshAccountsCoder
+
+    const feeClaimer = Keypair.generate()
+    const creator = Keypair.generate()
+    const payer = Keypair.generate()
+    const configAddress = Keypair.generate().publicKey
+    const poolAddress = Keypair.generate().publicKey
+    const baseMint = Keypair.generate().publicKey
+    const quoteMint = NATIVE_MINT
+    const config = createPoolConfig(
+        buildCurveWithMarketCap({
+            ...baseParams,
+            initialMarketCap: 20,
+            migrationMarketCap: 600,
+        }),
+        { quoteMint, feeClaimer: feeClaimer.publicKey }
+    )
+    const dammPool = deriveDammV1PoolAddress(
+        DAMM_V1_MIGRATION_FEE_ADDRESS[MigrationFeeOption.FixedBps100],
+        baseMint,
+        quoteMint
+    )
+
+    // zero initialized account with the given fields
+    const createAccount = <T>(
+        coder: BorshAccountsCoder,
+        accountName: string,
+        fields: Partial<T>
+    ) =>
+        ({
+            ...coder.decode<T>(
+                accountName,
+                Buffer.concat([
+                    coder.accountDiscriminator(accountName),
+                    Buffer.alloc(2000),
+                ])
+            ),
+            ...fields,
+        }) as T
+
+    const keys = {
+        aVault: Keypair.generate().publicKey,
+        bVault: Keypair.generate().publicKey,
+        aVaultLp: Keypair.generate().publicKey,
+        bVaultLp: Keypair.generate().publicKey,
+        aVaultLpMint: Keypair.generate().publicKey,
+        bVaultLpMint: Keypair.generate().publicKey,
+        aTokenVault: Keypair.generate().publicKey,
+        bTokenVault: Keypair.generate().publicKey,
+        lpMint: Keypair.generate().publicKey,
+    }
+
+    const setup = (lockEscrowOwner: PublicKey) => {
+        const virtualPool = createVirtualPool(config, {
+            config: configAddress,
+            creator: creator.publicKey,
+            baseMint,
+            baseVault: Keypair.generate().publicKey,
+            quoteVault: Keypair.generate().publicKey,
+            migrationProgress: MigrationProgress.CreatedPool,
+            isMigrated: 1,
+        })
+        const { connection } = createMockConnection(
+            [
+                { address: configAddress, type: 'poolConfig', data: config },
+                {
+                    address: poolAddress,
+                    type: 'virtualPool',
+                    data: virtualPool,
+                },
+            ],
+            clock
+        )
+
+        const extraAccounts = new Map<string, AccountInfo<Buffer>>()
+        const addAccount = (
+            address: PublicKey,
+            data: Buffer,
+            owner: PublicKey
+        ) =>
+            extraAccounts.set(address.toBase58(), {
+                data,
+                owner,
+                executable: false,
+                lamports: 1,
+            })
+        const addProgramAccount = (
+            coder: BorshAccountsCoder,
+            owner: PublicKey,
+            address: PublicKey,
+            accountName: string,
+            fields: object
+        ) =>
+            addAccount(
+                address,
+                encodeAccountData(
+                    coder,
+                    accountName,
+                    createAccount(coder, accountName, fields)
+                ),
+                owner
+            )
+        const addMint = (address: PublicKey, supply: number) => {
+            const data = Buffer.alloc(MINT_SIZE)
+            MintLayout.encode(
+                {
+                    mintAuthorityOption: 0,
+                    mintAuthority: PublicKey.default,
+                    supply: BigInt(supply),
+                    decimals: TokenDecimal.NINE,
+                    isInitialized: true,
+                    freezeAuthorityOption: 0,
+                    freezeAuthority: PublicKey.default,
+                },
+                data
+            )
+            addAccount(address, data, TOKEN_PROGRAM_ID)
+        }
+        const addTokenAccount = (
+            address: PublicKey,
+            mint: PublicKey,
+            amount: number
+        ) => {
+            const data = Buffer.alloc(ACCOUNT_SIZE)
+            AccountLayout.encode(
+                {
+                    mint,
+                    owner: dammPool,
+                    amount: BigInt(amount),
+                    delegateOption: 0,
+                    delegate: PublicKey.default,
+                    state: 1,
+                    isNativeOption: 0,
+                    isNative: BigInt(0),
+                    delegatedAmount: BigInt(0),
+                    closeAuthorityOption: 0,
+                    closeAuthority: PublicKey.default,
+                },
+                data
+            )
+            addAccount(address, data, TOKEN_PROGRAM_ID)
+        }
+
+        addProgramAccount(dammV1Coder, DAMM_V1_PROGRAM_ID, dammPool, 'pool', {
+            lpMint: keys.lpMint,
+            tokenAMint: baseMint,
+            tokenBMint: quoteMint,
+            aVault: keys.aVault,
+            bVault: keys.bVault,
+            aVaultLp: keys.aVaultLp,
+            bVaultLp: keys.bVaultLp,
+        })
+        // 900,000 of vault A is unlocked, half of its 200,000 profit is still locked
+        addProgramAccount(vaultCoder, VAULT_PROGRAM_ID, keys.aVault, 'vault', {
+            totalAmount: new BN(1000000),
+            tokenVault: keys.aTokenVault,
+            lpMint: keys.aVaultLpMint,
+            lockedProfitTracker: {
+                lastUpdatedLockedProfit: new BN(200000),
+                lastReport: new BN(clock.currentTime - 100),
+                lockedProfitDegradation: new BN(5000000000),
+            },
+        })
+        addProgramAccount(vaultCoder, VAULT_PROGRAM_ID, keys.bVault, 'vault', {
+            totalAmount: new BN(200000),
+            tokenVault: keys.bTokenVault,
+            lpMint: keys.bVaultLpMint,
+        })
+        // the pool owns half of vault A and all of vault B
+        addMint(keys.aVaultLpMint, 2000)
+        addMint(keys.bVaultLpMint, 1000)
+        addTokenAccount(keys.aVaultLp, keys.aVaultLpMint, 1000)
+        addTokenAccount(keys.bVaultLp, keys.bVaultLpMint, 1000)
+        addMint(keys.lpMint, 1000)
+
+        const lockEscrow = deriveDammV1LockEscrowAddress(
+            dammPool,
+            lockEscrowOwner
+        )
+        addProgramAccount(
+            dammV1Coder,
+            DAMM_V1_PROGRAM_ID,
+            lockEscrow,
+            'lockEscrow',
+            {
+                pool: dammPool,
+                owner: lockEscrowOwner,
+                totalLockedAmount: new BN(800),
+                lpPerToken: new BN(200).shln(64),
+                unclaimedFeePending: new BN(10),
+            }
+        )
+
+        const getAccountInfo = async (key: PublicKey) =>
+            extraAccounts.get(key.toBase58()) ?? connection.getAccountInfo(key)
+        const lockEscrowConnection = {
+            ...connection,
+            getAccountInfo,
+            getAccountInfoAndContext: async (key: PublicKey) => ({
+                context: { slot: clock.currentSlot },
+                value: await getAccountInfo(key),
+            }),
+            getMultipleAccountsInfo: async (keys: PublicKey[]) =>
+                keys.map((key) => extraAccounts.get(key.toBase58()) ?? null),
+        } as unknown as Connection
+
+        const { migration } =
+            DynamicBondingCurveClient.create(lockEscrowConnection)
+        return { migration, lockEscrow }
+    }
+
+    test('lock escrow fee follows the growth of the virtual price', () => {
+        // sqrt(4 * 9) / 3 = 2
+        const virtualPrice = getDammV1VirtualPrice(
+            new BN(4),
+            new BN(9),
+            new BN(3)
+        )
+        expect(virtualPrice.eq(new BN(2).shln(64))).toBe(true)
+        expect(
+            getDammV1VirtualPrice(new BN(4), new BN(9), new BN(0)).isZero()
+        ).toBe(true)
+
+        const lockEscrow = {
+            totalLockedAmount: new BN(1000),
+            lpPerToken: new BN(3).shln(63),
+            unclaimedFeePending: new BN(7),
+        } as LockEscrow
+        // 1000 * (2 - 1.5) / 2 + 7
+        expect(
+            getDammV1LockEscrowUnclaimedFee(lockEscrow, virtualPrice).toNumber()
+        ).toBe(257)
+        // no new fee when the virtual price has not grown
+        expect(
+            getDammV1LockEscrowUnclaimedFee(
+                lockEscrow,
+                new BN(1).shln(64)
+            ).toNumber()
+        ).toBe(7)
+
+        const vault = createAccount<
+            Parameters<typeof getDynamicVaultUnlockedAmount>[0]
+        >(vaultCoder, 'vault', {
+            totalAmount: new BN(1000),
+            lockedProfitTracker: {
+                lastUpdatedLockedProfit: new BN(100),
+                lastReport: new BN(100),
+                lockedProfitDegradation: new BN(10000000000),
+            },
+        })
+        expect(
+            getDynamicVaultUnlockedAmount(vault, new BN(150)).toNumber()
+        ).toBe(950)
+        expect(
+            getDynamicVaultUnlockedAmount(vault, new BN(201)).toNumber()
+        ).toBe(1000)
+    })
+
+    test('partner lock escrow fee is quoted and claimed', async () => {
+        const { migration, lockEscrow } = setup(feeClaimer.publicKey)
+
+        // pool holds 450,000 token A and 200,000 token B for 1,000 LP,
+        // so the virtual price grew from 200 to 300
+        const fee = await migration.getDammV1LockEscrowFee({
+            virtualPool: poolAddress,
+            isPartner: true,
+        })
+        expect(fee.lockEscrow.equals(lockEscrow)).toBe(true)
+        expect(fee.owner.equals(feeClaimer.publicKey)).toBe(true)
+        // 800 * (300 - 200) / 300 + 10
+        expect(fee.lpFee.toNumber()).toBe(276)
+        expect(fee.tokenAAmount.toNumber()).toBe(124200)
+        expect(fee.tokenBAmount.toNumber()).toBe(55200)
+
+        const { instructions, cleanupInstructions } =
+            await migration.claimDammV1LockEscrowFeeInstructions({
+                payer: payer.publicKey,
+                virtualPool: poolAddress,
+                isPartner: true,
+            })
+        const [instruction] = instructions
+        expect(instruction.programId.equals(DAMM_V1_PROGRAM_ID)).toBe(true)
+        const ownerKey = instruction.keys.find((key) =>
+            key.pubkey.equals(feeClaimer.publicKey)
+        )
+        expect(ownerKey?.isSigner).toBe(true)
+        expect(instruction.keys[7].pubkey.equals(keys.aTokenVault)).toBe(true)
+        // the whole fee is claimed by default
+        expect(new BN(instruction.data.subarray(8, 16), 'le').eq(U64_MAX)).toBe(
+            true
+        )
+        // the quote token is SOL
+        expect(cleanupInstructions.length).toBe(1)
+    })
+
+    test('creator lock escrow is required to quote its fee', async () => {
+        const { migration } = setup(creator.publicKey)
+
+        expect(
+            (
+                await migration.getDammV1LockEscrowFee({
+                    virtualPool: poolAddress,
+                    isPartner: false,
+                })
+            ).owner.equals(creator.publicKey)
+        ).toBe(true)
+        await expect(
+            migration.getDammV1LockEscrowFee({
+                virtualPool: poolAddress,
+                isPartner: true,
+            })
+        ).rejects.toThrow('Lock escrow not found')
+    })
+})
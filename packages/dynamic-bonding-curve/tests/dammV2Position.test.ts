@@ -0,0 +1,333 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import { AccountInfo, Connection, Keypair, PublicKey } from '@solana/web3.js'
+import { BorshAccountsCoder } from '@coral-xyz/anchor'
+import {
+    ACCOUNT_SIZE,
+    AccountLayout,
+    TOKEN_2022_PROGRAM_ID,
+} from '@solana/spl-token'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithMarketCap,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    createDammV2Program,
+    DAMM_V2_MIGRATION_FEE_ADDRESS,
+    DAMM_V2_PROGRAM_ID,
+    DammV2Pool,
+    DammV2Position,
+    deriveDammV2PoolAddress,
+    derivePositionAddress,
+    derivePositionNftAccount,
+    DynamicBondingCurveClient,
+    getDammV2WithdrawQuote,
+    MigrationFeeOption,
+    MigrationOption,
+    MigrationProgress,
+    TokenDecimal,
+    TokenType,
+} from '../src'
+import {
+    createMockConnection,
+    createPoolConfig,
+    createVirtualPool,
+    encodeAccountData,
+    Q,
+} from './utils/common'
+
+describe('DAMM V2 position tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const clock = { currentSlot: 1000, currentTime: 1750000000 }
+    const coder = createDammV2Program(new Connection('http://localhost:8899'))
+        .coder.accounts as BorshAccountsCoder
+
+    const owner = Keypair.generate()
+    const configAddress = Keypair.generate().publicKey
+    const poolAddress = Keypair.generate().publicKey
+    const baseMint = Keypair.generate().publicKey
+    const quoteMint = Keypair.generate().publicKey
+    const config = createPoolConfig(
+        buildCurveWithMarketCap({
+            ...baseParams,
+            initialMarketCap: 20,
+            migrationMarketCap: 600,
+        }),
+        { quoteMint }
+    )
+    const dammPool = deriveDammV2PoolAddress(
+        DAMM_V2_MIGRATION_FEE_ADDRESS[MigrationFeeOption.FixedBps100],
+        baseMint,
+        quoteMint
+    )
+
+    // zero initialized DAMM V2 account with the given fields
+    const createDammV2Account = <T>(accountName: string, fields: Partial<T>) =>
+        ({
+            ...coder.decode<T>(
+                accountName,
+                Buffer.concat([
+                    coder.accountDiscriminator(accountName),
+                    Buffer.alloc(2000),
+                ])
+            ),
+            ...fields,
+        }) as T
+
+    // u256 fee per liquidity, little endian
+    const feePerLiquidity = (fee: BN) => fee.toArray('le', 32)
+
+    const dammPoolState = createDammV2Account<DammV2Pool>('pool', {
+        tokenAMint: baseMint,
+        tokenBMint: quoteMint,
+        tokenAVault: Keypair.generate().publicKey,
+        tokenBVault: Keypair.generate().publicKey,
+        sqrtMinPrice: Q(0.5),
+        sqrtPrice: Q(1),
+        sqrtMaxPrice: Q(2),
+        // 3 token A and 5 token B of fees per unit of liquidity
+        feeAPerLiquidity: feePerLiquidity(new BN(3).shln(128)),
+        feeBPerLiquidity: feePerLiquidity(new BN(5).shln(128)),
+    })
+
+    const setup = (isMigrated: number) => {
+        const virtualPool = createVirtualPool(config, {
+            config: configAddress,
+            baseMint,
+            baseVault: Keypair.generate().publicKey,
+            quoteVault: Keypair.generate().publicKey,
+            migrationProgress: MigrationProgress.CreatedPool,
+            isMigrated,
+        })
+        const { connection } = createMockConnection(
+            [
+                { address: configAddress, type: 'poolConfig', data: config },
+                {
+                    address: poolAddress,
+                    type: 'virtualPool',
+                    data: virtualPool,
+                },
+            ],
+            clock
+        )
+
+        const dammV2Accounts = new Map<string, AccountInfo<Buffer>>()
+        const tokenAccounts: Array<{
+            pubkey: PublicKey
+            account: AccountInfo<Buffer>
+        }> = []
+        const addAccount = (
+            address: PublicKey,
+            accountName: string,
+            data: unknown
+        ) =>
+            dammV2Accounts.set(address.toBase58(), {
+                data: encodeAccountData(coder, accountName, data),
+                owner: DAMM_V2_PROGRAM_ID,
+                executable: false,
+                lamports: 1,
+            })
+        addAccount(dammPool, 'pool', dammPoolState)
+
+        // a position NFT held by the owner, for a position of the given pool
+        const addPosition = (
+            pool: PublicKey,
+            fields: Partial<DammV2Position>
+        ) => {
+            const nftMint = Keypair.generate().publicKey
+            const position = derivePositionAddress(nftMint)
+            addAccount(
+                position,
+                'position',
+                createDammV2Account<DammV2Position>('position', {
+                    pool,
+                    nftMint,
+                    ...fields,
+                })
+            )
+
+            const data = Buffer.alloc(ACCOUNT_SIZE)
+            AccountLayout.encode(
+                {
+                    mint: nftMint,
+                    owner: owner.publicKey,
+                    amount: BigInt(1),
+                    delegateOption: 0,
+                    delegate: PublicKey.default,
+                    state: 1,
+                    isNativeOption: 0,
+                    isNative: BigInt(0),
+                    delegatedAmount: BigInt(0),
+                    closeAuthorityOption: 0,
+                    closeAuthority: PublicKey.default,
+                },
+                data
+            )
+            tokenAccounts.push({
+                pubkey: derivePositionNftAccount(nftMint),
+                account: {
+                    data,
+                    owner: TOKEN_2022_PROGRAM_ID,
+                    executable: false,
+                    lamports: 1,
+                },
+            })
+            return position
+        }
+
+        const getAccountInfo = async (key: PublicKey) =>
+            dammV2Accounts.get(key.toBase58()) ?? connection.getAccountInfo(key)
+        const dammV2Connection = {
+            ...connection,
+            getAccountInfo,
+            getAccountInfoAndContext: async (key: PublicKey) => ({
+                context: { slot: clock.currentSlot },
+                value: await getAccountInfo(key),
+            }),
+            getMultipleAccountsInfo: async (keys: PublicKey[]) =>
+                keys.map((key) => dammV2Accounts.get(key.toBase58()) ?? null),
+            getTokenAccountsByOwner: async () => ({
+                context: { slot: clock.currentSlot },
+                value: tokenAccounts,
+            }),
+        } as unknown as Connection
+
+        const { dammV2Position } =
+            DynamicBondingCurveClient.create(dammV2Connection)
+        return { dammV2Position, addPosition }
+    }
+
+    test('positions of the owner are found with their unclaimed fees', async () => {
+        const { dammV2Position, addPosition } = setup(1)
+        const position = addPosition(dammPool, {
+            unlockedLiquidity: new BN(1000),
+            permanentLockedLiquidity: new BN(500),
+            feeAPerTokenCheckpoint: feePerLiquidity(new BN(1).shln(128)),
+            feeAPending: new BN(7),
+        })
+        // a position in another DAMM V2 pool is ignored
+        addPosition(Keypair.generate().publicKey, {
+            unlockedLiquidity: new BN(1000),
+        })
+
+        const positions = await dammV2Position.getPositionsByOwner(
+            poolAddress,
+            owner.publicKey
+        )
+
+        expect(positions.length).toBe(1)
+        expect(positions[0].position.equals(position)).toBe(true)
+        // 1500 liquidity * (3 - 1) + 7 pending, 1500 liquidity * 5
+        expect(positions[0].unclaimedFee.feeTokenA.toNumber()).toBe(3007)
+        expect(positions[0].unclaimedFee.feeTokenB.toNumber()).toBe(7500)
+
+        const unclaimedFee = await dammV2Position.getUnclaimedFee(position)
+        expect(unclaimedFee.feeTokenA.toNumber()).toBe(3007)
+    })
+
+    test('claim, remove liquidity and lock instructions are built for the owner', async () => {
+        const { dammV2Position, addPosition } = setup(1)
+        const position = addPosition(dammPool, {
+            unlockedLiquidity: Q(1000),
+        })
+        const param = {
+            owner: owner.publicKey,
+            payer: owner.publicKey,
+            position,
+        }
+
+        const claim = await dammV2Position.claimPositionFeeInstructions(param)
+        expect(claim.setupInstructions.length).toBe(2)
+        const ownerKey = claim.instructions[0].keys.find((key) =>
+            key.pubkey.equals(owner.publicKey)
+        )
+        expect(ownerKey?.isSigner).toBe(true)
+
+        const liquidityDelta = Q(100)
+        const quote = getDammV2WithdrawQuote(dammPoolState, liquidityDelta)
+        expect(quote.tokenAAmount.gtn(0)).toBe(true)
+        expect(quote.tokenBAmount.gtn(0)).toBe(true)
+
+        const remove = await dammV2Position.removeLiquidityInstructions({
+            ...param,
+            liquidityDelta,
+            slippageBps: 100,
+        })
+        expect(
+            remove.instructions[0].programId.equals(DAMM_V2_PROGRAM_ID)
+        ).toBe(true)
+        await expect(
+            dammV2Position.removeLiquidityInstructions({
+                ...param,
+                liquidityDelta: Q(1001),
+            })
+        ).rejects.toThrow('Liquidity delta exceeds the unlocked liquidity')
+
+        const lock = await dammV2Position.lockPositionInstructions({
+            ...param,
+            cliffPoint: null,
+            periodFrequency: new BN(3600),
+            cliffUnlockLiquidity: new BN(0),
+            liquidityPerPeriod: Q(10),
+            numberOfPeriod: 100,
+        })
+        expect(lock.signers.length).toBe(1)
+        expect(
+            lock.instructions[0].keys.some(
+                (key) =>
+                    key.pubkey.equals(lock.signers[0].publicKey) && key.isSigner
+            )
+        ).toBe(true)
+
+        const permanentLock =
+            await dammV2Position.permanentLockPositionInstructions(param)
+        expect(permanentLock.instructions.length).toBe(1)
+    })
+
+    test('positions are only available once the pool is migrated', async () => {
+        const { dammV2Position } = setup(0)
+
+        await expect(
+            dammV2Position.getPositionsByOwner(poolAddress, owner.publicKey)
+        ).rejects.toThrow('Pool is not migrated')
+    })
+})
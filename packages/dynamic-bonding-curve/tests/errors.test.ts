@@ -0,0 +1,91 @@
+import { expect, test, describe } from 'bun:test'
+import { Keypair, SendTransactionError } from '@solana/web3.js'
+import {
+    DAMM_V2_PROGRAM_ID,
+    DammV2Error,
+    DbcError,
+    decodeProgramError,
+    DYNAMIC_BONDING_CURVE_PROGRAM_ID,
+    MeteoraProgramError,
+    parseProgramError,
+    parseProgramErrorFromLogs,
+    parseSendTransactionError,
+    VAULT_PROGRAM_ID,
+    VaultError,
+} from '../src'
+import { createMockConnection } from './utils/common'
+
+describe('program error tests', () => {
+    const dbc = DYNAMIC_BONDING_CURVE_PROGRAM_ID.toBase58()
+    const dammV2 = DAMM_V2_PROGRAM_ID.toBase58()
+
+    test('decode known program error codes', () => {
+        const dbcError = decodeProgramError(
+            DYNAMIC_BONDING_CURVE_PROGRAM_ID,
+            6000
+        )
+        expect(dbcError).toBeInstanceOf(DbcError)
+        expect(dbcError).toBeInstanceOf(MeteoraProgramError)
+        expect(dbcError?.errorName).toBe('mathOverflow')
+        expect(dbcError?.message).toBe('Math operation overflow')
+        expect(dbcError?.code).toBe(6000)
+
+        const vaultError = decodeProgramError(VAULT_PROGRAM_ID, 6000)
+        expect(vaultError).toBeInstanceOf(VaultError)
+        expect(vaultError?.errorName).toBe('vaultIsDisabled')
+    })
+
+    test('unknown program or code is not decoded', () => {
+        expect(
+            decodeProgramError(Keypair.generate().publicKey, 6000)
+        ).toBeNull()
+        expect(
+            decodeProgramError(DYNAMIC_BONDING_CURVE_PROGRAM_ID, 1)
+        ).toBeNull()
+    })
+
+    test('the program that threw the error is parsed from CPI logs', () => {
+        const logs = [
+            `Program ${dbc} invoke [1]`,
+            'Program log: Instruction: MigrationDammV2',
+            `Program ${dammV2} invoke [2]`,
+            `Program ${dammV2} consumed 20000 of 180000 compute units`,
+            `Program ${dammV2} failed: custom program error: 0x1770`,
+            `Program ${dbc} consumed 40000 of 200000 compute units`,
+            `Program ${dbc} failed: custom program error: 0x1770`,
+        ]
+
+        const programError = parseProgramErrorFromLogs(logs)
+        expect(programError).toBeInstanceOf(DammV2Error)
+        expect(programError?.programId.equals(DAMM_V2_PROGRAM_ID)).toBe(true)
+        expect(programError?.logs).toEqual(logs)
+    })
+
+    test('send transaction error logs are parsed', async () => {
+        const logs = [
+            `Program ${dbc} invoke [1]`,
+            'Program log: Instruction: Swap',
+            `Program ${dbc} failed: custom program error: 0x1771`,
+        ]
+        const error = new SendTransactionError({
+            action: 'simulate',
+            signature: '',
+            transactionMessage:
+                'Transaction simulation failed: Error processing Instruction 0: custom program error: 0x1771',
+            logs,
+        })
+
+        const programError = parseProgramError(error)
+        expect(programError).toBeInstanceOf(DbcError)
+        expect(programError?.errorName).toBe('invalidFee')
+
+        const { connection } = createMockConnection([], {
+            currentSlot: 1000,
+            currentTime: 1750000000,
+        })
+        const sendError = await parseSendTransactionError(connection, error)
+        expect(sendError?.code).toBe(6001)
+
+        expect(parseProgramError(new Error('Blockhash not found'))).toBeNull()
+    })
+})
@@ -0,0 +1,165 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import {
+    Connection,
+    Keypair,
+    PublicKey,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedTransactionResponse,
+} from '@solana/web3.js'
+import { utils } from '@coral-xyz/anchor'
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token'
+import {
+    deriveDbcEventAuthority,
+    DYNAMIC_BONDING_CURVE_PROGRAM_ID,
+    EVENT_IX_TAG,
+    EventService,
+} from '../src'
+import { encodeEventData } from './utils/common'
+
+describe('event parser tests', () => {
+    const eventService = new EventService(
+        new Connection('http://localhost:8899'),
+        'confirmed'
+    )
+    const coder = eventService.program.coder.events
+
+    const dbc = DYNAMIC_BONDING_CURVE_PROGRAM_ID.toBase58()
+    const token = TOKEN_PROGRAM_ID.toBase58()
+
+    const curveComplete = {
+        pool: Keypair.generate().publicKey,
+        config: Keypair.generate().publicKey,
+        baseReserve: new BN(1000),
+        quoteReserve: new BN(2000),
+    }
+    const withdrawLeftover = {
+        pool: Keypair.generate().publicKey,
+        leftoverReceiver: Keypair.generate().publicKey,
+        leftoverAmount: new BN(500),
+    }
+    const curveCompleteData = encodeEventData(
+        coder,
+        'evtCurveComplete',
+        curveComplete
+    )
+    const withdrawLeftoverData = encodeEventData(
+        coder,
+        'evtWithdrawLeftover',
+        withdrawLeftover
+    )
+
+    test('program data logs are linked to their instruction', () => {
+        const logs = [
+            `Program ${dbc} invoke [1]`,
+            'Program log: Instruction: Swap',
+            `Program ${token} invoke [2]`,
+            // logged by a CPI, not by the DBC program
+            `Program data: ${withdrawLeftoverData.toString('base64')}`,
+            `Program ${token} success`,
+            `Program data: ${curveCompleteData.toString('base64')}`,
+            `Program ${dbc} success`,
+            `Program ${dbc} invoke [1]`,
+            'Program log: Instruction: WithdrawLeftover',
+            `Program data: ${withdrawLeftoverData.toString('base64')}`,
+            `Program ${dbc} success`,
+        ]
+
+        const events = eventService.parseLogs(logs, 'signature')
+        expect(events.map((event) => event.name)).toEqual([
+            'evtCurveComplete',
+            'evtWithdrawLeftover',
+        ])
+        expect(events.map((event) => event.instructionIndex)).toEqual([0, 1])
+        expect(events[0].signature).toBe('signature')
+        expect(events[0].innerInstructionIndex).toBeNull()
+
+        const [event] = eventService.filterEvents(events, 'evtCurveComplete')
+        expect(event.data.pool.equals(curveComplete.pool)).toBe(true)
+        expect(event.data.quoteReserve.eq(curveComplete.quoteReserve)).toBe(
+            true
+        )
+    })
+
+    test('self-CPI events are parsed from a fetched transaction', () => {
+        const payer = Keypair.generate().publicKey
+        const eventAuthority = deriveDbcEventAuthority()
+        const message = new TransactionMessage({
+            payerKey: payer,
+            recentBlockhash: PublicKey.default.toBase58(),
+            instructions: [
+                new TransactionInstruction({
+                    programId: DYNAMIC_BONDING_CURVE_PROGRAM_ID,
+                    keys: [
+                        {
+                            pubkey: eventAuthority,
+                            isSigner: false,
+                            isWritable: false,
+                        },
+                    ],
+                    data: Buffer.alloc(8),
+                }),
+            ],
+        }).compileToV0Message()
+        const keys = message.staticAccountKeys
+        const programIdIndex = keys.findIndex((key) =>
+            key.equals(DYNAMIC_BONDING_CURVE_PROGRAM_ID)
+        )
+        const eventAuthorityIndex = keys.findIndex((key) =>
+            key.equals(eventAuthority)
+        )
+        const eventInstruction = (data: Buffer) => ({
+            programIdIndex,
+            accounts: [eventAuthorityIndex],
+            data: utils.bytes.bs58.encode(Buffer.concat([EVENT_IX_TAG, data])),
+        })
+
+        const transaction = {
+            slot: 1000,
+            blockTime: 1750000000,
+            transaction: { message, signatures: ['signature'] },
+            meta: {
+                err: null,
+                fee: 5000,
+                preBalances: [],
+                postBalances: [],
+                logMessages: [],
+                innerInstructions: [
+                    {
+                        index: 0,
+                        instructions: [
+                            eventInstruction(curveCompleteData),
+                            // not an event instruction
+                            {
+                                programIdIndex,
+                                accounts: [eventAuthorityIndex],
+                                data: utils.bytes.bs58.encode(
+                                    curveCompleteData
+                                ),
+                            },
+                            eventInstruction(withdrawLeftoverData),
+                        ],
+                    },
+                ],
+            },
+        } as unknown as VersionedTransactionResponse
+
+        const events = eventService.parseTransaction(transaction)
+        expect(events.map((event) => event.name)).toEqual([
+            'evtCurveComplete',
+            'evtWithdrawLeftover',
+        ])
+        expect(events.map((event) => event.innerInstructionIndex)).toEqual([
+            0, 2,
+        ])
+        expect(events[1].signature).toBe('signature')
+        expect(events[1].instructionIndex).toBe(0)
+
+        const failed = {
+            ...transaction,
+            meta: { ...transaction.meta, err: { InstructionError: [0, {}] } },
+        } as unknown as VersionedTransactionResponse
+        expect(eventService.parseTransaction(failed)).toEqual([])
+    })
+})
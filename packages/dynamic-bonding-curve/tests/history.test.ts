@@ -0,0 +1,413 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import Decimal from 'decimal.js'
+import {
+    ConfirmedSignatureInfo,
+    Connection,
+    Keypair,
+    PublicKey,
+    SignaturesForAddressOptions,
+    TransactionInstruction,
+    TransactionMessage,
+} from '@solana/web3.js'
+import { MINT_SIZE, MintLayout, TOKEN_PROGRAM_ID } from '@solana/spl-token'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCandles,
+    buildCurveWithMarketCap,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    DYNAMIC_BONDING_CURVE_PROGRAM_ID,
+    getSqrtPriceFromPrice,
+    HistoryService,
+    InMemoryTradeHistoryStorage,
+    MigrationFeeOption,
+    MigrationOption,
+    TokenDecimal,
+    TokenType,
+    Trade,
+    TradeDirection,
+} from '../src'
+import {
+    createMockConnection,
+    createPoolConfig,
+    createVirtualPool,
+    encodeEventData,
+} from './utils/common'
+
+describe('trade history tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const clock = { currentSlot: 1000, currentTime: 1750000000 }
+    const dbc = DYNAMIC_BONDING_CURVE_PROGRAM_ID.toBase58()
+    const { coder } = new HistoryService(
+        new Connection('http://localhost:8899'),
+        'confirmed'
+    ).program
+
+    const configAddress = Keypair.generate().publicKey
+    const poolAddress = Keypair.generate().publicKey
+    const quoteMint = Keypair.generate().publicKey
+    const config = createPoolConfig(
+        buildCurveWithMarketCap({
+            ...baseParams,
+            initialMarketCap: 20,
+            migrationMarketCap: 600,
+        }),
+        { quoteMint }
+    )
+    const virtualPool = createVirtualPool(config, {
+        config: configAddress,
+        baseMint: Keypair.generate().publicKey,
+        baseVault: Keypair.generate().publicKey,
+        quoteVault: Keypair.generate().publicKey,
+    })
+
+    // a chain of swap transactions on the pool, oldest first
+    const createChain = () => {
+        const { connection } = createMockConnection(
+            [
+                { address: configAddress, type: 'poolConfig', data: config },
+                {
+                    address: poolAddress,
+                    type: 'virtualPool',
+                    data: virtualPool,
+                },
+            ],
+            clock
+        )
+
+        const mintData = Buffer.alloc(MINT_SIZE)
+        MintLayout.encode(
+            {
+                mintAuthorityOption: 0,
+                mintAuthority: PublicKey.default,
+                supply: BigInt(0),
+                decimals: TokenDecimal.NINE,
+                isInitialized: true,
+                freezeAuthorityOption: 0,
+                freezeAuthority: PublicKey.default,
+            },
+            mintData
+        )
+        const getAccountInfo = connection.getAccountInfo.bind(connection)
+
+        const transactions: Array<{
+            signature: string
+            slot: number
+            err: object | null
+            trader: PublicKey
+            logs: string[]
+        }> = []
+
+        const addSwap = (
+            tradeDirection: TradeDirection,
+            amountIn: number,
+            amountOut: number,
+            timestamp: number,
+            err: object | null = null,
+            inputFee: number = 0
+        ) => {
+            // the pool moves to the execution price of the swap without the fees on input
+            const isBuy = tradeDirection === TradeDirection.QuoteToBase
+            const price = isBuy
+                ? (amountIn - inputFee) / 10 ** 9 / (amountOut / 10 ** 6)
+                : amountOut / 10 ** 9 / (amountIn / 10 ** 6)
+            const data = encodeEventData(coder.events, 'evtSwap', {
+                pool: poolAddress,
+                config: configAddress,
+                tradeDirection,
+                hasReferral: false,
+                params: {
+                    amountIn: new BN(amountIn),
+                    minimumAmountOut: new BN(0),
+                },
+                swapResult: {
+                    actualInputAmount: new BN(amountIn - inputFee),
+                    outputAmount: new BN(amountOut),
+                    nextSqrtPrice: getSqrtPriceFromPrice(
+                        price.toString(),
+                        TokenDecimal.SIX,
+                        TokenDecimal.NINE
+                    ),
+                    tradingFee: new BN(inputFee ? inputFee * 0.8 : 10),
+                    protocolFee: new BN(inputFee ? inputFee * 0.2 : 2),
+                    referralFee: new BN(0),
+                },
+                amountIn: new BN(amountIn),
+                currentTimestamp: new BN(timestamp),
+            })
+            const signature = `swap${transactions.length}`
+            transactions.push({
+                signature,
+                slot: clock.currentSlot + transactions.length,
+                err,
+                trader: Keypair.generate().publicKey,
+                logs: [
+                    `Program ${dbc} invoke [1]`,
+                    'Program log: Instruction: Swap',
+                    `Program data: ${data.toString('base64')}`,
+                    `Program ${dbc} success`,
+                ],
+            })
+            return signature
+        }
+
+        const chainConnection = {
+            ...connection,
+            getAccountInfo: async (key: PublicKey) =>
+                key.equals(quoteMint)
+                    ? {
+                          data: mintData,
+                          owner: TOKEN_PROGRAM_ID,
+                          executable: false,
+                          lamports: 1,
+                      }
+                    : getAccountInfo(key),
+            getSignaturesForAddress: async (
+                _address: PublicKey,
+                options: SignaturesForAddressOptions
+            ): Promise<ConfirmedSignatureInfo[]> => {
+                let newestFirst = [...transactions].reverse()
+                if (options.before) {
+                    const index = newestFirst.findIndex(
+                        ({ signature }) => signature === options.before
+                    )
+                    newestFirst = newestFirst.slice(index + 1)
+                }
+                if (options.until) {
+                    const index = newestFirst.findIndex(
+                        ({ signature }) => signature === options.until
+                    )
+                    newestFirst = newestFirst.slice(0, index)
+                }
+                return newestFirst
+                    .slice(0, options.limit)
+                    .map(({ signature, slot, err }) => ({
+                        signature,
+                        slot,
+                        err,
+                        memo: null,
+                    }))
+            },
+            getTransactions: async (signatures: string[]) => {
+                return signatures.map((signature) => {
+                    const transaction = transactions.find(
+                        (tx) => tx.signature === signature
+                    )!
+                    const keys = Array.from({ length: 13 }, (_, i) => ({
+                        pubkey:
+                            i === 9
+                                ? transaction.trader
+                                : Keypair.generate().publicKey,
+                        isSigner: i === 9,
+                        isWritable: false,
+                    }))
+                    const message = new TransactionMessage({
+                        payerKey: Keypair.generate().publicKey,
+                        recentBlockhash: PublicKey.default.toBase58(),
+                        instructions: [
+                            new TransactionInstruction({
+                                programId: DYNAMIC_BONDING_CURVE_PROGRAM_ID,
+                                keys,
+                                data: Buffer.alloc(8),
+                            }),
+                        ],
+                    }).compileToV0Message()
+                    return {
+                        slot: transaction.slot,
+                        blockTime: null,
+                        transaction: { message, signatures: [signature] },
+                        meta: {
+                            err: null,
+                            fee: 5000,
+                            preBalances: [],
+                            postBalances: [],
+                            logMessages: transaction.logs,
+                            innerInstructions: [],
+                            loadedAddresses: { writable: [], readonly: [] },
+                        },
+                    }
+                })
+            },
+        } as unknown as Connection
+
+        return { connection: chainConnection, transactions, addSwap }
+    }
+
+    test('trades are synced with a resumable backfill and catch up', async () => {
+        const { connection, transactions, addSwap } = createChain()
+        const time = clock.currentTime
+        // buy 1 base for 0.5 quote
+        addSwap(TradeDirection.QuoteToBase, 500000000, 1000000, time)
+        addSwap(TradeDirection.QuoteToBase, 1000000000, 1000000, time + 10)
+        addSwap(TradeDirection.QuoteToBase, 1, 1, time + 20, {
+            InstructionError: [0, {}],
+        })
+        // sell 2 base for 1.5 quote
+        addSwap(TradeDirection.BaseToQuote, 2000000, 1500000000, time + 70)
+
+        const storage = new InMemoryTradeHistoryStorage()
+        const historyService = new HistoryService(
+            connection,
+            'confirmed',
+            storage
+        )
+
+        // an interrupted backfill resumes from the oldest synced signature
+        const first = await historyService.syncTrades(poolAddress, {
+            pageSize: 2,
+            maxPages: 1,
+        })
+        expect(first).toEqual({ tradeCount: 1, backfilled: false })
+
+        const second = await historyService.syncTrades(poolAddress, {
+            pageSize: 2,
+        })
+        expect(second).toEqual({ tradeCount: 2, backfilled: true })
+        expect(await storage.getSyncState(poolAddress)).toEqual({
+            newestSignature: 'swap3',
+            oldestSignature: 'swap0',
+            backfilled: true,
+        })
+
+        const trades = await historyService.getTrades(poolAddress)
+        expect(trades.map((trade) => trade.signature)).toEqual([
+            'swap0',
+            'swap1',
+            'swap3',
+        ])
+        expect(trades[0].price.toSignificantDigits(9).toString()).toBe('0.5')
+        expect(trades[0].amountIn.toNumber()).toBe(500000000)
+        expect(trades[0].amountOut.toNumber()).toBe(1000000)
+        expect(trades[0].trader.equals(transactions[0].trader)).toBe(true)
+        expect(trades[2].tradeDirection).toBe(TradeDirection.BaseToQuote)
+        expect(trades[2].amountIn.toNumber()).toBe(2000000)
+        expect(trades[2].amountOut.toNumber()).toBe(1500000000)
+        expect(trades[2].price.toSignificantDigits(9).toString()).toBe('0.75')
+        expect(trades[2].feesOnBaseToken).toBe(false)
+
+        // new swaps are caught up from the newest synced signature
+        addSwap(TradeDirection.QuoteToBase, 2000000000, 1000000, time + 80)
+        addSwap(TradeDirection.QuoteToBase, 3000000000, 1000000, time + 90)
+        addSwap(TradeDirection.QuoteToBase, 4000000000, 1000000, time + 100)
+        const third = await historyService.syncTrades(poolAddress, {
+            pageSize: 2,
+        })
+        expect(third).toEqual({ tradeCount: 3, backfilled: true })
+
+        const candles = await historyService.getCandles(poolAddress, 60)
+        expect(candles.map((candle) => candle.openTime)).toEqual([
+            1749999960, 1750000020, 1750000080,
+        ])
+        expect(candles.map((candle) => candle.tradeCount)).toEqual([2, 1, 3])
+    })
+
+    test('buys record the quote paid including fees on input apart from the price', async () => {
+        const { connection, addSwap } = createChain()
+        // buy 1 base for 1.01 quote, 0.01 of which is taken as fees in QuoteToken mode
+        addSwap(
+            TradeDirection.QuoteToBase,
+            1010000000,
+            1000000,
+            clock.currentTime,
+            null,
+            10000000
+        )
+
+        const historyService = new HistoryService(connection, 'confirmed')
+        await historyService.syncTrades(poolAddress)
+        const [trade] = await historyService.getTrades(poolAddress)
+
+        expect(trade.amountIn.toNumber()).toBe(1010000000)
+        expect(trade.amountOut.toNumber()).toBe(1000000)
+        expect(trade.tradingFee.toNumber()).toBe(8000000)
+        expect(trade.protocolFee.toNumber()).toBe(2000000)
+        expect(trade.feesOnBaseToken).toBe(false)
+        // the price comes from the pool after the swap, not from the amount paid
+        expect(trade.price.toSignificantDigits(9).toString()).toBe('1')
+    })
+
+    test('candles aggregate prices and volumes per interval', () => {
+        const trade = (blockTime: number, price: number, slot: number) =>
+            ({
+                signature: `trade${slot}`,
+                slot,
+                eventIndex: 0,
+                blockTime,
+                tradeDirection: TradeDirection.QuoteToBase,
+                price: new Decimal(price),
+                amountIn: new BN(price * 10),
+                amountOut: new BN(10),
+            }) as Trade
+
+        const candles = buildCandles(
+            [
+                trade(125, 4, 4),
+                trade(0, 1, 1),
+                trade(30, 3, 2),
+                trade(59, 2, 3),
+            ],
+            60,
+            true
+        )
+
+        expect(candles.map((candle) => candle.openTime)).toEqual([0, 60, 120])
+        expect(
+            [
+                candles[0].open,
+                candles[0].high,
+                candles[0].low,
+                candles[0].close,
+            ].map((price) => price.toNumber())
+        ).toEqual([1, 3, 1, 2])
+        expect(candles[0].baseVolume.toNumber()).toBe(30)
+        expect(candles[0].quoteVolume.toNumber()).toBe(60)
+
+        // the gap keeps the previous close without volume
+        expect(candles[1].open.toNumber()).toBe(2)
+        expect(candles[1].tradeCount).toBe(0)
+        expect(candles[1].baseVolume.isZero()).toBe(true)
+        expect(candles[2].close.toNumber()).toBe(4)
+
+        expect(() => buildCandles([], 0)).toThrow()
+    })
+})
@@ -0,0 +1,162 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import { Keypair } from '@solana/web3.js'
+import { NATIVE_MINT, TOKEN_PROGRAM_ID } from '@solana/spl-token'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithMarketCap,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    DYNAMIC_BONDING_CURVE_PROGRAM_ID,
+    MigrationFeeOption,
+    MigrationOption,
+    PoolService,
+    TokenDecimal,
+    TokenType,
+} from '../src'
+import {
+    createMockConnection,
+    createPoolConfig,
+    createVirtualPool,
+} from './utils/common'
+
+describe('instruction-level API tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const clock = { currentSlot: 1000, currentTime: 1750000000 }
+
+    const configAddress = Keypair.generate().publicKey
+    const poolAddress = Keypair.generate().publicKey
+    const config = createPoolConfig(
+        buildCurveWithMarketCap({
+            ...baseParams,
+            initialMarketCap: 20,
+            migrationMarketCap: 600,
+        }),
+        { quoteMint: NATIVE_MINT }
+    )
+    const virtualPool = createVirtualPool(config, {
+        config: configAddress,
+        baseMint: Keypair.generate().publicKey,
+        baseVault: Keypair.generate().publicKey,
+        quoteVault: Keypair.generate().publicKey,
+    })
+
+    const { connection } = createMockConnection(
+        [
+            { address: configAddress, type: 'poolConfig', data: config },
+            { address: poolAddress, type: 'virtualPool', data: virtualPool },
+        ],
+        clock
+    )
+    const poolService = new PoolService(connection, 'confirmed')
+
+    const swapParam = {
+        owner: Keypair.generate().publicKey,
+        pool: poolAddress,
+        amountIn: new BN(10 ** TokenDecimal.NINE),
+        minimumAmountOut: new BN(0),
+        swapBaseForQuote: false,
+        referralTokenAccount: null,
+    }
+
+    test('swap instructions are split into setup, main and cleanup', async () => {
+        const {
+            setupInstructions,
+            instructions,
+            cleanupInstructions,
+            signers,
+        } = await poolService.swapInstructions(swapParam)
+
+        // token account creation and SOL wrapping
+        expect(setupInstructions.length).toBeGreaterThan(0)
+        expect(
+            setupInstructions.some((ix) =>
+                ix.programId.equals(TOKEN_PROGRAM_ID)
+            )
+        ).toBe(true)
+
+        expect(instructions.length).toBe(1)
+        expect(
+            instructions[0].programId.equals(DYNAMIC_BONDING_CURVE_PROGRAM_ID)
+        ).toBe(true)
+
+        // SOL unwrapping
+        expect(cleanupInstructions.length).toBe(1)
+        expect(cleanupInstructions[0].programId.equals(TOKEN_PROGRAM_ID)).toBe(
+            true
+        )
+
+        expect(signers.length).toBe(0)
+    })
+
+    test('swap transaction is built from the swap instructions', async () => {
+        const { setupInstructions, instructions, cleanupInstructions } =
+            await poolService.swapInstructions(swapParam)
+        const transaction = await poolService.swap(swapParam)
+
+        const expected = [
+            ...setupInstructions,
+            ...instructions,
+            ...cleanupInstructions,
+        ]
+        expect(transaction.instructions.length).toBe(expected.length)
+        transaction.instructions.forEach((ix, i) => {
+            expect(ix.programId.equals(expected[i].programId)).toBe(true)
+            expect(ix.data.equals(expected[i].data)).toBe(true)
+        })
+    })
+
+    test('swap with slippage instructions return the quote', async () => {
+        const { quote, instructions } =
+            await poolService.swapWithSlippageInstructions({
+                owner: swapParam.owner,
+                pool: poolAddress,
+                amountIn: swapParam.amountIn,
+                slippageBps: 100,
+                swapBaseForQuote: false,
+                referralTokenAccount: null,
+            })
+
+        expect(instructions.length).toBe(1)
+        expect(quote.minimumAmountOut.lt(quote.amountOut)).toBe(true)
+    })
+})
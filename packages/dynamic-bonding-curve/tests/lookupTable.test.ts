@@ -0,0 +1,430 @@
+import { expect, test, describe, afterEach } from 'bun:test'
+import BN from 'bn.js'
+import {
+    AddressLookupTableAccount,
+    AddressLookupTableInstruction,
+    AddressLookupTableProgram,
+    ComputeBudgetInstruction,
+    Connection,
+    Keypair,
+    PublicKey,
+    VersionedTransaction,
+} from '@solana/web3.js'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithMarketCap,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    deriveDbcPoolAuthority,
+    deriveVaultPdas,
+    getRegisteredLookupTable,
+    LookupTableService,
+    MigrationFeeOption,
+    MigrationOption,
+    PoolService,
+    registerLookupTable,
+    TokenDecimal,
+    TokenType,
+    unregisterLookupTable,
+} from '../src'
+import {
+    createMockConnection,
+    createPoolConfig,
+    createVirtualPool,
+    MOCK_UNITS_CONSUMED,
+} from './utils/common'
+
+describe('lookup table tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const clock = { currentSlot: 1000, currentTime: 1750000000 }
+
+    const configAddress = Keypair.generate().publicKey
+    const config = createPoolConfig(
+        buildCurveWithMarketCap({
+            ...baseParams,
+            initialMarketCap: 20,
+            migrationMarketCap: 600,
+        }),
+        { quoteMint: Keypair.generate().publicKey }
+    )
+    const pools = Array.from({ length: 10 }, () => ({
+        address: Keypair.generate().publicKey,
+        state: createVirtualPool(config, {
+            config: configAddress,
+            baseMint: Keypair.generate().publicKey,
+            baseVault: Keypair.generate().publicKey,
+            quoteVault: Keypair.generate().publicKey,
+        }),
+    }))
+    const accounts = [
+        {
+            address: configAddress,
+            type: 'poolConfig' as const,
+            data: config,
+        },
+        ...pools.map((pool) => ({
+            address: pool.address,
+            type: 'virtualPool' as const,
+            data: pool.state,
+        })),
+    ]
+    const poolAddresses = pools.map((pool) => pool.address)
+
+    const authority = Keypair.generate().publicKey
+
+    const createLookupTableAccount = (key: PublicKey, addresses: PublicKey[]) =>
+        new AddressLookupTableAccount({
+            key,
+            state: {
+                deactivationSlot: BigInt('18446744073709551615'),
+                lastExtendedSlot: 0,
+                lastExtendedSlotStartIndex: 0,
+                authority,
+                addresses,
+            },
+        })
+
+    // every mock connection has the same rpc endpoint, so shares the registry
+    const { connection: registryConnection } = createMockConnection(
+        accounts,
+        clock
+    )
+
+    afterEach(() => {
+        unregisterLookupTable(registryConnection, configAddress)
+    })
+
+    test('config lookup table addresses', async () => {
+        const { connection } = createMockConnection(accounts, clock)
+        const lookupTableService = new LookupTableService(
+            connection,
+            'confirmed'
+        )
+
+        const addresses =
+            await lookupTableService.getConfigLookupTableAddresses(
+                configAddress,
+                poolAddresses.slice(0, 2)
+            )
+        const keys = addresses.map((address) => address.toBase58())
+        const { vaultPda, tokenVaultPda, lpMintPda } = deriveVaultPdas(
+            config.quoteMint
+        )
+
+        expect(keys.length).toBe(8 + 2 * 2)
+        expect(new Set(keys).size).toBe(keys.length)
+        for (const address of [
+            configAddress,
+            config.quoteMint,
+            deriveDbcPoolAuthority(),
+            vaultPda,
+            tokenVaultPda,
+            lpMintPda,
+            pools[1].state.baseVault,
+            pools[1].state.quoteVault,
+        ]) {
+            expect(keys).toContain(address.toBase58())
+        }
+    })
+
+    test('missing config and pool of another config are rejected', async () => {
+        const otherConfig = Keypair.generate().publicKey
+        const missingConfig = Keypair.generate().publicKey
+        const { connection } = createMockConnection(
+            [
+                ...accounts,
+                { address: otherConfig, type: 'poolConfig', data: config },
+            ],
+            clock
+        )
+        const lookupTableService = new LookupTableService(
+            connection,
+            'confirmed'
+        )
+
+        await expect(
+            lookupTableService.getConfigLookupTableAddresses(missingConfig)
+        ).rejects.toThrow(`Pool config not found: ${missingConfig.toString()}`)
+        await expect(
+            lookupTableService.getConfigLookupTableAddresses(otherConfig, [
+                pools[0].address,
+            ])
+        ).rejects.toThrow(
+            `Pool ${pools[0].address.toString()} does not belong to config ${otherConfig.toString()}`
+        )
+    })
+
+    test('registered lookup table can be removed', () => {
+        const lookupTable = Keypair.generate().publicKey
+        registerLookupTable(registryConnection, configAddress, lookupTable)
+        expect(
+            getRegisteredLookupTable(registryConnection, configAddress).equals(
+                lookupTable
+            )
+        ).toBe(true)
+
+        unregisterLookupTable(registryConnection, configAddress)
+        expect(
+            getRegisteredLookupTable(registryConnection, configAddress)
+        ).toBeNull()
+    })
+
+    test('registered lookup table is scoped to the rpc endpoint', () => {
+        const lookupTable = Keypair.generate().publicKey
+        const otherConnection = {
+            ...registryConnection,
+            rpcEndpoint: 'http://localhost:8900',
+        } as Connection
+        registerLookupTable(registryConnection, configAddress, lookupTable)
+
+        expect(
+            getRegisteredLookupTable(otherConnection, configAddress)
+        ).toBeNull()
+        expect(
+            getRegisteredLookupTable(registryConnection, configAddress).equals(
+                lookupTable
+            )
+        ).toBe(true)
+    })
+
+    test('create lookup table is split into extend transactions', async () => {
+        const { connection } = createMockConnection(accounts, clock)
+        const lookupTableService = new LookupTableService(
+            connection,
+            'confirmed'
+        )
+        const payer = Keypair.generate().publicKey
+
+        const { lookupTable, transactions } =
+            await lookupTableService.createConfigLookupTable({
+                config: configAddress,
+                authority,
+                payer,
+                pools: poolAddresses,
+            })
+
+        const [, expectedLookupTable] =
+            AddressLookupTableProgram.createLookupTable({
+                authority,
+                payer,
+                recentSlot: clock.currentSlot,
+            })
+        expect(lookupTable.equals(expectedLookupTable)).toBe(true)
+        expect(
+            getRegisteredLookupTable(connection, configAddress).equals(
+                lookupTable
+            )
+        ).toBe(true)
+
+        // 8 config addresses and 2 vaults for each of the 10 pools
+        expect(transactions.length).toBe(2)
+        expect(
+            AddressLookupTableInstruction.decodeInstructionType(
+                transactions[0].instructions[0]
+            )
+        ).toBe('CreateLookupTable')
+
+        const extendedAddresses = transactions.flatMap((transaction) =>
+            transaction.instructions
+                .filter(
+                    (ix) =>
+                        AddressLookupTableInstruction.decodeInstructionType(
+                            ix
+                        ) === 'ExtendLookupTable'
+                )
+                .flatMap(
+                    (ix) =>
+                        AddressLookupTableInstruction.decodeExtendLookupTable(
+                            ix
+                        ).addresses
+                )
+        )
+        expect(extendedAddresses.length).toBe(28)
+    })
+
+    test('auto compute unit limit is simulated on the create transaction only', async () => {
+        const { connection, calls } = createMockConnection(accounts, clock)
+        // like a validator, extending a lookup table that is not created
+        // in the same transaction fails since it does not exist yet
+        const simulatingConnection = {
+            ...connection,
+            simulateTransaction: async (transaction: VersionedTransaction) => {
+                const { staticAccountKeys, compiledInstructions } =
+                    transaction.message
+                const lookupTableIxs = compiledInstructions.filter((ix) =>
+                    staticAccountKeys[ix.programIdIndex].equals(
+                        AddressLookupTableProgram.programId
+                    )
+                )
+                const createsLookupTable = lookupTableIxs.some(
+                    (ix) => Buffer.from(ix.data).readUInt32LE(0) === 0
+                )
+                if (lookupTableIxs.length > 0 && !createsLookupTable) {
+                    return {
+                        context: { slot: clock.currentSlot },
+                        value: {
+                            err: {
+                                InstructionError: [1, 'InvalidAccountData'],
+                            },
+                            logs: [],
+                            unitsConsumed: 0,
+                        },
+                    }
+                }
+                return connection.simulateTransaction(transaction)
+            },
+        } as Connection
+        const lookupTableService = new LookupTableService(
+            simulatingConnection,
+            'confirmed'
+        )
+
+        // 28 addresses, more than one extend transaction holds
+        const { transactions } =
+            await lookupTableService.createConfigLookupTable(
+                {
+                    config: configAddress,
+                    authority,
+                    payer: authority,
+                    pools: poolAddresses,
+                },
+                { computeUnitLimit: 'auto' }
+            )
+
+        expect(transactions.length).toBe(2)
+        expect(calls.simulateTransaction.length).toBe(1)
+        // every transaction uses the limit of the first with the 10% margin
+        for (const transaction of transactions) {
+            const [limitIx] = transaction.instructions
+            expect(
+                ComputeBudgetInstruction.decodeSetComputeUnitLimit(limitIx)
+                    .units
+            ).toBe((MOCK_UNITS_CONSUMED * 11) / 10)
+        }
+    })
+
+    test('extend lookup table only adds missing addresses', async () => {
+        const lookupTable = Keypair.generate().publicKey
+        const { connection } = createMockConnection(accounts, clock, [
+            createLookupTableAccount(lookupTable, [
+                configAddress,
+                config.quoteMint,
+            ]),
+        ])
+        const lookupTableService = new LookupTableService(
+            connection,
+            'confirmed'
+        )
+
+        const transactions = await lookupTableService.extendConfigLookupTable({
+            lookupTable,
+            config: configAddress,
+            authority,
+            payer: authority,
+            pools: [poolAddresses[0]],
+        })
+
+        expect(transactions.length).toBe(1)
+        const { addresses } =
+            AddressLookupTableInstruction.decodeExtendLookupTable(
+                transactions[0].instructions[0]
+            )
+        expect(addresses.length).toBe(8)
+        expect(addresses.some((address) => address.equals(configAddress))).toBe(
+            false
+        )
+        expect(
+            getRegisteredLookupTable(connection, configAddress).equals(
+                lookupTable
+            )
+        ).toBe(true)
+    })
+
+    test('versioned swap picks up the registered lookup table', async () => {
+        const lookupTable = Keypair.generate().publicKey
+        const { connection } = createMockConnection(accounts, clock, [
+            createLookupTableAccount(lookupTable, [
+                configAddress,
+                config.quoteMint,
+                pools[0].state.baseVault,
+                pools[0].state.quoteVault,
+            ]),
+        ])
+        const poolService = new PoolService(connection, 'confirmed')
+        const swapParam = {
+            owner: Keypair.generate().publicKey,
+            pool: pools[0].address,
+            amountIn: new BN(10 ** TokenDecimal.NINE),
+            minimumAmountOut: new BN(0),
+            swapBaseForQuote: false,
+            referralTokenAccount: null,
+        }
+
+        const unregistered = await poolService.swap(swapParam, {
+            versioned: true,
+        })
+        expect(unregistered.message.addressTableLookups.length).toBe(0)
+
+        registerLookupTable(connection, configAddress, lookupTable)
+        const registered = await poolService.swap(swapParam, {
+            versioned: true,
+        })
+        const lookups = registered.message.addressTableLookups
+        expect(lookups.length).toBe(1)
+        expect(lookups[0].accountKey.equals(lookupTable)).toBe(true)
+        expect(
+            lookups[0].readonlyIndexes.length +
+                lookups[0].writableIndexes.length
+        ).toBe(4)
+
+        // a registered lookup table that is not created yet is skipped
+        registerLookupTable(
+            connection,
+            configAddress,
+            Keypair.generate().publicKey
+        )
+        const notCreated = await poolService.swap(swapParam, {
+            versioned: true,
+        })
+        expect(notCreated.message.addressTableLookups.length).toBe(0)
+    })
+})
@@ -0,0 +1,290 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import { Keypair, Transaction } from '@solana/web3.js'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithMarketCap,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    DAMM_V1_MIGRATION_FEE_ADDRESS,
+    DAMM_V2_MIGRATION_FEE_ADDRESS,
+    deriveDammV1MigrationMetadataAddress,
+    DynamicBondingCurveClient,
+    MigrationFeeOption,
+    MigrationOption,
+    MigrationProgress,
+    MigrationStepResult,
+    PoolConfig,
+    TokenDecimal,
+    TokenType,
+    VirtualPool,
+} from '../src'
+import {
+    createMockConnection,
+    createPoolConfig,
+    createVirtualPool,
+} from './utils/common'
+
+describe('migration plan tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const clock = { currentSlot: 1000, currentTime: 1750000000 }
+    const payer = Keypair.generate()
+    const configAddress = Keypair.generate().publicKey
+    const poolAddress = Keypair.generate().publicKey
+    const configParams = buildCurveWithMarketCap({
+        ...baseParams,
+        initialMarketCap: 20,
+        migrationMarketCap: 600,
+    })
+    const dammV1Config = {
+        migrationOption: MigrationOption.MET_DAMM,
+        fixedTokenSupplyFlag: 1,
+    }
+
+    const setup = (
+        poolOverrides: Partial<VirtualPool>,
+        configOverrides: Partial<PoolConfig> = {},
+        dammV1MigrationMetadata?: unknown
+    ) => {
+        const config = createPoolConfig(configParams, configOverrides)
+        const virtualPool = createVirtualPool(config, {
+            config: configAddress,
+            baseMint: Keypair.generate().publicKey,
+            baseVault: Keypair.generate().publicKey,
+            quoteVault: Keypair.generate().publicKey,
+            ...poolOverrides,
+        })
+
+        const mock = createMockConnection(
+            [
+                { address: configAddress, type: 'poolConfig', data: config },
+                {
+                    address: poolAddress,
+                    type: 'virtualPool',
+                    data: virtualPool,
+                },
+                ...(dammV1MigrationMetadata
+                    ? [
+                          {
+                              address:
+                                  deriveDammV1MigrationMetadataAddress(
+                                      poolAddress
+                                  ),
+                              type: 'meteoraDammMigrationMetadata' as const,
+                              data: dammV1MigrationMetadata,
+                          },
+                      ]
+                    : []),
+            ],
+            clock
+        )
+        const { migration } = DynamicBondingCurveClient.create(mock.connection)
+        return { ...mock, migration }
+    }
+
+    const planMigration = (...args: Parameters<typeof setup>) =>
+        setup(...args).migration.planMigration({
+            payer: payer.publicKey,
+            virtualPool: poolAddress,
+        })
+
+    test('plan is rejected while the curve is not complete', async () => {
+        await expect(
+            planMigration({ activationPoint: new BN(clock.currentSlot) })
+        ).rejects.toThrow('Curve is not complete')
+    })
+
+    test('plan skips the steps already done', async () => {
+        expect(
+            await planMigration(
+                { migrationProgress: MigrationProgress.PostBondingCurve },
+                dammV1Config
+            )
+        ).toEqual([
+            { name: 'createLocker' },
+            { name: 'createDammV1MigrationMetadata' },
+            { name: 'migrateToDammV1' },
+            { name: 'lockDammV1LpToken', isPartner: true },
+            { name: 'withdrawLeftover' },
+        ])
+
+        const metadata = {
+            virtualPool: poolAddress,
+            padding0: new Array(32).fill(0),
+            partner: Keypair.generate().publicKey,
+            lpMint: Keypair.generate().publicKey,
+            partnerLockedLp: new BN(1000),
+            partnerLp: new BN(0),
+            creatorLockedLp: new BN(0),
+            creatorLp: new BN(500),
+            creatorLockedStatus: 0,
+            partnerLockedStatus: 1,
+            creatorClaimStatus: 0,
+            partnerClaimStatus: 0,
+            padding: new Array(107).fill(0),
+        }
+
+        // the metadata exists, the migration is next
+        expect(
+            await planMigration(
+                { migrationProgress: MigrationProgress.LockedVesting },
+                dammV1Config,
+                metadata
+            )
+        ).toEqual([
+            { name: 'migrateToDammV1' },
+            { name: 'lockDammV1LpToken', isPartner: true },
+            { name: 'withdrawLeftover' },
+        ])
+
+        // after the migration the steps follow the migration metadata
+        expect(
+            await planMigration(
+                {
+                    migrationProgress: MigrationProgress.CreatedPool,
+                    isMigrated: 1,
+                    isWithdrawLeftover: 1,
+                },
+                dammV1Config,
+                metadata
+            )
+        ).toEqual([{ name: 'claimDammV1LpToken', isPartner: false }])
+    })
+
+    test('steps are signed, sent and confirmed in order', async () => {
+        const { calls, migration } = setup(
+            { migrationProgress: MigrationProgress.LockedVesting },
+            { fixedTokenSupplyFlag: 1 }
+        )
+
+        const confirmed: MigrationStepResult[] = []
+        const results = await migration.executeMigration({
+            payer: payer.publicKey,
+            virtualPool: poolAddress,
+            signTransaction: async (transaction) => {
+                transaction.partialSign(payer)
+                return transaction
+            },
+            onStepConfirmed: (result) => confirmed.push(result),
+        })
+
+        expect(results).toEqual([
+            {
+                step: { name: 'createDammV2MigrationMetadata' },
+                signature: 'signature1',
+            },
+            { step: { name: 'migrateToDammV2' }, signature: 'signature2' },
+            { step: { name: 'withdrawLeftover' }, signature: 'signature3' },
+        ])
+        expect(confirmed).toEqual(results)
+
+        // every required signature of the DAMM V2 migration is present
+        const migrateTransaction = Transaction.from(calls.sendRawTransaction[1])
+        expect(migrateTransaction.feePayer?.equals(payer.publicKey)).toBe(true)
+        expect(migrateTransaction.verifySignatures()).toBe(true)
+
+        // a failed confirmation stops the remaining steps
+        const failed: MigrationStepResult[] = []
+        await expect(
+            migration.executeMigration({
+                payer: payer.publicKey,
+                virtualPool: poolAddress,
+                steps: [
+                    { name: 'createDammV2MigrationMetadata' },
+                    { name: 'withdrawLeftover' },
+                ],
+                signTransaction: async (transaction) => {
+                    transaction.partialSign(payer)
+                    return transaction
+                },
+                confirmTransaction: async (signature) => {
+                    if (signature === 'signature5') {
+                        throw new Error('Transaction expired')
+                    }
+                },
+                onStepConfirmed: (result) => failed.push(result),
+            })
+        ).rejects.toThrow('Transaction expired')
+        expect(failed.map((result) => result.step.name)).toEqual([
+            'createDammV2MigrationMetadata',
+        ])
+    })
+    test('DAMM config is resolved from the migration fee option', async () => {
+        const { migration } = setup({
+            migrationProgress: MigrationProgress.LockedVesting,
+        })
+        const expectedDammConfig =
+            DAMM_V2_MIGRATION_FEE_ADDRESS[MigrationFeeOption.FixedBps100]
+
+        const { instructions } = await migration.migrateToDammV2Instructions({
+            payer: payer.publicKey,
+            virtualPool: poolAddress,
+        })
+        const remainingAccount = instructions[0].keys.at(-1)!
+        expect(remainingAccount.pubkey.equals(expectedDammConfig)).toBe(true)
+
+        await expect(
+            migration.migrateToDammV2Instructions({
+                payer: payer.publicKey,
+                virtualPool: poolAddress,
+                dammConfig:
+                    DAMM_V2_MIGRATION_FEE_ADDRESS[
+                        MigrationFeeOption.FixedBps25
+                    ],
+            })
+        ).rejects.toThrow(
+            `expected ${expectedDammConfig.toString()} for migration fee option ${MigrationFeeOption.FixedBps100}`
+        )
+
+        // a DAMM V1 config is rejected for a pool migrating to DAMM V2
+        await expect(
+            migration.migrateToDammV1Instructions({
+                payer: payer.publicKey,
+                virtualPool: poolAddress,
+                dammConfig:
+                    DAMM_V1_MIGRATION_FEE_ADDRESS[
+                        MigrationFeeOption.FixedBps100
+                    ],
+            })
+        ).rejects.toThrow('Pool does not migrate to DAMM V1')
+    })
+})
@@ -0,0 +1,233 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import { Keypair } from '@solana/web3.js'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithMarketCap,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    deriveDammV1MigrationMetadataAddress,
+    DynamicBondingCurveClient,
+    MigrationFeeOption,
+    MigrationOption,
+    MigrationProgress,
+    PoolConfig,
+    PoolStatus,
+    TokenDecimal,
+    TokenType,
+    VirtualPool,
+} from '../src'
+import {
+    createMockConnection,
+    createPoolConfig,
+    createVirtualPool,
+} from './utils/common'
+
+describe('pool status tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const clock = { currentSlot: 1000, currentTime: 1750000000 }
+    const configAddress = Keypair.generate().publicKey
+    const poolAddress = Keypair.generate().publicKey
+    const configParams = buildCurveWithMarketCap({
+        ...baseParams,
+        initialMarketCap: 20,
+        migrationMarketCap: 600,
+    })
+
+    const getStatus = (
+        poolOverrides: Partial<VirtualPool>,
+        configOverrides: Partial<PoolConfig> = {},
+        dammV1MigrationMetadata?: unknown
+    ) => {
+        const config = createPoolConfig(configParams, configOverrides)
+        const virtualPool = createVirtualPool(config, {
+            config: configAddress,
+            baseMint: Keypair.generate().publicKey,
+            baseVault: Keypair.generate().publicKey,
+            quoteVault: Keypair.generate().publicKey,
+            ...poolOverrides,
+        })
+
+        const { connection } = createMockConnection(
+            [
+                { address: configAddress, type: 'poolConfig', data: config },
+                {
+                    address: poolAddress,
+                    type: 'virtualPool',
+                    data: virtualPool,
+                },
+                ...(dammV1MigrationMetadata
+                    ? [
+                          {
+                              address:
+                                  deriveDammV1MigrationMetadataAddress(
+                                      poolAddress
+                                  ),
+                              type: 'meteoraDammMigrationMetadata' as const,
+                              data: dammV1MigrationMetadata,
+                          },
+                      ]
+                    : []),
+            ],
+            clock
+        )
+        const client = DynamicBondingCurveClient.create(connection)
+        return client.state.getPoolStatus(poolAddress)
+    }
+
+    test('pool is trading once the activation point is reached', async () => {
+        expect(
+            await getStatus({ activationPoint: new BN(clock.currentSlot + 1) })
+        ).toEqual({
+            status: PoolStatus.NotYetActive,
+            nextActions: [],
+            pendingClaims: [],
+        })
+        expect(
+            await getStatus({ activationPoint: new BN(clock.currentSlot) })
+        ).toEqual({
+            status: PoolStatus.Trading,
+            nextActions: ['swap'],
+            pendingClaims: [],
+        })
+    })
+
+    test('completed curve waits for the locker and the migration', async () => {
+        expect(
+            (
+                await getStatus({
+                    migrationProgress: MigrationProgress.PostBondingCurve,
+                })
+            ).nextActions
+        ).toEqual(['createLocker'])
+
+        // the DAMM V2 migration metadata does not exist yet
+        expect(
+            await getStatus({
+                migrationProgress: MigrationProgress.LockedVesting,
+            })
+        ).toEqual({
+            status: PoolStatus.CurveComplete,
+            nextActions: ['createDammV2MigrationMetadata'],
+            pendingClaims: [],
+        })
+    })
+
+    test('migrated pool lists the pending actions and claims', async () => {
+        const partner = Keypair.generate().publicKey
+        const metadata = {
+            virtualPool: poolAddress,
+            padding0: new Array(32).fill(0),
+            partner,
+            lpMint: Keypair.generate().publicKey,
+            partnerLockedLp: new BN(1000),
+            partnerLp: new BN(0),
+            creatorLockedLp: new BN(0),
+            creatorLp: new BN(0),
+            creatorLockedStatus: 0,
+            partnerLockedStatus: 0,
+            creatorClaimStatus: 0,
+            partnerClaimStatus: 0,
+            padding: new Array(107).fill(0),
+        }
+        const migrated = {
+            migrationProgress: MigrationProgress.CreatedPool,
+            isMigrated: 1,
+            quoteReserve: new BN(10 ** 12),
+        }
+        const configOverrides = {
+            migrationOption: MigrationOption.MET_DAMM,
+            fixedTokenSupplyFlag: 1,
+            migrationQuoteThreshold: new BN(10 ** 9),
+        }
+
+        // awaiting migration once the DAMM V1 metadata is created
+        expect(
+            (
+                await getStatus(
+                    { migrationProgress: MigrationProgress.LockedVesting },
+                    configOverrides,
+                    metadata
+                )
+            ).nextActions
+        ).toEqual(['migrateToDammV1'])
+
+        expect(await getStatus(migrated, configOverrides, metadata)).toEqual({
+            status: PoolStatus.Migrated,
+            nextActions: [
+                'lockPartnerDammV1LpToken',
+                'withdrawLeftover',
+                'protocolWithdrawSurplus',
+            ],
+            pendingClaims: ['partnerWithdrawSurplus'],
+        })
+
+        const settledFlags = {
+            isWithdrawLeftover: 1,
+            isProtocolWithdrawSurplus: 1,
+        }
+        expect(
+            await getStatus({ ...migrated, ...settledFlags }, configOverrides, {
+                ...metadata,
+                partnerLockedStatus: 1,
+            })
+        ).toEqual({
+            status: PoolStatus.PostMigrationClaimsPending,
+            nextActions: [],
+            pendingClaims: ['partnerWithdrawSurplus'],
+        })
+
+        expect(
+            (
+                await getStatus(
+                    {
+                        ...migrated,
+                        ...settledFlags,
+                        isPartnerWithdrawSurplus: 1,
+                    },
+                    configOverrides,
+                    { ...metadata, partnerLockedStatus: 1 }
+                )
+            ).status
+        ).toBe(PoolStatus.FullySettled)
+    })
+})
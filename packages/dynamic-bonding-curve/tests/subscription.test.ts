@@ -0,0 +1,321 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import { Connection, Keypair, PublicKey } from '@solana/web3.js'
+import { BorshAccountsCoder } from '@coral-xyz/anchor'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithMarketCap,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    DYNAMIC_BONDING_CURVE_PROGRAM_ID,
+    MigrationFeeOption,
+    MigrationOption,
+    MigrationProgress,
+    MigrationProgressChange,
+    PoolUpdate,
+    SubscriptionService,
+    TokenDecimal,
+    TokenType,
+} from '../src'
+import {
+    createMockConnection,
+    createPoolConfig,
+    createVirtualPool,
+    encodeAccountData,
+    encodeEventData,
+} from './utils/common'
+
+describe('pool subscription tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const clock = { currentSlot: 1000, currentTime: 1750000000 }
+    const { coder } = new SubscriptionService(
+        new Connection('http://localhost:8899'),
+        'confirmed'
+    ).program
+    const dbc = DYNAMIC_BONDING_CURVE_PROGRAM_ID.toBase58()
+
+    const configAddress = Keypair.generate().publicKey
+    const creator = Keypair.generate().publicKey
+    const poolAddress = Keypair.generate().publicKey
+    const otherPoolAddress = Keypair.generate().publicKey
+    const config = createPoolConfig(
+        buildCurveWithMarketCap({
+            ...baseParams,
+            initialMarketCap: 20,
+            migrationMarketCap: 600,
+        })
+    )
+    const virtualPool = createVirtualPool(config, {
+        config: configAddress,
+        creator,
+        baseMint: Keypair.generate().publicKey,
+        baseVault: Keypair.generate().publicKey,
+        quoteVault: Keypair.generate().publicKey,
+    })
+    const otherVirtualPool = createVirtualPool(config, {
+        config: configAddress,
+        creator: Keypair.generate().publicKey,
+        baseMint: Keypair.generate().publicKey,
+        baseVault: Keypair.generate().publicKey,
+        quoteVault: Keypair.generate().publicKey,
+    })
+
+    const setup = () => {
+        const mock = createMockConnection(
+            [
+                {
+                    address: configAddress,
+                    type: 'poolConfig',
+                    data: config,
+                },
+                {
+                    address: poolAddress,
+                    type: 'virtualPool',
+                    data: virtualPool,
+                },
+                {
+                    address: otherPoolAddress,
+                    type: 'virtualPool',
+                    data: otherVirtualPool,
+                },
+            ],
+            clock
+        )
+        const subscriptionService = new SubscriptionService(
+            mock.connection,
+            'confirmed'
+        )
+        return { ...mock, subscriptionService }
+    }
+
+    const swapLogs = (pool: PublicKey, signature: string) => {
+        const data = encodeEventData(coder.events, 'evtSwap', {
+            pool,
+            config: configAddress,
+            tradeDirection: 1,
+            hasReferral: false,
+            params: { amountIn: new BN(100), minimumAmountOut: new BN(0) },
+            swapResult: {
+                actualInputAmount: new BN(100),
+                outputAmount: new BN(90),
+                nextSqrtPrice: new BN(1),
+                tradingFee: new BN(1),
+                protocolFee: new BN(0),
+                referralFee: new BN(0),
+            },
+            amountIn: new BN(100),
+            currentTimestamp: new BN(clock.currentTime),
+        })
+        return {
+            signature,
+            err: null,
+            logs: [
+                `Program ${dbc} invoke [1]`,
+                'Program log: Instruction: Swap',
+                `Program data: ${data.toString('base64')}`,
+                `Program ${dbc} success`,
+            ],
+        }
+    }
+
+    test('pool updates are slot ordered and de-duplicated', async () => {
+        const { connection, subscriptions, subscriptionService } = setup()
+
+        const updates: PoolUpdate[] = []
+        const progressChanges: MigrationProgressChange[] = []
+        const swaps: string[] = []
+        const subscription = await subscriptionService.subscribePool(
+            poolAddress,
+            {
+                onPoolUpdate: (update) => updates.push(update),
+                onMigrationProgress: (change) => progressChanges.push(change),
+                onSwap: (event) => swaps.push(event.signature ?? ''),
+            },
+            { resubscribeAfterMs: 0 }
+        )
+
+        // initial state fetched at the current slot
+        expect(updates.length).toBe(1)
+        expect(updates[0].slot).toBe(clock.currentSlot)
+        expect(updates[0].address.equals(poolAddress)).toBe(true)
+
+        const completed = encodeAccountData(
+            coder.accounts as BorshAccountsCoder,
+            'virtualPool',
+            {
+                ...virtualPool,
+                quoteReserve: new BN(1000),
+                migrationProgress: MigrationProgress.PostBondingCurve,
+            }
+        )
+        const unchanged = (await connection.getAccountInfo(poolAddress))!
+
+        // same data at a later slot and older data are dropped
+        subscriptions.notify('account', unchanged, { slot: 1001 })
+        subscriptions.notify('account', { data: completed }, { slot: 1002 })
+        subscriptions.notify('account', unchanged, { slot: 1001 })
+        subscriptions.notify('account', { data: completed }, { slot: 1003 })
+
+        expect(updates.map((update) => update.slot)).toEqual([1000, 1002])
+        expect(updates[1].pool.quoteReserve.eq(new BN(1000))).toBe(true)
+        expect(progressChanges).toEqual([
+            {
+                address: poolAddress,
+                previous: MigrationProgress.PreBondingCurve,
+                current: MigrationProgress.PostBondingCurve,
+                slot: 1002,
+            },
+        ])
+
+        // the same transaction can be notified twice, other pools are ignored
+        subscriptions.notify('logs', swapLogs(poolAddress, 'swap1'), {
+            slot: 1002,
+        })
+        subscriptions.notify('logs', swapLogs(poolAddress, 'swap1'), {
+            slot: 1002,
+        })
+        subscriptions.notify('logs', swapLogs(otherPoolAddress, 'swap2'), {
+            slot: 1002,
+        })
+        expect(swaps).toEqual(['swap1'])
+
+        await subscription.unsubscribe()
+        expect(subscriptions.count('account')).toBe(0)
+        expect(subscriptions.count('logs')).toBe(0)
+    })
+
+    test('creator subscription only tracks the pools of the creator', async () => {
+        const { subscriptions, subscriptionService } = setup()
+
+        const updates: PoolUpdate[] = []
+        const swaps: string[] = []
+        const subscription = await subscriptionService.subscribePoolsByCreator(
+            creator,
+            {
+                onPoolUpdate: (update) => updates.push(update),
+                onSwap: (event) => swaps.push(event.signature ?? ''),
+            },
+            { resubscribeAfterMs: 0 }
+        )
+
+        expect(updates.length).toBe(1)
+        expect(updates[0].address.equals(poolAddress)).toBe(true)
+        expect(subscriptions.count('programAccount')).toBe(1)
+
+        subscriptions.notify('logs', swapLogs(poolAddress, 'swap1'), {
+            slot: 1001,
+        })
+        subscriptions.notify('logs', swapLogs(otherPoolAddress, 'swap2'), {
+            slot: 1001,
+        })
+        expect(swaps).toEqual(['swap1'])
+
+        await subscription.unsubscribe()
+        expect(subscriptions.count('programAccount')).toBe(0)
+    })
+
+    test('stale subscription is resubscribed and resynced', async () => {
+        const { calls, subscriptions, subscriptionService } = setup()
+
+        const subscription = await subscriptionService.subscribePoolsByConfig(
+            configAddress,
+            {},
+            { resubscribeAfterMs: 10 }
+        )
+        expect(calls.subscribe).toBe(2)
+
+        await new Promise((resolve) => setTimeout(resolve, 50))
+        await subscription.unsubscribe()
+
+        expect(calls.subscribe).toBeGreaterThan(2)
+        expect(subscriptions.count('programAccount')).toBe(0)
+        expect(subscriptions.count('logs')).toBe(0)
+    })
+
+    test('overlapping reconnects run once and stop when unsubscribed', async () => {
+        const { connection, calls, subscriptions } = setup()
+
+        // hold the resync fetch until released
+        let release = () => {}
+        let gated = false
+        const gatedConnection = {
+            ...connection,
+            getProgramAccounts: async (
+                ...args: Parameters<Connection['getProgramAccounts']>
+            ) => {
+                if (gated) {
+                    await new Promise<void>((resolve) => {
+                        release = resolve
+                    })
+                }
+                return connection.getProgramAccounts(...args)
+            },
+        } as Connection
+        const subscriptionService = new SubscriptionService(
+            gatedConnection,
+            'confirmed'
+        )
+
+        const subscription = await subscriptionService.subscribePoolsByConfig(
+            configAddress,
+            {}
+        )
+        expect(calls.subscribe).toBe(2)
+
+        gated = true
+        const first = subscription.reconnect()
+        const second = subscription.reconnect()
+        expect(second).toBe(first)
+
+        // wait for the listeners to be registered again and the resync to start
+        while (calls.subscribe < 4) {
+            await new Promise((resolve) => setTimeout(resolve, 1))
+        }
+        const unsubscribed = subscription.unsubscribe()
+        release()
+        await Promise.all([first, unsubscribed])
+
+        expect(calls.subscribe).toBe(4)
+        expect(subscriptions.count('programAccount')).toBe(0)
+        expect(subscriptions.count('logs')).toBe(0)
+    })
+})
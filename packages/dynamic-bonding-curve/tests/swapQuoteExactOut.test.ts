@@ -0,0 +1,230 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithMarketCap,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    MigrationFeeOption,
+    MigrationOption,
+    swapQuote,
+    swapQuoteExactOut,
+    TokenDecimal,
+    TokenType,
+} from '../src'
+import { createPoolConfig, createVirtualPool } from './utils/common'
+
+describe('swapQuoteExactOut tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const currentPoint = new BN(100)
+
+    // config and a pool that has already received some quote from a buy
+    // so that both swap directions can be quoted
+    async function setup(collectFeeMode: CollectFeeMode) {
+        const configParams = buildCurveWithMarketCap({
+            ...baseParams,
+            collectFeeMode,
+            initialMarketCap: 20,
+            migrationMarketCap: 600,
+        })
+        const config = createPoolConfig(configParams)
+        const freshPool = createVirtualPool(config)
+
+        const buyAmount = new BN(5 * 10 ** TokenDecimal.NINE)
+        const buy = await swapQuote(
+            freshPool,
+            config,
+            false,
+            buyAmount,
+            0,
+            false,
+            currentPoint
+        )
+        const virtualPool = createVirtualPool(config, {
+            sqrtPrice: buy.nextSqrtPrice,
+            quoteReserve: buyAmount,
+        })
+
+        return { config, virtualPool }
+    }
+
+    for (const collectFeeMode of [
+        CollectFeeMode.OnlyQuote,
+        CollectFeeMode.Both,
+    ]) {
+        for (const swapBaseForQuote of [false, true]) {
+            test(`exact out quote covers requested amount (collectFeeMode ${collectFeeMode}, swapBaseForQuote ${swapBaseForQuote})`, async () => {
+                const { config, virtualPool } = await setup(collectFeeMode)
+                const amountOut = swapBaseForQuote
+                    ? new BN(10 ** TokenDecimal.NINE)
+                    : new BN(1_000_000 * 10 ** TokenDecimal.SIX)
+
+                const quote = swapQuoteExactOut(
+                    virtualPool,
+                    config,
+                    swapBaseForQuote,
+                    amountOut,
+                    100,
+                    false,
+                    currentPoint
+                )
+                console.log('amountIn', quote.amountIn.toString())
+                console.log('amountOut', quote.amountOut.toString())
+
+                expect(quote.amountOut.gte(amountOut)).toBe(true)
+                expect(quote.maximumAmountIn.gt(quote.amountIn)).toBe(true)
+
+                // replaying the exact in quote must deliver the requested amount
+                const forward = await swapQuote(
+                    virtualPool,
+                    config,
+                    swapBaseForQuote,
+                    quote.amountIn,
+                    0,
+                    false,
+                    currentPoint
+                )
+                expect(forward.amountOut.gte(amountOut)).toBe(true)
+
+                // and one unit less of input must not be enough to cover it
+                // beyond a rounding unit of the output
+                const under = await swapQuote(
+                    virtualPool,
+                    config,
+                    swapBaseForQuote,
+                    quote.amountIn.subn(1),
+                    0,
+                    false,
+                    currentPoint
+                )
+                expect(under.amountOut.lte(amountOut.addn(1))).toBe(true)
+            })
+        }
+    }
+
+    test('exact out quote throws when output exceeds quote reserve', async () => {
+        const { config, virtualPool } = await setup(CollectFeeMode.OnlyQuote)
+
+        expect(() =>
+            swapQuoteExactOut(
+                virtualPool,
+                config,
+                true,
+                virtualPool.quoteReserve.muln(2),
+                0,
+                false,
+                currentPoint
+            )
+        ).toThrow()
+    })
+
+    test('exact out quote throws on zero amount', async () => {
+        const { config, virtualPool } = await setup(CollectFeeMode.OnlyQuote)
+
+        expect(() =>
+            swapQuoteExactOut(
+                virtualPool,
+                config,
+                false,
+                new BN(0),
+                0,
+                false,
+                currentPoint
+            )
+        ).toThrow('Amount is zero')
+    })
+
+    test('exact out quote with the rate limiter on a large amount', async () => {
+        const config = createPoolConfig(
+            buildCurveWithMarketCap({
+                ...baseParams,
+                baseFeeParams: {
+                    baseFeeMode: BaseFeeMode.RateLimiter,
+                    rateLimiterParam: {
+                        baseFeeBps: 100,
+                        feeIncrementBps: 100,
+                        referenceAmount: 0.1,
+                        maxLimiterDuration: 1000,
+                    },
+                },
+                initialMarketCap: 20,
+                migrationMarketCap: 600,
+            })
+        )
+        const virtualPool = createVirtualPool(config)
+        // most of the curve, the rate limiter fee is close to its cap for this amount
+        const amountOut = config.swapBaseAmount.muln(9).divn(10)
+
+        const quote = swapQuoteExactOut(
+            virtualPool,
+            config,
+            false,
+            amountOut,
+            0,
+            false,
+            currentPoint
+        )
+        expect(quote.amountOut.gte(amountOut)).toBe(true)
+
+        const forward = await swapQuote(
+            virtualPool,
+            config,
+            false,
+            quote.amountIn,
+            0,
+            false,
+            currentPoint
+        )
+        expect(forward.amountOut.gte(amountOut)).toBe(true)
+
+        const under = await swapQuote(
+            virtualPool,
+            config,
+            false,
+            quote.amountIn.subn(1),
+            0,
+            false,
+            currentPoint
+        )
+        expect(under.amountOut.lte(amountOut.addn(1))).toBe(true)
+    })
+})
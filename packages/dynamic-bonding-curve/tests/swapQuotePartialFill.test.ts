@@ -0,0 +1,166 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithMarketCap,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    MigrationFeeOption,
+    MigrationOption,
+    swapQuote,
+    swapQuotePartialFill,
+    TokenDecimal,
+    TokenType,
+} from '../src'
+import { createPoolConfig, createVirtualPool } from './utils/common'
+
+describe('swapQuotePartialFill tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const currentPoint = new BN(100)
+
+    for (const collectFeeMode of [
+        CollectFeeMode.OnlyQuote,
+        CollectFeeMode.Both,
+    ]) {
+        const config = createPoolConfig(
+            buildCurveWithMarketCap({
+                ...baseParams,
+                collectFeeMode,
+                initialMarketCap: 20,
+                migrationMarketCap: 600,
+            })
+        )
+        const virtualPool = createVirtualPool(config)
+
+        test(`buy below the threshold is a full fill (collectFeeMode ${collectFeeMode})`, async () => {
+            const amountIn = new BN(10 ** TokenDecimal.NINE)
+            const quote = swapQuotePartialFill(
+                virtualPool,
+                config,
+                false,
+                amountIn,
+                0,
+                false,
+                currentPoint
+            )
+            const fullQuote = await swapQuote(
+                virtualPool,
+                config,
+                false,
+                amountIn,
+                0,
+                false,
+                currentPoint
+            )
+
+            expect(quote.isCurveComplete).toBe(false)
+            expect(quote.consumedInputAmount.eq(amountIn)).toBe(true)
+            expect(quote.unusedInputAmount.isZero()).toBe(true)
+            expect(quote.amountOut.eq(fullQuote.amountOut)).toBe(true)
+        })
+
+        test(`buy overshooting the threshold stops at migration price (collectFeeMode ${collectFeeMode})`, () => {
+            const amountIn = config.migrationQuoteThreshold.muln(2)
+            const quote = swapQuotePartialFill(
+                virtualPool,
+                config,
+                false,
+                amountIn,
+                100,
+                false,
+                currentPoint
+            )
+            console.log('consumed', quote.consumedInputAmount.toString())
+            console.log('unused', quote.unusedInputAmount.toString())
+
+            expect(quote.isCurveComplete).toBe(true)
+            expect(
+                quote.consumedInputAmount
+                    .add(quote.unusedInputAmount)
+                    .eq(amountIn)
+            ).toBe(true)
+            expect(
+                quote.consumedInputAmount.gte(config.migrationQuoteThreshold)
+            ).toBe(true)
+            expect(quote.unusedInputAmount.gt(new BN(0))).toBe(true)
+            expect(quote.minimumAmountOut.lt(quote.amountOut)).toBe(true)
+
+            // the capped swap lands on the migration price, within rounding
+            const priceDiff = quote.nextSqrtPrice
+                .sub(config.migrationSqrtPrice)
+                .abs()
+            expect(priceDiff.lte(config.migrationSqrtPrice.divn(1000000))).toBe(
+                true
+            )
+        })
+    }
+
+    test('completed pool returns a zero fill and reports the curve complete', () => {
+        const config = createPoolConfig(
+            buildCurveWithMarketCap({
+                ...baseParams,
+                initialMarketCap: 20,
+                migrationMarketCap: 600,
+            })
+        )
+        const virtualPool = createVirtualPool(config, {
+            quoteReserve: config.migrationQuoteThreshold,
+            sqrtPrice: config.migrationSqrtPrice,
+        })
+        const amountIn = new BN(10 ** TokenDecimal.NINE)
+
+        const quote = swapQuotePartialFill(
+            virtualPool,
+            config,
+            false,
+            amountIn,
+            0,
+            false,
+            currentPoint
+        )
+
+        expect(quote.amountOut.isZero()).toBe(true)
+        expect(quote.consumedInputAmount.isZero()).toBe(true)
+        expect(quote.unusedInputAmount.eq(amountIn)).toBe(true)
+        expect(quote.isCurveComplete).toBe(true)
+    })
+})
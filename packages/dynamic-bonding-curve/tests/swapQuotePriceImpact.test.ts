@@ -0,0 +1,167 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithMarketCap,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    MigrationFeeOption,
+    MigrationOption,
+    swapQuoteWithPriceImpact,
+    TokenDecimal,
+    TokenType,
+} from '../src'
+import { createPoolConfig, createVirtualPool } from './utils/common'
+
+describe('swapQuoteWithPriceImpact tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: false,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const currentPoint = new BN(100)
+
+    const config = createPoolConfig(
+        buildCurveWithMarketCap({
+            ...baseParams,
+            initialMarketCap: 20,
+            migrationMarketCap: 600,
+        })
+    )
+    const virtualPool = createVirtualPool(config)
+
+    test('price info for buys', async () => {
+        const smallBuy = await swapQuoteWithPriceImpact(
+            virtualPool,
+            config,
+            false,
+            new BN(10 ** 6),
+            0,
+            false,
+            currentPoint,
+            TokenDecimal.NINE
+        )
+        const largeBuy = await swapQuoteWithPriceImpact(
+            virtualPool,
+            config,
+            false,
+            new BN(10 * 10 ** TokenDecimal.NINE),
+            0,
+            false,
+            currentPoint,
+            TokenDecimal.NINE
+        )
+
+        console.log('small buy price info', {
+            spotPriceBefore: smallBuy.priceInfo.spotPriceBefore.toString(),
+            executionPrice: smallBuy.priceInfo.executionPrice.toString(),
+            priceImpactBps: smallBuy.priceInfo.priceImpactBps.toString(),
+        })
+        console.log('large buy price info', {
+            spotPriceAfter: largeBuy.priceInfo.spotPriceAfter.toString(),
+            executionPrice: largeBuy.priceInfo.executionPrice.toString(),
+            priceImpactBps: largeBuy.priceInfo.priceImpactBps.toString(),
+        })
+
+        // initial market cap of 20 quote tokens over 1B base tokens
+        expect(smallBuy.priceInfo.spotPriceBefore.toNumber()).toBeCloseTo(
+            20 / 1000000000,
+            12
+        )
+
+        expect(
+            smallBuy.priceInfo.priceImpactBps.lt(
+                largeBuy.priceInfo.priceImpactBps
+            )
+        ).toBe(true)
+        expect(
+            largeBuy.priceInfo.spotPriceAfter.gt(
+                largeBuy.priceInfo.spotPriceBefore
+            )
+        ).toBe(true)
+        expect(
+            largeBuy.priceInfo.executionPrice.gt(
+                largeBuy.priceInfo.spotPriceBefore
+            )
+        ).toBe(true)
+
+        // 1% flat base fee charged on the quote input
+        expect(largeBuy.priceInfo.effectiveFeeBps.toNumber()).toBeCloseTo(
+            100,
+            2
+        )
+    })
+
+    test('price info for sells', async () => {
+        const buyAmount = new BN(10 * 10 ** TokenDecimal.NINE)
+        const buy = await swapQuoteWithPriceImpact(
+            virtualPool,
+            config,
+            false,
+            buyAmount,
+            0,
+            false,
+            currentPoint,
+            TokenDecimal.NINE
+        )
+        const poolAfterBuy = createVirtualPool(config, {
+            sqrtPrice: buy.nextSqrtPrice,
+            quoteReserve: buyAmount,
+        })
+
+        const sell = await swapQuoteWithPriceImpact(
+            poolAfterBuy,
+            config,
+            true,
+            buy.amountOut.divn(2),
+            0,
+            false,
+            currentPoint,
+            TokenDecimal.NINE
+        )
+
+        expect(
+            sell.priceInfo.spotPriceAfter.lt(sell.priceInfo.spotPriceBefore)
+        ).toBe(true)
+        expect(
+            sell.priceInfo.executionPrice.lt(sell.priceInfo.spotPriceBefore)
+        ).toBe(true)
+        expect(sell.priceInfo.priceImpactBps.gt(0)).toBe(true)
+        expect(sell.priceInfo.effectiveFeeBps.toNumber()).toBeCloseTo(100, 2)
+    })
+})
@@ -0,0 +1,146 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import { Connection, Keypair } from '@solana/web3.js'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithMarketCap,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    createDbcProgram,
+    DYNAMIC_BONDING_CURVE_PROGRAM_ID,
+    MigrationFeeOption,
+    MigrationOption,
+    PoolService,
+    swapQuote,
+    TokenDecimal,
+    TokenType,
+} from '../src'
+import {
+    createMockConnection,
+    createPoolConfig,
+    createVirtualPool,
+} from './utils/common'
+
+describe('swapWithSlippage tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const clock = { currentSlot: 1000, currentTime: 1750000000 }
+    const { program } = createDbcProgram(
+        new Connection('http://localhost:8899')
+    )
+
+    const configAddress = Keypair.generate().publicKey
+    const poolAddress = Keypair.generate().publicKey
+    const config = createPoolConfig(
+        buildCurveWithMarketCap({
+            ...baseParams,
+            initialMarketCap: 20,
+            migrationMarketCap: 600,
+        }),
+        { quoteMint: Keypair.generate().publicKey }
+    )
+    const virtualPool = createVirtualPool(config, {
+        config: configAddress,
+        baseMint: Keypair.generate().publicKey,
+        baseVault: Keypair.generate().publicKey,
+        quoteVault: Keypair.generate().publicKey,
+    })
+
+    const { connection } = createMockConnection(
+        [
+            { address: configAddress, type: 'poolConfig', data: config },
+            { address: poolAddress, type: 'virtualPool', data: virtualPool },
+        ],
+        clock
+    )
+    const poolService = new PoolService(connection, 'confirmed')
+
+    test('transaction is built from the returned quote', async () => {
+        const amountIn = new BN(10 ** TokenDecimal.NINE)
+        const { transaction, quote } = await poolService.swapWithSlippage({
+            owner: Keypair.generate().publicKey,
+            pool: poolAddress,
+            amountIn,
+            slippageBps: 100,
+            swapBaseForQuote: false,
+            referralTokenAccount: null,
+        })
+
+        const expected = await swapQuote(
+            virtualPool,
+            config,
+            false,
+            amountIn,
+            100,
+            false,
+            new BN(clock.currentSlot)
+        )
+        expect(quote.amountOut.eq(expected.amountOut)).toBe(true)
+        expect(quote.minimumAmountOut.eq(expected.minimumAmountOut)).toBe(true)
+        expect(quote.minimumAmountOut.lt(quote.amountOut)).toBe(true)
+
+        const swapIx = transaction.instructions.find((ix) =>
+            ix.programId.equals(DYNAMIC_BONDING_CURVE_PROGRAM_ID)
+        )
+        const decoded = program.coder.instruction.decode(swapIx.data) as {
+            name: string
+            data: { params: { amountIn: BN; minimumAmountOut: BN } }
+        }
+        expect(decoded.name).toBe('swap')
+        expect(decoded.data.params.amountIn.eq(amountIn)).toBe(true)
+        expect(
+            decoded.data.params.minimumAmountOut.eq(quote.minimumAmountOut)
+        ).toBe(true)
+    })
+
+    test('invalid slippage is rejected', async () => {
+        await expect(
+            poolService.swapWithSlippage({
+                owner: Keypair.generate().publicKey,
+                pool: poolAddress,
+                amountIn: new BN(10 ** TokenDecimal.NINE),
+                slippageBps: 10001,
+                swapBaseForQuote: false,
+                referralTokenAccount: null,
+            })
+        ).rejects.toThrow('Slippage must be an integer between 0 and 10000 bps')
+    })
+})
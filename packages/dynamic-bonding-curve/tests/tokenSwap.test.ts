@@ -0,0 +1,469 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import { AccountInfo, Connection, Keypair, PublicKey } from '@solana/web3.js'
+import { BorshAccountsCoder } from '@coral-xyz/anchor'
+import {
+    ACCOUNT_SIZE,
+    AccountLayout,
+    MINT_SIZE,
+    MintLayout,
+    NATIVE_MINT,
+    TOKEN_PROGRAM_ID,
+} from '@solana/spl-token'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithMarketCap,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    createDammV1Program,
+    createDammV2Program,
+    createVaultProgram,
+    DAMM_V1_MIGRATION_FEE_ADDRESS,
+    DAMM_V1_PROGRAM_ID,
+    DAMM_V2_MIGRATION_FEE_ADDRESS,
+    DAMM_V2_PROGRAM_ID,
+    DammV2Pool,
+    deriveDammV1PoolAddress,
+    deriveDammV2PoolAddress,
+    DYNAMIC_BONDING_CURVE_PROGRAM_ID,
+    DynamicBondingCurveClient,
+    getDammV1SwapQuote,
+    getDammV2SwapQuote,
+    MigrationFeeOption,
+    MigrationOption,
+    MigrationProgress,
+    PoolConfig,
+    swapQuote,
+    TokenDecimal,
+    TokenType,
+    VAULT_PROGRAM_ID,
+    VirtualPool,
+} from '../src'
+import {
+    createMockConnection,
+    createPoolConfig,
+    createVirtualPool,
+    encodeAccountData,
+    Q,
+} from './utils/common'
+
+describe('token swap tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const clock = { currentSlot: 1000, currentTime: 1750000000 }
+    const dummyConnection = new Connection('http://localhost:8899')
+    const dammV1Coder = createDammV1Program(dummyConnection).coder
+        .accounts as BorshAccountsCoder
+    const dammV2Coder = createDammV2Program(dummyConnection).coder
+        .accounts as BorshAccountsCoder
+    const vaultCoder = createVaultProgram(dummyConnection).coder
+        .accounts as BorshAccountsCoder
+
+    const owner = Keypair.generate()
+    const configAddress = Keypair.generate().publicKey
+    const poolAddress = Keypair.generate().publicKey
+    const baseMint = Keypair.generate().publicKey
+    const quoteMint = NATIVE_MINT
+    const configParams = buildCurveWithMarketCap({
+        ...baseParams,
+        initialMarketCap: 20,
+        migrationMarketCap: 600,
+    })
+    const dammV1Pool = deriveDammV1PoolAddress(
+        DAMM_V1_MIGRATION_FEE_ADDRESS[MigrationFeeOption.FixedBps100],
+        baseMint,
+        quoteMint
+    )
+    const dammV2Pool = deriveDammV2PoolAddress(
+        DAMM_V2_MIGRATION_FEE_ADDRESS[MigrationFeeOption.FixedBps100],
+        baseMint,
+        quoteMint
+    )
+
+    // zero initialized account with the given fields
+    const createAccount = <T>(
+        coder: BorshAccountsCoder,
+        accountName: string,
+        fields: Partial<T>
+    ) =>
+        ({
+            ...coder.decode<T>(
+                accountName,
+                Buffer.concat([
+                    coder.accountDiscriminator(accountName),
+                    Buffer.alloc(2000),
+                ])
+            ),
+            ...fields,
+        }) as T
+
+    const keys = {
+        aVault: Keypair.generate().publicKey,
+        bVault: Keypair.generate().publicKey,
+        aVaultLp: Keypair.generate().publicKey,
+        bVaultLp: Keypair.generate().publicKey,
+        aVaultLpMint: Keypair.generate().publicKey,
+        bVaultLpMint: Keypair.generate().publicKey,
+        lpMint: Keypair.generate().publicKey,
+        protocolTokenAFee: Keypair.generate().publicKey,
+        protocolTokenBFee: Keypair.generate().publicKey,
+    }
+
+    const { poolFees } = createAccount<DammV2Pool>(dammV2Coder, 'pool', {})
+    const dammV2PoolState = createAccount<DammV2Pool>(dammV2Coder, 'pool', {
+        tokenAMint: baseMint,
+        tokenBMint: quoteMint,
+        tokenAVault: Keypair.generate().publicKey,
+        tokenBVault: Keypair.generate().publicKey,
+        sqrtMinPrice: Q(0.5),
+        sqrtPrice: Q(1),
+        sqrtMaxPrice: Q(2),
+        liquidity: new BN(1000000000).shln(64),
+        collectFeeMode: 1,
+        poolFees: {
+            ...poolFees,
+            baseFee: {
+                ...poolFees.baseFee,
+                // 0.25%
+                cliffFeeNumerator: new BN(2500000),
+            },
+            protocolFeePercent: 20,
+            referralFeePercent: 20,
+        },
+    })
+
+    const setup = (
+        poolOverrides: Partial<VirtualPool>,
+        configOverrides: Partial<PoolConfig> = {}
+    ) => {
+        const config = createPoolConfig(configParams, {
+            quoteMint,
+            ...configOverrides,
+        })
+        const virtualPool = createVirtualPool(config, {
+            config: configAddress,
+            baseMint,
+            baseVault: Keypair.generate().publicKey,
+            quoteVault: Keypair.generate().publicKey,
+            ...poolOverrides,
+        })
+        const { connection } = createMockConnection(
+            [
+                { address: configAddress, type: 'poolConfig', data: config },
+                {
+                    address: poolAddress,
+                    type: 'virtualPool',
+                    data: virtualPool,
+                },
+            ],
+            clock
+        )
+
+        const extraAccounts = new Map<string, AccountInfo<Buffer>>()
+        const addAccount = (
+            address: PublicKey,
+            data: Buffer,
+            owner: PublicKey
+        ) =>
+            extraAccounts.set(address.toBase58(), {
+                data,
+                owner,
+                executable: false,
+                lamports: 1,
+            })
+        const addProgramAccount = (
+            coder: BorshAccountsCoder,
+            owner: PublicKey,
+            address: PublicKey,
+            accountName: string,
+            fields: object
+        ) =>
+            addAccount(
+                address,
+                encodeAccountData(
+                    coder,
+                    accountName,
+                    createAccount(coder, accountName, fields)
+                ),
+                owner
+            )
+        const addMint = (address: PublicKey, supply: number) => {
+            const data = Buffer.alloc(MINT_SIZE)
+            MintLayout.encode(
+                {
+                    mintAuthorityOption: 0,
+                    mintAuthority: PublicKey.default,
+                    supply: BigInt(supply),
+                    decimals: TokenDecimal.NINE,
+                    isInitialized: true,
+                    freezeAuthorityOption: 0,
+                    freezeAuthority: PublicKey.default,
+                },
+                data
+            )
+            addAccount(address, data, TOKEN_PROGRAM_ID)
+        }
+        const addTokenAccount = (
+            address: PublicKey,
+            mint: PublicKey,
+            amount: number
+        ) => {
+            const data = Buffer.alloc(ACCOUNT_SIZE)
+            AccountLayout.encode(
+                {
+                    mint,
+                    owner: dammV1Pool,
+                    amount: BigInt(amount),
+                    delegateOption: 0,
+                    delegate: PublicKey.default,
+                    state: 1,
+                    isNativeOption: 0,
+                    isNative: BigInt(0),
+                    delegatedAmount: BigInt(0),
+                    closeAuthorityOption: 0,
+                    closeAuthority: PublicKey.default,
+                },
+                data
+            )
+            addAccount(address, data, TOKEN_PROGRAM_ID)
+        }
+
+        // a constant product DAMM V1 pool holding 1,000,000 token A and
+        // 2,000,000 token B, with a 0.25% trading fee of which 20% is protocol fee
+        addProgramAccount(dammV1Coder, DAMM_V1_PROGRAM_ID, dammV1Pool, 'pool', {
+            lpMint: keys.lpMint,
+            tokenAMint: baseMint,
+            tokenBMint: quoteMint,
+            aVault: keys.aVault,
+            bVault: keys.bVault,
+            aVaultLp: keys.aVaultLp,
+            bVaultLp: keys.bVaultLp,
+            protocolTokenAFee: keys.protocolTokenAFee,
+            protocolTokenBFee: keys.protocolTokenBFee,
+            fees: {
+                tradeFeeNumerator: new BN(25),
+                tradeFeeDenominator: new BN(10000),
+                protocolTradeFeeNumerator: new BN(20),
+                protocolTradeFeeDenominator: new BN(100),
+            },
+        })
+        addProgramAccount(vaultCoder, VAULT_PROGRAM_ID, keys.aVault, 'vault', {
+            totalAmount: new BN(1000000),
+            tokenVault: Keypair.generate().publicKey,
+            lpMint: keys.aVaultLpMint,
+        })
+        addProgramAccount(vaultCoder, VAULT_PROGRAM_ID, keys.bVault, 'vault', {
+            totalAmount: new BN(2000000),
+            tokenVault: Keypair.generate().publicKey,
+            lpMint: keys.bVaultLpMint,
+        })
+        addMint(keys.aVaultLpMint, 1000)
+        addMint(keys.bVaultLpMint, 1000)
+        addTokenAccount(keys.aVaultLp, keys.aVaultLpMint, 1000)
+        addTokenAccount(keys.bVaultLp, keys.bVaultLpMint, 1000)
+        addMint(keys.lpMint, 1000)
+
+        addAccount(
+            dammV2Pool,
+            encodeAccountData(dammV2Coder, 'pool', dammV2PoolState),
+            DAMM_V2_PROGRAM_ID
+        )
+
+        const getAccountInfo = async (key: PublicKey) =>
+            extraAccounts.get(key.toBase58()) ?? connection.getAccountInfo(key)
+        const swapConnection = {
+            ...connection,
+            getAccountInfo,
+            getAccountInfoAndContext: async (key: PublicKey) => ({
+                context: { slot: clock.currentSlot },
+                value: await getAccountInfo(key),
+            }),
+            getMultipleAccountsInfo: async (keys: PublicKey[]) =>
+                Promise.all(keys.map(getAccountInfo)),
+        } as unknown as Connection
+
+        const { tokenSwap } = DynamicBondingCurveClient.create(swapConnection)
+        return { tokenSwap, config, virtualPool }
+    }
+
+    test('swaps are routed to the DBC pool while it is trading', async () => {
+        const { tokenSwap, config, virtualPool } = setup({
+            migrationProgress: MigrationProgress.PreBondingCurve,
+        })
+        const param = {
+            owner: owner.publicKey,
+            baseMint,
+            amountIn: new BN(1000000000),
+            slippageBps: 100,
+            swapBaseForQuote: false,
+        }
+
+        const expected = await swapQuote(
+            virtualPool,
+            config,
+            false,
+            param.amountIn,
+            100,
+            false,
+            new BN(clock.currentSlot)
+        )
+        const { quote, instructions } = await tokenSwap.swapInstructions(param)
+        expect(quote.venue).toBe('dbc')
+        expect(quote.pool.equals(poolAddress)).toBe(true)
+        expect(quote.amountOut.eq(expected.amountOut)).toBe(true)
+        expect(quote.minimumAmountOut.eq(expected.minimumAmountOut)).toBe(true)
+        expect(
+            instructions[0].programId.equals(DYNAMIC_BONDING_CURVE_PROGRAM_ID)
+        ).toBe(true)
+
+        // swaps stop once the curve is complete, until the pool is migrated
+        const { tokenSwap: completedTokenSwap } = setup({
+            migrationProgress: MigrationProgress.PostBondingCurve,
+        })
+        await expect(completedTokenSwap.swapQuote(param)).rejects.toThrow(
+            'Pool curve is complete and not migrated yet'
+        )
+        await expect(
+            tokenSwap.swapQuote({
+                ...param,
+                baseMint: Keypair.generate().publicKey,
+            })
+        ).rejects.toThrow('Pool not found for base mint')
+    })
+
+    test('swaps are routed to the DAMM V2 pool after the migration', async () => {
+        const { tokenSwap } = setup({
+            migrationProgress: MigrationProgress.CreatedPool,
+            isMigrated: 1,
+        })
+        const referralTokenAccount = Keypair.generate().publicKey
+        const param = {
+            owner: owner.publicKey,
+            baseMint,
+            amountIn: new BN(1000000),
+            slippageBps: 100,
+            swapBaseForQuote: false,
+            referralTokenAccount,
+        }
+
+        const expected = getDammV2SwapQuote(
+            dammV2PoolState,
+            false,
+            param.amountIn,
+            true,
+            new BN(clock.currentSlot)
+        )
+        // the fee is charged on the quote token input: 0.25% of 1,000,000
+        expect(
+            expected.fee.trading
+                .add(expected.fee.protocol)
+                .add(expected.fee.referral!)
+                .toNumber()
+        ).toBe(2500)
+        expect(expected.fee.referral!.toNumber()).toBe(100)
+
+        const { quote, instructions, setupInstructions, cleanupInstructions } =
+            await tokenSwap.swapInstructions(param)
+        expect(quote.venue).toBe('dammV2')
+        expect(quote.pool.equals(dammV2Pool)).toBe(true)
+        expect(quote.amountOut.eq(expected.amountOut)).toBe(true)
+        expect(
+            quote.minimumAmountOut.eq(expected.amountOut.muln(9900).divn(10000))
+        ).toBe(true)
+        expect(instructions[0].programId.equals(DAMM_V2_PROGRAM_ID)).toBe(true)
+        expect(
+            instructions[0].keys.some((key) =>
+                key.pubkey.equals(referralTokenAccount)
+            )
+        ).toBe(true)
+        // the SOL input is wrapped, and unwrapped after the swap
+        expect(setupInstructions.length).toBe(4)
+        expect(cleanupInstructions.length).toBe(1)
+    })
+
+    test('swaps are routed to the DAMM V1 pool after the migration', async () => {
+        const { tokenSwap } = setup(
+            {
+                migrationProgress: MigrationProgress.CreatedPool,
+                isMigrated: 1,
+            },
+            { migrationOption: MigrationOption.MET_DAMM }
+        )
+        const param = {
+            owner: owner.publicKey,
+            baseMint,
+            amountIn: new BN(10000),
+            slippageBps: 100,
+            swapBaseForQuote: true,
+        }
+
+        // 25 trading fee of which 5 protocol fee,
+        // 2,000,000 * 9975 / (1,000,000 + 9975)
+        const quote = await tokenSwap.swapQuote(param)
+        expect(quote.venue).toBe('dammV1')
+        expect(quote.pool.equals(dammV1Pool)).toBe(true)
+        expect(quote.amountOut.toNumber()).toBe(19752)
+        expect(quote.minimumAmountOut.toNumber()).toBe(19554)
+        expect(quote.fee.trading.toNumber()).toBe(20)
+        expect(quote.fee.protocol.toNumber()).toBe(5)
+
+        const { instructions } = await tokenSwap.swapInstructions(param)
+        expect(instructions[0].programId.equals(DAMM_V1_PROGRAM_ID)).toBe(true)
+        // the protocol fee is charged on the base token input
+        expect(
+            instructions[0].keys.some((key) =>
+                key.pubkey.equals(keys.protocolTokenAFee)
+            )
+        ).toBe(true)
+
+        expect(() =>
+            getDammV1SwapQuote(
+                createAccount(dammV1Coder, 'pool', {
+                    curveType: { stable: {} },
+                }),
+                new BN(1000),
+                new BN(1000),
+                true,
+                new BN(10)
+            )
+        ).toThrow('Only constant product DAMM V1 pools are supported')
+    })
+})
@@ -1,10 +1,29 @@
 import BN from 'bn.js'
+import {
+    AccountInfo,
+    AddressLookupTableAccount,
+    Connection,
+    PublicKey,
+    VersionedTransaction,
+} from '@solana/web3.js'
+import { BorshAccountsCoder, BorshEventCoder, utils } from '@coral-xyz/anchor'
 import {
     BaseFee,
     bpsToFeeNumerator,
+    ConfigParameters,
+    createDbcProgram,
+    DYNAMIC_BONDING_CURVE_PROGRAM_ID,
     FEE_DENOMINATOR,
+    getBaseTokenForSwap,
+    getMigrationBaseToken,
+    getMigrationQuoteAmountFromMigrationQuoteThreshold,
+    getMigrationThresholdPrice,
+    fromDecimalToBN,
     MAX_FEE_NUMERATOR,
+    PoolConfig,
+    VirtualPool,
 } from '../../src'
+import Decimal from 'decimal.js'
 
 // Helper function to convert BN values to decimal strings
 export function convertBNToDecimal<T>(obj: T): T {
@@ -107,3 +126,408 @@ export function calculateRateLimiterFee(params: BaseFee, inputAmount: BN): BN {
 
     return fee.div(new BN(FEE_DENOMINATOR))
 }
+
+// Build an in-memory PoolConfig account from config parameters,
+// deriving the migration fields the same way create_config does
+export function createPoolConfig(
+    configParams: ConfigParameters,
+    overrides: Partial<PoolConfig> = {}
+): PoolConfig {
+    const migrationSqrtPrice = getMigrationThresholdPrice(
+        configParams.migrationQuoteThreshold,
+        configParams.sqrtStartPrice,
+        configParams.curve
+    )
+    const swapBaseAmount = getBaseTokenForSwap(
+        configParams.sqrtStartPrice,
+        migrationSqrtPrice,
+        configParams.curve
+    )
+    const migrationQuoteAmount =
+        getMigrationQuoteAmountFromMigrationQuoteThreshold(
+            new Decimal(configParams.migrationQuoteThreshold.toString()),
+            configParams.migrationFee.feePercentage
+        )
+    const migrationBaseThreshold = getMigrationBaseToken(
+        fromDecimalToBN(migrationQuoteAmount),
+        migrationSqrtPrice,
+        configParams.migrationOption
+    )
+
+    // the on-chain account stores a fixed 20 point curve, zero padded
+    const curve = Array.from({ length: 20 }, (_, i) =>
+        configParams.curve[i]
+            ? { ...configParams.curve[i] }
+            : { sqrtPrice: new BN(0), liquidity: new BN(0) }
+    )
+
+    const dynamicFee = configParams.poolFees.dynamicFee
+
+    return {
+        quoteMint: PublicKey.default,
+        feeClaimer: PublicKey.default,
+        leftoverReceiver: PublicKey.default,
+        poolFees: {
+            baseFee: {
+                ...configParams.poolFees.baseFee,
+                padding0: new Array(5).fill(0),
+            },
+            dynamicFee: {
+                initialized: dynamicFee ? 1 : 0,
+                padding: new Array(7).fill(0),
+                maxVolatilityAccumulator:
+                    dynamicFee?.maxVolatilityAccumulator ?? 0,
+                variableFeeControl: dynamicFee?.variableFeeControl ?? 0,
+                binStep: dynamicFee?.binStep ?? 0,
+                filterPeriod: dynamicFee?.filterPeriod ?? 0,
+                decayPeriod: dynamicFee?.decayPeriod ?? 0,
+                reductionFactor: dynamicFee?.reductionFactor ?? 0,
+                padding2: new Array(8).fill(0),
+                binStepU128: dynamicFee?.binStepU128 ?? new BN(0),
+            },
+            padding0: new Array(5).fill(new BN(0)),
+            padding1: new Array(6).fill(0),
+            protocolFeePercent: 20,
+            referralFeePercent: 20,
+        },
+        collectFeeMode: configParams.collectFeeMode,
+        migrationOption: configParams.migrationOption,
+        activationType: configParams.activationType,
+        tokenDecimal: configParams.tokenDecimal,
+        version: 0,
+        tokenType: configParams.tokenType,
+        quoteTokenFlag: 0,
+        partnerLockedLpPercentage: configParams.partnerLockedLpPercentage,
+        partnerLpPercentage: configParams.partnerLpPercentage,
+        creatorLockedLpPercentage: configParams.creatorLockedLpPercentage,
+        creatorLpPercentage: configParams.creatorLpPercentage,
+        migrationFeeOption: configParams.migrationFeeOption,
+        fixedTokenSupplyFlag: configParams.tokenSupply ? 1 : 0,
+        creatorTradingFeePercentage: configParams.creatorTradingFeePercentage,
+        tokenUpdateAuthority: configParams.tokenUpdateAuthority,
+        migrationFeePercentage: configParams.migrationFee.feePercentage,
+        creatorMigrationFeePercentage:
+            configParams.migrationFee.creatorFeePercentage,
+        padding1: new Array(7).fill(0),
+        swapBaseAmount,
+        migrationQuoteThreshold: configParams.migrationQuoteThreshold,
+        migrationBaseThreshold,
+        migrationSqrtPrice,
+        lockedVestingConfig: {
+            amountPerPeriod: configParams.lockedVesting.amountPerPeriod,
+            cliffDurationFromMigrationTime:
+                configParams.lockedVesting.cliffDurationFromMigrationTime,
+            frequency: configParams.lockedVesting.frequency,
+            numberOfPeriod: configParams.lockedVesting.numberOfPeriod,
+            cliffUnlockAmount: configParams.lockedVesting.cliffUnlockAmount,
+            padding: new BN(0),
+        },
+        preMigrationTokenSupply:
+            configParams.tokenSupply?.preMigrationTokenSupply ?? new BN(0),
+        postMigrationTokenSupply:
+            configParams.tokenSupply?.postMigrationTokenSupply ?? new BN(0),
+        padding2: new Array(2).fill(new BN(0)),
+        sqrtStartPrice: configParams.sqrtStartPrice,
+        curve,
+        ...overrides,
+    } as PoolConfig
+}
+
+// Build an in-memory VirtualPool account sitting at the start of the curve
+export function createVirtualPool(
+    poolConfig: PoolConfig,
+    overrides: Partial<VirtualPool> = {}
+): VirtualPool {
+    return {
+        volatilityTracker: {
+            lastUpdateTimestamp: new BN(0),
+            padding: new Array(8).fill(0),
+            sqrtPriceReference: new BN(0),
+            volatilityAccumulator: new BN(0),
+            volatilityReference: new BN(0),
+        },
+        config: PublicKey.default,
+        creator: PublicKey.default,
+        baseMint: PublicKey.default,
+        baseVault: PublicKey.default,
+        quoteVault: PublicKey.default,
+        baseReserve: poolConfig.swapBaseAmount.add(
+            poolConfig.migrationBaseThreshold
+        ),
+        quoteReserve: new BN(0),
+        protocolBaseFee: new BN(0),
+        protocolQuoteFee: new BN(0),
+        partnerBaseFee: new BN(0),
+        partnerQuoteFee: new BN(0),
+        sqrtPrice: poolConfig.sqrtStartPrice,
+        activationPoint: new BN(0),
+        poolType: poolConfig.tokenType,
+        isMigrated: 0,
+        isPartnerWithdrawSurplus: 0,
+        isProtocolWithdrawSurplus: 0,
+        migrationProgress: 0,
+        isWithdrawLeftover: 0,
+        isCreatorWithdrawSurplus: 0,
+        migrationFeeWithdrawStatus: 0,
+        metrics: {
+            totalProtocolBaseFee: new BN(0),
+            totalProtocolQuoteFee: new BN(0),
+            totalTradingBaseFee: new BN(0),
+            totalTradingQuoteFee: new BN(0),
+        },
+        finishCurveTimestamp: new BN(0),
+        creatorBaseFee: new BN(0),
+        creatorQuoteFee: new BN(0),
+        padding1: new Array(7).fill(new BN(0)),
+        ...overrides,
+    } as VirtualPool
+}
+
+// Encode account data with its discriminator. BorshAccountsCoder.encode
+// allocates a fixed 1000 byte buffer which is too small for PoolConfig
+export function encodeAccountData(
+    coder: BorshAccountsCoder,
+    accountName: string,
+    data: unknown
+): Buffer {
+    const { layout } = (
+        coder as unknown as {
+            accountLayouts: Map<
+                string,
+                {
+                    layout: {
+                        encode: (data: unknown, buffer: Buffer) => number
+                    }
+                }
+            >
+        }
+    ).accountLayouts.get(accountName)
+    const buffer = Buffer.alloc(10000)
+    const len = layout.encode(data, buffer)
+    return Buffer.concat([
+        coder.accountDiscriminator(accountName),
+        buffer.subarray(0, len),
+    ])
+}
+
+// Encode event data with its discriminator, BorshEventCoder only decodes
+export function encodeEventData(
+    coder: BorshEventCoder,
+    eventName: string,
+    data: unknown
+): Buffer {
+    const { discriminator, layout } = (
+        coder as unknown as {
+            layouts: Map<
+                string,
+                {
+                    discriminator: number[]
+                    layout: {
+                        encode: (data: unknown, buffer: Buffer) => number
+                    }
+                }
+            >
+        }
+    ).layouts.get(eventName)
+    const buffer = Buffer.alloc(1000)
+    const len = layout.encode(data, buffer)
+    return Buffer.concat([Buffer.from(discriminator), buffer.subarray(0, len)])
+}
+
+// Connection that serves encoded program accounts from memory, treats every
+// other account as missing and records the rpc calls it receives
+export const MOCK_UNITS_CONSUMED = 100000
+export const MOCK_PRIORITIZATION_FEES = [0, 5000, 100, 1000, 200]
+
+export function createMockConnection(
+    accounts: Array<{
+        address: PublicKey
+        type:
+            | 'virtualPool'
+            | 'poolConfig'
+            | 'meteoraDammMigrationMetadata'
+            | 'claimFeeOperator'
+        data: unknown
+    }>,
+    clock: { currentSlot: number; currentTime: number },
+    lookupTables: AddressLookupTableAccount[] = []
+) {
+    const { program } = createDbcProgram(
+        new Connection('http://localhost:8899')
+    )
+    const accountInfos = new Map<string, AccountInfo<Buffer>>()
+    for (const { address, type, data } of accounts) {
+        accountInfos.set(address.toBase58(), {
+            data: encodeAccountData(
+                program.coder.accounts as BorshAccountsCoder,
+                type,
+                data
+            ),
+            owner: DYNAMIC_BONDING_CURVE_PROGRAM_ID,
+            executable: false,
+            lamports: 1,
+        })
+    }
+    const getAccountInfo = (key: PublicKey) =>
+        accountInfos.get(key.toBase58()) ?? null
+
+    const calls = {
+        getMultipleAccountsInfo: [] as number[],
+        getMultipleAccountsInfoAndContext: [] as Array<{
+            count: number
+            minContextSlot?: number
+        }>,
+        getSlot: 0,
+        getBlockTime: 0,
+        simulateTransaction: [] as VersionedTransaction[],
+        getRecentPrioritizationFees: [] as PublicKey[][],
+        subscribe: 0,
+        sendRawTransaction: [] as Buffer[],
+    }
+    // subscription id => listener registered with on*Change and onLogs
+    const listeners = new Map<
+        number,
+        {
+            type: 'account' | 'programAccount' | 'logs'
+            callback: (...args: unknown[]) => void
+        }
+    >()
+    const addListener =
+        (type: 'account' | 'programAccount' | 'logs') =>
+        (_filter: unknown, callback: (...args: unknown[]) => void) => {
+            const id = ++calls.subscribe
+            listeners.set(id, { type, callback })
+            return id
+        }
+    const removeListener = async (id: number) => {
+        listeners.delete(id)
+    }
+    const subscriptions = {
+        count: (type: 'account' | 'programAccount' | 'logs') =>
+            [...listeners.values()].filter((listener) => listener.type === type)
+                .length,
+        notify: (
+            type: 'account' | 'programAccount' | 'logs',
+            ...args: unknown[]
+        ) => {
+            for (const listener of [...listeners.values()]) {
+                if (listener.type === type) {
+                    listener.callback(...args)
+                }
+            }
+        },
+    }
+
+    const connection = {
+        commitment: 'confirmed',
+        rpcEndpoint: 'http://localhost:8899',
+        getAccountInfo: async (key: PublicKey) => getAccountInfo(key),
+        getAccountInfoAndContext: async (key: PublicKey) => ({
+            context: { slot: clock.currentSlot },
+            value: getAccountInfo(key),
+        }),
+        getProgramAccounts: async (
+            _programId: PublicKey,
+            config?: {
+                filters?: Array<{ memcmp: { offset: number; bytes: string } }>
+                withContext?: boolean
+            }
+        ) => {
+            const value = [...accountInfos.entries()]
+                .filter(([, account]) =>
+                    (config?.filters ?? []).every(({ memcmp }) => {
+                        const bytes = Buffer.from(
+                            utils.bytes.bs58.decode(memcmp.bytes)
+                        )
+                        return account.data
+                            .subarray(
+                                memcmp.offset,
+                                memcmp.offset + bytes.length
+                            )
+                            .equals(bytes)
+                    })
+                )
+                .map(([key, account]) => ({
+                    pubkey: new PublicKey(key),
+                    account,
+                }))
+            return config?.withContext
+                ? { context: { slot: clock.currentSlot }, value }
+                : value
+        },
+        onAccountChange: addListener('account'),
+        onProgramAccountChange: addListener('programAccount'),
+        onLogs: addListener('logs'),
+        removeAccountChangeListener: removeListener,
+        removeProgramAccountChangeListener: removeListener,
+        removeOnLogsListener: removeListener,
+        getMultipleAccountsInfo: async (keys: PublicKey[]) => {
+            calls.getMultipleAccountsInfo.push(keys.length)
+            return keys.map(getAccountInfo)
+        },
+        getMultipleAccountsInfoAndContext: async (
+            keys: PublicKey[],
+            config?: { minContextSlot?: number }
+        ) => {
+            calls.getMultipleAccountsInfoAndContext.push({
+                count: keys.length,
+                minContextSlot: config?.minContextSlot,
+            })
+            return {
+                context: { slot: clock.currentSlot },
+                value: keys.map(getAccountInfo),
+            }
+        },
+        getSlot: async () => {
+            calls.getSlot++
+            return clock.currentSlot
+        },
+        getBlockTime: async () => {
+            calls.getBlockTime++
+            return clock.currentTime
+        },
+        getLatestBlockhash: async () => ({
+            blockhash: PublicKey.default.toBase58(),
+            lastValidBlockHeight: clock.currentSlot,
+        }),
+        sendRawTransaction: async (rawTransaction: Buffer) => {
+            calls.sendRawTransaction.push(rawTransaction)
+            return `signature${calls.sendRawTransaction.length}`
+        },
+        confirmTransaction: async () => ({
+            context: { slot: clock.currentSlot },
+            value: { err: null },
+        }),
+        getAddressLookupTable: async (key: PublicKey) => ({
+            context: { slot: clock.currentSlot },
+            value:
+                lookupTables.find((lookupTable) =>
+                    lookupTable.key.equals(key)
+                ) ?? null,
+        }),
+        simulateTransaction: async (transaction: VersionedTransaction) => {
+            calls.simulateTransaction.push(transaction)
+            return {
+                context: { slot: clock.currentSlot },
+                value: {
+                    err: null,
+                    logs: [],
+                    unitsConsumed: MOCK_UNITS_CONSUMED,
+                },
+            }
+        },
+        getRecentPrioritizationFees: async (config?: {
+            lockedWritableAccounts?: PublicKey[]
+        }) => {
+            calls.getRecentPrioritizationFees.push(
+                config?.lockedWritableAccounts ?? []
+            )
+            return MOCK_PRIORITIZATION_FEES.map((prioritizationFee, i) => ({
+                slot: clock.currentSlot - i,
+                prioritizationFee,
+            }))
+        },
+    } as unknown as Connection
+
+    return { connection, calls, subscriptions }
+}
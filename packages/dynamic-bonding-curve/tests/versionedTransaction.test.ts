@@ -0,0 +1,168 @@
+import { expect, test, describe } from 'bun:test'
+import BN from 'bn.js'
+import {
+    AddressLookupTableAccount,
+    Keypair,
+    Transaction,
+    VersionedTransaction,
+} from '@solana/web3.js'
+import {
+    ActivationType,
+    BaseFeeMode,
+    buildCurveWithMarketCap,
+    BuildCurveBaseParam,
+    CollectFeeMode,
+    getStaticLookupTableAddresses,
+    MigrationFeeOption,
+    MigrationOption,
+    PoolService,
+    TokenDecimal,
+    TokenType,
+    TransactionOptions,
+} from '../src'
+import {
+    createMockConnection,
+    createPoolConfig,
+    createVirtualPool,
+} from './utils/common'
+
+describe('versioned transaction tests', () => {
+    const baseParams: BuildCurveBaseParam = {
+        totalTokenSupply: 1000000000,
+        migrationOption: MigrationOption.MET_DAMM_V2,
+        tokenBaseDecimal: TokenDecimal.SIX,
+        tokenQuoteDecimal: TokenDecimal.NINE,
+        lockedVestingParam: {
+            totalLockedVestingAmount: 0,
+            numberOfVestingPeriod: 0,
+            cliffUnlockAmount: 0,
+            totalVestingDuration: 0,
+            cliffDurationFromMigrationTime: 0,
+        },
+        baseFeeParams: {
+            baseFeeMode: BaseFeeMode.FeeSchedulerLinear,
+            feeSchedulerParam: {
+                startingFeeBps: 100,
+                endingFeeBps: 100,
+                numberOfPeriod: 0,
+                totalDuration: 0,
+            },
+        },
+        dynamicFeeEnabled: true,
+        activationType: ActivationType.Slot,
+        collectFeeMode: CollectFeeMode.OnlyQuote,
+        migrationFeeOption: MigrationFeeOption.FixedBps100,
+        tokenType: TokenType.SPL,
+        partnerLpPercentage: 0,
+        creatorLpPercentage: 0,
+        partnerLockedLpPercentage: 100,
+        creatorLockedLpPercentage: 0,
+        creatorTradingFeePercentage: 0,
+        leftover: 10000,
+        tokenUpdateAuthority: 0,
+        migrationFee: {
+            feePercentage: 0,
+            creatorFeePercentage: 0,
+        },
+    }
+
+    const clock = { currentSlot: 1000, currentTime: 1750000000 }
+
+    const configAddress = Keypair.generate().publicKey
+    const poolAddress = Keypair.generate().publicKey
+    const config = createPoolConfig(
+        buildCurveWithMarketCap({
+            ...baseParams,
+            initialMarketCap: 20,
+            migrationMarketCap: 600,
+        }),
+        { quoteMint: Keypair.generate().publicKey }
+    )
+    const virtualPool = createVirtualPool(config, {
+        config: configAddress,
+        baseMint: Keypair.generate().publicKey,
+        baseVault: Keypair.generate().publicKey,
+        quoteVault: Keypair.generate().publicKey,
+    })
+
+    const { connection } = createMockConnection(
+        [
+            { address: configAddress, type: 'poolConfig', data: config },
+            { address: poolAddress, type: 'virtualPool', data: virtualPool },
+        ],
+        clock
+    )
+    const poolService = new PoolService(connection, 'confirmed')
+
+    const owner = Keypair.generate().publicKey
+    const swapParam = {
+        owner,
+        pool: poolAddress,
+        amountIn: new BN(10 ** TokenDecimal.NINE),
+        minimumAmountOut: new BN(0),
+        swapBaseForQuote: false,
+        referralTokenAccount: null,
+    }
+
+    test('legacy transaction is returned by default', async () => {
+        const transaction = await poolService.swap(swapParam)
+        expect(transaction).toBeInstanceOf(Transaction)
+    })
+
+    test('versioned transaction resolves accounts through lookup tables', async () => {
+        const lookupTable = new AddressLookupTableAccount({
+            key: Keypair.generate().publicKey,
+            state: {
+                deactivationSlot: BigInt('18446744073709551615'),
+                lastExtendedSlot: 0,
+                lastExtendedSlotStartIndex: 0,
+                authority: undefined,
+                addresses: getStaticLookupTableAddresses(),
+            },
+        })
+
+        const legacy = await poolService.swap(swapParam)
+        const versioned = await poolService.swap(swapParam, {
+            versioned: true,
+            addressLookupTables: [lookupTable],
+        })
+
+        expect(versioned).toBeInstanceOf(VersionedTransaction)
+        expect(versioned.message.version).toBe(0)
+        expect(versioned.message.staticAccountKeys[0].equals(owner)).toBe(true)
+
+        const lookups = versioned.message.addressTableLookups
+        expect(lookups.length).toBe(1)
+        expect(lookups[0].accountKey.equals(lookupTable.key)).toBe(true)
+        expect(
+            lookups[0].readonlyIndexes.length +
+                lookups[0].writableIndexes.length
+        ).toBeGreaterThan(0)
+        expect(versioned.message.compiledInstructions.length).toBe(
+            legacy.instructions.length
+        )
+    })
+
+    test('options not known at compile time return either transaction', async () => {
+        const options: TransactionOptions = { versioned: false }
+        const transaction = await poolService.swap(swapParam, options)
+
+        // typed as Transaction | VersionedTransaction, narrowed at runtime
+        if (transaction instanceof VersionedTransaction) {
+            throw new Error('Expected a legacy transaction')
+        }
+        expect(transaction.instructions.length).toBeGreaterThan(0)
+    })
+
+    test('missing lookup table is rejected', async () => {
+        const lookupTableAddress = Keypair.generate().publicKey
+        await expect(
+            poolService.swap(swapParam, {
+                versioned: true,
+                addressLookupTables: [lookupTableAddress],
+            })
+        ).rejects.toThrow(
+            `Address lookup table not found: ${lookupTableAddress.toBase58()}`
+        )
+    })
+})